@@ -1,8 +1,9 @@
 import { headers } from "next/headers";
 import { ProxyContent } from "@/components/features/proxy-content";
 import type { Metadata } from "next";
-import { redis } from "@/lib/redis";
+import { cache } from "@/lib/cache";
 import { normalizeUrl, extractArticleUrl } from "@/lib/validation/url";
+import { SOURCES, buildCacheKey, isServerSource } from "@/lib/sources/registry";
 
 const siteName = process.env.NEXT_PUBLIC_SITE_NAME || "SMRY";
 const siteUrl = process.env.NEXT_PUBLIC_URL || "https://smry.ai";
@@ -96,21 +97,14 @@ export type ResponseItem = {
  */
 async function fetchArticleForMetadata(url: string): Promise<Article | null> {
   try {
-    // Try sources in order: fetch-fast, fetch-slow, jina.ai, wayback
-    const sources = ["fetch-fast", "fetch-slow", "jina.ai", "wayback"];
+    // Try sources in registry order
 
     // 1. Try to check lightweight metadata cache first
-    for (const source of sources) {
+    for (const source of SOURCES) {
       try {
-        let cacheKey;
-        if (source === 'jina.ai') {
-          cacheKey = `jina.ai:${url}`;
-        } else {
-          cacheKey = `${source}:${url}`;
-        }
-
+        const cacheKey = buildCacheKey(source, url);
         const metaKey = `meta:${cacheKey}`;
-        const meta = await redis.get<{ title: string; siteName: string; length: number }>(metaKey);
+        const meta = await cache.get<{ title: string; siteName: string; length: number }>(metaKey);
 
         if (meta && meta.title) {
           // Return minimal article object for metadata
@@ -132,8 +126,8 @@ async function fetchArticleForMetadata(url: string): Promise<Article | null> {
       }
     }
 
-    // 2. Fallback to full fetch if not found in metadata cache
-    for (const source of sources) {
+    // 2. Fallback to full fetch if not found in metadata cache (only /api/article sources)
+    for (const source of SOURCES.filter(isServerSource)) {
       try {
         // Add timeout to prevent hanging
         const controller = new AbortController();
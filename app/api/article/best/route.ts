@@ -0,0 +1,250 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { fromError } from "zod-validation-error";
+import { BestArticleRequestSchema, BestArticleResponseSchema, ErrorResponseSchema, SourceScore } from "@/types/api";
+import { cache, createRateLimiter } from "@/lib/cache";
+import { createLogger } from "@/lib/logger";
+import { getTextDirection } from "@/lib/rtl";
+import { hashIp, scrubUrl } from "@/lib/privacy";
+import { assertPublicUrl, isUnsafeUrlError } from "@/lib/safe-fetch";
+import { extractArticleUrl } from "@/lib/validation/url";
+import { buildCacheKey, getSourceDefinition, isServerSource, ServerSourceId, SOURCE_REGISTRY } from "@/lib/sources/registry";
+import { fetchArticle } from "@/lib/sources/server";
+import { CachedArticle } from "@/lib/sources/shared";
+import { readCachedArticle, saveOrReturnLongerArticle } from "@/lib/sources/article-cache";
+import { cacheExpirySeconds, getCachePolicy, isStale } from "@/lib/sources/cache-policy";
+import { revalidateArticle } from "@/lib/sources/revalidate";
+import { fillMissingFields, rankArticles } from "@/lib/sources/quality";
+import { getDomainStats, planAttempts } from "@/lib/sources/strategy-memory";
+
+const logger = createLogger('api:article:best');
+
+type SourceOutcome =
+  | { source: ServerSourceId; article: CachedArticle; cacheURL: string; cached: boolean }
+  | { source: ServerSourceId; error: string };
+
+// Same set the proxy page loads on open - on-demand sources (archive.today, browser) must be asked for
+const DEFAULT_SOURCES = SOURCE_REGISTRY
+  .filter((definition) => definition.endpoint === "article" && definition.autoFetch)
+  .map((definition) => definition.id as ServerSourceId);
+
+// Every call fans out to several sources at once, so callers are limited per IP
+const BEST_WINDOW_SECONDS = 60 * 60;
+const REDIS_TIMEOUT_MS = 5000;
+
+/**
+ * Whether this client may run another comparison. Allows the request when rate limiting is
+ * disabled or the cache is unavailable, like the refresh limit in /api/article.
+ */
+async function checkBestLimit(clientIp: string): Promise<{ allowed: boolean; limit: number }> {
+  const limit = parseInt(process.env.ARTICLE_BEST_LIMIT || "30", 10);
+  if (process.env.DISABLE_RATE_LIMIT === 'true') return { allowed: true, limit };
+
+  let timeoutHandle: NodeJS.Timeout | undefined;
+  try {
+    const ratelimit = createRateLimiter(cache, {
+      limit,
+      windowSeconds: BEST_WINDOW_SECONDS,
+      prefix: "ratelimit_best",
+    });
+    const timeout = new Promise<never>((_, reject) => {
+      timeoutHandle = setTimeout(() => reject(new Error(`Best-article rate limit check timed out after ${REDIS_TIMEOUT_MS}ms`)), REDIS_TIMEOUT_MS);
+    });
+    const { success } = await Promise.race([ratelimit.limit(clientIp), timeout]);
+    return { allowed: success, limit };
+  } catch (error) {
+    logger.warn({ error, clientIp: hashIp(clientIp) }, 'Best-article rate limiting failed/timed out, allowing request');
+    return { allowed: true, limit };
+  } finally {
+    clearTimeout(timeoutHandle);
+  }
+}
+
+/**
+ * Cached copy if there is a usable one, otherwise fetch and cache - same rules as /api/article
+ * (including the background refresh of a stale copy)
+ */
+async function loadSource(source: ServerSourceId, url: string): Promise<SourceOutcome> {
+  const cacheKey = buildCacheKey(source, extractArticleUrl(url));
+  const cachePolicy = getCachePolicy(source);
+
+  const cachedArticle = await readCachedArticle(cacheKey);
+  if (cachedArticle) {
+    if (isStale(cachedArticle.fetchedAt, cachePolicy)) {
+      after(() => revalidateArticle(source, url));
+    }
+    return { source, article: cachedArticle, cacheURL: getSourceDefinition(source).getCacheURL(url), cached: true };
+  }
+
+  try {
+    const result = await fetchArticle(source, url);
+    if ("error" in result) {
+      return { source, error: result.error.message };
+    }
+
+    const article = await saveOrReturnLongerArticle(cacheKey, result.article, {
+      ttlSeconds: cacheExpirySeconds(cachePolicy),
+    });
+    return { source, article, cacheURL: result.cacheURL, cached: false };
+  } catch (error) {
+    return { source, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * GET /api/article/best?url=...[&sources=fetch-fast,wayback]
+ * Runs the server sources in parallel, returns the highest-quality article with per-source
+ * scores, and fills the winner's missing byline/image/publishedTime from the runners-up
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const url = searchParams.get("url");
+    const sourcesParam = searchParams.get("sources");
+    const sources = sourcesParam
+      ? sourcesParam.split(",").map((source) => source.trim()).filter(Boolean)
+      : undefined;
+
+    const validationResult = BestArticleRequestSchema.safeParse({ url, sources });
+
+    if (!validationResult.success) {
+      const error = fromError(validationResult.error);
+      logger.error({ error: error.toString(), url: scrubUrl(url), sources: sourcesParam }, 'Validation error');
+      return NextResponse.json(
+        ErrorResponseSchema.parse({
+          error: error.toString(),
+          type: "VALIDATION_ERROR",
+        }),
+        { status: 400 }
+      );
+    }
+
+    const { url: validatedUrl } = validationResult.data;
+    const requestedSources = validationResult.data.sources ?? DEFAULT_SOURCES;
+
+    const clientSources = requestedSources.filter((source) => !isServerSource(source));
+    if (clientSources.length > 0) {
+      return NextResponse.json(
+        ErrorResponseSchema.parse({
+          error: `Not available in this endpoint: ${clientSources.map((source) => getSourceDefinition(source).label).join(", ")}`,
+          type: "VALIDATION_ERROR",
+        }),
+        { status: 400 }
+      );
+    }
+    const requestedServerSources = requestedSources
+      .filter(isServerSource)
+      .filter((source, index, all) => all.indexOf(source) === index);
+
+    try {
+      await assertPublicUrl(validatedUrl, { allowUnresolved: true });
+    } catch (error) {
+      if (!isUnsafeUrlError(error)) throw error;
+      logger.warn({ hostname: new URL(validatedUrl).hostname }, 'Blocked URL resolving to a non-public address');
+      return NextResponse.json(
+        ErrorResponseSchema.parse({
+          error: error instanceof Error ? error.message : "Access to private or local networks is restricted.",
+          type: "VALIDATION_ERROR",
+        }),
+        { status: 400 }
+      );
+    }
+
+    const clientIp = request.headers.get("x-real-ip") || request.headers.get("x-forwarded-for") || "unknown";
+    const { allowed, limit } = await checkBestLimit(clientIp);
+    if (!allowed) {
+      logger.warn({ clientIp: hashIp(clientIp), limit }, 'Best-article rate limit exceeded');
+      return NextResponse.json(
+        ErrorResponseSchema.parse({
+          error: `You can compare up to ${limit} articles per hour. Please try again later.`,
+          type: "RATE_LIMIT_ERROR",
+        }),
+        { status: 429 }
+      );
+    }
+
+    // Default set only: leave out sources that keep failing on this domain (explicit lists are honoured)
+    const { order: serverSources, skipped } = validationResult.data.sources
+      ? { order: requestedServerSources, skipped: [] }
+      : planAttempts(requestedServerSources, (await getDomainStats(new URL(validatedUrl).hostname)).sources);
+
+    logger.info({ hostname: new URL(validatedUrl).hostname, sources: serverSources, skipped }, 'API Request');
+
+    const outcomes = await Promise.all(serverSources.map((source) => loadSource(source, validatedUrl)));
+
+    const ranked = rankArticles(outcomes.filter((outcome) => "article" in outcome));
+    const failed = outcomes.filter((outcome) => "error" in outcome);
+
+    const scores: SourceScore[] = [
+      ...ranked.map(({ source, article, cached, quality }) => ({
+        source,
+        status: "success" as const,
+        quality: quality.score,
+        length: article.length,
+        truncated: quality.truncated,
+        boilerplateRatio: quality.boilerplateRatio,
+        cached,
+      })),
+      ...failed.map(({ source, error }) => ({ source, status: "error" as const, error })),
+    ];
+
+    if (ranked.length === 0) {
+      logger.error({ hostname: new URL(validatedUrl).hostname, scores }, 'All sources failed');
+      return NextResponse.json(
+        ErrorResponseSchema.parse({
+          error: "No source could extract this article",
+          type: "NETWORK_ERROR",
+          details: { scores },
+        }),
+        { status: 500 }
+      );
+    }
+
+    const [winner, ...runnersUp] = ranked;
+    const { article, filledFrom } = fillMissingFields(winner.article, runnersUp);
+
+    logger.info({
+      hostname: new URL(validatedUrl).hostname,
+      winner: winner.source,
+      quality: winner.quality.score,
+      filled: Object.keys(filledFrom),
+    }, 'Best source selected');
+
+    const response = BestArticleResponseSchema.parse({
+      source: winner.source,
+      cacheURL: winner.cacheURL,
+      article: {
+        title: article.title,
+        byline: article.byline || null,
+        dir: article.dir || getTextDirection(article.lang, article.textContent),
+        lang: article.lang || "",
+        content: article.content,
+        textContent: article.textContent,
+        length: article.length,
+        siteName: article.siteName,
+        publishedTime: article.publishedTime || null,
+        image: article.image || null,
+        htmlContent: article.htmlContent,
+        truncated: article.truncated,
+        fetchedAt: article.fetchedAt ?? null,
+        strategy: article.strategy ?? null,
+      },
+      status: "success",
+      scores,
+      filledFrom,
+    });
+
+    return NextResponse.json(response);
+  } catch (error) {
+    const url = request.nextUrl.searchParams.get("url");
+    logger.error({ error, url: scrubUrl(url) }, 'Unexpected error in API route');
+
+    return NextResponse.json(
+      ErrorResponseSchema.parse({
+        error: "An unexpected error occurred",
+        type: "UNKNOWN_ERROR",
+        details: error instanceof Error ? error.message : String(error),
+      }),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { fromError } from "zod-validation-error";
+import { ErrorResponseSchema, RevisionResponseSchema, RevisionsRequestSchema, RevisionsResponseSchema } from "@/types/api";
+import { createLogger } from "@/lib/logger";
+import { scrubUrl } from "@/lib/privacy";
+import { extractArticleUrl } from "@/lib/validation/url";
+import { getRevisionContent, listRevisions } from "@/lib/sources/revisions";
+
+const logger = createLogger('api:article-revisions');
+
+/**
+ * GET /api/article/revisions?url=...[&id=...]
+ * Without `id`: the article's revision timeline (newest first).
+ * With `id`: that revision's stored copy - only ids listed for this URL are served.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const url = searchParams.get("url");
+    const id = searchParams.get("id") ?? undefined;
+
+    const validationResult = RevisionsRequestSchema.safeParse({ url, id });
+
+    if (!validationResult.success) {
+      const error = fromError(validationResult.error);
+      logger.warn({ error: error.toString(), url: scrubUrl(url) }, 'Validation error');
+      return NextResponse.json(
+        ErrorResponseSchema.parse({
+          error: error.toString(),
+          type: "VALIDATION_ERROR",
+        }),
+        { status: 400 }
+      );
+    }
+
+    const normalizedUrl = extractArticleUrl(validationResult.data.url);
+    const revisions = await listRevisions(normalizedUrl);
+
+    if (!validationResult.data.id) {
+      return NextResponse.json(RevisionsResponseSchema.parse({ url: normalizedUrl, revisions }));
+    }
+
+    const revision = revisions.find((entry) => entry.id === validationResult.data.id);
+    const article = revision ? await getRevisionContent(revision.id) : null;
+
+    if (!revision || !article) {
+      return NextResponse.json(
+        ErrorResponseSchema.parse({
+          error: "Revision not found",
+          type: "NOT_FOUND",
+        }),
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(RevisionResponseSchema.parse({ revision, article }));
+  } catch (error) {
+    logger.error({ error, url: scrubUrl(request.nextUrl.searchParams.get("url")) }, 'Unexpected error in revisions route');
+    return NextResponse.json(
+      ErrorResponseSchema.parse({
+        error: "An unexpected error occurred",
+        type: "UNKNOWN_ERROR",
+      }),
+      { status: 500 }
+    );
+  }
+}
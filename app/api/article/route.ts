@@ -1,965 +1,89 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
+import { createHash } from "crypto";
 import { ArticleRequestSchema, ArticleResponseSchema, ErrorResponseSchema } from "@/types/api";
-import { fetchArticleWithDiffbot, extractDateFromDom, extractImageFromDom } from "@/lib/api/diffbot";
-import { redis } from "@/lib/redis";
-import { compress, decompress } from "@/lib/redis-compression";
-import { z } from "zod";
+import { cache, createRateLimiter } from "@/lib/cache";
+import { decompress } from "@/lib/redis-compression";
 import { fromError } from "zod-validation-error";
-import { AppError, createNetworkError, createParseError } from "@/lib/errors";
 import { createLogger } from "@/lib/logger";
-import { Readability } from "@mozilla/readability";
-import { JSDOM } from "jsdom";
 import { getTextDirection } from "@/lib/rtl";
-import { sanitizeHtml, sanitizeText } from "@/lib/sanitize-ads";
-import { scrubUrl } from "@/lib/privacy";
+import { hashIp, scrubUrl } from "@/lib/privacy";
+import { assertPublicUrl, isUnsafeUrlError } from "@/lib/safe-fetch";
 import { extractArticleUrl } from "@/lib/validation/url";
+import { buildCacheKey, getSourceDefinition, isServerSource } from "@/lib/sources/registry";
+import { fetchArticle } from "@/lib/sources/server";
+import { CachedArticleSchema } from "@/lib/sources/shared";
+import { MIN_CACHED_ARTICLE_LENGTH, saveOrReturnLongerArticle } from "@/lib/sources/article-cache";
+import { cacheControlHeader, cacheExpirySeconds, getCachePolicy, isStale } from "@/lib/sources/cache-policy";
+import { revalidateArticle } from "@/lib/sources/revalidate";
 
 const logger = createLogger('api:article');
 
-// Diffbot Article schema - validates the response from fetchArticleWithDiffbot
-const DiffbotArticleSchema = z.object({
-  title: z.string().min(1, "Article title cannot be empty"),
-  html: z.string().min(1, "Article HTML content cannot be empty"),
-  text: z.string().min(1, "Article text content cannot be empty"),
-  siteName: z.string().min(1, "Site name cannot be empty"),
-  byline: z.string().optional().nullable(),
-  publishedTime: z.string().optional().nullable(),
-  image: z.string().nullable().optional(),
-  htmlContent: z.string().optional(),
-  lang: z.string().optional().nullable(),
-});
-
-// Article schema for caching
-const CachedArticleSchema = z.object({
-  title: z.string(),
-  content: z.string(),
-  textContent: z.string(),
-  length: z.number().int().positive(),
-  siteName: z.string(),
-  byline: z.string().optional().nullable(),
-  publishedTime: z.string().optional().nullable(),
-  image: z.string().nullable().optional(),
-  htmlContent: z.string().optional(),
-  lang: z.string().optional().nullable(),
-  dir: z.enum(['rtl', 'ltr']).optional().nullable(),
-});
-
-type CachedArticle = z.infer<typeof CachedArticleSchema>;
-
-type ArticleMetadata = {
-  title: string;
-  siteName: string;
-  length: number;
-  byline?: string | null;
-  publishedTime?: string | null;
-  image?: string | null;
-};
+// Refreshes bypass the cache and hit the origin again, so they are limited per IP
+const REFRESH_WINDOW_SECONDS = 60 * 60;
+const REDIS_TIMEOUT_MS = 5000;
 
 /**
- * Get URL with source prefix
+ * Whether this client may force another refresh. Allows the request when rate limiting is
+ * disabled or the cache is unavailable, like the summary limits.
  */
-function getUrlWithSource(source: string, url: string): string {
-  switch (source) {
-    case "wayback":
-      return `https://web.archive.org/web/2/${url}`;
-    case "fetch-fast":
-    case "fetch-slow":
-    default:
-      return url;
-  }
-}
+async function checkRefreshLimit(clientIp: string): Promise<{ allowed: boolean; limit: number }> {
+  const limit = parseInt(process.env.ARTICLE_REFRESH_LIMIT || "10", 10);
+  if (process.env.DISABLE_RATE_LIMIT === 'true') return { allowed: true, limit };
 
-function buildFetchUrl(url: string, source?: string | null): string {
-  const siteUrl = process.env.NEXT_PUBLIC_URL || "https://smry.ai";
-  if (!source || source === "fetch-fast") {
-    return `${siteUrl}/${url}`;
-  }
-
-  return `${siteUrl}/${url}?source=${source}`;
-}
-
-/**
- * Save or return longer article
- */
-async function saveOrReturnLongerArticle(
-  key: string,
-  newArticle: CachedArticle
-): Promise<CachedArticle> {
+  let timeoutHandle: NodeJS.Timeout | undefined;
   try {
-    // Validate incoming article first
-    const incomingValidation = CachedArticleSchema.safeParse(newArticle);
-
-    if (!incomingValidation.success) {
-      const validationError = fromError(incomingValidation.error);
-      logger.error({
-        key,
-        validationError: validationError.toString(),
-        articleData: {
-          hasTitle: !!newArticle.title,
-          hasContent: !!newArticle.content,
-          hasTextContent: !!newArticle.textContent,
-          length: newArticle.length,
-        }
-      }, 'Incoming article validation failed');
-      throw new Error(`Invalid article data: ${validationError.toString()}`);
-    }
-
-    const validatedNewArticle = incomingValidation.data;
-
-    // Helper to save both compressed article and metadata
-    const saveToCache = async (article: CachedArticle) => {
-      const metaKey = `meta:${key}`;
-      const metadata: ArticleMetadata = {
-        title: article.title,
-        siteName: article.siteName,
-        length: article.length,
-        byline: article.byline,
-        publishedTime: article.publishedTime,
-        image: article.image,
-      };
-
-      await Promise.all([
-        redis.set(key, compress(article)),
-        redis.set(metaKey, metadata)
-      ]);
-    };
-
-    const rawCachedData = await redis.get(key);
-    const cachedData = decompress(rawCachedData);
-
-    if (cachedData) {
-      const existingValidation = CachedArticleSchema.safeParse(cachedData);
-
-      if (!existingValidation.success) {
-        const validationError = fromError(existingValidation.error);
-        logger.warn({
-          key,
-          validationError: validationError.toString()
-        }, 'Existing cache validation failed - replacing with new article');
-
-        // Save new article since existing is invalid
-        await saveToCache(validatedNewArticle);
-        logger.debug({ key, length: validatedNewArticle.length }, 'Cached article (replaced invalid)');
-        return validatedNewArticle;
-      }
-
-      const existingArticle = existingValidation.data;
-
-      // Prioritize HTML content: if existing is missing HTML but new one has it, update cache
-      if (!existingArticle.htmlContent && validatedNewArticle.htmlContent) {
-        await saveToCache(validatedNewArticle);
-        logger.debug({ key, length: validatedNewArticle.length }, 'Cached article (replaced missing HTML)');
-        return validatedNewArticle;
-      }
-
-      if (validatedNewArticle.length > existingArticle.length) {
-        await saveToCache(validatedNewArticle);
-        logger.debug({ key, newLength: validatedNewArticle.length, oldLength: existingArticle.length }, 'Cached longer article');
-        return validatedNewArticle;
-      } else {
-        logger.debug({ key, length: existingArticle.length }, 'Using existing cached article');
-        return existingArticle;
-      }
-    } else {
-      // No existing article, save the new one
-      await saveToCache(validatedNewArticle);
-      logger.debug({ key, length: validatedNewArticle.length }, 'Cached article (new)');
-      return validatedNewArticle;
-    }
-  } catch (error) {
-    const validationError = fromError(error);
-    logger.warn({ error: validationError.toString() }, 'Cache operation error');
-    // Return the new article even if caching fails
-    return newArticle;
-  }
-}
-
-// Browser User-Agents for rotation (real Chrome on different platforms)
-const BROWSER_USER_AGENTS = [
-  // Chrome on Windows
-  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36",
-  // Chrome on macOS
-  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36",
-  // Chrome on Linux
-  "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36",
-];
-
-// Googlebot User-Agents (many sites whitelist these for SEO indexing)
-const GOOGLEBOT_USER_AGENTS = [
-  // Googlebot Desktop
-  "Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)",
-  // Googlebot Smartphone
-  "Mozilla/5.0 (Linux; Android 6.0.1; Nexus 5X Build/MMB29P) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Mobile Safari/537.36 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)",
-];
-
-type FetchStrategy = "browser" | "googlebot";
-
-/**
- * Result from a fetch attempt with parsed article for quality comparison
- */
-interface FetchResult {
-  success: boolean;
-  strategy: FetchStrategy;
-  html?: string;
-  article?: CachedArticle;
-  quality: number;  // Higher = better quality content
-  error?: string;
-}
-
-/**
- * Calculate quality score for an article
- * Higher scores indicate more complete/better content
- */
-function calculateQuality(article: CachedArticle): number {
-  // Primary: textContent length
-  let score = article.textContent.length;
-
-  // Bonus: has byline (+100)
-  if (article.byline) score += 100;
-
-  // Bonus: has publishedTime (+100)  
-  if (article.publishedTime) score += 100;
-
-  // Bonus: has image (+50)
-  if (article.image) score += 50;
-
-  return score;
-}
-
-/**
- * Cookie jar for persisting cookies (especially DataDome) across retry attempts
- */
-interface CookieJar {
-  cookies: Map<string, string>;
-}
-
-/**
- * Extract cookies from Set-Cookie response header
- */
-function extractSetCookies(headers: Record<string, string>): Map<string, string> {
-  const cookies = new Map<string, string>();
-  const setCookie = headers['set-cookie'];
-  if (setCookie) {
-    // Parse set-cookie header - handle comma-separated cookies carefully
-    // Cookie values can contain commas, so we split on comma followed by a cookie name pattern
-    const cookieStrings = setCookie.split(/,(?=\s*[a-zA-Z_][a-zA-Z0-9_-]*=)/);
-    for (const cookie of cookieStrings) {
-      // Extract just the name=value part (before any attributes like ; Path=/)
-      const match = cookie.match(/^\s*([^=]+)=([^;]*)/);
-      if (match) {
-        const name = match[1].trim();
-        const value = match[2].trim();
-        // Only store cookies we care about (datadome, cf_clearance, etc.)
-        if (name === 'datadome' || name === 'cf_clearance' || name === '__cf_bm') {
-          cookies.set(name, value);
-        }
-      }
-    }
-  }
-  return cookies;
-}
-
-/**
- * Build Cookie header string from jar
- */
-function buildCookieHeader(jar: CookieJar): string | undefined {
-  if (jar.cookies.size === 0) return undefined;
-  return Array.from(jar.cookies.entries())
-    .map(([name, value]) => `${name}=${value}`)
-    .join('; ');
-}
-
-/**
- * Build headers for a specific fetch strategy
- */
-function buildFetchHeaders(url: string, strategy: FetchStrategy, cookieJar?: CookieJar): HeadersInit {
-  const cookieHeader = cookieJar ? buildCookieHeader(cookieJar) : undefined;
-
-  if (strategy === "googlebot") {
-    // Googlebot headers - simpler, but whitelisted by many sites
-    const userAgent = GOOGLEBOT_USER_AGENTS[Math.floor(Math.random() * GOOGLEBOT_USER_AGENTS.length)];
-    const headers: Record<string, string> = {
-      "User-Agent": userAgent,
-      "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-      "Accept-Language": "en-US,en;q=0.5",
-      "Accept-Encoding": "gzip, deflate",
-      "Connection": "keep-alive",
-    };
-    if (cookieHeader) headers["Cookie"] = cookieHeader;
-    return headers;
-  }
-
-  // Browser strategy - full Chrome emulation
-  const userAgent = BROWSER_USER_AGENTS[Math.floor(Math.random() * BROWSER_USER_AGENTS.length)];
-  const headers: Record<string, string> = {
-    "User-Agent": userAgent,
-    "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.7",
-    "Accept-Language": "en-US,en;q=0.9",
-    "Accept-Encoding": "gzip, deflate",
-    "Connection": "keep-alive",
-    "DNT": "1",
-    "Sec-Fetch-Dest": "document",
-    "Sec-Fetch-Mode": "navigate",
-    "Sec-Fetch-Site": "none",
-    "Sec-Fetch-User": "?1",
-    "Upgrade-Insecure-Requests": "1",
-    "Cache-Control": "max-age=0",
-  };
-  // Include accumulated cookies (critical for DataDome bypass on retries)
-  if (cookieHeader) headers["Cookie"] = cookieHeader;
-  return headers;
-}
-
-
-
-
-/**
- * Attempt to fetch with a specific strategy
- * Includes tarpit detection: if body read takes too long, abort early
- */
-async function tryFetchWithStrategy(
-  url: string,
-  strategy: FetchStrategy,
-  cookieJar?: CookieJar
-): Promise<{ html: string; strategy: FetchStrategy } | { status: number; blocked: boolean; headers?: Record<string, string> }> {
-  const headers = buildFetchHeaders(url, strategy, cookieJar);
-  const controller = new AbortController();
-  // Reduced from 35s to 15s - sites that tarpit from the start should fail faster
-  // so we can try other strategies sooner
-  const timeoutMs = 15000; // Overall request timeout (headers + body)
-  const bodyTimeoutMs = 10000; // Tarpit detection: abort if body doesn't arrive within 10s of headers
-  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-  const startTime = Date.now();
-
-  try {
-    const response = await fetch(url, {
-      headers,
-      cache: "no-store",
-      redirect: "follow",
-      signal: controller.signal,
+    const ratelimit = createRateLimiter(cache, {
+      limit,
+      windowSeconds: REFRESH_WINDOW_SECONDS,
+      prefix: "ratelimit_refresh",
     });
-
-    clearTimeout(timeoutId);
-    const headersReceivedTime = Date.now();
-    const headersLatency = headersReceivedTime - startTime;
-
-    // Collect headers for debugging
-    const responseHeaders: Record<string, string> = {};
-    response.headers.forEach((val, key) => {
-      responseHeaders[key] = val;
+    const timeout = new Promise<never>((_, reject) => {
+      timeoutHandle = setTimeout(() => reject(new Error(`Refresh rate limit check timed out after ${REDIS_TIMEOUT_MS}ms`)), REDIS_TIMEOUT_MS);
     });
-
-    // Check if blocked (401 Unauthorized, 403 Forbidden, 429 Rate Limited)
-    if (response.status === 401 || response.status === 403 || response.status === 429) {
-      logger.warn({
-        source: "fetch-fast",
-        strategy,
-        status: response.status,
-        headers: responseHeaders,
-        url: scrubUrl(url)
-      }, 'Request blocked by target site');
-
-      return { status: response.status, blocked: true, headers: responseHeaders };
-    }
-
-    if (!response.ok) {
-      logger.warn({
-        source: "fetch-fast",
-        strategy,
-        status: response.status,
-        headers: responseHeaders,
-        url: scrubUrl(url)
-      }, 'Request failed (non-blocked)');
-      return { status: response.status, blocked: false, headers: responseHeaders };
-    }
-
-    // Tarpit detection: set a timeout for reading the body
-    // Some sites (like WaPo) send headers quickly but slow-drip the body
-    const bodyController = new AbortController();
-    const bodyTimeoutId = setTimeout(() => bodyController.abort(), bodyTimeoutMs);
-
-    try {
-      // Race between body read and timeout
-      const html = await Promise.race([
-        response.text(),
-        new Promise<never>((_, reject) => {
-          bodyController.signal.addEventListener('abort', () => {
-            const bodyDuration = Date.now() - headersReceivedTime;
-            reject(new Error(`TARPIT_DETECTED: Body read timed out after ${bodyDuration}ms`));
-          });
-        })
-      ]);
-
-      clearTimeout(bodyTimeoutId);
-
-      logger.debug({
-        source: "fetch-fast",
-        strategy,
-        headersLatency,
-        totalDuration: Date.now() - startTime,
-        htmlLength: html.length,
-      }, 'Fetch completed successfully');
-
-      return { html, strategy };
-    } catch (bodyError: any) {
-      clearTimeout(bodyTimeoutId);
-
-      if (bodyError.message?.startsWith('TARPIT_DETECTED')) {
-        logger.warn({
-          source: "fetch-fast",
-          strategy,
-          url: scrubUrl(url),
-          headersLatency,
-          bodyTimeout: bodyTimeoutMs,
-        }, 'Tarpit detected: body read timed out, aborting early');
-
-        return { status: 408, blocked: true, headers: responseHeaders };
-      }
-      throw bodyError;
-    }
-  } catch (error: any) {
-    clearTimeout(timeoutId);
-
-    if (error.name === 'AbortError') {
-      const duration = Date.now() - startTime;
-      logger.error({ source: "fetch-fast", strategy, url: scrubUrl(url), duration }, 'Fetch request timed out');
-      return { status: 408, blocked: false };
-    }
-
-    throw error;
-  }
-}
-
-
-
-/**
- * Parse HTML into a validated CachedArticle
- */
-function parseHtmlToArticle(
-  html: string,
-  url: string,
-  strategy: FetchStrategy
-): CachedArticle | null {
-  if (!html || html.length < 100) {
-    return null;
-  }
-
-  try {
-    const dom = new JSDOM(html, { url });
-    const reader = new Readability(dom.window.document);
-    const parsed = reader.parse();
-
-    if (!parsed || !parsed.content || !parsed.textContent) {
-      return null;
-    }
-
-    // Extract language from HTML
-    const htmlLang = dom.window.document.documentElement.getAttribute('lang') ||
-      dom.window.document.documentElement.getAttribute('xml:lang') ||
-      parsed.lang ||
-      null;
-
-    // Detect text direction based on language or content analysis
-    const textDir = getTextDirection(htmlLang, parsed.textContent);
-
-    const articleCandidate: CachedArticle = {
-      title: parsed.title || dom.window.document.title || 'Untitled',
-      content: sanitizeHtml(parsed.content),
-      textContent: sanitizeText(parsed.textContent),
-      length: parsed.textContent.length,
-      siteName: (() => {
-        try {
-          return new URL(url).hostname;
-        } catch {
-          return parsed.siteName || 'unknown';
-        }
-      })(),
-      byline: parsed.byline,
-      publishedTime: extractDateFromDom(dom.window.document) || null,
-      image: extractImageFromDom(dom.window.document) || null,
-      htmlContent: html,
-      lang: htmlLang,
-      dir: textDir,
-    };
-
-    const validationResult = CachedArticleSchema.safeParse(articleCandidate);
-    if (!validationResult.success) {
-      return null;
-    }
-
-    return validationResult.data;
-  } catch {
-    return null;
-  }
-}
-
-/**
- * Attempt a single fetch strategy and return a FetchResult with quality scoring
- */
-async function tryFetchAndParse(
-  url: string,
-  strategy: FetchStrategy,
-  cookieJar: CookieJar,
-  hostname: string
-): Promise<FetchResult> {
-  const result = await tryFetchWithStrategy(url, strategy, cookieJar);
-
-  // Accumulate cookies from response (even on failure)
-  if ('headers' in result && result.headers) {
-    const newCookies = extractSetCookies(result.headers);
-    if (newCookies.size > 0) {
-      newCookies.forEach((value, key) => cookieJar.cookies.set(key, value));
-      logger.debug({
-        source: "fetch-fast",
-        hostname,
-        strategy,
-        newCookies: Array.from(newCookies.keys()),
-        totalCookies: cookieJar.cookies.size,
-      }, 'Accumulated cookies from response');
-    }
-  }
-
-  // Check if blocked or failed
-  if ('status' in result) {
-    return {
-      success: false,
-      strategy,
-      quality: 0,
-      error: `HTTP ${result.status}`,
-    };
-  }
-
-  // Got HTML - try to parse it
-  const { html } = result;
-  const article = parseHtmlToArticle(html, url, strategy);
-
-  if (!article) {
-    return {
-      success: false,
-      strategy,
-      html,
-      quality: 0,
-      error: 'Readability extraction failed',
-    };
-  }
-
-  const quality = calculateQuality(article);
-
-  return {
-    success: true,
-    strategy,
-    html,
-    article,
-    quality,
-  };
-}
-
-async function fetchArticleWithFast(
-  url: string
-): Promise<{ article: CachedArticle; cacheURL: string } | { error: AppError }> {
-  const hostname = new URL(url).hostname;
-
-  // Cookie jar to persist cookies (especially DataDome) across retry attempts
-  const cookieJar: CookieJar = { cookies: new Map() };
-
-  // Collect all successful results for quality comparison
-  const results: FetchResult[] = [];
-
-  try {
-    // Strategy 1: Browser (immediate)
-    logger.info({
-      source: "fetch-fast",
-      hostname,
-      strategy: "browser",
-      attempt: 1,
-      cookieCount: 0,
-    }, 'Fetching with browser');
-
-    const browserResult = await tryFetchAndParse(url, "browser", cookieJar, hostname);
-    results.push(browserResult);
-
-    // If browser succeeded with high quality, return immediately (optimization)
-    if (browserResult.success && browserResult.quality > 3000) {
-      logger.info({
-        source: "fetch-fast",
-        hostname,
-        strategy: "browser",
-        quality: browserResult.quality,
-        earlyReturn: true,
-      }, 'High quality result, returning early');
-
-      return {
-        article: browserResult.article!,
-        cacheURL: url,
-      };
-    }
-
-    // Strategy 2: Googlebot (with delay and cookies)
-    if (!browserResult.success || browserResult.quality < 3000) {
-      await new Promise(resolve => setTimeout(resolve, 200 + Math.random() * 100));
-
-      logger.info({
-        source: "fetch-fast",
-        hostname,
-        strategy: "googlebot",
-        attempt: 2,
-        cookieCount: cookieJar.cookies.size,
-      }, 'Fetching with googlebot');
-
-      const googlebotResult = await tryFetchAndParse(url, "googlebot", cookieJar, hostname);
-      results.push(googlebotResult);
-    }
-
-    // Strategy 3: Browser retry with accumulated cookies (if we have cookies)
-    if (cookieJar.cookies.size > 0) {
-      await new Promise(resolve => setTimeout(resolve, 500 + Math.random() * 200));
-
-      logger.info({
-        source: "fetch-fast",
-        hostname,
-        strategy: "browser",
-        attempt: 3,
-        cookieCount: cookieJar.cookies.size,
-        isRetryWithCookies: true,
-      }, 'Fetching with browser (with cookies)');
-
-      const cookieRetryResult = await tryFetchAndParse(url, "browser", cookieJar, hostname);
-      results.push(cookieRetryResult);
-    }
-
-    // Pick the best result by quality
-    const successfulResults = results.filter(r => r.success && r.article);
-
-    if (successfulResults.length === 0) {
-      // All strategies failed
-      const lastError = results[results.length - 1]?.error || 'Unknown error';
-      logger.error({
-        source: "fetch-fast",
-        hostname,
-        totalAttempts: results.length,
-        cookiesAccumulated: cookieJar.cookies.size,
-        errors: results.map(r => ({ strategy: r.strategy, error: r.error })),
-      }, 'All fetch strategies failed');
-
-      return {
-        error: createNetworkError(
-          `All fetch strategies failed: ${lastError}`,
-          url,
-          500
-        ),
-      };
-    }
-
-    // Sort by quality (descending) and pick the best
-    successfulResults.sort((a, b) => b.quality - a.quality);
-    const bestResult = successfulResults[0];
-
-    // Log quality comparison if we have multiple successful results
-    if (successfulResults.length > 1) {
-      logger.info({
-        source: "fetch-fast",
-        hostname,
-        winner: bestResult.strategy,
-        winnerQuality: bestResult.quality,
-        alternatives: successfulResults.slice(1).map(r => ({
-          strategy: r.strategy,
-          quality: r.quality,
-        })),
-      }, 'Selected best quality result');
-    }
-
-    logger.info({
-      source: "fetch-fast",
-      hostname,
-      title: bestResult.article!.title,
-      length: bestResult.article!.length,
-      strategy: bestResult.strategy,
-      quality: bestResult.quality,
-      cookiesUsed: cookieJar.cookies.size,
-    }, 'Article fetched and parsed successfully');
-
-    return {
-      article: bestResult.article!,
-      cacheURL: url,
-    };
+    const { success } = await Promise.race([ratelimit.limit(clientIp), timeout]);
+    return { allowed: success, limit };
   } catch (error) {
-    logger.error({ source: "fetch-fast", hostname, error }, 'Fetch exception');
-    return {
-      error: createNetworkError('Failed to fetch article directly', url, undefined, error),
-    };
+    logger.warn({ error, clientIp: hashIp(clientIp) }, 'Refresh rate limiting failed/timed out, allowing request');
+    return { allowed: true, limit };
+  } finally {
+    clearTimeout(timeoutHandle);
   }
 }
 
-
-
 /**
- * Fetch article directly from Wayback Machine (archive.org) without using Diffbot
- * This bypasses Diffbot's rate limits by fetching and parsing with Readability directly
+ * JSON response with a weak ETag of the body; 304 when the client's If-None-Match matches
  */
-async function fetchArticleWithWayback(
-  waybackUrl: string,
-  originalUrl: string
-): Promise<{ article: CachedArticle; cacheURL: string } | { error: AppError }> {
-  try {
-    logger.info({ source: "wayback", waybackUrl, originalHostname: new URL(originalUrl).hostname }, 'Fetching article from archive.org directly');
-
-    // Pick a random User-Agent to avoid fingerprinting
-    const userAgent = BROWSER_USER_AGENTS[Math.floor(Math.random() * BROWSER_USER_AGENTS.length)];
-
-    const controller = new AbortController();
-    const timeoutMs = 20000; // 20 seconds timeout for Wayback (it can be slow)
-    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-
-    const response = await fetch(waybackUrl, {
-      headers: {
-        // Core browser headers
-        "User-Agent": userAgent,
-        "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.7",
-        "Accept-Language": "en-US,en;q=0.9",
-        "Accept-Encoding": "gzip, deflate, br",
-
-        // Security headers that browsers send
-        "Sec-Fetch-Dest": "document",
-        "Sec-Fetch-Mode": "navigate",
-        "Sec-Fetch-Site": "none",
-        "Sec-Fetch-User": "?1",
-
-        // Client hints (Chrome-specific)
-        "Sec-CH-UA": '"Google Chrome";v="131", "Chromium";v="131", "Not_A Brand";v="24"',
-        "Sec-CH-UA-Mobile": "?0",
-        "Sec-CH-UA-Platform": '"Windows"',
-
-        // Additional headers
-        "Upgrade-Insecure-Requests": "1",
-        "Cache-Control": "max-age=0",
-      },
-      cache: "no-store",
-      redirect: "follow",
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
-
-    // Specific logging for archive.org rate limits
-    if (response.status === 429) {
-      const retryAfter = response.headers.get('Retry-After');
-      logger.error({
-        source: "wayback",
-        status: 429,
-        retryAfter,
-        waybackUrl
-      }, 'Archive.org rate limit exceeded (429)');
-      return {
-        error: createNetworkError(
-          `Archive.org rate limit exceeded. The Wayback Machine is temporarily limiting requests. Please try again later or use a different source tab.`,
-          waybackUrl,
-          429
-        ),
-      };
-    }
-
-    if (!response.ok) {
-      logger.error({ source: "wayback", status: response.status, waybackUrl }, 'Archive.org fetch HTTP error');
-      return {
-        error: createNetworkError(
-          `HTTP ${response.status} error when fetching from archive.org`,
-          waybackUrl,
-          response.status
-        ),
-      };
-    }
-
-    const html = await response.text();
-
-    if (!html) {
-      logger.warn({ source: "wayback", htmlLength: 0 }, 'Received empty HTML content from archive.org');
-      return {
-        error: createParseError('Received empty HTML content from archive.org', 'wayback'),
-      };
-    }
-
-    // Store original HTML before Readability parsing
-    const originalHtml = html;
-
-    // Use the original URL as the base for parsing (not the wayback URL)
-    // This helps Readability correctly resolve relative URLs
-    const dom = new JSDOM(html, { url: originalUrl });
-    const reader = new Readability(dom.window.document);
-    const parsed = reader.parse();
-
-    if (!parsed || !parsed.content || !parsed.textContent) {
-      logger.warn({ source: "wayback", waybackUrl }, 'Readability extraction failed for archived page');
-      return {
-        error: createParseError('Failed to extract article content from archived page with Readability', 'wayback'),
-      };
-    }
-
-    // Extract language from HTML
-    const htmlLang = dom.window.document.documentElement.getAttribute('lang') ||
-      dom.window.document.documentElement.getAttribute('xml:lang') ||
-      parsed.lang ||
-      null;
-
-    // Detect text direction based on language or content analysis
-    const textDir = getTextDirection(htmlLang, parsed.textContent);
-
-    const articleCandidate: CachedArticle = {
-      title: parsed.title || dom.window.document.title || 'Untitled',
-      content: sanitizeHtml(parsed.content),
-      textContent: sanitizeText(parsed.textContent),
-      length: parsed.textContent.length,
-      siteName: (() => {
-        try {
-          return new URL(originalUrl).hostname;
-        } catch {
-          return parsed.siteName || 'archive.org';
-        }
-      })(),
-      byline: parsed.byline,
-      publishedTime: extractDateFromDom(dom.window.document) || null,
-      image: extractImageFromDom(dom.window.document) || null,
-      htmlContent: originalHtml, // Original archived page HTML
-      lang: htmlLang,
-      dir: textDir,
-    };
-
-    const validationResult = CachedArticleSchema.safeParse(articleCandidate);
-
-    if (!validationResult.success) {
-      const validationError = fromError(validationResult.error);
-      logger.error({ source: "wayback", validationError: validationError.toString() }, 'Wayback article validation failed');
-      return {
-        error: createParseError(
-          `Invalid Wayback article: ${validationError.toString()}`,
-          'wayback',
-          validationError
-        ),
-      };
-    }
-
-    const validatedArticle = validationResult.data;
-    logger.info({ source: "wayback", title: validatedArticle.title, length: validatedArticle.length }, 'Wayback article parsed and validated');
-
-    return {
-      article: validatedArticle,
-      cacheURL: waybackUrl,
-    };
-  } catch (error: any) {
-    if (error.name === 'AbortError') {
-      logger.error({ source: "wayback", waybackUrl, timeoutMs: 20000 }, 'Wayback fetch timed out');
-      return {
-        error: createNetworkError('Connection timed out when fetching from archive.org', waybackUrl, 408),
-      };
-    }
-    logger.error({ source: "wayback", error, waybackUrl }, 'Wayback fetch exception');
-    return {
-      error: createNetworkError('Failed to fetch article from archive.org', waybackUrl, undefined, error),
-    };
+function articleJson(request: NextRequest, body: unknown, cacheControl: string): NextResponse {
+  const json = JSON.stringify(body);
+  const etag = `W/"${createHash("sha1").update(json).digest("hex")}"`;
+  const headers = { "Cache-Control": cacheControl, ETag: etag };
+
+  const ifNoneMatch = request.headers.get("if-none-match");
+  if (ifNoneMatch && ifNoneMatch.split(",").some((tag) => tag.trim().replace(/^W\//, "") === etag.slice(2))) {
+    return new NextResponse(null, { status: 304, headers });
   }
+  return new NextResponse(json, { headers: { ...headers, "Content-Type": "application/json" } });
 }
 
-/**
- * Fetch and parse article using Diffbot (for fetch-slow and wayback sources)
- */
-async function fetchArticleWithDiffbotWrapper(
-  urlWithSource: string,
-  source: string
-): Promise<{ article: CachedArticle; cacheURL: string } | { error: AppError }> {
-  try {
-    logger.info({ source, hostname: new URL(urlWithSource).hostname }, 'Fetching article with Diffbot');
-
-    // Pass source parameter to enable debug tracking
-    const diffbotResult = await fetchArticleWithDiffbot(urlWithSource, source);
-
-    if (diffbotResult.isErr()) {
-      const error = diffbotResult.error;
-      logger.error({ source, errorType: error.type, message: error.message, hasDebugContext: !!error.debugContext }, 'Diffbot fetch failed');
-      return { error };
-    }
-
-    const diffbotArticle = diffbotResult.value;
-
-    // Validate Diffbot response with Zod
-    const validationResult = DiffbotArticleSchema.safeParse(diffbotArticle);
-
-    if (!validationResult.success) {
-      const validationError = fromError(validationResult.error);
-      logger.error({
-        source,
-        validationError: validationError.toString(),
-        receivedData: {
-          hasTitle: !!diffbotArticle.title,
-          hasHtml: !!diffbotArticle.html,
-          hasText: !!diffbotArticle.text,
-          hasSiteName: !!diffbotArticle.siteName,
-          titleLength: diffbotArticle.title?.length || 0,
-          htmlLength: diffbotArticle.html?.length || 0,
-          textLength: diffbotArticle.text?.length || 0,
-        }
-      }, 'Diffbot response validation failed');
-
-      return {
-        error: createParseError(
-          `Invalid Diffbot response: ${validationError.toString()}`,
-          source,
-          validationError
-        )
-      };
-    }
-
-    const validatedArticle = validationResult.data;
-
-    // Detect text direction based on language or content analysis
-    const textDir = getTextDirection(validatedArticle.lang, validatedArticle.text);
-
-    const article: CachedArticle = {
-      title: validatedArticle.title,
-      content: sanitizeHtml(validatedArticle.html),
-      textContent: sanitizeText(validatedArticle.text),
-      length: validatedArticle.text.length,
-      siteName: validatedArticle.siteName,
-      byline: validatedArticle.byline,
-      publishedTime: validatedArticle.publishedTime,
-      image: validatedArticle.image,
-      htmlContent: validatedArticle.htmlContent,
-      lang: validatedArticle.lang,
-      dir: textDir,
-    };
-
-    logger.debug({ source, title: article.title, length: article.length, lang: article.lang, dir: article.dir }, 'Diffbot article parsed and validated');
-    return { article, cacheURL: urlWithSource };
-  } catch (error) {
-    logger.error({ source, error }, 'Article parsing exception');
-    return { error: createParseError("Failed to parse article", source, error) };
+function buildFetchUrl(url: string, source?: string | null, timestamp?: string | null): string {
+  const siteUrl = process.env.NEXT_PUBLIC_URL || "https://smry.ai";
+  if (!source || source === "fetch-fast") {
+    return `${siteUrl}/${url}`;
   }
-}
 
-/**
- * Fetch and parse article - routes to appropriate method based on source
- */
-async function fetchArticle(
-  urlWithSource: string,
-  source: string,
-  originalUrl?: string
-): Promise<{ article: CachedArticle; cacheURL: string } | { error: AppError }> {
-  switch (source) {
-    case "fetch-fast":
-      return fetchArticleWithFast(urlWithSource);
-    case "fetch-slow":
-      return fetchArticleWithDiffbotWrapper(urlWithSource, source);
-    case "wayback":
-      // Use direct fetch from archive.org instead of Diffbot
-      // This bypasses Diffbot rate limits
-      return fetchArticleWithWayback(urlWithSource, originalUrl || urlWithSource);
-    default:
-      return {
-        error: createParseError(`Unsupported source: ${source}`, source),
-      };
+  if (timestamp) {
+    return `${siteUrl}/${url}?source=${source}&timestamp=${timestamp}`;
   }
+
+  return `${siteUrl}/${url}?source=${source}`;
 }
 
 /**
- * GET /api/article?url=...&source=...
+ * GET /api/article?url=...&source=...[&timestamp=YYYYMMDDhhmmss][&refresh=true]
+ * `timestamp` pins a snapshot for sources that support it (Wayback) and is ignored otherwise
+ * `refresh=true` skips the cached copy and replaces it with a fresh fetch (rate limited per IP)
+ * A stale cached copy is served immediately and refreshed in the background; responses carry
+ * Cache-Control and ETag headers matching the source's cache policy (lib/sources/cache-policy.ts)
  */
 export async function GET(request: NextRequest) {
   try {
@@ -967,8 +91,10 @@ export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams;
     const url = searchParams.get("url");
     const source = searchParams.get("source");
+    const timestamp = searchParams.get("timestamp") || undefined;
+    const refresh = searchParams.get("refresh") === "true";
 
-    const validationResult = ArticleRequestSchema.safeParse({ url, source });
+    const validationResult = ArticleRequestSchema.safeParse({ url, source, timestamp, refresh });
 
     if (!validationResult.success) {
       const error = fromError(validationResult.error);
@@ -984,9 +110,12 @@ export async function GET(request: NextRequest) {
     }
 
     const { url: validatedUrl, source: validatedSource } = validationResult.data;
+    const validatedTimestamp = getSourceDefinition(validatedSource).supportsTimestamp
+      ? validationResult.data.timestamp
+      : undefined;
 
     // Construct the full smry.ai URL for debugging
-    const fetchUrl = buildFetchUrl(validatedUrl, validatedSource);
+    const fetchUrl = buildFetchUrl(validatedUrl, validatedSource, validatedTimestamp);
 
     // DEBUG: Log request details
     logger.debug({
@@ -996,16 +125,35 @@ export async function GET(request: NextRequest) {
         rawUrl: scrubUrl(url),
         validatedUrl: scrubUrl(validatedUrl),
         source: validatedSource,
+        timestamp: validatedTimestamp,
+        refresh,
         fetchUrl: scrubUrl(fetchUrl)
       }
     }, 'Cache Debug: Article Request Received');
 
-    // Jina.ai is handled by a separate endpoint (/api/jina) for client-side fetching
-    if (validatedSource === "jina.ai") {
-      logger.warn({ source: validatedSource, fetchUrl: scrubUrl(fetchUrl) }, 'Jina.ai source not supported in this endpoint');
+    // Sources served by other endpoints (e.g. Jina.ai via /api/jina) are rejected here
+    if (!isServerSource(validatedSource)) {
+      const { label, endpoint } = getSourceDefinition(validatedSource);
+      logger.warn({ source: validatedSource, fetchUrl: scrubUrl(fetchUrl) }, 'Source not supported in this endpoint');
+      return NextResponse.json(
+        ErrorResponseSchema.parse({
+          error: `${label} source is handled client-side. Use /api/${endpoint} endpoint instead.`,
+          type: "VALIDATION_ERROR",
+        }),
+        { status: 400 }
+      );
+    }
+
+    // Hostname checks in the schema can't see DNS - reject names that resolve to internal addresses.
+    // Unresolvable names pass: archive sources can still serve a dead domain.
+    try {
+      await assertPublicUrl(validatedUrl, { allowUnresolved: true });
+    } catch (error) {
+      if (!isUnsafeUrlError(error)) throw error;
+      logger.warn({ source: validatedSource, hostname: new URL(validatedUrl).hostname }, 'Blocked URL resolving to a non-public address');
       return NextResponse.json(
         ErrorResponseSchema.parse({
-          error: "Jina.ai source is handled client-side. Use /api/jina endpoint instead.",
+          error: error instanceof Error ? error.message : "Access to private or local networks is restricted.",
           type: "VALIDATION_ERROR",
         }),
         { status: 400 }
@@ -1014,10 +162,30 @@ export async function GET(request: NextRequest) {
 
     logger.info({ source: validatedSource, hostname: new URL(validatedUrl).hostname, fetchUrl: scrubUrl(fetchUrl) }, 'API Request');
 
-    const urlWithSource = getUrlWithSource(validatedSource, validatedUrl);
+    if (refresh) {
+      const clientIp = request.headers.get("x-real-ip") || request.headers.get("x-forwarded-for") || "unknown";
+      const { allowed, limit } = await checkRefreshLimit(clientIp);
+      if (!allowed) {
+        logger.warn({ clientIp: hashIp(clientIp), source: validatedSource, limit }, 'Refresh rate limit exceeded');
+        return NextResponse.json(
+          ErrorResponseSchema.parse({
+            error: `You can refresh up to ${limit} articles per hour. Please try again later.`,
+            type: "RATE_LIMIT_ERROR",
+          }),
+          { status: 429 }
+        );
+      }
+    }
+
+    const urlWithSource = getSourceDefinition(validatedSource).getCacheURL(validatedUrl, validatedTimestamp);
     // Use extractArticleUrl to normalize trailing slashes for consistent cache keys
     const normalizedUrlForCache = extractArticleUrl(validatedUrl);
-    const cacheKey = `${validatedSource}:${normalizedUrlForCache}`;
+    const cacheKey = buildCacheKey(validatedSource, normalizedUrlForCache, validatedTimestamp);
+    const cachePolicy = getCachePolicy(validatedSource, validatedTimestamp);
+
+    // A refresh must always reach the origin, so its response is never stored
+    const respond = (body: unknown, fetchedAt?: string | null) =>
+      articleJson(request, body, refresh ? "no-store" : cacheControlHeader(fetchedAt, cachePolicy));
 
     logger.debug({
       action: '[CACHE_DEBUG]',
@@ -1026,14 +194,14 @@ export async function GET(request: NextRequest) {
       urlWithSource
     }, 'Cache Debug: Key Generated');
 
-    // Try to get from cache
+    // Try to get from cache (a refresh skips the read but still saves the new copy)
     try {
       logger.debug({
         action: '[CACHE_DEBUG]',
         step: 'redis_get_start'
       }, 'Cache Debug: Attempting Redis GET');
 
-      const rawCachedArticle = await redis.get(cacheKey);
+      const rawCachedArticle = refresh ? null : await cache.get(cacheKey);
       const cachedArticle = decompress(rawCachedArticle);
 
       logger.debug({
@@ -1060,7 +228,7 @@ export async function GET(request: NextRequest) {
         } else {
           const article = cacheValidation.data;
 
-          if (article.length > 900 && article.htmlContent) {
+          if (article.length > MIN_CACHED_ARTICLE_LENGTH && article.htmlContent) {
             logger.debug({
               action: '[CACHE_DEBUG]',
               step: 'cache_hit_valid',
@@ -1069,6 +237,11 @@ export async function GET(request: NextRequest) {
 
             logger.debug({ source: validatedSource, hostname: new URL(validatedUrl).hostname, length: article.length }, 'Cache hit');
 
+            if (isStale(article.fetchedAt, cachePolicy)) {
+              logger.info({ source: validatedSource, hostname: new URL(validatedUrl).hostname, fetchedAt: article.fetchedAt }, 'Serving stale article - revalidating in background');
+              after(() => revalidateArticle(validatedSource, validatedUrl, validatedTimestamp));
+            }
+
             // Validate final response structure
             const response = ArticleResponseSchema.parse({
               source: validatedSource,
@@ -1085,12 +258,15 @@ export async function GET(request: NextRequest) {
                 publishedTime: article.publishedTime || null,
                 image: article.image || null,
                 htmlContent: article.htmlContent,
+                truncated: article.truncated,
+                fetchedAt: article.fetchedAt ?? null,
+                strategy: article.strategy ?? null,
               },
               status: "success",
             });
 
-            return NextResponse.json(response);
-          } else if (article.length > 900 && !article.htmlContent) {
+            return respond(response, article.fetchedAt);
+          } else if (article.length > MIN_CACHED_ARTICLE_LENGTH && !article.htmlContent) {
             logger.warn({
               action: '[CACHE_DEBUG]',
               step: 'cache_skip_missing_html',
@@ -1102,7 +278,7 @@ export async function GET(request: NextRequest) {
               action: '[CACHE_DEBUG]',
               step: 'cache_skip_short',
               length: article.length,
-              threshold: 900,
+              threshold: MIN_CACHED_ARTICLE_LENGTH,
               hasHtml: !!article.htmlContent
             }, 'Cache hit SKIPPED: Article too short (< 900 chars)');
           }
@@ -1119,7 +295,7 @@ export async function GET(request: NextRequest) {
 
     // Fetch fresh data
     logger.info({ source: validatedSource, fetchUrl: scrubUrl(fetchUrl) }, 'Fetching fresh data');
-    const result = await fetchArticle(urlWithSource, validatedSource, validatedUrl);
+    const result = await fetchArticle(validatedSource, validatedUrl, { timestamp: validatedTimestamp });
 
     if ("error" in result) {
       const appError = result.error;
@@ -1150,7 +326,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const { article, cacheURL } = result;
+    const { article, cacheURL, debugContext } = result;
 
     // Save to cache
     try {
@@ -1160,7 +336,10 @@ export async function GET(request: NextRequest) {
         length: article.length
       }, 'Cache Debug: Attempting to save to cache');
 
-      const savedArticle = await saveOrReturnLongerArticle(cacheKey, article);
+      const savedArticle = await saveOrReturnLongerArticle(cacheKey, article, {
+        refresh,
+        ttlSeconds: cacheExpirySeconds(cachePolicy),
+      });
 
       // Validate saved article
       const savedValidation = CachedArticleSchema.safeParse(savedArticle);
@@ -1187,11 +366,15 @@ export async function GET(request: NextRequest) {
             siteName: article.siteName,
             publishedTime: article.publishedTime || null,
             htmlContent: article.htmlContent,
+            truncated: article.truncated,
+            fetchedAt: article.fetchedAt ?? null,
+            strategy: article.strategy ?? null,
           },
           status: "success",
+          debugContext,
         });
 
-        return NextResponse.json(response);
+        return respond(response, article.fetchedAt);
       }
 
       const validatedSavedArticle = savedValidation.data;
@@ -1210,12 +393,16 @@ export async function GET(request: NextRequest) {
           siteName: validatedSavedArticle.siteName,
           publishedTime: validatedSavedArticle.publishedTime || null,
           htmlContent: validatedSavedArticle.htmlContent,
+          truncated: validatedSavedArticle.truncated,
+          fetchedAt: validatedSavedArticle.fetchedAt ?? null,
+          strategy: validatedSavedArticle.strategy ?? null,
         },
         status: "success",
+        debugContext,
       });
 
       logger.info({ source: validatedSource, title: validatedSavedArticle.title }, 'Success');
-      return NextResponse.json(response);
+      return respond(response, validatedSavedArticle.fetchedAt);
     } catch (error) {
       const validationError = fromError(error);
       logger.warn({
@@ -1259,11 +446,15 @@ export async function GET(request: NextRequest) {
           publishedTime: validatedArticle.publishedTime || null,
           image: validatedArticle.image || null,
           htmlContent: validatedArticle.htmlContent,
+          truncated: validatedArticle.truncated,
+          fetchedAt: validatedArticle.fetchedAt ?? null,
+          strategy: validatedArticle.strategy ?? null,
         },
         status: "success",
+        debugContext,
       });
 
-      return NextResponse.json(response);
+      return respond(response, validatedArticle.fetchedAt);
     }
   } catch (error) {
     // Try to extract URL info for better debugging
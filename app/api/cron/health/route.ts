@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createLogger } from "@/lib/logger";
-import { redis } from "@/lib/redis";
+import { cache } from "@/lib/cache";
 
 const logger = createLogger('api:cron:health');
 
@@ -23,10 +23,10 @@ export async function GET(request: NextRequest) {
 
   try {
     // 1. Check Write
-    await redis.set('system:health:ping', startTime, { ex: 900 }); // 15 min expiry
+    await cache.set('system:health:ping', startTime, { ex: 900 }); // 15 min expiry
 
     // 2. Check Read
-    const readBack = await redis.get<number>('system:health:ping');
+    const readBack = await cache.get<number>('system:health:ping');
 
     if (readBack === startTime) {
       // 3. Update the persistent health status key
@@ -34,13 +34,14 @@ export async function GET(request: NextRequest) {
         status: 'operational',
         last_checked: new Date().toISOString(),
         response_time: Date.now() - startTime,
+        backend: cache.backend,
         features: {
           caching: true,
           rateLimit: true
         }
       };
       
-      await redis.set('system:health:status', JSON.stringify(healthData));
+      await cache.set('system:health:status', JSON.stringify(healthData));
       
       logger.info({ responseTime: healthData.response_time }, 'Health check passed');
       
@@ -53,7 +54,7 @@ export async function GET(request: NextRequest) {
     
     // Try to record the failure if Redis is partially up, otherwise this will just fail
     try {
-      await redis.set('system:health:status', JSON.stringify({
+      await cache.set('system:health:status', JSON.stringify({
         status: 'degraded', // Or down, but if we can write this, it's degraded
         last_checked: new Date().toISOString(),
         error: error instanceof Error ? error.message : 'Unknown error'
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import { fromError } from "zod-validation-error";
+import { ErrorResponseSchema, ImageProxyRequestSchema } from "@/types/api";
+import { cache, createRateLimiter } from "@/lib/cache";
+import { createLogger } from "@/lib/logger";
+import { hashIp, scrubUrl } from "@/lib/privacy";
+import { fetchProxiedImage, IMAGE_CACHE_TTL_SECONDS } from "@/lib/image-fetch";
+
+const logger = createLogger('api:image');
+
+// SVGs are served from our origin - never let one run script or load anything if opened directly
+const IMAGE_CSP = "default-src 'none'; style-src 'unsafe-inline'; sandbox";
+
+// Every miss fetches and re-encodes an image, so callers are limited per IP. Per minute and
+// generous: one article page requests all of its images at once.
+const IMAGE_WINDOW_SECONDS = 60;
+const REDIS_TIMEOUT_MS = 5000;
+
+/**
+ * Whether this client may fetch another image. Allows the request when rate limiting is
+ * disabled or the cache is unavailable, like the other route limits.
+ */
+async function checkImageLimit(clientIp: string): Promise<{ allowed: boolean; limit: number }> {
+  const limit = parseInt(process.env.IMAGE_PROXY_LIMIT || "300", 10);
+  if (process.env.DISABLE_RATE_LIMIT === 'true') return { allowed: true, limit };
+
+  let timeoutHandle: NodeJS.Timeout | undefined;
+  try {
+    const ratelimit = createRateLimiter(cache, {
+      limit,
+      windowSeconds: IMAGE_WINDOW_SECONDS,
+      prefix: "ratelimit_image",
+    });
+    const timeout = new Promise<never>((_, reject) => {
+      timeoutHandle = setTimeout(() => reject(new Error(`Image rate limit check timed out after ${REDIS_TIMEOUT_MS}ms`)), REDIS_TIMEOUT_MS);
+    });
+    const { success } = await Promise.race([ratelimit.limit(clientIp), timeout]);
+    return { allowed: success, limit };
+  } catch (error) {
+    logger.warn({ error, clientIp: hashIp(clientIp) }, 'Image rate limiting failed/timed out, allowing request');
+    return { allowed: true, limit };
+  } finally {
+    clearTimeout(timeoutHandle);
+  }
+}
+
+/**
+ * GET /api/image?url=...
+ * Privacy proxy for article images: the reader's browser only ever talks to us, and the
+ * publisher's CDN sees our server instead of the reader's IP and referrer
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const url = request.nextUrl.searchParams.get("url");
+    const validationResult = ImageProxyRequestSchema.safeParse({ url });
+
+    if (!validationResult.success) {
+      const error = fromError(validationResult.error);
+      logger.warn({ error: error.toString(), url: scrubUrl(url) }, 'Validation error');
+      return NextResponse.json(
+        ErrorResponseSchema.parse({
+          error: error.toString(),
+          type: "VALIDATION_ERROR",
+        }),
+        { status: 400 }
+      );
+    }
+
+    const clientIp = request.headers.get("x-real-ip") || request.headers.get("x-forwarded-for") || "unknown";
+    const { allowed, limit } = await checkImageLimit(clientIp);
+    if (!allowed) {
+      logger.warn({ clientIp: hashIp(clientIp), limit }, 'Image rate limit exceeded');
+      return NextResponse.json(
+        ErrorResponseSchema.parse({
+          error: `You can load up to ${limit} images per minute. Please try again later.`,
+          type: "RATE_LIMIT_ERROR",
+        }),
+        { status: 429 }
+      );
+    }
+
+    const result = await fetchProxiedImage(validationResult.data.url);
+
+    if ("error" in result) {
+      logger.debug({ url: scrubUrl(validationResult.data.url), status: result.status, error: result.error }, 'Image proxy request failed');
+      return NextResponse.json(
+        ErrorResponseSchema.parse({
+          error: result.error,
+          type: result.status === 400 || result.status === 413 || result.status === 415 ? "VALIDATION_ERROR" : "NETWORK_ERROR",
+        }),
+        { status: result.status }
+      );
+    }
+
+    return new NextResponse(result.body as BodyInit, {
+      headers: {
+        "Content-Type": result.contentType,
+        "Content-Length": String(result.body.byteLength),
+        "Cache-Control": `public, max-age=${IMAGE_CACHE_TTL_SECONDS}, immutable`,
+        "Content-Security-Policy": IMAGE_CSP,
+        "X-Content-Type-Options": "nosniff",
+        "X-Cache": result.cached ? "HIT" : "MISS",
+      },
+    });
+  } catch (error) {
+    logger.error({ error, url: scrubUrl(request.nextUrl.searchParams.get("url")) }, 'Unexpected error in image proxy');
+    return NextResponse.json(
+      ErrorResponseSchema.parse({
+        error: "An unexpected error occurred",
+        type: "UNKNOWN_ERROR",
+      }),
+      { status: 500 }
+    );
+  }
+}
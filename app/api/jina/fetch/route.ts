@@ -1,11 +1,14 @@
-import { NextRequest, NextResponse } from "next/server";
-import * as https from "https";
+import { NextRequest, NextResponse, after } from "next/server";
 import { z } from "zod";
 import { fromError } from "zod-validation-error";
 import { createLogger } from "@/lib/logger";
-import { redis } from "@/lib/redis";
+import { cache, createSingleFlight } from "@/lib/cache";
+import { assertPublicUrl, isUnsafeUrlError, safeFetch } from "@/lib/safe-fetch";
 import { compress, decompress } from "@/lib/redis-compression";
 import { getTextDirection } from "@/lib/rtl";
+import { buildCacheKey } from "@/lib/sources/registry";
+import { cacheExpirySeconds, getCachePolicy, isStale } from "@/lib/sources/cache-policy";
+import { claimRevalidation } from "@/lib/sources/revalidate";
 import { ArticleResponseSchema, ErrorResponseSchema } from "@/types/api";
 import Showdown from "showdown";
 import { sanitizeHtml, sanitizeText } from "@/lib/sanitize-ads";
@@ -34,6 +37,9 @@ const showdownConverter = new Showdown.Converter({
 // Jina.ai Configuration
 const JINA_TIMEOUT_MS = 75000; // 75 seconds timeout for cf-browser-rendering
 
+// Readers opening the same link at once share one Jina request (see lib/cache/single-flight.ts)
+const jinaFetches = createSingleFlight(cache, { prefix: "jina-fetch", lockSeconds: JINA_TIMEOUT_MS / 1000 + 15 });
+
 // Request schema
 const JinaFetchRequestSchema = z.object({
     url: z.string().url(),
@@ -51,6 +57,8 @@ const CachedArticleSchema = z.object({
     htmlContent: z.string().optional(),
     lang: z.string().optional().nullable(),
     dir: z.enum(["rtl", "ltr"]).optional().nullable(),
+    fetchedAt: z.string().optional(),
+    source: z.string().optional(),
 });
 
 type CachedArticle = z.infer<typeof CachedArticleSchema>;
@@ -342,18 +350,17 @@ async function fetchFromJinaPremium(
     url: string,
     apiKey: string
 ): Promise<CachedArticle | { error: string; status?: number }> {
-    return new Promise((resolve) => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), JINA_TIMEOUT_MS);
+
+    try {
         logger.info(
             { hostname: extractHostname(url), mode: "PREMIUM", hasApiKey: true },
             "🔑 Fetching with Jina PREMIUM API (cf-browser-rendering + readerlm-v2)"
         );
 
-        const postData = JSON.stringify({ url });
-        const options = {
-            hostname: 'r.jina.ai',
-            port: 443,
-            path: '/',
-            method: 'POST',
+        const response = await safeFetch("https://r.jina.ai/", {
+            method: "POST",
             headers: {
                 'Authorization': `Bearer ${apiKey}`,
                 'Content-Type': 'application/json',
@@ -364,60 +371,47 @@ async function fetchFromJinaPremium(
                 'X-With-Iframe': 'true',
                 'X-With-Shadow-Dom': 'true',
                 'X-Proxy': 'auto',
-                'Content-Length': Buffer.byteLength(postData)
-            }
-        };
-
-        const req = https.request(options, (res) => {
-            let data = '';
-
-            res.on('data', (chunk) => {
-                data += chunk;
-            });
+            },
+            body: JSON.stringify({ url }),
+            signal: controller.signal,
+        });
 
-            res.on('end', () => {
-                if (res.statusCode && (res.statusCode < 200 || res.statusCode >= 300)) {
-                    logger.error({ status: res.statusCode }, "Jina premium API error");
-                    resolve({ error: `Jina API error: ${res.statusCode}`, status: res.statusCode });
-                    return;
-                }
+        const data = await response.text();
+        clearTimeout(timeoutId);
 
-                // Detect stub response: when Jina fails to extract content, it returns just the URL
-                // Pattern: ```markdown\n{"url": "..."}\n``` or similar minimal responses
-                const isStubResponse =
-                    data.length < 900 &&
-                    data.includes('"url"') &&
-                    !data.includes('"content"') &&
-                    !data.includes('"title"');
-
-                if (isStubResponse) {
-                    logger.warn(
-                        { responseLength: data.length },
-                        "⚠️ Jina premium returned stub response (no content extracted), falling back to public API"
-                    );
-                    // Return a special error that signals we should try public API
-                    resolve({ error: "STUB_RESPONSE", status: 206 });
-                    return;
-                }
+        if (!response.ok) {
+            logger.error({ status: response.status }, "Jina premium API error");
+            return { error: `Jina API error: ${response.status}`, status: response.status };
+        }
 
-                resolve(parseJinaResponse(data, url));
-            });
-        });
+        // Detect stub response: when Jina fails to extract content, it returns just the URL
+        // Pattern: ```markdown\n{"url": "..."}\n``` or similar minimal responses
+        const isStubResponse =
+            data.length < 900 &&
+            data.includes('"url"') &&
+            !data.includes('"content"') &&
+            !data.includes('"title"');
+
+        if (isStubResponse) {
+            logger.warn(
+                { responseLength: data.length },
+                "⚠️ Jina premium returned stub response (no content extracted), falling back to public API"
+            );
+            // Return a special error that signals we should try public API
+            return { error: "STUB_RESPONSE", status: 206 };
+        }
 
-        req.on('error', (e) => {
-            logger.error({ error: e }, "Jina premium fetch error");
-            resolve({ error: e.message || "Failed to fetch from Jina.ai", status: 500 });
-        });
+        return parseJinaResponse(data, url);
+    } catch (error) {
+        clearTimeout(timeoutId);
 
-        req.setTimeout(JINA_TIMEOUT_MS, () => {
-            req.destroy();
-            resolve({ error: `Request timed out after ${JINA_TIMEOUT_MS / 1000} seconds`, status: 408 });
-        });
+        if (error instanceof Error && error.name === "AbortError") {
+            return { error: `Request timed out after ${JINA_TIMEOUT_MS / 1000} seconds`, status: 408 };
+        }
 
-        // Write data to request body
-        req.write(postData);
-        req.end();
-    });
+        logger.error({ error }, "Jina premium fetch error");
+        return { error: error instanceof Error ? error.message : "Failed to fetch from Jina.ai", status: 500 };
+    }
 }
 
 /**
@@ -435,7 +429,7 @@ async function fetchFromJinaPublic(
             "⚠️ Fetching with Jina PUBLIC API (no API key configured)"
         );
 
-        const response = await fetch(`https://r.jina.ai/${url}`, {
+        const response = await safeFetch(`https://r.jina.ai/${url}`, {
             signal: controller.signal,
         });
 
@@ -460,6 +454,92 @@ async function fetchFromJinaPublic(
     }
 }
 
+/**
+ * Fetch from Jina.ai - premium when JINA_API_KEY is set, falling back to the public API
+ * when premium returns a stub
+ */
+async function fetchFromJina(url: string): Promise<CachedArticle | { error: string; status?: number }> {
+    const apiKey = process.env.JINA_API_KEY;
+
+    // Log which mode will be used
+    logger.info(
+        {
+            hostname: extractHostname(url),
+            hasApiKey: !!apiKey,
+            apiKeyLength: apiKey?.length || 0,
+            mode: apiKey ? "PREMIUM" : "PUBLIC"
+        },
+        apiKey
+            ? "🔑 JINA_API_KEY is set, using PREMIUM mode"
+            : "⚠️ JINA_API_KEY not set, falling back to PUBLIC mode"
+    );
+
+    const result = apiKey
+        ? await fetchFromJinaPremium(url, apiKey)
+        : await fetchFromJinaPublic(url);
+
+    // If premium API returned a stub response (no content), fallback to public API
+    if ("error" in result && result.error === "STUB_RESPONSE" && apiKey) {
+        logger.info(
+            { hostname: extractHostname(url) },
+            "🔄 Premium API failed to extract content, retrying with PUBLIC API"
+        );
+        return fetchFromJinaPublic(url);
+    }
+
+    return result;
+}
+
+/**
+ * Stamp provenance (like lib/sources/server.ts) and cache the article for the jina.ai TTL
+ * A cache error is logged - the article is returned either way.
+ */
+async function cacheJinaArticle(cacheKey: string, url: string, result: CachedArticle): Promise<CachedArticle> {
+    const article: CachedArticle = { ...result, fetchedAt: new Date().toISOString(), source: "jina.ai" };
+    try {
+        const metaKey = `meta:${cacheKey}`;
+        const metadata = {
+            title: result.title,
+            siteName: result.siteName,
+            length: result.length,
+            byline: result.byline,
+            publishedTime: result.publishedTime,
+            fetchedAt: article.fetchedAt,
+            source: article.source,
+        };
+
+        const setOptions = { ex: cacheExpirySeconds(getCachePolicy("jina.ai")) };
+
+        await Promise.all([
+            cache.set(cacheKey, compress(article), setOptions),
+            cache.set(metaKey, metadata, setOptions),
+        ]);
+
+        logger.info({ hostname: extractHostname(url), length: result.length }, "Jina article cached");
+    } catch (error) {
+        logger.warn({ error: error instanceof Error ? error.message : String(error) }, "Jina cache save error");
+    }
+    return article;
+}
+
+/**
+ * Background refresh of a stale cached article - same cooldown as lib/sources/revalidate.ts
+ */
+async function revalidateJinaArticle(cacheKey: string, url: string): Promise<void> {
+    try {
+        if (!(await claimRevalidation(cacheKey))) return;
+
+        const result = await jinaFetches.run(cacheKey, () => fetchFromJina(url));
+        if ("error" in result) {
+            logger.warn({ hostname: extractHostname(url), error: result.error }, "Jina revalidation failed - keeping stale copy");
+            return;
+        }
+        await cacheJinaArticle(cacheKey, url, result);
+    } catch (error) {
+        logger.warn({ error: error instanceof Error ? error.message : String(error) }, "Jina revalidation error");
+    }
+}
+
 /**
  * POST /api/jina/fetch
  * Fetch article from Jina.ai (server-side, keeps API key secure)
@@ -482,11 +562,28 @@ export async function POST(request: NextRequest) {
         }
 
         const { url } = validationResult.data;
-        const cacheKey = `jina.ai:${url}`;
+
+        // Jina fetches the page itself, so an unresolvable domain is Jina's problem - but
+        // internal hostnames and addresses are never forwarded
+        try {
+            await assertPublicUrl(url, { allowUnresolved: true });
+        } catch (error) {
+            if (!isUnsafeUrlError(error)) throw error;
+            logger.warn({ hostname: extractHostname(url) }, "Blocked non-public URL");
+            return NextResponse.json(
+                ErrorResponseSchema.parse({
+                    error: error instanceof Error ? error.message : "Access to private or local networks is restricted.",
+                    type: "VALIDATION_ERROR",
+                }),
+                { status: 400 }
+            );
+        }
+
+        const cacheKey = buildCacheKey("jina.ai", url);
 
         // Step 1: Check cache first
         try {
-            const rawCachedArticle = await redis.get(cacheKey);
+            const rawCachedArticle = await cache.get(cacheKey);
             const cachedArticle = decompress(rawCachedArticle);
 
             if (cachedArticle) {
@@ -495,6 +592,10 @@ export async function POST(request: NextRequest) {
                 if (article.length > 900) {
                     logger.debug({ hostname: extractHostname(url), length: article.length }, "Jina cache hit");
 
+                    if (isStale(article.fetchedAt, getCachePolicy("jina.ai"))) {
+                        after(() => revalidateJinaArticle(cacheKey, url));
+                    }
+
                     return NextResponse.json(
                         ArticleResponseSchema.parse({
                             source: "jina.ai",
@@ -515,34 +616,8 @@ export async function POST(request: NextRequest) {
             logger.warn({ error: error instanceof Error ? error.message : String(error) }, "Jina cache check error");
         }
 
-        // Step 2: Fetch from Jina.ai
-        const apiKey = process.env.JINA_API_KEY;
-
-        // Log which mode will be used
-        logger.info(
-            {
-                hostname: extractHostname(url),
-                hasApiKey: !!apiKey,
-                apiKeyLength: apiKey?.length || 0,
-                mode: apiKey ? "PREMIUM" : "PUBLIC"
-            },
-            apiKey
-                ? "🔑 JINA_API_KEY is set, using PREMIUM mode"
-                : "⚠️ JINA_API_KEY not set, falling back to PUBLIC mode"
-        );
-
-        let result = apiKey
-            ? await fetchFromJinaPremium(url, apiKey)
-            : await fetchFromJinaPublic(url);
-
-        // If premium API returned a stub response (no content), fallback to public API
-        if ("error" in result && result.error === "STUB_RESPONSE" && apiKey) {
-            logger.info(
-                { hostname: extractHostname(url) },
-                "🔄 Premium API failed to extract content, retrying with PUBLIC API"
-            );
-            result = await fetchFromJinaPublic(url);
-        }
+        // Step 2: Fetch from Jina.ai (once for concurrent requests)
+        const result = await jinaFetches.run(cacheKey, () => fetchFromJina(url));
 
         if ("error" in result) {
             logger.error({ error: result.error }, "Jina fetch failed");
@@ -556,25 +631,7 @@ export async function POST(request: NextRequest) {
         }
 
         // Step 3: Cache the result
-        try {
-            const metaKey = `meta:${cacheKey}`;
-            const metadata = {
-                title: result.title,
-                siteName: result.siteName,
-                length: result.length,
-                byline: result.byline,
-                publishedTime: result.publishedTime,
-            };
-
-            await Promise.all([
-                redis.set(cacheKey, compress(result)),
-                redis.set(metaKey, metadata),
-            ]);
-
-            logger.info({ hostname: extractHostname(url), length: result.length }, "Jina article cached");
-        } catch (error) {
-            logger.warn({ error: error instanceof Error ? error.message : String(error) }, "Jina cache save error");
-        }
+        const article = await cacheJinaArticle(cacheKey, url, result);
 
         // Step 4: Return result
         return NextResponse.json(
@@ -582,10 +639,10 @@ export async function POST(request: NextRequest) {
                 source: "jina.ai",
                 cacheURL: `https://r.jina.ai/${url}`,
                 article: {
-                    ...result,
-                    byline: result.byline || "",
-                    lang: result.lang || "",
-                    publishedTime: result.publishedTime || null,
+                    ...article,
+                    byline: article.byline || "",
+                    lang: article.lang || "",
+                    publishedTime: article.publishedTime || null,
                 },
                 status: "success",
             })
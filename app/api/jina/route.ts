@@ -3,9 +3,11 @@ import { JinaCacheRequestSchema, JinaCacheUpdateSchema, ArticleResponseSchema, E
 import { z } from "zod";
 import { fromError } from "zod-validation-error";
 import { createLogger } from "@/lib/logger";
-import { redis } from "@/lib/redis";
+import { cache } from "@/lib/cache";
 import { compress, decompress } from "@/lib/redis-compression";
 import { getTextDirection } from "@/lib/rtl";
+import { buildCacheKey } from "@/lib/sources/registry";
+import { cacheExpirySeconds, getCachePolicy } from "@/lib/sources/cache-policy";
 
 const logger = createLogger('api:jina');
 
@@ -21,6 +23,8 @@ const CachedArticleSchema = z.object({
   htmlContent: z.string().optional(), // Not available for jina.ai source
   lang: z.string().optional().nullable(),
   dir: z.enum(['rtl', 'ltr']).optional().nullable(),
+  fetchedAt: z.string().optional(),
+  source: z.string().optional(),
 });
 
 /**
@@ -47,12 +51,12 @@ export async function GET(request: NextRequest) {
     }
 
     const { url: validatedUrl } = validationResult.data;
-    const cacheKey = `jina.ai:${validatedUrl}`;
+    const cacheKey = buildCacheKey("jina.ai", validatedUrl);
 
     logger.debug({ hostname: new URL(validatedUrl).hostname }, 'Checking Jina cache');
 
     try {
-      const rawCachedArticle = await redis.get(cacheKey);
+      const rawCachedArticle = await cache.get(cacheKey);
       const cachedArticle = decompress(rawCachedArticle);
 
       if (cachedArticle) {
@@ -132,12 +136,12 @@ export async function POST(request: NextRequest) {
     }
 
     const { url, article } = validationResult.data;
-    const cacheKey = `jina.ai:${url}`;
+    const cacheKey = buildCacheKey("jina.ai", url);
 
     logger.info({ hostname: new URL(url).hostname, length: article.length }, 'Updating Jina cache');
 
     try {
-      const rawExistingArticle = await redis.get(cacheKey);
+      const rawExistingArticle = await cache.get(cacheKey);
       const existingArticle = decompress(rawExistingArticle);
 
       const validatedExisting = existingArticle
@@ -153,17 +157,21 @@ export async function POST(request: NextRequest) {
           length: newArticle.length,
           byline: newArticle.byline,
           publishedTime: newArticle.publishedTime,
+          fetchedAt: newArticle.fetchedAt,
+          source: newArticle.source,
         };
 
+        const setOptions = { ex: cacheExpirySeconds(getCachePolicy("jina.ai")) };
+
         await Promise.all([
-          redis.set(cacheKey, compress(newArticle)),
-          redis.set(metaKey, metadata)
+          cache.set(cacheKey, compress(newArticle), setOptions),
+          cache.set(metaKey, metadata, setOptions)
         ]);
       };
 
       // Detect text direction for the incoming article
       const articleDir = getTextDirection(null, article.textContent);
-      const articleWithDir = { ...article, dir: articleDir, lang: null };
+      const articleWithDir = { ...article, dir: articleDir, lang: null, fetchedAt: new Date().toISOString(), source: "jina.ai" };
 
       // Only update if new article is longer or doesn't exist
       if (!validatedExisting || article.length > validatedExisting.length) {
@@ -1,10 +1,9 @@
 import { NextRequest, NextResponse, after } from "next/server";
-import { Ratelimit } from "@upstash/ratelimit";
 import { createOpenAI } from '@ai-sdk/openai';
 import { streamText } from "ai";
 import { z } from "zod";
 import { createLogger } from "@/lib/logger";
-import { redis } from "@/lib/redis";
+import { cache, createRateLimiter } from "@/lib/cache";
 import { extractArticleUrl } from "@/lib/validation/url";
 import { hashIp, scrubUrl } from "@/lib/privacy";
 
@@ -172,7 +171,7 @@ export async function POST(request: NextRequest) {
       }, 'Cache Debug: Attempting Redis GET');
 
       cached = await withTimeout(
-        redis.get<string>(cacheKey),
+        cache.get<string>(cacheKey),
         REDIS_TIMEOUT_MS,
         'Redis GET'
       );
@@ -232,20 +231,22 @@ export async function POST(request: NextRequest) {
 
         // We wrap rate limiting in timeout too, since it depends on Redis
         const checkRateLimits = async () => {
-          const dailyRatelimit = new Ratelimit({
-            redis: redis,
-            limiter: Ratelimit.slidingWindow(dailyLimit, "1 d"),
+          const dailyRatelimit = createRateLimiter(cache, {
+            limit: dailyLimit,
+            windowSeconds: 24 * 60 * 60,
+            prefix: "ratelimit_daily",
           });
 
-          const minuteRatelimit = new Ratelimit({
-            redis: redis,
-            limiter: Ratelimit.slidingWindow(6, "1 m"),
+          const minuteRatelimit = createRateLimiter(cache, {
+            limit: 6,
+            windowSeconds: 60,
+            prefix: "ratelimit_minute",
           });
 
           // Run in parallel
           const [dailyResult, minuteResult] = await Promise.all([
-            dailyRatelimit.limit(`ratelimit_daily_${clientIp}`),
-            minuteRatelimit.limit(`ratelimit_minute_${clientIp}`)
+            dailyRatelimit.limit(clientIp),
+            minuteRatelimit.limit(clientIp)
           ]);
 
           return { dailySuccess: dailyResult.success, minuteSuccess: minuteResult.success };
@@ -369,7 +370,7 @@ export async function POST(request: NextRequest) {
             // Cache for 30 days (2592000 seconds)
             // Wrap in timeout as well
             await withTimeout(
-              redis.set(cacheKey, validationText, { ex: 2592000 }),
+              cache.set(cacheKey, validationText, { ex: 2592000 }),
               REDIS_TIMEOUT_MS,
               'Redis SET'
             );
@@ -1,5 +1,5 @@
 import { NextResponse } from "next/server";
-import { redis } from "@/lib/redis";
+import { cache } from "@/lib/cache";
 
 // Cache the response for 60 seconds to minimize Redis hits
 // This means even if 1000 users check status, we only read from Redis once per minute
@@ -8,7 +8,7 @@ export const revalidate = 60;
 export async function GET() {
   try {
     // Read the health status set by the cron job
-    const statusData = await redis.get<string>('system:health:status');
+    const statusData = await cache.get<string>('system:health:status');
 
     if (!statusData) {
       // If no data found, maybe cron hasn't ran yet or Redis was down and keys expired
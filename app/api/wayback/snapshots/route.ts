@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ErrorResponseSchema, WaybackSnapshotsRequestSchema, WaybackSnapshotsResponseSchema } from "@/types/api";
+import { fromError } from "zod-validation-error";
+import { createLogger } from "@/lib/logger";
+import { cache } from "@/lib/cache";
+import { extractArticleUrl } from "@/lib/validation/url";
+import { fetchWaybackSnapshots } from "@/lib/sources/wayback";
+
+const logger = createLogger('api:wayback-snapshots');
+
+// New captures show up regularly, so keep the list fresh-ish
+const SNAPSHOT_LIST_TTL_SECONDS = 60 * 60; // 1 hour
+
+/**
+ * GET /api/wayback/snapshots?url=...
+ * List Wayback Machine captures for the snapshot picker (newest first)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const url = searchParams.get("url");
+
+    const validationResult = WaybackSnapshotsRequestSchema.safeParse({ url });
+
+    if (!validationResult.success) {
+      const error = fromError(validationResult.error);
+      logger.error({ error: error.toString() }, 'Validation error');
+      return NextResponse.json(
+        ErrorResponseSchema.parse({
+          error: error.toString(),
+          type: "VALIDATION_ERROR",
+        }),
+        { status: 400 }
+      );
+    }
+
+    const normalizedUrl = extractArticleUrl(validationResult.data.url);
+    const cacheKey = `wayback-snapshots:${normalizedUrl}`;
+
+    try {
+      const cached = await cache.get(cacheKey);
+      const cachedValidation = WaybackSnapshotsResponseSchema.safeParse(cached);
+
+      if (cachedValidation.success) {
+        logger.debug({ hostname: new URL(normalizedUrl).hostname, count: cachedValidation.data.snapshots.length }, 'Snapshot list cache hit');
+        return NextResponse.json(cachedValidation.data);
+      }
+    } catch (error) {
+      logger.warn({ error: error instanceof Error ? error.message : String(error) }, 'Snapshot list cache read error');
+      // Continue to query the CDX API
+    }
+
+    const result = await fetchWaybackSnapshots(normalizedUrl);
+
+    if ("error" in result) {
+      const appError = result.error;
+      return NextResponse.json(
+        ErrorResponseSchema.parse({
+          error: appError.message,
+          type: appError.type,
+        }),
+        { status: appError.type === "NETWORK_ERROR" && appError.statusCode === 429 ? 429 : 502 }
+      );
+    }
+
+    const response = WaybackSnapshotsResponseSchema.parse({
+      url: normalizedUrl,
+      snapshots: result.snapshots,
+    });
+
+    try {
+      await cache.set(cacheKey, response, { ex: SNAPSHOT_LIST_TTL_SECONDS });
+    } catch (error) {
+      logger.warn({ error: error instanceof Error ? error.message : String(error) }, 'Snapshot list cache save error');
+    }
+
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error({ error }, 'Unexpected error in snapshot list route');
+    return NextResponse.json(
+      ErrorResponseSchema.parse({
+        error: "An unexpected error occurred",
+        type: "UNKNOWN_ERROR",
+        details: error instanceof Error ? error.message : String(error),
+      }),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import React from "react";
+import { X } from "lucide-react";
+import { UseQueryResult } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Select, SelectTrigger, SelectContent, SelectItem } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArticleResponse, Source, SOURCES } from "@/types/api";
+import { getSourceDefinition } from "@/lib/sources/registry";
+import { diffArticles } from "@/lib/sources/compare";
+import { DiffRows, DiffSummary } from "./diff-rows";
+
+interface CompareViewProps {
+  /** The open tab */
+  leftSource: Source;
+  /** The source it is compared against */
+  rightSource: Source;
+  articleResults: Record<Source, UseQueryResult<ArticleResponse, Error>>;
+  onRightSourceChange: (source: Source) => void;
+  onClose: () => void;
+}
+
+/**
+ * Two sources side by side with a paragraph-level diff (lib/sources/compare.ts)
+ */
+export const CompareView: React.FC<CompareViewProps> = ({
+  leftSource,
+  rightSource,
+  articleResults,
+  onRightSourceChange,
+  onClose,
+}) => {
+  const left = articleResults[leftSource];
+  const right = articleResults[rightSource];
+  const leftContent = left.data?.article?.content;
+  const rightContent = right.data?.article?.content;
+  const leftLabel = getSourceDefinition(leftSource).label;
+  const rightLabel = getSourceDefinition(rightSource).label;
+
+  const diff = React.useMemo(
+    () => (leftContent && rightContent && leftSource !== rightSource ? diffArticles(leftContent, rightContent) : null),
+    [leftContent, rightContent, leftSource, rightSource]
+  );
+
+  const emptyMessage = (() => {
+    if (leftSource === rightSource) return "Pick another source to compare with.";
+    if (left.isLoading || right.isLoading) return null;
+    if (!leftContent) return `${leftLabel} has no article to compare.`;
+    if (!rightContent) return right.isPending ? `Loading ${rightLabel}…` : `${rightLabel} has no article to compare.`;
+    return null;
+  })();
+
+  return (
+    <div className="mb-8">
+      <div className="mb-4 flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-semibold">{leftLabel}</span>
+        <span className="text-muted-foreground">vs</span>
+        <div className="rounded-[14px] bg-accent p-0.5">
+          <div className="rounded-xl bg-card">
+            <Select value={rightSource} onValueChange={(value) => value && onRightSourceChange(value as Source)}>
+              <SelectTrigger
+                aria-label="Compare with"
+                className="h-8 min-w-36 border-0 bg-transparent text-sm font-semibold shadow-none focus:ring-0 focus:ring-offset-0"
+              >
+                <span className="truncate text-left">{rightLabel}</span>
+              </SelectTrigger>
+              <SelectContent alignItemWithTrigger={false}>
+                {SOURCES.filter((source) => source !== leftSource).map((source) => (
+                  <SelectItem key={source} value={source}>
+                    {getSourceDefinition(source).label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <Button variant="ghost" size="icon" className="ml-auto size-8" onClick={onClose} aria-label="Close comparison">
+          <X className="size-4" />
+        </Button>
+      </div>
+
+      {diff && <DiffSummary summary={diff.summary} leftLabel={leftLabel} rightLabel={rightLabel} />}
+
+      {!diff && emptyMessage && <p className="py-8 text-center text-sm text-muted-foreground">{emptyMessage}</p>}
+
+      {!diff && !emptyMessage && (
+        <div className="space-y-3">
+          {Array.from({ length: 6 }).map((_, index) => (
+            <Skeleton key={index} className="h-16 w-full" />
+          ))}
+        </div>
+      )}
+
+      {diff && <DiffRows rows={diff.rows} leftLabel={leftLabel} rightLabel={rightLabel} />}
+    </div>
+  );
+};
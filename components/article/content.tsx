@@ -10,58 +10,87 @@ import {
 } from "@/components/ui/tooltip";
 import { ArrowsPointingOutIcon, ArrowsPointingInIcon } from "@heroicons/react/24/outline";
 import { QuestionMarkCircleIcon } from "@heroicons/react/24/solid";
+import { LockKeyhole, RefreshCw } from "lucide-react";
 import { Skeleton } from "../ui/skeleton";
 import { UseQueryResult } from "@tanstack/react-query";
 import { ArticleResponse, Source } from "@/types/api";
 import { ErrorDisplay } from "../shared/error-display";
 import { DebugPanel } from "../shared/debug-panel";
 import { ArticleFetchError } from "@/lib/api/client";
+import { getSourceDefinition } from "@/lib/sources/registry";
+import { proxyContentImages } from "@/lib/image-proxy";
+import { DEFAULT_LINK_REWRITE_MODE, LinkRewriteMode, rewriteArticleLinks } from "@/lib/link-rewrite";
+import useLocalStorage from "@/lib/hooks/use-local-storage";
+import { useRefreshArticle } from "@/lib/hooks/use-articles";
+import { cn } from "@/lib/utils";
 
 export type { Source };
 
+const RELATIVE_TIME_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ["year", 365 * 24 * 60 * 60],
+  ["month", 30 * 24 * 60 * 60],
+  ["day", 24 * 60 * 60],
+  ["hour", 60 * 60],
+  ["minute", 60],
+];
+
+/**
+ * "3 days ago", "yesterday", "just now"
+ */
+function formatFetchedAgo(fetchedAt: string): string {
+  const seconds = Math.round((Date.now() - new Date(fetchedAt).getTime()) / 1000);
+  const formatter = new Intl.RelativeTimeFormat("en", { numeric: "auto" });
+  const unit = RELATIVE_TIME_UNITS.find(([, unitSeconds]) => seconds >= unitSeconds);
+  return unit ? formatter.format(-Math.floor(seconds / unit[1]), unit[0]) : "just now";
+}
+
 interface ArticleContentProps {
   query: UseQueryResult<ArticleResponse, Error>;
   source: Source;
   url: string;
+  /** Pinned snapshot (sources with `supportsTimestamp`), so a refresh updates the right query */
+  timestamp?: string | null;
   viewMode?: "markdown" | "html" | "iframe";
+  /** Source to suggest when this one only got a paywall teaser */
+  alternativeSource?: Source | null;
+  onSelectSource?: (source: Source) => void;
 }
 
 export const ArticleContent: React.FC<ArticleContentProps> = ({
   query,
   source,
   url,
+  timestamp,
   viewMode = "markdown",
+  alternativeSource,
+  onSelectSource,
 }) => {
   const [isFullScreen, setIsFullScreen] = useState(false);
   const { data, isLoading, isError, error } = query;
+  const refresh = useRefreshArticle(url, source, timestamp ?? undefined);
+  const fetchedAt = data?.article?.fetchedAt;
 
   // Extract debug context from error if available
   const debugContext = error instanceof ArticleFetchError
     ? error.debugContext
     : data?.debugContext;
 
-  // Helper function to get cacheURL, constructing it if needed
+  // Helper function to get cacheURL, constructing it from the source registry if needed
   const getCacheURL = (): string | undefined => {
-    // First try to get from data
-    if (data?.cacheURL) {
-      return data.cacheURL;
-    }
-
-    // If not available, construct based on source
-    switch (source) {
-      case "wayback":
-        return `https://web.archive.org/web/2/${url}`;
-      case "jina.ai":
-        return `https://r.jina.ai/${url}`;
-      case "fetch-fast":
-      case "fetch-slow":
-      default:
-        return url;
-    }
+    return data?.cacheURL || getSourceDefinition(source).getCacheURL(url);
   };
 
   const cacheURL = getCacheURL();
 
+  // Images load through /api/image so publisher CDNs never see the reader;
+  // links open in the reader per the user's preference (settings drawer)
+  const [linkMode] = useLocalStorage<LinkRewriteMode>("article-link-mode", DEFAULT_LINK_REWRITE_MODE);
+  const articleContent = data?.article?.content;
+  const proxiedContent = React.useMemo(
+    () => (articleContent ? rewriteArticleLinks(proxyContentImages(articleContent), url, linkMode) : ""),
+    [articleContent, url, linkMode]
+  );
+
   return (
     <div className="mt-2">
       <article>
@@ -119,6 +148,34 @@ export const ArticleContent: React.FC<ArticleContentProps> = ({
                 </span>
               )}
             </div>
+
+            {/* Provenance: when this copy was fetched, with a way to get a fresh one */}
+            {(fetchedAt || refresh.canRefresh) && (
+              <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                {fetchedAt && (
+                  <span
+                    title={`Fetched ${new Date(fetchedAt).toLocaleString('en-US')}${data.article.strategy ? ` (${data.article.strategy})` : ''}`}
+                  >
+                    Fetched {formatFetchedAgo(fetchedAt)}
+                  </span>
+                )}
+                {fetchedAt && refresh.canRefresh && <span>·</span>}
+                {refresh.canRefresh && (
+                  <button
+                    type="button"
+                    onClick={refresh.refresh}
+                    disabled={refresh.isRefreshing}
+                    className="inline-flex items-center gap-1 hover:text-foreground disabled:opacity-60"
+                  >
+                    <RefreshCw className={cn("size-3", refresh.isRefreshing && "animate-spin")} />
+                    {refresh.isRefreshing ? "Refreshing…" : "Refresh"}
+                  </button>
+                )}
+                {refresh.error && !refresh.isRefreshing && (
+                  <span className="text-destructive">{refresh.error.message}</span>
+                )}
+              </div>
+            )}
           </div>
         )}
 
@@ -267,6 +324,25 @@ export const ArticleContent: React.FC<ArticleContentProps> = ({
                 </div>
               )}
 
+              {data.article?.truncated && viewMode === "markdown" && (
+                <div className="mt-6 flex flex-wrap items-center gap-3 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800 dark:border-amber-900/30 dark:bg-amber-900/20 dark:text-amber-300">
+                  <LockKeyhole className="size-4 shrink-0" />
+                  <p className="flex-1">
+                    This looks like a preview - the rest of the article is behind a paywall.
+                  </p>
+                  {alternativeSource && onSelectSource && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 bg-background text-xs"
+                      onClick={() => onSelectSource(alternativeSource)}
+                    >
+                      Try {getSourceDefinition(alternativeSource).label}
+                    </Button>
+                  )}
+                </div>
+              )}
+
               {viewMode === "html" ? (
                 data.article?.htmlContent ? (
                   <div
@@ -326,7 +402,7 @@ export const ArticleContent: React.FC<ArticleContentProps> = ({
                   className="mt-6 wrap-break-word prose dark:prose-invert max-w-none"
                   dir={data.article.dir || 'ltr'}
                   lang={data.article.lang || undefined}
-                  dangerouslySetInnerHTML={{ __html: data.article.content }}
+                  dangerouslySetInnerHTML={{ __html: proxiedContent }}
                 />
               ) : (
                 <div className="mt-6 flex items-center space-x-2">
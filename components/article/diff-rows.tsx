@@ -0,0 +1,137 @@
+"use client";
+
+import React from "react";
+import { ArticleDiffSummary, ParagraphDiffRow, WordSegment } from "@/lib/sources/compare";
+import { cn } from "@/lib/utils";
+
+// Runs of identical paragraphs longer than this collapse to a "N identical paragraphs" row
+const COLLAPSE_SAME_AFTER = 2;
+
+const ROW_STYLES: Record<ParagraphDiffRow["kind"], { left: string; right: string }> = {
+  same: { left: "text-muted-foreground", right: "text-muted-foreground" },
+  changed: { left: "bg-amber-500/10", right: "bg-amber-500/10" },
+  missing: { left: "bg-red-500/10", right: "border border-dashed border-border" },
+  added: { left: "border border-dashed border-border", right: "bg-green-500/10" },
+};
+
+type DisplayRow = { type: "row"; row: ParagraphDiffRow } | { type: "collapsed"; count: number; start: number };
+
+/**
+ * Group long runs of identical paragraphs so the differences stand out
+ */
+function collapseSameRuns(rows: ParagraphDiffRow[], expanded: Set<number>): DisplayRow[] {
+  const display: DisplayRow[] = [];
+  let index = 0;
+
+  while (index < rows.length) {
+    if (rows[index].kind !== "same") {
+      display.push({ type: "row", row: rows[index] });
+      index++;
+      continue;
+    }
+
+    let end = index;
+    while (end < rows.length && rows[end].kind === "same") end++;
+
+    if (end - index > COLLAPSE_SAME_AFTER && !expanded.has(index)) {
+      display.push({ type: "collapsed", count: end - index, start: index });
+    } else {
+      rows.slice(index, end).forEach((row) => display.push({ type: "row", row }));
+    }
+    index = end;
+  }
+
+  return display;
+}
+
+/**
+ * Words of an edited passage, with removed/added ones highlighted
+ */
+export const DiffSegments: React.FC<{ segments: WordSegment[] }> = ({ segments }) => (
+  <>
+    {segments.map((segment, index) => {
+      const text = index < segments.length - 1 ? `${segment.text} ` : segment.text;
+      if (segment.kind === "removed") {
+        return <del key={index} className="rounded-sm bg-red-500/20 no-underline">{text}</del>;
+      }
+      if (segment.kind === "added") {
+        return <ins key={index} className="rounded-sm bg-green-500/20 no-underline">{text}</ins>;
+      }
+      return <span key={index}>{text}</span>;
+    })}
+  </>
+);
+
+const DiffCell: React.FC<{ text: string | null; segments?: WordSegment[]; className: string }> = ({
+  text,
+  segments,
+  className,
+}) => (
+  <div className={cn("min-w-0 rounded-md px-3 py-2 text-sm leading-relaxed wrap-break-word", className)}>
+    {segments ? <DiffSegments segments={segments} /> : text}
+  </div>
+);
+
+interface DiffLabels {
+  leftLabel: string;
+  rightLabel: string;
+}
+
+/**
+ * Word counts and how many paragraphs differ
+ */
+export const DiffSummary: React.FC<DiffLabels & { summary: ArticleDiffSummary }> = ({ summary, leftLabel, rightLabel }) => (
+  <div className="mb-4 flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+    <span>
+      {leftLabel}: {summary.leftWords.toLocaleString()} words · {rightLabel}: {summary.rightWords.toLocaleString()} words
+    </span>
+    <span className="flex items-center gap-1.5">
+      <span className="size-2 rounded-full bg-red-500/60" />
+      {summary.missing} only in {leftLabel}
+    </span>
+    <span className="flex items-center gap-1.5">
+      <span className="size-2 rounded-full bg-green-500/60" />
+      {summary.added} only in {rightLabel}
+    </span>
+    <span className="flex items-center gap-1.5">
+      <span className="size-2 rounded-full bg-amber-500/60" />
+      {summary.changed} changed
+    </span>
+    <span>{summary.same} identical</span>
+  </div>
+);
+
+/**
+ * Side-by-side paragraph rows of a diff (lib/sources/compare.ts)
+ */
+export const DiffRows: React.FC<DiffLabels & { rows: ParagraphDiffRow[] }> = ({ rows, leftLabel, rightLabel }) => {
+  // Expanded runs are keyed by their first row index, which changes with the diff
+  const [expanded, setExpanded] = React.useState<Set<number>>(new Set());
+  React.useEffect(() => setExpanded(new Set()), [rows]);
+
+  const displayRows = React.useMemo(() => collapseSameRuns(rows, expanded), [rows, expanded]);
+
+  return (
+    <div className="grid grid-cols-2 gap-x-3 gap-y-2">
+      <div className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">{leftLabel}</div>
+      <div className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">{rightLabel}</div>
+      {displayRows.map((item, index) =>
+        item.type === "collapsed" ? (
+          <button
+            key={`collapsed-${item.start}`}
+            type="button"
+            className="col-span-2 rounded-md py-1 text-xs text-muted-foreground hover:bg-muted hover:text-foreground"
+            onClick={() => setExpanded((previous) => new Set(Array.from(previous).concat(item.start)))}
+          >
+            ⋯ {item.count} identical paragraphs
+          </button>
+        ) : (
+          <React.Fragment key={index}>
+            <DiffCell text={item.row.left} segments={item.row.leftSegments} className={ROW_STYLES[item.row.kind].left} />
+            <DiffCell text={item.row.right} segments={item.row.rightSegments} className={ROW_STYLES[item.row.kind].right} />
+          </React.Fragment>
+        )
+      )}
+    </div>
+  );
+};
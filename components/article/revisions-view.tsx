@@ -0,0 +1,240 @@
+"use client";
+
+import React from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectTrigger, SelectContent, SelectItem } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { RevisionEntry, Source, SOURCES } from "@/types/api";
+import { getSourceDefinition } from "@/lib/sources/registry";
+import { diffArticles, diffWords } from "@/lib/sources/compare";
+import { useRevision, useRevisions } from "@/lib/hooks/use-revisions";
+import { cn } from "@/lib/utils";
+import { DiffRows, DiffSegments, DiffSummary } from "./diff-rows";
+
+function sourceLabel(source: string): string {
+  return (SOURCES as readonly string[]).includes(source) ? getSourceDefinition(source as Source).shortLabel : source;
+}
+
+function formatFetchedAt(fetchedAt: string): string {
+  return new Date(fetchedAt).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function revisionLabel(revision: RevisionEntry): string {
+  return `${formatFetchedAt(revision.fetchedAt)} · ${sourceLabel(revision.source)}`;
+}
+
+/**
+ * The revision the same source returned before this one (the list is newest first)
+ */
+function previousFromSameSource(revisions: RevisionEntry[], id: string): RevisionEntry | undefined {
+  const index = revisions.findIndex((revision) => revision.id === id);
+  if (index === -1) return undefined;
+  return revisions.slice(index + 1).find((revision) => revision.source === revisions[index].source);
+}
+
+/**
+ * What to diff a revision against: its source's previous revision, else the next older one
+ */
+function defaultFromId(revisions: RevisionEntry[], id: string): string | null {
+  const index = revisions.findIndex((revision) => revision.id === id);
+  return previousFromSameSource(revisions, id)?.id ?? revisions[index + 1]?.id ?? null;
+}
+
+const RevisionSelect: React.FC<{
+  label: string;
+  value: string | null;
+  revisions: RevisionEntry[];
+  onChange: (id: string) => void;
+}> = ({ label, value, revisions, onChange }) => {
+  const selected = revisions.find((revision) => revision.id === value);
+
+  return (
+    <div className="rounded-[14px] bg-accent p-0.5">
+      <div className="rounded-xl bg-card">
+        <Select value={value ?? ""} onValueChange={(next) => next && onChange(next)}>
+          <SelectTrigger
+            aria-label={label}
+            className="h-8 min-w-48 border-0 bg-transparent text-sm font-medium shadow-none focus:ring-0 focus:ring-offset-0"
+          >
+            <span className="flex items-center gap-2 truncate text-left">
+              <span className="text-xs text-muted-foreground">{label}</span>
+              <span>{selected ? revisionLabel(selected) : "—"}</span>
+            </span>
+          </SelectTrigger>
+          <SelectContent alignItemWithTrigger={false}>
+            {revisions.map((revision) => (
+              <SelectItem key={`${revision.id}-${revision.fetchedAt}`} value={revision.id}>
+                {revisionLabel(revision)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
+
+interface RevisionsViewProps {
+  url: string;
+  onClose: () => void;
+}
+
+/**
+ * Timeline of stored revisions (lib/sources/revisions.ts) and a diff between any two
+ */
+export const RevisionsView: React.FC<RevisionsViewProps> = ({ url, onClose }) => {
+  const { data, isLoading, isError } = useRevisions(url, true);
+  const revisions = React.useMemo(() => data?.revisions ?? [], [data]);
+
+  // Defaults: the newest revision against what its source returned before it (see defaultFromId)
+  const [selection, setSelection] = React.useState<{ from: string | null; to: string | null } | null>(null);
+  const toId = selection?.to ?? revisions[0]?.id ?? null;
+  const fromId = selection ? selection.from : toId && defaultFromId(revisions, toId);
+
+  const from = useRevision(url, fromId);
+  const to = useRevision(url, toId);
+  const fromArticle = from.data?.article;
+  const toArticle = to.data?.article;
+
+  const diff = React.useMemo(
+    () => (fromArticle && toArticle && fromId !== toId ? diffArticles(fromArticle.content, toArticle.content) : null),
+    [fromArticle, toArticle, fromId, toId]
+  );
+  const titleDiff = React.useMemo(
+    () => (fromArticle && toArticle && fromArticle.title !== toArticle.title ? diffWords(fromArticle.title, toArticle.title) : null),
+    [fromArticle, toArticle]
+  );
+
+  const fromEntry = revisions.find((revision) => revision.id === fromId);
+  const toEntry = revisions.find((revision) => revision.id === toId);
+  const fromLabel = fromEntry ? formatFetchedAt(fromEntry.fetchedAt) : "Older";
+  const toLabel = toEntry ? formatFetchedAt(toEntry.fetchedAt) : "Newer";
+
+  const selectRevision = (id: string) => {
+    setSelection({ to: id, from: defaultFromId(revisions, id) });
+  };
+
+  return (
+    <div className="mb-8">
+      <div className="mb-4 flex items-center gap-2">
+        <h2 className="text-sm font-semibold">Revisions</h2>
+        <Button variant="ghost" size="icon" className="ml-auto size-8" onClick={onClose} aria-label="Close revisions">
+          <X className="size-4" />
+        </Button>
+      </div>
+
+      {isLoading && (
+        <div className="space-y-3">
+          {Array.from({ length: 4 }).map((_, index) => (
+            <Skeleton key={index} className="h-10 w-full" />
+          ))}
+        </div>
+      )}
+
+      {isError && <p className="py-8 text-center text-sm text-muted-foreground">Couldn&apos;t load the revision history.</p>}
+
+      {!isLoading && !isError && revisions.length === 0 && (
+        <p className="py-8 text-center text-sm text-muted-foreground">
+          No revisions recorded yet. A revision is saved whenever a source returns materially different text for this article.
+        </p>
+      )}
+
+      {revisions.length > 0 && (
+        <ol className="mb-6 border-s border-border ps-4">
+          {revisions.map((revision, index) => {
+            const previous = previousFromSameSource(revisions, revision.id);
+            const headlineChanged = !!previous && previous.title !== revision.title;
+            const isSelected = revision.id === toId || revision.id === fromId;
+
+            return (
+              <li key={`${revision.id}-${revision.fetchedAt}`} className="relative mb-1">
+                <span
+                  className={cn(
+                    "absolute -start-[21px] top-3 size-2.5 rounded-full border-2 border-card",
+                    isSelected ? "bg-primary" : "bg-muted-foreground/40"
+                  )}
+                />
+                <button
+                  type="button"
+                  onClick={() => selectRevision(revision.id)}
+                  className={cn(
+                    "w-full rounded-md px-2 py-1.5 text-start text-sm hover:bg-muted",
+                    isSelected && "bg-muted"
+                  )}
+                >
+                  <span className="flex flex-wrap items-center gap-x-2 text-xs text-muted-foreground">
+                    <span>{formatFetchedAt(revision.fetchedAt)}</span>
+                    <span>{sourceLabel(revision.source)}</span>
+                    <span>{revision.length.toLocaleString()} chars</span>
+                    {index === revisions.length - 1 && <span>first seen</span>}
+                    {headlineChanged && <span className="font-medium text-amber-600 dark:text-amber-400">headline changed</span>}
+                    {revision.id === toId && <span className="font-medium text-foreground">to</span>}
+                    {revision.id === fromId && <span className="font-medium text-foreground">from</span>}
+                  </span>
+                  <span className="block truncate font-medium">{revision.title}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {revisions.length > 1 && (
+        <>
+          <div className="mb-4 flex flex-wrap items-center gap-2 text-sm">
+            <RevisionSelect
+              label="From"
+              value={fromId}
+              revisions={revisions}
+              onChange={(id) => setSelection({ from: id, to: toId })}
+            />
+            <span className="text-muted-foreground">→</span>
+            <RevisionSelect
+              label="To"
+              value={toId}
+              revisions={revisions}
+              onChange={(id) => setSelection({ from: fromId, to: id })}
+            />
+          </div>
+
+          {fromId === toId && <p className="py-4 text-sm text-muted-foreground">Pick two different revisions to compare.</p>}
+
+          {(from.isLoading || to.isLoading) && <Skeleton className="h-32 w-full" />}
+
+          {(from.isError || to.isError) && (
+            <p className="py-4 text-sm text-muted-foreground">The stored copy of this revision has expired.</p>
+          )}
+
+          {titleDiff && (
+            <div className="mb-4 grid grid-cols-2 gap-3">
+              <div className="rounded-md bg-amber-500/10 px-3 py-2 text-base font-semibold leading-snug">
+                <DiffSegments segments={titleDiff.left} />
+              </div>
+              <div className="rounded-md bg-amber-500/10 px-3 py-2 text-base font-semibold leading-snug">
+                <DiffSegments segments={titleDiff.right} />
+              </div>
+            </div>
+          )}
+
+          {diff && (
+            <>
+              <DiffSummary summary={diff.summary} leftLabel={fromLabel} rightLabel={toLabel} />
+              <DiffRows rows={diff.rows} leftLabel={fromLabel} rightLabel={toLabel} />
+            </>
+          )}
+        </>
+      )}
+
+      {revisions.length === 1 && (
+        <p className="text-sm text-muted-foreground">Only one version has been seen so far - nothing to compare yet.</p>
+      )}
+    </div>
+  );
+};
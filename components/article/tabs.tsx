@@ -3,25 +3,18 @@
 import { Tabs, TabsContent } from "@/components/ui/tabs";
 import { Tabs as TabsPrimitive } from "@base-ui/react/tabs";
 import React from "react";
+import { Columns2, FileClock } from "lucide-react";
 import { ArticleContent } from "./content";
+import { CompareView } from "./compare-view";
+import { RevisionsView } from "./revisions-view";
+import { WaybackSnapshotPicker } from "./wayback-snapshot-picker";
 import { Source, ArticleResponse, SOURCES } from "@/types/api";
 import { UseQueryResult } from "@tanstack/react-query";
 import { cn } from "@/lib/utils";
 import { Skeleton } from "@/components/ui/skeleton";
-
-const SOURCE_LABELS: Record<Source, string> = {
-  "fetch-fast": "Quick",
-  "fetch-slow": "Precise",
-  wayback: "Wayback",
-  "jina.ai": "Jina.ai",
-};
-
-const MOBILE_SOURCE_LABELS: Record<Source, string> = {
-  "fetch-fast": "Quick",
-  "fetch-slow": "Precise",
-  wayback: "Wayback",
-  "jina.ai": "Jina",
-};
+import { Button } from "@/components/ui/button";
+import { getSourceDefinition } from "@/lib/sources/registry";
+import { rankArticles } from "@/lib/sources/quality";
 
 const EnhancedTabsList: React.FC<{
   sources: readonly Source[];
@@ -58,8 +51,8 @@ const EnhancedTabsList: React.FC<{
                 "focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-inset"
               )}
             >
-              <span className="hidden sm:inline">{SOURCE_LABELS[source]}</span>
-              <span className="inline sm:hidden">{MOBILE_SOURCE_LABELS[source]}</span>
+              <span className="hidden sm:inline">{getSourceDefinition(source).label}</span>
+              <span className="inline sm:hidden">{getSourceDefinition(source).shortLabel}</span>
 
               {isLoading ? (
                 <Skeleton className="h-4 w-8 sm:h-5 sm:w-10 rounded-md sm:rounded-lg" />
@@ -83,13 +76,56 @@ const EnhancedTabsList: React.FC<{
 
 type ArticleResults = Record<Source, UseQueryResult<ArticleResponse, Error>>;
 
+/**
+ * Where to send readers from a truncated article: the best complete article another
+ * source already loaded, else the first source that hasn't been tried yet
+ */
+function suggestAlternative(results: ArticleResults, current: Source): Source | null {
+  const others = SOURCES.filter((source) => source !== current);
+
+  const candidates = others.flatMap((source) => {
+    const article = results[source].data?.article;
+    return article ? [{ source, article }] : [];
+  });
+  const complete = rankArticles(candidates).find((candidate) => !candidate.quality.truncated);
+  if (complete) return complete.source;
+
+  return others.find((source) => results[source].isPending && results[source].fetchStatus === "idle") ?? null;
+}
+
+/**
+ * What to compare the open tab against: the best other source that already loaded,
+ * else the first other source fetched automatically
+ */
+function defaultCompareSource(results: ArticleResults, current: Source): Source {
+  const others = SOURCES.filter((source) => source !== current);
+
+  const candidates = others.flatMap((source) => {
+    const article = results[source].data?.article;
+    return article ? [{ source, article }] : [];
+  });
+
+  return rankArticles(candidates)[0]?.source
+    ?? others.find((source) => getSourceDefinition(source).autoFetch)
+    ?? others[0];
+}
+
 interface TabProps {
   url: string;
   articleResults: ArticleResults;
   viewMode: "markdown" | "html" | "iframe";
   activeSource: Source;
   onSourceChange: (source: Source) => void;
-  onJinaTabClick?: () => void;
+  onManualSourceClick?: (source: Source) => void;
+  /** Pinned snapshot for sources with `supportsTimestamp` (null = latest) */
+  timestamp?: string | null;
+  onTimestampChange?: (timestamp: string | null) => void;
+  /** Source shown side by side with the open tab (null = compare view closed) */
+  compareSource?: Source | null;
+  onCompareSourceChange?: (source: Source | null) => void;
+  /** Revision timeline shown instead of the article */
+  showRevisions?: boolean;
+  onShowRevisionsChange?: (show: boolean) => void;
 }
 
 const ArrowTabs: React.FC<TabProps> = ({
@@ -98,35 +134,43 @@ const ArrowTabs: React.FC<TabProps> = ({
   viewMode,
   activeSource,
   onSourceChange,
-  onJinaTabClick,
+  onManualSourceClick,
+  timestamp = null,
+  onTimestampChange,
+  compareSource = null,
+  onCompareSourceChange,
+  showRevisions = false,
+  onShowRevisionsChange,
 }) => {
   const results = articleResults;
   const tabsId = React.useId();
 
-  const counts: Record<Source, number | undefined> = {
-    "fetch-fast": results["fetch-fast"].data?.article?.length,
-    "fetch-slow": results["fetch-slow"].data?.article?.length,
-    "wayback": results.wayback.data?.article?.length,
-    "jina.ai": results["jina.ai"].data?.article?.length,
-  };
+  const counts = Object.fromEntries(
+    SOURCES.map((source) => [source, results[source].data?.article?.length])
+  ) as Record<Source, number | undefined>;
 
-  const loadingStates: Record<Source, boolean> = {
-    "fetch-fast": results["fetch-fast"].isLoading,
-    "fetch-slow": results["fetch-slow"].isLoading,
-    "wayback": results.wayback.isLoading,
-    "jina.ai": results["jina.ai"].isLoading,
-  };
+  const loadingStates = Object.fromEntries(
+    SOURCES.map((source) => [source, results[source].isLoading])
+  ) as Record<Source, boolean>;
 
-  // Handle source change - trigger Jina fetch if needed
+  // Handle source change - trigger on-demand fetch (e.g. Jina) if needed
   const handleSourceChange = React.useCallback((value: string) => {
     const source = value as Source;
     onSourceChange(source);
 
-    // Trigger Jina fetch when user clicks the Jina tab
-    if (source === "jina.ai" && onJinaTabClick) {
-      onJinaTabClick();
+    // Sources that aren't fetched automatically load when the user clicks their tab
+    if (!getSourceDefinition(source).autoFetch && onManualSourceClick) {
+      onManualSourceClick(source);
+    }
+  }, [onSourceChange, onManualSourceClick]);
+
+  const handleCompareSourceChange = React.useCallback((source: Source | null) => {
+    onCompareSourceChange?.(source);
+
+    if (source && !getSourceDefinition(source).autoFetch && onManualSourceClick) {
+      onManualSourceClick(source);
     }
-  }, [onSourceChange, onJinaTabClick]);
+  }, [onCompareSourceChange, onManualSourceClick]);
 
   return (
     <div className="relative min-h-screen pb-12 md:pb-0 px-4 md:px-0">
@@ -143,45 +187,77 @@ const ArrowTabs: React.FC<TabProps> = ({
             "border-b border-border/40 sm:border-0"
           )}
         >
-          <EnhancedTabsList
-            sources={SOURCES}
-            counts={counts}
-            loadingStates={loadingStates}
-          />
+          <div className="flex items-center gap-1">
+            <div className="min-w-0 flex-1">
+              <EnhancedTabsList
+                sources={SOURCES}
+                counts={counts}
+                loadingStates={loadingStates}
+              />
+            </div>
+            {onCompareSourceChange && (
+              <Button
+                variant={compareSource ? "secondary" : "ghost"}
+                size="icon"
+                className="mb-1 size-9 shrink-0"
+                aria-pressed={!!compareSource}
+                aria-label="Compare sources"
+                title="Compare sources side by side"
+                onClick={() => handleCompareSourceChange(compareSource ? null : defaultCompareSource(results, activeSource))}
+              >
+                <Columns2 className="size-4" />
+              </Button>
+            )}
+            {onShowRevisionsChange && (
+              <Button
+                variant={showRevisions ? "secondary" : "ghost"}
+                size="icon"
+                className="mb-1 size-9 shrink-0"
+                aria-pressed={showRevisions}
+                aria-label="Revisions"
+                title="Revisions - see how this article changed over time"
+                onClick={() => onShowRevisionsChange(!showRevisions)}
+              >
+                <FileClock className="size-4" />
+              </Button>
+            )}
+          </div>
         </div>
 
-        <TabsContent value={"fetch-fast"}>
-          <ArticleContent
-            query={results["fetch-fast"]}
-            source="fetch-fast"
-            url={url}
-            viewMode={viewMode}
-          />
-        </TabsContent>
-        <TabsContent value={"fetch-slow"}>
-          <ArticleContent
-            query={results["fetch-slow"]}
-            source="fetch-slow"
-            url={url}
-            viewMode={viewMode}
-          />
-        </TabsContent>
-        <TabsContent value={"wayback"}>
-          <ArticleContent
-            query={results.wayback}
-            source="wayback"
-            url={url}
-            viewMode={viewMode}
-          />
-        </TabsContent>
-        <TabsContent value={"jina.ai"}>
-          <ArticleContent
-            query={results["jina.ai"]}
-            source="jina.ai"
-            url={url}
-            viewMode={viewMode}
-          />
-        </TabsContent>
+        {SOURCES.map((source) => (
+          <TabsContent key={source} value={source}>
+            {getSourceDefinition(source).supportsTimestamp && onTimestampChange && (
+              <WaybackSnapshotPicker
+                url={url}
+                timestamp={timestamp}
+                onTimestampChange={onTimestampChange}
+              />
+            )}
+            {showRevisions ? (
+              <RevisionsView url={url} onClose={() => onShowRevisionsChange?.(false)} />
+            ) : compareSource ? (
+              <CompareView
+                leftSource={source}
+                rightSource={compareSource}
+                articleResults={results}
+                onRightSourceChange={handleCompareSourceChange}
+                onClose={() => handleCompareSourceChange(null)}
+              />
+            ) : (
+              <ArticleContent
+                query={results[source]}
+                source={source}
+                url={url}
+                timestamp={timestamp}
+                viewMode={viewMode}
+                alternativeSource={
+                  results[source].data?.article?.truncated ? suggestAlternative(results, source) : null
+                }
+                onSelectSource={handleSourceChange}
+              />
+            )}
+          </TabsContent>
+        ))}
       </Tabs>
     </div>
   );
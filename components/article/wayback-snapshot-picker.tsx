@@ -0,0 +1,85 @@
+"use client";
+
+import React from "react";
+import { History } from "lucide-react";
+import { Select, SelectTrigger, SelectContent, SelectItem } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useWaybackSnapshots } from "@/lib/hooks/use-wayback-snapshots";
+
+// Select value for "no pinned snapshot" (Wayback resolves to the latest capture)
+const LATEST = "latest";
+
+/**
+ * Format a Wayback timestamp (YYYYMMDDhhmmss, possibly truncated) as a date
+ */
+function formatSnapshotDate(timestamp: string): string {
+  const year = Number(timestamp.slice(0, 4));
+  const month = Number(timestamp.slice(4, 6) || "1") - 1;
+  const day = Number(timestamp.slice(6, 8) || "1");
+  const date = new Date(Date.UTC(year, month, day));
+
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+}
+
+interface WaybackSnapshotPickerProps {
+  url: string;
+  /** Pinned snapshot timestamp, null for the latest capture */
+  timestamp: string | null;
+  onTimestampChange: (timestamp: string | null) => void;
+}
+
+export const WaybackSnapshotPicker: React.FC<WaybackSnapshotPickerProps> = ({
+  url,
+  timestamp,
+  onTimestampChange,
+}) => {
+  const { data, isLoading, isError } = useWaybackSnapshots(url, true);
+  const snapshots = data?.snapshots ?? [];
+
+  if (isLoading) {
+    return <Skeleton className="mb-4 h-9 w-full rounded-[14px] sm:w-64" />;
+  }
+
+  // Nothing to pick from - the tab still shows the latest capture
+  if (isError || snapshots.length === 0) {
+    return null;
+  }
+
+  // A shared link may pin a capture that isn't in the (collapsed) list
+  const hasPinnedSnapshot = !!timestamp && !snapshots.some((snapshot) => snapshot.timestamp === timestamp);
+
+  return (
+    <div className="mb-4 w-full rounded-[14px] bg-accent p-0.5 sm:w-64">
+      <div className="rounded-xl bg-card">
+        <Select
+          value={timestamp ?? LATEST}
+          onValueChange={(value) => onTimestampChange(!value || value === LATEST ? null : value)}
+        >
+          <SelectTrigger
+            aria-label="Wayback snapshot"
+            className="h-9 w-full min-w-0 border-0 bg-transparent text-sm font-medium shadow-none focus:ring-0 focus:ring-offset-0"
+          >
+            <span className="flex w-full items-center gap-2 truncate text-left">
+              <History className="size-4 text-muted-foreground" />
+              <span>{timestamp ? formatSnapshotDate(timestamp) : "Latest snapshot"}</span>
+              <span className="text-xs font-normal text-muted-foreground">
+                {snapshots.length.toLocaleString()} captures
+              </span>
+            </span>
+          </SelectTrigger>
+          <SelectContent alignItemWithTrigger={false}>
+            <SelectItem value={LATEST}>Latest snapshot</SelectItem>
+            {hasPinnedSnapshot && (
+              <SelectItem value={timestamp}>{formatSnapshotDate(timestamp)}</SelectItem>
+            )}
+            {snapshots.map((snapshot) => (
+              <SelectItem key={snapshot.timestamp} value={snapshot.timestamp}>
+                {formatSnapshotDate(snapshot.timestamp)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
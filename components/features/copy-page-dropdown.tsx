@@ -27,6 +27,32 @@ const turndownService = new TurndownService({
   linkStyle: "inlined",
 });
 
+// Embed cards (lib/sources/embeds.ts) export as one quote: thumbnail, text, then byline and link
+turndownService.addRule("embedCard", {
+  filter: (node) => node.nodeName === "FIGURE" && node.hasAttribute("data-embed"),
+  replacement: (_content, node) => {
+    const card = node as HTMLElement;
+    const link = card.querySelector("figcaption a[href]");
+    const href = link?.getAttribute("href");
+    if (!href) return "";
+
+    const thumbnail = card.querySelector("img")?.getAttribute("src");
+    const text = card.querySelector("blockquote")?.textContent?.trim();
+    const byline = card.querySelector("figcaption")?.textContent
+      ?.replace(link?.textContent ?? "", "")
+      .replace(/[\s·]+$/, "")
+      .trim();
+
+    const lines = [
+      thumbnail ? `[![](${thumbnail})](${href})` : null,
+      text ? turndownService.escape(text) : null,
+      `${byline ? `— ${turndownService.escape(byline)} · ` : ""}[${link?.textContent ?? href}](${href})`,
+    ].filter(Boolean);
+
+    return `\n\n${lines.map((line) => `> ${line}`).join("\n>\n")}\n\n`;
+  },
+});
+
 // AI Service Icons
 const OpenAIIcon = ({ className }: { className?: string }) => (
   <svg
@@ -50,6 +50,10 @@ import {
   parseAsString,
 } from "nuqs";
 import { Source, SOURCES } from "@/types/api";
+import { getSourceDefinition } from "@/lib/sources/registry";
+import { rankArticles } from "@/lib/sources/quality";
+import { DEFAULT_LINK_REWRITE_MODE, LINK_REWRITE_MODES, LinkRewriteMode } from "@/lib/link-rewrite";
+import useLocalStorage from "@/lib/hooks/use-local-storage";
 import { ResizableModal } from "./resizable-modal";
 
 const siteUrl = process.env.NEXT_PUBLIC_URL || "https://smry.ai";
@@ -101,6 +105,29 @@ function HistoryButton({ variant = "desktop" }: { variant?: "desktop" | "mobile"
 }
 
 
+const AUTO_FETCH_SOURCES = SOURCES.filter((id) => getSourceDefinition(id).autoFetch);
+
+/**
+ * Best auto-fetched source, ranked like /api/article/best
+ * Waits until every auto source has settled so the open tab doesn't jump while they load.
+ */
+function pickBestSource(results: ReturnType<typeof useArticles>["results"]): Source | null {
+  if (AUTO_FETCH_SOURCES.some((id) => results[id]?.isPending)) return null;
+
+  const candidates = AUTO_FETCH_SOURCES.flatMap((id) => {
+    const article = results[id]?.data?.article;
+    return article ? [{ source: id, article }] : [];
+  });
+  return rankArticles(candidates)[0]?.source ?? null;
+}
+
+// Settings drawer labels (messages: proxy.*)
+const LINK_MODE_LABELS: Record<LinkRewriteMode, "linksOriginal" | "linksSameSite" | "linksAll"> = {
+  off: "linksOriginal",
+  "same-site": "linksSameSite",
+  all: "linksAll",
+};
+
 interface ProxyContentProps {
   url: string;
   ip: string;
@@ -110,7 +137,6 @@ interface ProxyContentProps {
 }
 
 export function ProxyContent({ url, ip }: ProxyContentProps) {
-  const { results, triggerJinaFetch } = useArticles(url);
   const { theme, setTheme } = useTheme();
   const { isPremium, isLoading } = useIsPremium();
   const t = useTranslations("proxy");
@@ -121,9 +147,14 @@ export function ProxyContent({ url, ip }: ProxyContentProps) {
   const [query, setQuery] = useQueryStates(
     {
       url: parseAsString.withDefault(url),
-      source: parseAsStringLiteral(SOURCES).withDefault("fetch-fast"),
+      // No default: without an explicit ?source= the page opens on the best-scoring tab
+      source: parseAsStringLiteral(SOURCES),
       view: parseAsStringLiteral(viewModes).withDefault("markdown"),
       sidebar: parseAsBoolean.withDefault(false),
+      timestamp: parseAsString,
+      // Source shown side by side with the open tab
+      compare: parseAsStringLiteral(SOURCES),
+      revisions: parseAsBoolean.withDefault(false),
     },
     {
       history: "replace",
@@ -131,9 +162,14 @@ export function ProxyContent({ url, ip }: ProxyContentProps) {
     }
   );
 
-  const source = query.source as Source;
   const viewMode = query.view as (typeof viewModes)[number];
   const sidebarOpen = query.sidebar as boolean;
+  // Pinned Wayback snapshot (null = latest); validated again by /api/article
+  const timestamp = query.timestamp && /^\d{4,14}$/.test(query.timestamp) ? query.timestamp : null;
+
+  const { results, triggerSourceFetch } = useArticles(url, timestamp ?? undefined);
+
+  const source: Source = query.source ?? pickBestSource(results) ?? "fetch-fast";
 
   const activeArticle = results[source]?.data?.article;
   const articleTitle = activeArticle?.title;
@@ -141,6 +177,33 @@ export function ProxyContent({ url, ip }: ProxyContentProps) {
   const articleTextContent = activeArticle?.textContent;
   const articleHtmlContent = activeArticle?.content; // HTML content for Markdown conversion
 
+  const compareSource: Source | null = query.compare ?? null;
+
+  // On-demand sources (e.g. a shared link with ?source=archive-today) load when they open as the active tab
+  const activeQuery = results[source];
+  useEffect(() => {
+    if (
+      !getSourceDefinition(source).autoFetch &&
+      activeQuery?.status === "pending" &&
+      activeQuery.fetchStatus === "idle"
+    ) {
+      triggerSourceFetch(source);
+    }
+  }, [source, activeQuery, triggerSourceFetch]);
+
+  // ...and when a shared link opens the compare view on one
+  const compareQuery = compareSource ? results[compareSource] : undefined;
+  useEffect(() => {
+    if (
+      compareSource &&
+      !getSourceDefinition(compareSource).autoFetch &&
+      compareQuery?.status === "pending" &&
+      compareQuery.fetchStatus === "idle"
+    ) {
+      triggerSourceFetch(compareSource);
+    }
+  }, [compareSource, compareQuery, triggerSourceFetch]);
+
   // Track if we've already saved to history for this URL
   const savedToHistoryRef = useRef<string | null>(null);
 
@@ -180,7 +243,30 @@ export function ProxyContent({ url, ip }: ProxyContentProps) {
     [setQuery]
   );
 
+  const handleCompareSourceChange = React.useCallback(
+    (next: Source | null) => {
+      // The compare and revisions views replace the article - only one at a time
+      setQuery(next ? { compare: next, revisions: null } : { compare: null });
+    },
+    [setQuery]
+  );
+
+  const handleShowRevisionsChange = React.useCallback(
+    (next: boolean) => {
+      setQuery(next ? { revisions: true, compare: null } : { revisions: null });
+    },
+    [setQuery]
+  );
+
+  const handleTimestampChange = React.useCallback(
+    (next: string | null) => {
+      setQuery({ timestamp: next });
+    },
+    [setQuery]
+  );
+
   const [settingsOpen, setSettingsOpen] = React.useState(false);
+  const [linkMode, setLinkMode] = useLocalStorage<LinkRewriteMode>("article-link-mode", DEFAULT_LINK_REWRITE_MODE);
 
   const content = (
     <div className="flex h-dvh flex-col bg-background">
@@ -438,144 +524,165 @@ export function ProxyContent({ url, ip }: ProxyContentProps) {
                 </SignedOut>
               </div>
               */}
+            </div>
 
-              <Drawer open={settingsOpen} onOpenChange={setSettingsOpen}>
-                <DrawerTrigger
-                  render={(renderProps) => {
-                    const { className, ...triggerProps } = renderProps;
-                    const { key, ...restProps } = triggerProps as typeof triggerProps & {
-                      key?: React.Key;
-                    };
-                    return (
+            {/* Settings - view mode (mobile), theme and link behaviour */}
+            <Drawer open={settingsOpen} onOpenChange={setSettingsOpen}>
+              <DrawerTrigger
+                render={(renderProps) => {
+                  const { className, ...triggerProps } = renderProps;
+                  const { key, ...restProps } = triggerProps as typeof triggerProps & {
+                    key?: React.Key;
+                  };
+                  return (
+                    <Button
+                      {...restProps}
+                      key={key}
+                      variant="ghost"
+                      size="icon"
+                      className={cn(
+                        "h-8 w-8 rounded-lg hover:bg-accent",
+                        className
+                      )}
+                    >
+                      <EllipsisHorizontalIcon key={"settings-icon"} className="size-6 text-muted-foreground" />
+                      <span key={"settings-text"} className="sr-only">Settings</span>
+                    </Button>
+                  );
+                }}
+              />
+              <DrawerContent>
+                <DrawerHeader className="text-left border-b border-border pb-4">
+                  <DrawerTitle>{t("settings")}</DrawerTitle>
+                  <DrawerDescription>
+                    {t("customizeView")}
+                  </DrawerDescription>
+                </DrawerHeader>
+                <div className="p-4 space-y-6 pb-8">
+                  {/* View Mode Section - desktop has the pills in the header */}
+                  <div className="space-y-3 md:hidden">
+                    <label className="text-sm font-medium text-muted-foreground">
+                      {t("viewMode")}
+                    </label>
+                    <div className="grid grid-cols-3 gap-2">
                       <Button
-                        {...restProps}
-                        key={key}
-                        variant="ghost"
-                        size="icon"
-                        className={cn(
-                          "h-8 w-8 rounded-lg hover:bg-accent",
-                          className
-                        )}
+                        variant={
+                          viewMode === "markdown" ? "secondary" : "outline"
+                        }
+                        size="sm"
+                        onClick={() => {
+                          handleViewModeChange("markdown");
+                          setSettingsOpen(false);
+                        }}
+                        className="w-full"
                       >
-                        <EllipsisHorizontalIcon key={"settings-icon"} className="size-6 text-muted-foreground" />
-                        <span key={"settings-text"} className="sr-only">Settings</span>
+                        {t("reader")}
+                      </Button>
+                      <Button
+                        variant={viewMode === "html" ? "secondary" : "outline"}
+                        size="sm"
+                        onClick={() => {
+                          handleViewModeChange("html");
+                          setSettingsOpen(false);
+                        }}
+                        className="w-full"
+                      >
+                        {t("original")}
+                      </Button>
+                      <Button
+                        variant={
+                          viewMode === "iframe" ? "secondary" : "outline"
+                        }
+                        size="sm"
+                        onClick={() => {
+                          handleViewModeChange("iframe");
+                          setSettingsOpen(false);
+                        }}
+                        className="w-full"
+                      >
+                        {t("iframe")}
                       </Button>
-                    );
-                  }}
-                />
-                <DrawerContent>
-                  <DrawerHeader className="text-left border-b border-border pb-4">
-                    <DrawerTitle>{t("settings")}</DrawerTitle>
-                    <DrawerDescription>
-                      {t("customizeView")}
-                    </DrawerDescription>
-                  </DrawerHeader>
-                  <div className="p-4 space-y-6 pb-8">
-                    {/* View Mode Section */}
-                    <div className="space-y-3">
-                      <label className="text-sm font-medium text-muted-foreground">
-                        {t("viewMode")}
-                      </label>
-                      <div className="grid grid-cols-3 gap-2">
-                        <Button
-                          variant={
-                            viewMode === "markdown" ? "secondary" : "outline"
-                          }
-                          size="sm"
-                          onClick={() => {
-                            handleViewModeChange("markdown");
-                            setSettingsOpen(false);
-                          }}
-                          className="w-full"
-                        >
-                          {t("reader")}
-                        </Button>
-                        <Button
-                          variant={viewMode === "html" ? "secondary" : "outline"}
-                          size="sm"
-                          onClick={() => {
-                            handleViewModeChange("html");
-                            setSettingsOpen(false);
-                          }}
-                          className="w-full"
-                        >
-                          {t("original")}
-                        </Button>
-                        <Button
-                          variant={
-                            viewMode === "iframe" ? "secondary" : "outline"
-                          }
-                          size="sm"
-                          onClick={() => {
-                            handleViewModeChange("iframe");
-                            setSettingsOpen(false);
-                          }}
-                          className="w-full"
-                        >
-                          {t("iframe")}
-                        </Button>
-                      </div>
                     </div>
+                  </div>
 
-                    {/* Appearance Section */}
-                    <div className="space-y-3">
-                      <label className="text-sm font-medium text-muted-foreground">
-                        {t("appearance")}
-                      </label>
-                      <div className="grid grid-cols-3 gap-2">
-                        <Button
-                          variant={theme === "light" ? "secondary" : "outline"}
-                          size="sm"
-                          onClick={() => setTheme("light")}
-                          className="w-full"
-                        >
-                          <Sun className="mr-2 size-4" />
-                          {t("light")}
-                        </Button>
-                        <Button
-                          variant={theme === "dark" ? "secondary" : "outline"}
-                          size="sm"
-                          onClick={() => setTheme("dark")}
-                          className="w-full"
-                        >
-                          <Moon className="mr-2 size-4" />
-                          {t("dark")}
-                        </Button>
+                  {/* Appearance Section */}
+                  <div className="space-y-3">
+                    <label className="text-sm font-medium text-muted-foreground">
+                      {t("appearance")}
+                    </label>
+                    <div className="grid grid-cols-3 gap-2">
+                      <Button
+                        variant={theme === "light" ? "secondary" : "outline"}
+                        size="sm"
+                        onClick={() => setTheme("light")}
+                        className="w-full"
+                      >
+                        <Sun className="mr-2 size-4" />
+                        {t("light")}
+                      </Button>
+                      <Button
+                        variant={theme === "dark" ? "secondary" : "outline"}
+                        size="sm"
+                        onClick={() => setTheme("dark")}
+                        className="w-full"
+                      >
+                        <Moon className="mr-2 size-4" />
+                        {t("dark")}
+                      </Button>
+                      <Button
+                        variant={theme === "system" ? "secondary" : "outline"}
+                        size="sm"
+                        onClick={() => setTheme("system")}
+                        className="w-full"
+                      >
+                        <Laptop className="mr-2 size-4" />
+                        {t("system")}
+                      </Button>
+                    </div>
+                  </div>
+
+                  {/* Links Section */}
+                  <div className="space-y-3">
+                    <label className="text-sm font-medium text-muted-foreground">
+                      {t("links")}
+                    </label>
+                    <div className="grid grid-cols-3 gap-2">
+                      {LINK_REWRITE_MODES.map((mode) => (
                         <Button
-                          variant={theme === "system" ? "secondary" : "outline"}
+                          key={mode}
+                          variant={linkMode === mode ? "secondary" : "outline"}
                           size="sm"
-                          onClick={() => setTheme("system")}
+                          onClick={() => setLinkMode(mode)}
                           className="w-full"
                         >
-                          <Laptop className="mr-2 size-4" />
-                          {t("system")}
+                          {t(LINK_MODE_LABELS[mode])}
                         </Button>
-                      </div>
+                      ))}
                     </div>
+                  </div>
 
-                    {/* Support Section */}
-                    <div className="space-y-3">
-                      <label className="text-sm font-medium text-muted-foreground">
-                        {t("support")}
-                      </label>
-                      <a
-                        href="https://smryai.userjot.com/"
-                        target="_blank"
-                        rel="noreferrer"
-                        className={cn(
-                          buttonVariants({ variant: "outline", size: "sm" }),
-                          "w-full justify-start gap-2"
-                        )}
-                        onClick={() => setSettingsOpen(false)}
-                      >
-                        <BugIcon className="size-4" />
-                        {t("reportBugFeedback")}
-                      </a>
-                    </div>
+                  {/* Support Section */}
+                  <div className="space-y-3">
+                    <label className="text-sm font-medium text-muted-foreground">
+                      {t("support")}
+                    </label>
+                    <a
+                      href="https://smryai.userjot.com/"
+                      target="_blank"
+                      rel="noreferrer"
+                      className={cn(
+                        buttonVariants({ variant: "outline", size: "sm" }),
+                        "w-full justify-start gap-2"
+                      )}
+                      onClick={() => setSettingsOpen(false)}
+                    >
+                      <BugIcon className="size-4" />
+                      {t("reportBugFeedback")}
+                    </a>
                   </div>
-                </DrawerContent>
-              </Drawer>
-            </div>
+                </div>
+              </DrawerContent>
+            </Drawer>
           </div>
         </header>
 
@@ -589,7 +696,13 @@ export function ProxyContent({ url, ip }: ProxyContentProps) {
                 viewMode={viewMode}
                 activeSource={source}
                 onSourceChange={handleSourceChange}
-                onJinaTabClick={triggerJinaFetch}
+                onManualSourceClick={triggerSourceFetch}
+                timestamp={timestamp}
+                onTimestampChange={handleTimestampChange}
+                compareSource={compareSource}
+                onCompareSourceChange={handleCompareSourceChange}
+                showRevisions={query.revisions}
+                onShowRevisionsChange={handleShowRevisionsChange}
               />
             </div>
           </div>
@@ -14,17 +14,11 @@ import { Button } from "@/components/ui/button";
 import { ResponsiveDrawer } from "@/components/features/responsive-drawer";
 
 import { Source } from "@/types/api";
+import { getSourceDefinition } from "@/lib/sources/registry";
+import { proxyImageUrl } from "@/lib/image-proxy";
 
 const siteName = process.env.NEXT_PUBLIC_SITE_NAME || "SMRY";
 
-// Human-readable labels for sources (removes "smry-" prefix)
-const SOURCE_DISPLAY_LABELS: Record<Source, string> = {
-  "fetch-fast": "Quick",
-  "fetch-slow": "Precise",
-  "wayback": "Wayback",
-  "jina.ai": "Jina.ai",
-};
-
 // Reddit SVG
 const RedditIcon = ({ className }: { className?: string }) => (
   <svg className={className} viewBox="0 0 24 24" fill="currentColor" xmlns="http://www.w3.org/2000/svg">
@@ -135,7 +129,7 @@ export const ShareContent: React.FC<ShareContentProps> = ({
       <div className="rounded-xl bg-zinc-100 dark:bg-zinc-900 p-4 overflow-hidden relative group border border-border">
         <div className="flex justify-between items-start mb-3">
           <span className="bg-background/80 backdrop-blur text-muted-foreground text-[10px] uppercase tracking-wider px-2 py-1 rounded-full font-medium border border-border">
-            {SOURCE_DISPLAY_LABELS[source]}
+            {getSourceDefinition(source).label}
           </span>
         </div>
 
@@ -143,7 +137,7 @@ export const ShareContent: React.FC<ShareContentProps> = ({
           {articleImage ? (
             <div className="relative w-full h-32 sm:h-48 rounded-lg overflow-hidden bg-muted">
               <Image
-                src={articleImage}
+                src={proxyImageUrl(articleImage)}
                 alt={articleTitle}
                 fill
                 sizes="(max-width: 640px) 100vw, 480px"
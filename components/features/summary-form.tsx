@@ -4,7 +4,8 @@ import React, { useState, useMemo, useEffect, useRef, useCallback } from "react"
 import { useCompletion } from "@ai-sdk/react";
 import Link from "next/link";
 import { useTranslations } from "next-intl";
-import { LANGUAGES, Source, ArticleResponse } from "@/types/api";
+import { LANGUAGES, Source, ArticleResponse, SOURCES } from "@/types/api";
+import { getSourceDefinition } from "@/lib/sources/registry";
 import { extractArticleUrl } from "@/lib/validation/url";
 import { Button } from "../ui/button";
 import {
@@ -48,14 +49,7 @@ function useDailyUsage() {
 
 type ArticleResults = Record<Source, UseQueryResult<ArticleResponse, Error>>;
 
-const SOURCE_LABELS: Record<Source, string> = {
-  "fetch-fast": "Quick",
-  "fetch-slow": "Precise",
-  wayback: "Wayback",
-  "jina.ai": "Jina.ai",
-};
-
-const SUMMARY_SOURCES: Source[] = ["fetch-fast", "fetch-slow", "wayback", "jina.ai"];
+const SUMMARY_SOURCES: Source[] = [...SOURCES];
 
 interface SummaryFormProps {
   urlProp: string;
@@ -142,15 +136,10 @@ export default function SummaryForm({ urlProp, ipProp, articleResults, isOpen =
   const shouldDisableSource = allArticlesLoading || !hasArticleData;
 
   // Get content lengths for display
-  const contentLengths = SUMMARY_SOURCES.reduce<Record<Source, number>>((acc, source) => {
+  const contentLengths = SUMMARY_SOURCES.reduce((acc, source) => {
     acc[source] = articleResults[source].data?.article?.textContent?.length || 0;
     return acc;
-  }, {
-    "fetch-fast": 0,
-    "fetch-slow": 0,
-    wayback: 0,
-    "jina.ai": 0,
-  });
+  }, {} as Record<Source, number>);
 
   // Track if we've auto-generated
   const hasAutoGeneratedRef = useRef(false);
@@ -410,7 +399,7 @@ export default function SummaryForm({ urlProp, ipProp, articleResults, isOpen =
                 >
                   <SelectTrigger className="h-9 w-full min-w-0 border-0 bg-transparent text-sm font-medium shadow-none focus:ring-0 focus:ring-offset-0">
                     <div className="flex w-full items-center gap-2 truncate text-left">
-                      <span>{SOURCE_LABELS[selectedSource]}</span>
+                      <span>{getSourceDefinition(selectedSource).label}</span>
                       {longestAvailableSource === selectedSource && (
                         <span className="text-xs font-normal text-accent">{t("best")}</span>
                       )}
@@ -423,7 +412,7 @@ export default function SummaryForm({ urlProp, ipProp, articleResults, isOpen =
                       return (
                         <SelectItem key={source} value={source} disabled={status.disabled}>
                           <span className="flex flex-wrap items-center gap-2 whitespace-normal leading-snug">
-                            <span>{SOURCE_LABELS[source]}</span>
+                            <span>{getSourceDefinition(source).label}</span>
                             {length > 0 && <span className="text-muted-foreground">• {length.toLocaleString()} chars</span>}
                             {status.label && <span className="text-muted-foreground">• {status.label}</span>}
                             {longestAvailableSource === source && !status.disabled && <span className="text-accent">• {t("best")}</span>}
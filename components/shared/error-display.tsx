@@ -3,12 +3,14 @@
 import { AppError, getErrorMessage, getErrorTitle, isRetryableError } from "@/lib/errors";
 import { AlertCircle, RefreshCw, XCircle, ExternalLink, FileQuestion, Clock, Ban, FileWarning } from "lucide-react";
 import { useState } from "react";
+import { Source } from "@/types/api";
+import { getSourceDefinition } from "@/lib/sources/registry";
 
 interface ErrorDisplayProps {
   error: AppError;
   onRetry?: () => void;
   compact?: boolean;
-  source?: string;
+  source?: Source;
   originalUrl?: string;
 }
 
@@ -61,29 +63,9 @@ export function ErrorDisplay({ error, onRetry, compact = false, source, original
   const errorUrl = 'url' in error ? error.url : undefined;
   const displayUrl = originalUrl || errorUrl;
 
-  // Check if we should show the proxy link (not for fetch-fast or fetch-slow)
-  const showProxyLink = source && source !== "fetch-fast" && source !== "fetch-slow";
-
-  // Get the external service URL based on source
-  const getExternalUrl = (src: string, url: string) => {
-    switch (src) {
-      case "wayback":
-        return `https://web.archive.org/web/2/${encodeURIComponent(url)}`;
-      case "jina.ai":
-        return `https://r.jina.ai/${url}`;
-      default:
-        return undefined;
-    }
-  };
-
-  // Get source-specific labels
-  const getSourceLabel = (src: string) => {
-    switch (src) {
-      case "wayback": return "Try archived version (archive.org)";
-      case "jina.ai": return "Try reader view (jina.ai)";
-      default: return "Try cached version";
-    }
-  };
+  // Show the proxy link only for sources with an external fallback (e.g. wayback, jina.ai)
+  const sourceDefinition = source ? getSourceDefinition(source) : undefined;
+  const showProxyLink = !!sourceDefinition?.fallbackLinkLabel;
 
   // Compact mode for inline display
   if (compact) {
@@ -136,15 +118,15 @@ export function ErrorDisplay({ error, onRetry, compact = false, source, original
                 <ExternalLink className="size-3.5" />
               </a>
 
-              {/* Proxy/cache link - only for wayback and jina.ai */}
-              {showProxyLink && source && displayUrl && getExternalUrl(source, displayUrl) && (
+              {/* Proxy/cache link - only for sources with an external fallback */}
+              {showProxyLink && sourceDefinition && displayUrl && (
                 <a
-                  href={getExternalUrl(source, displayUrl)}
+                  href={sourceDefinition.getCacheURL(displayUrl)}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="inline-flex w-fit items-center gap-1.5 text-sm text-blue-600 transition-colors hover:text-blue-700 hover:underline dark:text-blue-400 dark:hover:text-blue-300"
                 >
-                  {getSourceLabel(source)}
+                  {sourceDefinition.fallbackLinkLabel}
                   <ExternalLink className="size-3.5" />
                 </a>
               )}
@@ -1,4 +1,4 @@
-import { ArticleResponse, Source, ErrorResponse } from "@/types/api";
+import { ArticleResponse, Source, ErrorResponse, RevisionResponse, RevisionsResponse, WaybackSnapshotsResponse } from "@/types/api";
 import { DebugContext } from "@/lib/errors/types";
 
 /**
@@ -24,12 +24,20 @@ export class ArticleFetchError extends Error {
 export const articleAPI = {
   /**
    * Fetch article from a specific source
+   * @param timestamp - Snapshot to pin (only honored by sources that support it, e.g. Wayback)
+   * @param refresh - Skip the server cache and fetch again (rate limited)
    */
-  async getArticle(url: string, source: Source): Promise<ArticleResponse> {
+  async getArticle(url: string, source: Source, timestamp?: string, refresh?: boolean): Promise<ArticleResponse> {
     const params = new URLSearchParams({
       url,
       source,
     });
+    if (timestamp) {
+      params.set("timestamp", timestamp);
+    }
+    if (refresh) {
+      params.set("refresh", "true");
+    }
 
     const response = await fetch(`/api/article?${params.toString()}`);
 
@@ -45,5 +53,64 @@ export const articleAPI = {
     const data = await response.json();
     return data as ArticleResponse;
   },
-};
 
+  /**
+   * List Wayback Machine snapshots for a URL (newest first)
+   */
+  async getWaybackSnapshots(url: string): Promise<WaybackSnapshotsResponse> {
+    const params = new URLSearchParams({ url });
+
+    const response = await fetch(`/api/wayback/snapshots?${params.toString()}`);
+
+    if (!response.ok) {
+      const errorData: ErrorResponse = await response.json();
+      throw new ArticleFetchError(
+        errorData.error || `HTTP error! status: ${response.status}`,
+        errorData
+      );
+    }
+
+    const data = await response.json();
+    return data as WaybackSnapshotsResponse;
+  },
+
+  /**
+   * List stored revisions of an article (newest first)
+   */
+  async getRevisions(url: string): Promise<RevisionsResponse> {
+    const params = new URLSearchParams({ url });
+
+    const response = await fetch(`/api/article/revisions?${params.toString()}`);
+
+    if (!response.ok) {
+      const errorData: ErrorResponse = await response.json();
+      throw new ArticleFetchError(
+        errorData.error || `HTTP error! status: ${response.status}`,
+        errorData
+      );
+    }
+
+    const data = await response.json();
+    return data as RevisionsResponse;
+  },
+
+  /**
+   * Fetch the stored copy of one revision
+   */
+  async getRevision(url: string, id: string): Promise<RevisionResponse> {
+    const params = new URLSearchParams({ url, id });
+
+    const response = await fetch(`/api/article/revisions?${params.toString()}`);
+
+    if (!response.ok) {
+      const errorData: ErrorResponse = await response.json();
+      throw new ArticleFetchError(
+        errorData.error || `HTTP error! status: ${response.status}`,
+        errorData
+      );
+    }
+
+    const data = await response.json();
+    return data as RevisionResponse;
+  },
+};
@@ -1,11 +1,22 @@
 import { ResultAsync, errAsync } from "neverthrow";
 import {
   AppError,
+  addDebugStep,
+  createDebugContext,
   createDiffbotError,
   DebugContext,
-  DebugStep,
 } from "@/lib/errors/types";
 import { createLogger } from "@/lib/logger";
+import { safeFetch } from "@/lib/safe-fetch";
+import {
+  applySiteConfigRules,
+  extractSiteConfigFields,
+  getSiteConfig,
+  mergeSiteConfigFields,
+  SiteConfigFields,
+} from "@/lib/sources/site-config";
+import { normalizeMedia } from "@/lib/sources/media";
+import { normalizeEmbeds } from "@/lib/sources/embeds";
 import { JSDOM } from "jsdom";
 import { Readability } from "@mozilla/readability";
 import { z } from "zod";
@@ -90,37 +101,6 @@ const ReadabilityArticleSchema = z.object({
   excerpt: z.string().optional().nullable(),
 }).passthrough();
 
-/**
- * Helper to create a debug context
- */
-function createDebugContext(url: string, source: string): DebugContext {
-  return {
-    timestamp: new Date().toISOString(),
-    url,
-    source,
-    steps: [],
-  };
-}
-
-/**
- * Helper to add a debug step
- */
-function addDebugStep(
-  context: DebugContext,
-  step: string,
-  status: DebugStep['status'],
-  message: string,
-  data?: DebugStep['data']
-): void {
-  context.steps.push({
-    step,
-    timestamp: new Date().toISOString(),
-    status,
-    message,
-    data,
-  });
-}
-
 
 /**
  * Structured article data from Diffbot
@@ -210,6 +190,17 @@ export function extractDateFromDom(doc: Document): string | undefined {
   return undefined;
 }
 
+/**
+ * Overlay fields picked out by a site config on a Readability result
+ */
+function withSiteConfigFields(article: DiffbotArticle, fields: SiteConfigFields): DiffbotArticle {
+  const { content, textContent, ...merged } = mergeSiteConfigFields(
+    { ...article, content: article.html, textContent: article.text },
+    fields
+  );
+  return { ...merged, html: content, text: textContent };
+}
+
 /**
  * Extract article from HTML/DOM using Mozilla Readability
  */
@@ -239,6 +230,23 @@ function extractWithReadability(html: string, url: string, debugContext: DebugCo
     const dom = new JSDOM(html, { url: baseUrl, virtualConsole });
     const doc = dom.window.document;
 
+    // Per-domain rules: strip/rewrite the DOM before Readability, overlay their fields after
+    const siteConfig = getSiteConfig(baseUrl);
+    if (siteConfig) applySiteConfigRules(doc, siteConfig);
+
+    // Lazy images, <picture>/<noscript> fallbacks and relative URLs - Readability would drop them
+    normalizeMedia(doc, baseUrl);
+    // Tweets, YouTube and other embeds become static cards instead of bare text or nothing
+    normalizeEmbeds(doc);
+
+    // After normalization, so a site-config body gets the same images and embed cards
+    const siteConfigFields = siteConfig ? extractSiteConfigFields(doc, siteConfig) : {};
+    if (siteConfig) {
+      addDebugStep(debugContext, 'site_config', 'info', 'Applied site config rules', {
+        matchedFields: Object.keys(siteConfigFields),
+      });
+    }
+
     // Try to find the main article container first
     // This helps with pages that have complex layouts (like Google Blogger)
     const contentSelectors = [
@@ -313,7 +321,7 @@ function extractWithReadability(html: string, url: string, debugContext: DebugCo
             continue; // Try next selector
           }
 
-          return finalValidation.data;
+          return withSiteConfigFields(finalValidation.data, siteConfigFields);
         }
       }
     }
@@ -375,7 +383,7 @@ function extractWithReadability(html: string, url: string, debugContext: DebugCo
         return null;
       }
 
-      return finalValidation.data;
+      return withSiteConfigFields(finalValidation.data, siteConfigFields);
     }
 
     addDebugStep(debugContext, 'readability_extraction', 'warning', 'Readability returned insufficient content');
@@ -406,7 +414,7 @@ async function performDiffbotRequest(
   const timeoutId = setTimeout(() => controller.abort(), DIFFBOT_TIMEOUT_MS);
 
   try {
-    const response = await fetch(apiUrl.toString(), {
+    const response = await safeFetch(apiUrl.toString(), {
       signal: controller.signal,
     });
     clearTimeout(timeoutId);
@@ -0,0 +1,69 @@
+import { createHash, randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { createLocalStore, LocalEntry, LocalStoreOptions } from "./local";
+import { CacheStore } from "./store";
+
+/**
+ * On-disk store
+ *
+ * One JSON file per key under CACHE_DIR (named by the key's hash), written to a temp file
+ * and renamed so readers never see a partial write. Survives restarts without running a
+ * Redis server; meant for a single instance (writes are only serialized in-process).
+ * Expired files are deleted when next read.
+ */
+
+export const DEFAULT_CACHE_DIR = ".cache/store";
+
+export interface FilesystemStoreOptions extends LocalStoreOptions {
+  dir?: string;
+}
+
+type StoredFile = LocalEntry & { key: string };
+
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === "ENOENT";
+}
+
+export function createFilesystemStore(options: FilesystemStoreOptions = {}): CacheStore {
+  const dir = path.resolve(options.dir ?? DEFAULT_CACHE_DIR);
+  let ready: Promise<unknown> | null = null;
+
+  const fileFor = (key: string) => path.join(dir, `${createHash("sha256").update(key).digest("hex")}.json`);
+
+  return createLocalStore(
+    "filesystem",
+    {
+      async read(key) {
+        try {
+          const stored = JSON.parse(await fs.readFile(fileFor(key), "utf8")) as StoredFile;
+          // A hash collision would be astronomically unlikely, but never serve another key's value
+          if (stored.key !== key) return null;
+          return { type: stored.type, value: stored.value, expiresAt: stored.expiresAt } as LocalEntry;
+        } catch (error) {
+          if (isMissing(error)) return null;
+          throw error;
+        }
+      },
+      async write(key, entry) {
+        ready ??= fs.mkdir(dir, { recursive: true }).catch((error) => {
+          ready = null;
+          throw error;
+        });
+        await ready;
+        const file = fileFor(key);
+        const temp = `${file}.${randomBytes(6).toString("hex")}.tmp`;
+        await fs.writeFile(temp, JSON.stringify({ key, ...entry }));
+        await fs.rename(temp, file);
+      },
+      async remove(key) {
+        try {
+          await fs.unlink(fileFor(key));
+        } catch (error) {
+          if (!isMissing(error)) throw error;
+        }
+      },
+    },
+    options
+  );
+}
@@ -0,0 +1,71 @@
+import { createLogger } from "@/lib/logger";
+import { createFilesystemStore } from "./filesystem";
+import { createMemoryStore } from "./memory";
+import { createTcpRedisStore } from "./redis-tcp";
+import { CACHE_BACKENDS, CacheBackend, CacheStore } from "./store";
+import { createUpstashStore } from "./upstash";
+
+export type { CacheBackend, CachePipeline, CacheStore, SetOptions } from "./store";
+export { createMemoryStore } from "./memory";
+export { createFilesystemStore } from "./filesystem";
+export { createRateLimiter } from "./rate-limit";
+export { createSingleFlight } from "./single-flight";
+export type { RateLimitResult } from "./rate-limit";
+
+const logger = createLogger('lib:cache');
+
+/**
+ * Shared cache (articles, summaries, rate limits, health checks, ...)
+ *
+ * Backend chosen by CACHE_BACKEND:
+ * - upstash: Upstash REST (UPSTASH_REDIS_REST_URL + UPSTASH_REDIS_REST_TOKEN)
+ * - redis: a Redis server over TCP (REDIS_URL, e.g. redis://redis:6379)
+ * - memory: in-process LRU (CACHE_MEMORY_MAX_ENTRIES, default 1000)
+ * - filesystem: JSON files under CACHE_DIR (default .cache/store)
+ * Unset, the first configured of upstash and redis is used, else memory - so caching and
+ * rate limiting work out of the box. A selected backend missing its settings throws on use;
+ * callers already treat cache errors as misses.
+ */
+export function createCacheStore(env: Partial<NodeJS.ProcessEnv> = process.env): CacheStore {
+  const requested = env.CACHE_BACKEND?.trim().toLowerCase();
+  if (requested && !CACHE_BACKENDS.includes(requested as CacheBackend)) {
+    throw new Error(`Unknown CACHE_BACKEND "${requested}". Use one of: ${CACHE_BACKENDS.join(", ")}.`);
+  }
+
+  const backend: CacheBackend =
+    (requested as CacheBackend | undefined) ??
+    (env.UPSTASH_REDIS_REST_URL && env.UPSTASH_REDIS_REST_TOKEN ? "upstash" : env.REDIS_URL ? "redis" : "memory");
+
+  switch (backend) {
+    case "upstash": {
+      const url = env.UPSTASH_REDIS_REST_URL;
+      const token = env.UPSTASH_REDIS_REST_TOKEN;
+      if (!url || !token) {
+        throw new Error("Upstash cache is not configured. Set UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN.");
+      }
+      return createUpstashStore(url, token);
+    }
+    case "redis":
+      if (!env.REDIS_URL) {
+        throw new Error("Redis cache is not configured. Set REDIS_URL (e.g. redis://localhost:6379).");
+      }
+      return createTcpRedisStore(env.REDIS_URL);
+    case "filesystem":
+      return createFilesystemStore({ dir: env.CACHE_DIR || undefined });
+    case "memory":
+      return createMemoryStore({ maxEntries: parseInt(env.CACHE_MEMORY_MAX_ENTRIES || "", 10) || undefined });
+  }
+}
+
+// Lazy initialization to avoid build-time warnings when env vars aren't available
+let _cache: CacheStore | null = null;
+
+export const cache = new Proxy({} as CacheStore, {
+  get(_, prop) {
+    if (!_cache) {
+      _cache = createCacheStore();
+      logger.info({ backend: _cache.backend }, 'Cache backend selected');
+    }
+    return (_cache as unknown as Record<string, unknown>)[prop as string];
+  },
+});
@@ -0,0 +1,171 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { createFilesystemStore } from "./filesystem";
+import { createCacheStore } from "./index";
+import { createMemoryStore } from "./memory";
+import { CacheStore } from "./store";
+
+function createClock(start = 1_000_000) {
+  let time = start;
+  return {
+    now: () => time,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+const tempDir = mkdtempSync(path.join(tmpdir(), "cache-store-"));
+let dirCount = 0;
+
+afterAll(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+const BACKENDS: Array<[string, (now: () => number) => CacheStore]> = [
+  ["memory", (now) => createMemoryStore({ now })],
+  ["filesystem", (now) => createFilesystemStore({ dir: path.join(tempDir, String(dirCount++)), now })],
+];
+
+BACKENDS.forEach(([name, create]) => {
+  describe(`${name} store`, () => {
+    it("round-trips values like Upstash", async () => {
+      const store = create(Date.now);
+      await store.set("string", "plain text");
+      await store.set("object", { title: "Ferry Opens", length: 1200 });
+      await store.set("number", 1234);
+      await store.set("json-string", JSON.stringify({ status: "operational" }));
+
+      expect(await store.get<string>("string")).toBe("plain text");
+      expect(await store.get<Record<string, unknown>>("object")).toEqual({ title: "Ferry Opens", length: 1200 });
+      expect(await store.get<number>("number")).toBe(1234);
+      // Upstash parses JSON strings on read, and callers rely on it
+      expect(await store.get<Record<string, unknown>>("json-string")).toEqual({ status: "operational" });
+      expect(await store.get("missing")).toBeNull();
+    });
+
+    it("expires keys", async () => {
+      const clock = createClock();
+      const store = create(clock.now);
+      await store.set("short", "value", { ex: 10 });
+      await store.set("forever", "value");
+
+      clock.advance(9_999);
+      expect(await store.get<string>("short")).toBe("value");
+      clock.advance(1);
+      expect(await store.get("short")).toBeNull();
+      expect(await store.get<string>("forever")).toBe("value");
+    });
+
+    it("only sets a missing expiry with NX", async () => {
+      const clock = createClock();
+      const store = create(clock.now);
+      await store.hincrby("stats", "ok", 1);
+
+      expect(await store.expire("stats", 10, "NX")).toBe(true);
+      expect(await store.expire("stats", 100, "NX")).toBe(false);
+      expect(await store.expire("missing", 10)).toBe(false);
+
+      clock.advance(10_000);
+      expect(await store.hgetall("stats")).toBeNull();
+    });
+
+    it("counts with incr, keeping the expiry", async () => {
+      const clock = createClock();
+      const store = create(clock.now);
+      await store.set("counter", 5, { ex: 60 });
+
+      expect(await Promise.all([store.incr("counter"), store.incr("counter"), store.incr("counter")])).toEqual([6, 7, 8]);
+      expect(await store.incr("fresh")).toBe(1);
+
+      clock.advance(60_000);
+      expect(await store.get("counter")).toBeNull();
+    });
+
+    it("increments hash fields", async () => {
+      const store = create(Date.now);
+      await Promise.all([store.hincrby("hash", "a", 1), store.hincrby("hash", "a", 2), store.hincrby("hash", "b", 1)]);
+      expect(await store.hgetall("hash")).toEqual({ a: 3, b: 1 });
+    });
+
+    it("pushes, ranges and trims lists", async () => {
+      const store = create(Date.now);
+      await store.lpush("list", { id: "a" });
+      await store.lpush("list", { id: "b" }, { id: "c" });
+
+      expect(await store.lrange("list", 0, -1)).toEqual([{ id: "c" }, { id: "b" }, { id: "a" }]);
+      expect(await store.lrange("list", 1, 1)).toEqual([{ id: "b" }]);
+      expect(await store.lrange("list", 5, 10)).toEqual([]);
+
+      await store.ltrim("list", 0, 1);
+      expect(await store.lrange("list", 0, 10)).toEqual([{ id: "c" }, { id: "b" }]);
+      expect(await store.lrange("missing", 0, -1)).toEqual([]);
+    });
+
+    it("runs pipelines in order", async () => {
+      const store = create(Date.now);
+      const results = await store.pipeline().lpush("log", "one").lpush("log", "two").ltrim("log", 0, 0).expire("log", 60).exec();
+
+      expect(results).toEqual([1, 2, undefined, true]);
+      expect(await store.lrange("log", 0, -1)).toEqual(["two"]);
+    });
+
+    it("rejects commands against the wrong type", async () => {
+      const store = create(Date.now);
+      await store.set("string", "value");
+      await expect(store.lpush("string", "item")).rejects.toThrow("WRONGTYPE");
+    });
+
+    it("deletes keys", async () => {
+      const store = create(Date.now);
+      await store.set("key", "value");
+      await store.del("key");
+      await store.del("missing");
+      expect(await store.get("key")).toBeNull();
+    });
+  });
+});
+
+describe("memory store", () => {
+  it("evicts the least recently used key", async () => {
+    const store = createMemoryStore({ maxEntries: 2 });
+    await store.set("a", 1);
+    await store.set("b", 2);
+    await store.get("a");
+    await store.set("c", 3);
+
+    expect(await store.get<number>("a")).toBe(1);
+    expect(await store.get("b")).toBeNull();
+    expect(await store.get<number>("c")).toBe(3);
+  });
+});
+
+describe("filesystem store", () => {
+  it("persists across store instances", async () => {
+    const dir = path.join(tempDir, "persist");
+    await createFilesystemStore({ dir }).set("article:https://example.com/a", { title: "Kept" });
+    expect(await createFilesystemStore({ dir }).get<Record<string, unknown>>("article:https://example.com/a")).toEqual({ title: "Kept" });
+  });
+});
+
+describe("createCacheStore", () => {
+  it("falls back to memory when nothing is configured", () => {
+    expect(createCacheStore({}).backend).toBe("memory");
+  });
+
+  it("prefers Upstash, then REDIS_URL", () => {
+    expect(createCacheStore({ UPSTASH_REDIS_REST_URL: "https://example.upstash.io", UPSTASH_REDIS_REST_TOKEN: "token" }).backend).toBe("upstash");
+    expect(createCacheStore({ REDIS_URL: "redis://localhost:6379" }).backend).toBe("redis");
+  });
+
+  it("honours CACHE_BACKEND", () => {
+    expect(createCacheStore({ CACHE_BACKEND: "filesystem", REDIS_URL: "redis://localhost:6379" }).backend).toBe("filesystem");
+  });
+
+  it("rejects unknown or unconfigured backends", () => {
+    expect(() => createCacheStore({ CACHE_BACKEND: "memcached" })).toThrow("Unknown CACHE_BACKEND");
+    expect(() => createCacheStore({ CACHE_BACKEND: "redis" })).toThrow("REDIS_URL");
+  });
+});
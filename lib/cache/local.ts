@@ -0,0 +1,173 @@
+import { CacheBackend, CacheStore, createSequentialPipeline, decodeValue, encodeValue } from "./store";
+
+/**
+ * Redis semantics on top of a plain key/entry storage
+ *
+ * Shared by the memory and filesystem stores: each key holds one typed entry with an
+ * optional absolute expiry. Read-modify-write commands are serialized per key, which is
+ * enough within one process (neither store is shared between processes).
+ */
+
+export type LocalEntry =
+  | { type: "string"; value: string; expiresAt: number | null }
+  | { type: "hash"; value: Record<string, string>; expiresAt: number | null }
+  | { type: "list"; value: string[]; expiresAt: number | null };
+
+export interface LocalStorage {
+  read(key: string): Promise<LocalEntry | null>;
+  write(key: string, entry: LocalEntry): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+export interface LocalStoreOptions {
+  /** Injected for tests */
+  now?: () => number;
+}
+
+function wrongType(key: string): Error {
+  return new Error(`WRONGTYPE Operation against a key holding the wrong kind of value (${key})`);
+}
+
+/**
+ * Resolve Redis-style inclusive indexes (negative = from the end) to a slice range
+ */
+function sliceRange(length: number, start: number, stop: number): [number, number] {
+  const from = start < 0 ? Math.max(length + start, 0) : start;
+  const to = stop < 0 ? length + stop : Math.min(stop, length - 1);
+  return [from, Math.max(to + 1, from)];
+}
+
+export function createLocalStore(
+  backend: CacheBackend,
+  storage: LocalStorage,
+  options: LocalStoreOptions = {}
+): CacheStore {
+  const now = options.now ?? Date.now;
+  const locks = new Map<string, Promise<unknown>>();
+
+  // Run after any pending write to the same key
+  const withLock = <T>(key: string, task: () => Promise<T>): Promise<T> => {
+    const previous = locks.get(key) ?? Promise.resolve();
+    const next = previous.then(task, task);
+    const settled = next.catch(() => undefined);
+    locks.set(key, settled);
+    void settled.then(() => {
+      if (locks.get(key) === settled) locks.delete(key);
+    });
+    return next;
+  };
+
+  const readLive = async (key: string): Promise<LocalEntry | null> => {
+    const entry = await storage.read(key);
+    if (entry && entry.expiresAt !== null && entry.expiresAt <= now()) {
+      await storage.remove(key);
+      return null;
+    }
+    return entry;
+  };
+
+  const readTyped = async <K extends LocalEntry["type"]>(
+    key: string,
+    type: K
+  ): Promise<Extract<LocalEntry, { type: K }> | null> => {
+    const entry = await readLive(key);
+    if (entry && entry.type !== type) throw wrongType(key);
+    return entry as Extract<LocalEntry, { type: K }> | null;
+  };
+
+  const store: CacheStore = {
+    backend,
+
+    async get<T>(key: string) {
+      const entry = await readTyped(key, "string");
+      return entry ? decodeValue<T>(entry.value) : null;
+    },
+
+    set(key, value, setOptions) {
+      return withLock(key, async () => {
+        if (setOptions?.nx && (await readLive(key))) return false;
+        await storage.write(key, {
+          type: "string",
+          value: encodeValue(value),
+          expiresAt: setOptions?.ex ? now() + setOptions.ex * 1000 : null,
+        });
+        return true;
+      });
+    },
+
+    async del(key) {
+      await withLock(key, () => storage.remove(key));
+    },
+
+    incr(key) {
+      return withLock(key, async () => {
+        const entry = await readTyped(key, "string");
+        const current = entry ? Number(entry.value) : 0;
+        if (!Number.isInteger(current)) throw new Error(`ERR value is not an integer (${key})`);
+        await storage.write(key, { type: "string", value: String(current + 1), expiresAt: entry?.expiresAt ?? null });
+        return current + 1;
+      });
+    },
+
+    expire(key, seconds, option) {
+      return withLock(key, async () => {
+        const entry = await readLive(key);
+        if (!entry || (option === "NX" && entry.expiresAt !== null)) return false;
+        await storage.write(key, { ...entry, expiresAt: now() + seconds * 1000 });
+        return true;
+      });
+    },
+
+    async hgetall<T extends Record<string, unknown>>(key: string) {
+      const entry = await readTyped(key, "hash");
+      if (!entry) return null;
+      const hash: Record<string, unknown> = {};
+      Object.keys(entry.value).forEach((field) => {
+        hash[field] = decodeValue(entry.value[field]);
+      });
+      return hash as T;
+    },
+
+    hincrby(key, field, increment) {
+      return withLock(key, async () => {
+        const entry = await readTyped(key, "hash");
+        const value = { ...(entry?.value ?? {}) };
+        const next = Number(value[field] ?? 0) + increment;
+        value[field] = String(next);
+        await storage.write(key, { type: "hash", value, expiresAt: entry?.expiresAt ?? null });
+        return next;
+      });
+    },
+
+    async lrange<T>(key: string, start: number, stop: number) {
+      const entry = await readTyped(key, "list");
+      if (!entry) return [];
+      const [from, to] = sliceRange(entry.value.length, start, stop);
+      return entry.value.slice(from, to).map((item) => decodeValue<T>(item) as T);
+    },
+
+    lpush(key, ...values) {
+      return withLock(key, async () => {
+        const entry = await readTyped(key, "list");
+        // Like Redis, each value is pushed to the head in turn
+        const value = values.map(encodeValue).reverse().concat(entry?.value ?? []);
+        await storage.write(key, { type: "list", value, expiresAt: entry?.expiresAt ?? null });
+        return value.length;
+      });
+    },
+
+    ltrim(key, start, stop) {
+      return withLock(key, async () => {
+        const entry = await readTyped(key, "list");
+        if (!entry) return;
+        const [from, to] = sliceRange(entry.value.length, start, stop);
+        const value = entry.value.slice(from, to);
+        await (value.length > 0 ? storage.write(key, { ...entry, value }) : storage.remove(key));
+      });
+    },
+
+    pipeline: () => createSequentialPipeline(store),
+  };
+
+  return store;
+}
@@ -0,0 +1,46 @@
+import { createLocalStore, LocalEntry, LocalStoreOptions } from "./local";
+import { CacheStore } from "./store";
+
+/**
+ * In-process LRU store
+ *
+ * For single-instance self-hosting and development without Redis. Entries are lost on
+ * restart and not shared between instances; the least recently used key is evicted once
+ * CACHE_MEMORY_MAX_ENTRIES is reached.
+ */
+
+export const DEFAULT_MEMORY_MAX_ENTRIES = 1000;
+
+export interface MemoryStoreOptions extends LocalStoreOptions {
+  maxEntries?: number;
+}
+
+export function createMemoryStore(options: MemoryStoreOptions = {}): CacheStore {
+  const maxEntries = Math.max(1, options.maxEntries ?? DEFAULT_MEMORY_MAX_ENTRIES);
+  // Map iteration order is insertion order, so re-inserting on access keeps the oldest first
+  const entries = new Map<string, LocalEntry>();
+
+  return createLocalStore(
+    "memory",
+    {
+      async read(key) {
+        const entry = entries.get(key);
+        if (!entry) return null;
+        entries.delete(key);
+        entries.set(key, entry);
+        return entry;
+      },
+      async write(key, entry) {
+        entries.delete(key);
+        entries.set(key, entry);
+        while (entries.size > maxEntries) {
+          entries.delete(entries.keys().next().value as string);
+        }
+      },
+      async remove(key) {
+        entries.delete(key);
+      },
+    },
+    options
+  );
+}
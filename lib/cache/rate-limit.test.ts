@@ -0,0 +1,85 @@
+import { describe, expect, it } from "bun:test";
+import { createMemoryStore } from "./memory";
+import { createRateLimiter } from "./rate-limit";
+
+const WINDOW_SECONDS = 60;
+
+function createClock(start: number) {
+  let time = start;
+  return {
+    now: () => time,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+describe("createRateLimiter", () => {
+  it("allows up to the limit, then rejects", async () => {
+    const clock = createClock(0);
+    const limiter = createRateLimiter(createMemoryStore({ now: clock.now }), {
+      limit: 3,
+      windowSeconds: WINDOW_SECONDS,
+      prefix: "test",
+      now: clock.now,
+    });
+
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      results.push(await limiter.limit("1.2.3.4"));
+    }
+
+    expect(results.map((result) => result.success)).toEqual([true, true, true, false]);
+    expect(results.map((result) => result.remaining)).toEqual([2, 1, 0, 0]);
+    expect(results[3].reset).toBe(WINDOW_SECONDS * 1000);
+  });
+
+  it("keeps identifiers apart", async () => {
+    const clock = createClock(0);
+    const limiter = createRateLimiter(createMemoryStore({ now: clock.now }), {
+      limit: 1,
+      windowSeconds: WINDOW_SECONDS,
+      prefix: "test",
+      now: clock.now,
+    });
+
+    expect((await limiter.limit("a")).success).toBe(true);
+    expect((await limiter.limit("b")).success).toBe(true);
+    expect((await limiter.limit("a")).success).toBe(false);
+  });
+
+  it("weighs the previous window by its remaining overlap", async () => {
+    const clock = createClock(0);
+    const limiter = createRateLimiter(createMemoryStore({ now: clock.now }), {
+      limit: 4,
+      windowSeconds: WINDOW_SECONDS,
+      prefix: "test",
+      now: clock.now,
+    });
+
+    for (let i = 0; i < 4; i++) await limiter.limit("ip");
+
+    // A quarter into the next window, 3 of the previous 4 requests still count
+    clock.advance(WINDOW_SECONDS * 1000 * 1.25);
+    expect((await limiter.limit("ip")).success).toBe(true);
+    expect((await limiter.limit("ip")).success).toBe(false);
+
+    // Two windows later the old counts are gone
+    clock.advance(WINDOW_SECONDS * 1000 * 2);
+    expect((await limiter.limit("ip")).remaining).toBe(3);
+  });
+
+  it("never lets concurrent requests past the limit", async () => {
+    const store = createMemoryStore();
+    const first = createRateLimiter(store, { limit: 5, windowSeconds: WINDOW_SECONDS, prefix: "test", now: () => 0 });
+    // A second instance sharing the store
+    const second = createRateLimiter(store, { limit: 5, windowSeconds: WINDOW_SECONDS, prefix: "test", now: () => 0 });
+
+    const results = await Promise.all(
+      Array.from({ length: 20 }, (_, i) => (i % 2 === 0 ? first : second).limit("ip"))
+    );
+
+    expect(results.filter((result) => result.success)).toHaveLength(5);
+    expect(results.map((result) => result.remaining).sort()).toEqual([0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 2, 3, 4]);
+  });
+});
@@ -0,0 +1,63 @@
+import { CacheStore } from "./store";
+
+/**
+ * Sliding-window rate limiter on any CacheStore
+ *
+ * Counts requests in fixed windows and weighs the previous window by how much of it still
+ * overlaps the sliding one (the approximation @upstash/ratelimit uses), so it needs only
+ * GET/INCR/EXPIRE and works on every backend. Each request INCRs first and decides on the
+ * count it got back, so concurrent requests (on any instance) can't all slip under the
+ * limit - which means rejected requests count too.
+ */
+
+export interface RateLimiterOptions {
+  /** Requests allowed per window */
+  limit: number;
+  windowSeconds: number;
+  /** Key prefix, e.g. "ratelimit_daily" */
+  prefix: string;
+  /** Injected for tests */
+  now?: () => number;
+}
+
+export interface RateLimitResult {
+  success: boolean;
+  limit: number;
+  remaining: number;
+  /** Epoch ms when the current window ends */
+  reset: number;
+}
+
+export function createRateLimiter(store: CacheStore, options: RateLimiterOptions) {
+  const { limit, prefix } = options;
+  const windowMs = options.windowSeconds * 1000;
+  const now = options.now ?? Date.now;
+
+  return {
+    async limit(identifier: string): Promise<RateLimitResult> {
+      const time = now();
+      const window = Math.floor(time / windowMs);
+      const currentKey = `${prefix}:${identifier}:${window}`;
+      const previousKey = `${prefix}:${identifier}:${window - 1}`;
+      const reset = (window + 1) * windowMs;
+
+      const [[current], previous] = await Promise.all([
+        store
+          .pipeline()
+          .incr(currentKey)
+          // Kept for two windows: it is the "previous" count throughout the next one
+          .expire(currentKey, options.windowSeconds * 2, "NX")
+          .exec(),
+        store.get<number>(previousKey),
+      ]);
+      const overlap = 1 - (time % windowMs) / windowMs;
+      // Includes this request
+      const used = Math.floor(Number(previous ?? 0) * overlap) + Number(current);
+
+      if (used > limit) {
+        return { success: false, limit, remaining: 0, reset };
+      }
+      return { success: true, limit, remaining: limit - used, reset };
+    },
+  };
+}
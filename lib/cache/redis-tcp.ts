@@ -0,0 +1,98 @@
+import Redis from "ioredis";
+import { createLogger } from "@/lib/logger";
+import { ChainableCommander } from "ioredis";
+import { CachePipeline, CacheStore, decodeValue, encodeValue, SetOptions } from "./store";
+
+/**
+ * Plain Redis (or Valkey/KeyDB) over TCP, e.g. the redis service in docker-compose.yaml
+ * Values are encoded like Upstash does, so data written by either client reads the same.
+ */
+
+// Fail a command quickly while the server is unreachable instead of queueing it for good;
+// callers treat cache errors as misses
+const COMMAND_RETRIES = 1;
+const CONNECT_TIMEOUT_MS = 5000;
+
+const logger = createLogger('lib:cache:redis-tcp');
+
+/**
+ * SET with the EX/NX arguments ioredis expects
+ */
+function setCommand<T extends Redis | ChainableCommander>(target: T, key: string, value: unknown, options?: SetOptions) {
+  const encoded = encodeValue(value);
+  if (options?.ex && options.nx) return target.set(key, encoded, "EX", options.ex, "NX");
+  if (options?.ex) return target.set(key, encoded, "EX", options.ex);
+  if (options?.nx) return target.set(key, encoded, "NX");
+  return target.set(key, encoded);
+}
+
+export function createTcpRedisStore(url: string): CacheStore {
+  const client = new Redis(url, {
+    lazyConnect: true,
+    maxRetriesPerRequest: COMMAND_RETRIES,
+    connectTimeout: CONNECT_TIMEOUT_MS,
+  });
+
+  // ioredis keeps reconnecting in the background; log each distinct error once, not every retry
+  let lastError: string | null = null;
+  client.on("error", (error: Error) => {
+    if (error.message === lastError) return;
+    lastError = error.message;
+    logger.warn({ error: error.message }, 'Redis connection error');
+  });
+  client.on("ready", () => {
+    lastError = null;
+  });
+
+  return {
+    backend: "redis",
+    get: async (key) => decodeValue(await client.get(key)),
+    set: async (key, value, options) => (await setCommand(client, key, value, options)) !== null,
+    del: async (key) => {
+      await client.del(key);
+    },
+    incr: (key) => client.incr(key),
+    expire: async (key, seconds, option) =>
+      (await (option ? client.expire(key, seconds, option) : client.expire(key, seconds))) === 1,
+    hgetall: async <T extends Record<string, unknown>>(key: string) => {
+      const raw = await client.hgetall(key);
+      const fields = Object.keys(raw);
+      // Redis answers a missing key with an empty hash; Upstash (and CacheStore) with null
+      if (fields.length === 0) return null;
+      const hash: Record<string, unknown> = {};
+      fields.forEach((field) => {
+        hash[field] = decodeValue(raw[field]);
+      });
+      return hash as T;
+    },
+    hincrby: (key, field, increment) => client.hincrby(key, field, increment),
+    lrange: async <T>(key: string, start: number, stop: number) =>
+      (await client.lrange(key, start, stop)).map((item) => decodeValue<T>(item) as T),
+    lpush: (key, ...values) => client.lpush(key, ...values.map(encodeValue)),
+    ltrim: async (key, start, stop) => {
+      await client.ltrim(key, start, stop);
+    },
+    pipeline: () => {
+      const batch = client.pipeline();
+      const pipeline: CachePipeline = {
+        set: (key, value, options) => (setCommand(batch, key, value, options), pipeline),
+        incr: (key) => (batch.incr(key), pipeline),
+        expire: (key, seconds, option) => {
+          if (option) batch.expire(key, seconds, option);
+          else batch.expire(key, seconds);
+          return pipeline;
+        },
+        hincrby: (key, field, increment) => (batch.hincrby(key, field, increment), pipeline),
+        lpush: (key, ...values) => (batch.lpush(key, ...values.map(encodeValue)), pipeline),
+        ltrim: (key, start, stop) => (batch.ltrim(key, start, stop), pipeline),
+        exec: async () => {
+          const results = (await batch.exec()) ?? [];
+          const failed = results.find(([error]) => error);
+          if (failed) throw failed[0];
+          return results.map(([, result]) => result);
+        },
+      };
+      return pipeline;
+    },
+  };
+}
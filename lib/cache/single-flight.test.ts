@@ -0,0 +1,107 @@
+import { describe, expect, it } from "bun:test";
+import { createMemoryStore } from "./memory";
+import { createSingleFlight } from "./single-flight";
+import { CacheStore } from "./store";
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+describe("createSingleFlight", () => {
+  it("shares one run between concurrent callers in a process", async () => {
+    const flight = createSingleFlight(createMemoryStore(), { prefix: "test" });
+    const upstream = deferred<string>();
+    let calls = 0;
+    const work = () => {
+      calls++;
+      return upstream.promise;
+    };
+
+    const results = Promise.all([flight.run("key", work), flight.run("key", work), flight.run("key", work)]);
+    await tick();
+    expect(flight.pending).toBe(1);
+    upstream.resolve("article");
+
+    expect(await results).toEqual(["article", "article", "article"]);
+    expect(calls).toBe(1);
+    expect(flight.pending).toBe(0);
+  });
+
+  it("runs different keys separately and again once finished", async () => {
+    const flight = createSingleFlight(createMemoryStore(), { prefix: "test" });
+    let calls = 0;
+    const work = async () => ++calls;
+
+    expect(await Promise.all([flight.run("a", work), flight.run("b", work)])).toEqual([1, 2]);
+    expect(await flight.run("a", work)).toBe(3);
+  });
+
+  it("waits for the lock holder on another instance", async () => {
+    const store = createMemoryStore();
+    const instanceA = createSingleFlight(store, { prefix: "test", pollMs: 5 });
+    const instanceB = createSingleFlight(store, { prefix: "test", pollMs: 5 });
+    const upstream = deferred<{ title: string }>();
+    let localCalls = 0;
+
+    const leader = instanceA.run("key", () => upstream.promise);
+    await tick();
+    const follower = instanceB.run("key", async () => {
+      localCalls++;
+      return { title: "local" };
+    });
+    await tick();
+    upstream.resolve({ title: "shared" });
+
+    expect(await leader).toEqual({ title: "shared" });
+    expect(await follower).toEqual({ title: "shared" });
+    expect(localCalls).toBe(0);
+  });
+
+  it("runs locally when the lock holder fails", async () => {
+    const store = createMemoryStore();
+    const instanceA = createSingleFlight(store, { prefix: "test", pollMs: 5 });
+    const instanceB = createSingleFlight(store, { prefix: "test", pollMs: 5 });
+    const upstream = deferred<string>();
+
+    const leader = instanceA.run("key", () => upstream.promise);
+    await tick();
+    const follower = instanceB.run("key", async () => "local");
+    await tick();
+    upstream.reject(new Error("upstream down"));
+
+    await expect(leader).rejects.toThrow("upstream down");
+    expect(await follower).toBe("local");
+  });
+
+  it("stops waiting after maxWaitMs", async () => {
+    const store = createMemoryStore();
+    await store.set("test:lock:key", "another-instance", { ex: 60 });
+    let time = 0;
+    const flight = createSingleFlight(store, {
+      prefix: "test",
+      maxWaitMs: 1000,
+      now: () => time,
+      sleep: async (ms) => {
+        time += ms;
+      },
+    });
+
+    expect(await flight.run("key", async () => "local")).toBe("local");
+    expect(time).toBeGreaterThanOrEqual(1000);
+  });
+
+  it("runs without coalescing when the cache is down", async () => {
+    const store: CacheStore = { ...createMemoryStore(), set: () => Promise.reject(new Error("ECONNREFUSED")) };
+    const flight = createSingleFlight(store, { prefix: "test" });
+
+    expect(await flight.run("key", async () => "fetched")).toBe("fetched");
+  });
+});
@@ -0,0 +1,147 @@
+import { randomUUID } from "crypto";
+import { createLogger } from "@/lib/logger";
+import { compress, decompress } from "@/lib/redis-compression";
+import { CacheStore } from "./store";
+
+const logger = createLogger('lib:cache:single-flight');
+
+/**
+ * Single-flight request coalescing
+ *
+ * Concurrent callers with the same key share one run of the work:
+ * - within a process, later callers await the first caller's promise
+ * - across instances, the first to take `<prefix>:lock:<key>` (SET NX, lockSeconds) runs it
+ *   and publishes the result under `<prefix>:result:<key>` for resultSeconds; the others
+ *   poll for that result (backing off from pollMs to 2s) instead of running the work too
+ * A waiter runs the work itself when the holder fails (lock released without a result),
+ * after maxWaitMs, or when the cache is unavailable - coalescing never blocks a request.
+ * Results must be JSON-serializable; a thrown error is not shared across instances.
+ */
+
+const DEFAULT_LOCK_SECONDS = 60;
+const DEFAULT_RESULT_SECONDS = 15;
+const DEFAULT_POLL_MS = 200;
+const MAX_POLL_MS = 2000;
+
+export interface SingleFlightOptions {
+  /** Key namespace, e.g. "article-fetch" */
+  prefix: string;
+  /** How long the cross-instance lock is held at most (the longest expected run) */
+  lockSeconds?: number;
+  /** How long a published result stays readable for waiters */
+  resultSeconds?: number;
+  /** How long a waiter polls before running the work itself (default: lockSeconds) */
+  maxWaitMs?: number;
+  /** First poll delay; doubles up to 2s */
+  pollMs?: number;
+  /** Injected for tests */
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+type Published<T> = { value: T };
+
+export function createSingleFlight(store: CacheStore, options: SingleFlightOptions) {
+  const { prefix } = options;
+  const lockSeconds = options.lockSeconds ?? DEFAULT_LOCK_SECONDS;
+  const resultSeconds = options.resultSeconds ?? DEFAULT_RESULT_SECONDS;
+  const maxWaitMs = options.maxWaitMs ?? lockSeconds * 1000;
+  const pollMs = options.pollMs ?? DEFAULT_POLL_MS;
+  const now = options.now ?? Date.now;
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+
+  const inflight = new Map<string, Promise<unknown>>();
+
+  const readPublished = async <T>(resultKey: string): Promise<Published<T> | null> => {
+    const published = decompress(await store.get(resultKey));
+    return published && typeof published === "object" && "value" in published ? (published as Published<T>) : null;
+  };
+
+  const lead = async <T>(key: string, token: string, work: () => Promise<T>): Promise<T> => {
+    const lockKey = `${prefix}:lock:${key}`;
+    try {
+      const value = await work();
+      try {
+        await store.set(`${prefix}:result:${key}`, compress({ value }), { ex: resultSeconds });
+      } catch (error) {
+        logger.warn({ key, error: error instanceof Error ? error.message : String(error) }, 'Single-flight result publish failed');
+      }
+      return value;
+    } finally {
+      try {
+        // Only release our own lock - it may have expired and been taken by now
+        if ((await store.get(lockKey)) === token) await store.del(lockKey);
+      } catch (error) {
+        logger.warn({ key, error: error instanceof Error ? error.message : String(error) }, 'Single-flight lock release failed');
+      }
+    }
+  };
+
+  const waitForHolder = async <T>(key: string): Promise<Published<T> | null> => {
+    const lockKey = `${prefix}:lock:${key}`;
+    const resultKey = `${prefix}:result:${key}`;
+    const deadline = now() + maxWaitMs;
+    let delay = pollMs;
+
+    while (now() < deadline) {
+      await sleep(delay);
+      delay = Math.min(delay * 2, MAX_POLL_MS);
+
+      const published = await readPublished<T>(resultKey);
+      if (published) return published;
+      // Released without a result: the holder failed (re-check - it publishes before releasing)
+      if ((await store.get(lockKey)) === null) return readPublished<T>(resultKey);
+    }
+
+    logger.warn({ key, maxWaitMs }, 'Single-flight wait timed out - running locally');
+    return null;
+  };
+
+  const runShared = async <T>(key: string, work: () => Promise<T>): Promise<T> => {
+    const token = randomUUID();
+    let acquired: boolean;
+    try {
+      acquired = await store.set(`${prefix}:lock:${key}`, token, { ex: lockSeconds, nx: true });
+    } catch (error) {
+      logger.warn({ key, error: error instanceof Error ? error.message : String(error) }, 'Single-flight lock unavailable - running without it');
+      return work();
+    }
+
+    if (acquired) return lead(key, token, work);
+
+    logger.debug({ key }, 'Waiting for another instance to finish');
+    let published: Published<T> | null = null;
+    try {
+      published = await waitForHolder<T>(key);
+    } catch (error) {
+      logger.warn({ key, error: error instanceof Error ? error.message : String(error) }, 'Single-flight wait failed - running locally');
+    }
+    return published ? published.value : work();
+  };
+
+  return {
+    /**
+     * Run `work` once per key across concurrent callers and share its result
+     */
+    async run<T>(key: string, work: () => Promise<T>): Promise<T> {
+      const pending = inflight.get(key);
+      if (pending) {
+        logger.debug({ key }, 'Joined in-flight run');
+        return pending as Promise<T>;
+      }
+
+      const promise = runShared(key, work);
+      inflight.set(key, promise);
+      try {
+        return await promise;
+      } finally {
+        inflight.delete(key);
+      }
+    },
+
+    /** Keys currently running in this process */
+    get pending(): number {
+      return inflight.size;
+    },
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * Cache store interface
+ *
+ * The subset of Redis the app uses (strings, hashes, lists, counters and TTLs), so the
+ * same code runs on Upstash, a plain Redis server, an in-process LRU or a directory on disk.
+ * Values follow Upstash's serialization: strings are stored as-is, anything else as JSON,
+ * and reads parse JSON back (falling back to the raw string).
+ */
+
+export type CacheBackend = "upstash" | "redis" | "memory" | "filesystem";
+
+export const CACHE_BACKENDS: readonly CacheBackend[] = ["upstash", "redis", "memory", "filesystem"];
+
+export interface SetOptions {
+  /** Expiry in seconds */
+  ex?: number;
+  /** Only set the key if it doesn't exist (locks) */
+  nx?: boolean;
+}
+
+/** Only set the expiry when the key has none */
+export type ExpireOption = "NX";
+
+/**
+ * Queued commands sent together (one round trip where the backend supports it)
+ */
+export interface CachePipeline {
+  set(key: string, value: unknown, options?: SetOptions): CachePipeline;
+  incr(key: string): CachePipeline;
+  expire(key: string, seconds: number, option?: ExpireOption): CachePipeline;
+  hincrby(key: string, field: string, increment: number): CachePipeline;
+  lpush(key: string, ...values: unknown[]): CachePipeline;
+  ltrim(key: string, start: number, stop: number): CachePipeline;
+  exec(): Promise<unknown[]>;
+}
+
+export interface CacheStore {
+  readonly backend: CacheBackend;
+  get<T = unknown>(key: string): Promise<T | null>;
+  /** @returns Whether the value was written (false when `nx` and the key exists) */
+  set(key: string, value: unknown, options?: SetOptions): Promise<boolean>;
+  del(key: string): Promise<void>;
+  incr(key: string): Promise<number>;
+  /** @returns Whether the expiry was set (false for a missing key, or an existing TTL with "NX") */
+  expire(key: string, seconds: number, option?: ExpireOption): Promise<boolean>;
+  /** All fields of a hash, or null if the key doesn't exist */
+  hgetall<T extends Record<string, unknown> = Record<string, unknown>>(key: string): Promise<T | null>;
+  hincrby(key: string, field: string, increment: number): Promise<number>;
+  /** Inclusive range; negative indexes count from the end */
+  lrange<T = unknown>(key: string, start: number, stop: number): Promise<T[]>;
+  /** @returns The new list length */
+  lpush(key: string, ...values: unknown[]): Promise<number>;
+  ltrim(key: string, start: number, stop: number): Promise<void>;
+  pipeline(): CachePipeline;
+}
+
+export function encodeValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+export function decodeValue<T>(raw: string | null | undefined): T | null {
+  if (raw === null || raw === undefined) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return raw as unknown as T;
+  }
+}
+
+/**
+ * Pipeline that runs its commands one after another on the store
+ * For backends without native batching (memory, filesystem).
+ */
+export function createSequentialPipeline(store: CacheStore): CachePipeline {
+  const commands: Array<() => Promise<unknown>> = [];
+
+  const pipeline: CachePipeline = {
+    set: (key, value, options) => queue(() => store.set(key, value, options)),
+    incr: (key) => queue(() => store.incr(key)),
+    expire: (key, seconds, option) => queue(() => store.expire(key, seconds, option)),
+    hincrby: (key, field, increment) => queue(() => store.hincrby(key, field, increment)),
+    lpush: (key, ...values) => queue(() => store.lpush(key, ...values)),
+    ltrim: (key, start, stop) => queue(() => store.ltrim(key, start, stop)),
+    exec: async () => {
+      const results: unknown[] = [];
+      for (let i = 0; i < commands.length; i++) {
+        results.push(await commands[i]());
+      }
+      return results;
+    },
+  };
+
+  function queue(command: () => Promise<unknown>): CachePipeline {
+    commands.push(command);
+    return pipeline;
+  }
+
+  return pipeline;
+}
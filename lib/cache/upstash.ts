@@ -0,0 +1,48 @@
+import { Redis } from "@upstash/redis";
+import { CachePipeline, CacheStore, SetOptions } from "./store";
+
+type UpstashSetOptions = Parameters<Redis["set"]>[2];
+
+function toUpstashSetOptions(options?: SetOptions): UpstashSetOptions {
+  if (!options?.ex && !options?.nx) return undefined;
+  return { ...(options.ex ? { ex: options.ex } : {}), ...(options.nx ? { nx: true } : {}) } as UpstashSetOptions;
+}
+
+/**
+ * Upstash Redis over REST (the hosted default)
+ * The client already (de)serializes values the way CacheStore specifies.
+ */
+export function createUpstashStore(url: string, token: string): CacheStore {
+  const client = new Redis({ url, token });
+
+  return {
+    backend: "upstash",
+    get: (key) => client.get(key),
+    set: async (key, value, options) => (await client.set(key, value, toUpstashSetOptions(options))) !== null,
+    del: async (key) => {
+      await client.del(key);
+    },
+    incr: (key) => client.incr(key),
+    expire: async (key, seconds, option) => (await client.expire(key, seconds, option)) === 1,
+    hgetall: (key) => client.hgetall(key),
+    hincrby: (key, field, increment) => client.hincrby(key, field, increment),
+    lrange: (key, start, stop) => client.lrange(key, start, stop),
+    lpush: (key, ...values) => client.lpush(key, ...values),
+    ltrim: async (key, start, stop) => {
+      await client.ltrim(key, start, stop);
+    },
+    pipeline: () => {
+      const batch = client.pipeline();
+      const pipeline: CachePipeline = {
+        set: (key, value, options) => (batch.set(key, value, toUpstashSetOptions(options)), pipeline),
+        incr: (key) => (batch.incr(key), pipeline),
+        expire: (key, seconds, option) => (batch.expire(key, seconds, option), pipeline),
+        hincrby: (key, field, increment) => (batch.hincrby(key, field, increment), pipeline),
+        lpush: (key, ...values) => (batch.lpush(key, ...values), pipeline),
+        ltrim: (key, start, stop) => (batch.ltrim(key, start, stop), pipeline),
+        exec: () => batch.exec(),
+      };
+      return pipeline;
+    },
+  };
+}
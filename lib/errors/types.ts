@@ -27,6 +27,37 @@ export interface DebugStep {
   };
 }
 
+/**
+ * Helper to create a debug context
+ */
+export function createDebugContext(url: string, source: string): DebugContext {
+  return {
+    timestamp: new Date().toISOString(),
+    url,
+    source,
+    steps: [],
+  };
+}
+
+/**
+ * Helper to add a debug step
+ */
+export function addDebugStep(
+  context: DebugContext,
+  step: string,
+  status: DebugStep['status'],
+  message: string,
+  data?: DebugStep['data']
+): void {
+  context.steps.push({
+    step,
+    timestamp: new Date().toISOString(),
+    status,
+    message,
+    data,
+  });
+}
+
 /**
  * Comprehensive error types for the application
  * These errors are type-safe and can be used with neverthrow's Result types
@@ -1,91 +1,85 @@
 "use client";
 
-import { useQueries, useQuery, UseQueryResult } from "@tanstack/react-query";
+import { useMutation, useQueries, useQueryClient, UseQueryResult } from "@tanstack/react-query";
 import { articleAPI } from "@/lib/api/client";
-import { ArticleResponse, Source } from "@/types/api";
+import { ArticleResponse, Source, SOURCES } from "@/types/api";
 import { fetchJinaArticle } from "@/lib/api/jina";
-
-const SERVER_SOURCES = ["fetch-fast", "fetch-slow", "wayback"] as const satisfies readonly Source[];
+import { getSourceDefinition, SourceEndpoint } from "@/lib/sources/registry";
 
 /**
- * Custom hook to fetch Jina article via server-side endpoint
- * IMPORTANT: Jina is NOT fetched automatically - only when explicitly triggered
- * 
- * The API key is kept secure on the server (not exposed to browser)
+ * Client-side query functions per endpoint
+ * Jina goes through its own server-side endpoint (keeps the API key secure)
  */
-function useJinaArticle(
-  url: string,
-  enabled: boolean = false
-): UseQueryResult<ArticleResponse, Error> & { triggerFetch: () => void } {
-  const query = useQuery({
-    queryKey: ["article", "jina.ai", url],
-    queryFn: async () => {
-      // Fetch from server-side endpoint (keeps API key secure)
-      const result = await fetchJinaArticle(url);
+const QUERY_FNS: Record<SourceEndpoint, (url: string, source: Source, timestamp?: string) => Promise<ArticleResponse>> = {
+  article: (url, source, timestamp) => articleAPI.getArticle(url, source, timestamp),
+  jina: async (url) => {
+    const result = await fetchJinaArticle(url);
 
-      if ("error" in result) {
-        throw new Error(result.error.message);
-      }
+    if ("error" in result) {
+      throw new Error(result.error.message);
+    }
 
-      return result.article;
-    },
-    staleTime: 5 * 60 * 1000, // 5 minutes
-    gcTime: 10 * 60 * 1000, // 10 minutes
-    retry: 1,
-    // IMPORTANT: Jina is disabled by default, only fetches when explicitly enabled
-    enabled: !!url && enabled,
-  });
+    return result.article;
+  },
+};
 
-  return {
-    ...query,
-    triggerFetch: () => query.refetch(),
-  };
+/**
+ * Query key of a source's article (pinned snapshots get their own entry)
+ */
+function articleQueryKey(source: Source, url: string, timestamp?: string) {
+  return timestamp ? ["article", source, url, timestamp] : ["article", source, url];
 }
 
 /**
- * Custom hook to fetch articles from all sources
+ * Custom hook to fetch articles from all registered sources
  * Uses TanStack Query for caching and state management
- * 
- * IMPORTANT: Jina is NOT fetched automatically - it must be triggered separately
- * Quick, Precise, and Wayback are fetched in parallel automatically
+ *
+ * IMPORTANT: sources registered with `autoFetch: false` (e.g. Jina) are NOT fetched
+ * automatically - they must be triggered separately via `triggerSourceFetch`
+ *
+ * `timestamp` pins a snapshot for sources with `supportsTimestamp` (Wayback); other sources ignore it
  */
-export function useArticles(url: string) {
-  // Fetch server-side sources (fetch-fast, fetch-slow, wayback) in parallel
-  const serverQueries = useQueries({
-    queries: SERVER_SOURCES.map((source) => ({
-      queryKey: ["article", source, url],
-      queryFn: () => articleAPI.getArticle(url, source),
-      staleTime: 5 * 60 * 1000, // 5 minutes
-      gcTime: 10 * 60 * 1000, // 10 minutes
-      retry: 1,
-      enabled: !!url, // Only fetch if URL is provided
-    })),
+export function useArticles(url: string, timestamp?: string) {
+  const queries = useQueries({
+    queries: SOURCES.map((source) => {
+      const definition = getSourceDefinition(source);
+      const sourceTimestamp = definition.supportsTimestamp ? timestamp : undefined;
+      return {
+        queryKey: articleQueryKey(source, url, sourceTimestamp),
+        queryFn: () => QUERY_FNS[definition.endpoint](url, source, sourceTimestamp),
+        staleTime: 5 * 60 * 1000, // 5 minutes
+        gcTime: 10 * 60 * 1000, // 10 minutes
+        retry: 1,
+        // Only fetch if URL is provided; on-demand sources start disabled
+        enabled: !!url && definition.autoFetch,
+      };
+    }),
   });
 
-  // Jina is NOT fetched automatically - starts disabled
-  const jinaQuery = useJinaArticle(url, false);
-
   // Map queries to a more convenient structure
-  const results: Record<Source, UseQueryResult<ArticleResponse, Error>> = {
-    "fetch-fast": serverQueries[0] as UseQueryResult<ArticleResponse, Error>,
-    "fetch-slow": serverQueries[1] as UseQueryResult<ArticleResponse, Error>,
-    wayback: serverQueries[2] as UseQueryResult<ArticleResponse, Error>,
-    "jina.ai": jinaQuery,
-  };
+  const results = SOURCES.reduce((acc, source, index) => {
+    acc[source] = queries[index] as UseQueryResult<ArticleResponse, Error>;
+    return acc;
+  }, {} as Record<Source, UseQueryResult<ArticleResponse, Error>>);
 
-  // Compute aggregate states - Jina is excluded from "all loading" calculation
-  const serverQueriesOnly = serverQueries;
-  const isLoading = serverQueriesOnly.some((q) => q.isLoading);
-  const isError = serverQueriesOnly.every((q) => q.isError);
-  const isSuccess = serverQueriesOnly.some((q) => q.isSuccess);
+  // Compute aggregate states - on-demand sources are excluded
+  const autoQueries = queries.filter((_, index) => getSourceDefinition(SOURCES[index]).autoFetch);
+  const isLoading = autoQueries.some((q) => q.isLoading);
+  const isError = autoQueries.every((q) => q.isError);
+  const isSuccess = autoQueries.some((q) => q.isSuccess);
+
+  // refetch() runs even while a query is disabled
+  const triggerSourceFetch = (source: Source) => {
+    queries[SOURCES.indexOf(source)]?.refetch();
+  };
 
   return {
     results,
     isLoading,
     isError,
     isSuccess,
-    // Expose Jina trigger for on-demand fetching
-    triggerJinaFetch: jinaQuery.triggerFetch,
+    // Expose trigger for on-demand sources
+    triggerSourceFetch,
   };
 }
 
@@ -96,3 +90,27 @@ export function useArticle(url: string, source: Source) {
   const { results } = useArticles(url);
   return results[source];
 }
+
+/**
+ * Refetch a source's article bypassing the server cache (`refresh=true` on /api/article)
+ * The result replaces the cached query data; only sources served by /api/article can refresh.
+ */
+export function useRefreshArticle(url: string, source: Source, timestamp?: string) {
+  const queryClient = useQueryClient();
+  const definition = getSourceDefinition(source);
+  const sourceTimestamp = definition.supportsTimestamp ? timestamp : undefined;
+
+  const mutation = useMutation({
+    mutationFn: () => articleAPI.getArticle(url, source, sourceTimestamp, true),
+    onSuccess: (data) => {
+      queryClient.setQueryData(articleQueryKey(source, url, sourceTimestamp), data);
+    },
+  });
+
+  return {
+    canRefresh: definition.endpoint === "article",
+    refresh: () => mutation.mutate(),
+    isRefreshing: mutation.isPending,
+    error: mutation.error,
+  };
+}
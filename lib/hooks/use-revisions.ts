@@ -0,0 +1,33 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { articleAPI } from "@/lib/api/client";
+
+/**
+ * Hook to list stored revisions of an article
+ * Only runs when `enabled` (i.e. the Revisions view is open)
+ */
+export function useRevisions(url: string, enabled: boolean) {
+  return useQuery({
+    queryKey: ["revisions", url],
+    queryFn: () => articleAPI.getRevisions(url),
+    staleTime: 60 * 1000, // 1 minute - new revisions land whenever a source refetches
+    gcTime: 30 * 60 * 1000, // 30 minutes
+    retry: 1,
+    enabled: !!url && enabled,
+  });
+}
+
+/**
+ * Hook to load one revision's stored copy - revisions never change, so it is cached for good
+ */
+export function useRevision(url: string, id: string | null) {
+  return useQuery({
+    queryKey: ["revision", url, id],
+    queryFn: () => articleAPI.getRevision(url, id as string),
+    staleTime: Infinity,
+    gcTime: 60 * 60 * 1000, // 1 hour
+    retry: 1,
+    enabled: !!url && !!id,
+  });
+}
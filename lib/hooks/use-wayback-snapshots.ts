@@ -0,0 +1,19 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { articleAPI } from "@/lib/api/client";
+
+/**
+ * Hook to list Wayback Machine snapshots for a URL
+ * Only runs when `enabled` (i.e. the Wayback tab is open) - the CDX API is slow and rate limited
+ */
+export function useWaybackSnapshots(url: string, enabled: boolean) {
+  return useQuery({
+    queryKey: ["wayback-snapshots", url],
+    queryFn: () => articleAPI.getWaybackSnapshots(url),
+    staleTime: 30 * 60 * 1000, // 30 minutes
+    gcTime: 60 * 60 * 1000, // 1 hour
+    retry: 1,
+    enabled: !!url && enabled,
+  });
+}
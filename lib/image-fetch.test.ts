@@ -0,0 +1,25 @@
+import { describe, expect, it } from "bun:test";
+import { sniffImageType } from "./image-fetch";
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+describe("sniffImageType", () => {
+  it("detects raster formats from magic numbers", () => {
+    expect(sniffImageType(new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x00]))).toBe("image/jpeg");
+    expect(sniffImageType(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))).toBe("image/png");
+    expect(sniffImageType(text("GIF89a...."))).toBe("image/gif");
+    expect(sniffImageType(text("RIFF\u0000\u0000\u0000\u0000WEBPVP8 "))).toBe("image/webp");
+    expect(sniffImageType(text("\u0000\u0000\u0000\u001cftypavif"))).toBe("image/avif");
+  });
+
+  it("detects SVG documents", () => {
+    expect(sniffImageType(text('<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg"></svg>'))).toBe("image/svg+xml");
+    expect(sniffImageType(text("  <svg viewBox='0 0 1 1'></svg>"))).toBe("image/svg+xml");
+  });
+
+  it("rejects HTML, JSON and other payloads served as images", () => {
+    expect(sniffImageType(text("<!doctype html><html><body><svg></svg></body></html>"))).toBeNull();
+    expect(sniffImageType(text('{"error":"not found"}'))).toBeNull();
+    expect(sniffImageType(new Uint8Array(0))).toBeNull();
+  });
+});
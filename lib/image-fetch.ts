@@ -0,0 +1,208 @@
+import { createHash } from "crypto";
+import { cache } from "@/lib/cache";
+import { createLogger } from "@/lib/logger";
+import { scrubUrl } from "@/lib/privacy";
+import { isUnsafeUrlError } from "@/lib/safe-fetch";
+import { BROWSER_USER_AGENTS } from "@/lib/sources/shared";
+import { outboundFetch } from "@/lib/sources/outbound-fetch";
+import { readBodyWithLimit } from "@/lib/sources/response-body";
+
+const logger = createLogger('lib:image-fetch');
+
+/**
+ * Server side of the image proxy (/api/image, see lib/image-proxy.ts)
+ *
+ * - Fetches through outboundFetch, so every hop is SSRF-checked and the proxy pool can be
+ *   used by adding "image" to OUTBOUND_PROXY_SOURCES
+ * - Caps the download (IMAGE_PROXY_MAX_BYTES, default 5 MB)
+ * - Trusts the bytes, not the Content-Type header: the type is sniffed from magic numbers
+ *   and anything that isn't a known image format is refused
+ * - Caches small images in Redis for a week
+ * - IMAGE_PROXY_REENCODE=true re-encodes raster images to WebP with sharp, which drops
+ *   EXIF/GPS metadata and anything smuggled after the image data
+ */
+
+const DEFAULT_MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Upstash values should stay well under the 1 MB request limit once base64-encoded
+const MAX_CACHED_IMAGE_BYTES = 512 * 1024;
+
+export const IMAGE_CACHE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const FETCH_TIMEOUT_MS = 10000;
+
+// Re-encoded images are scaled down to this width - nobody reads articles on a wider column
+const REENCODE_MAX_WIDTH = 2000;
+const REENCODE_QUALITY = 80;
+
+export type ImageFetchResult =
+  | { body: Uint8Array; contentType: string; cached: boolean }
+  | { error: string; status: 400 | 404 | 413 | 415 | 502 | 504 };
+
+interface CachedImage {
+  contentType: string;
+  data: string;
+}
+
+export function getMaxImageBytes(): number {
+  const parsed = parseInt(process.env.IMAGE_PROXY_MAX_BYTES || "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_MAX_IMAGE_BYTES;
+}
+
+export function isReencodeEnabled(): boolean {
+  return process.env.IMAGE_PROXY_REENCODE === "true";
+}
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  return signature.every((byte, index) => bytes[offset + index] === byte);
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number): string {
+  return String.fromCharCode.apply(null, Array.from(bytes.subarray(start, end)));
+}
+
+/**
+ * Image MIME type from the file's magic numbers, or null for anything else
+ * (HTML error pages, scripts, JSON) - whatever the server claimed
+ *
+ * @example
+ * sniffImageType(new Uint8Array([0xff, 0xd8, 0xff, 0xe0])) // 'image/jpeg'
+ */
+export function sniffImageType(bytes: Uint8Array): string | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (ascii(bytes, 0, 6) === "GIF87a" || ascii(bytes, 0, 6) === "GIF89a") return "image/gif";
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WEBP") return "image/webp";
+  if (ascii(bytes, 4, 8) === "ftyp" && /^(avif|avis)$/.test(ascii(bytes, 8, 12))) return "image/avif";
+  if (startsWith(bytes, [0x00, 0x00, 0x01, 0x00])) return "image/x-icon";
+  if (ascii(bytes, 0, 2) === "BM") return "image/bmp";
+
+  // SVG is text - look for the root element near the start (after an XML declaration/comments)
+  const head = new TextDecoder().decode(bytes.subarray(0, 1024)).trimStart().toLowerCase();
+  if ((head.startsWith("<svg") || head.startsWith("<?xml") || head.startsWith("<!--") || head.startsWith("<!doctype svg")) && head.includes("<svg")) {
+    return "image/svg+xml";
+  }
+
+  return null;
+}
+
+function cacheKey(url: string): string {
+  return `image:${createHash("sha256").update(url).digest("hex")}`;
+}
+
+async function readCachedImage(url: string): Promise<{ body: Uint8Array; contentType: string } | null> {
+  try {
+    const cached = await cache.get<CachedImage>(cacheKey(url));
+    if (!cached?.contentType || typeof cached.data !== "string") return null;
+    return { body: new Uint8Array(Buffer.from(cached.data, "base64")), contentType: cached.contentType };
+  } catch (error) {
+    logger.warn({ error: error instanceof Error ? error.message : String(error) }, 'Image cache read error');
+    return null;
+  }
+}
+
+async function saveCachedImage(url: string, body: Uint8Array, contentType: string): Promise<void> {
+  if (body.byteLength > MAX_CACHED_IMAGE_BYTES) return;
+  try {
+    const value: CachedImage = { contentType, data: Buffer.from(body).toString("base64") };
+    await cache.set(cacheKey(url), value, { ex: IMAGE_CACHE_TTL_SECONDS });
+  } catch (error) {
+    logger.warn({ error: error instanceof Error ? error.message : String(error) }, 'Image cache save error');
+  }
+}
+
+/**
+ * Re-encode a raster image to WebP without metadata; returns the original on failure
+ * SVGs and icons pass through unchanged.
+ */
+async function reencodeImage(body: Uint8Array, contentType: string): Promise<{ body: Uint8Array; contentType: string }> {
+  if (contentType === "image/svg+xml" || contentType === "image/x-icon") {
+    return { body, contentType };
+  }
+
+  try {
+    const { default: sharp } = await import("sharp");
+    const output = await sharp(body, { animated: contentType === "image/gif" || contentType === "image/webp" })
+      .rotate()
+      .resize({ width: REENCODE_MAX_WIDTH, withoutEnlargement: true })
+      .webp({ quality: REENCODE_QUALITY })
+      .toBuffer();
+    return { body: new Uint8Array(output), contentType: "image/webp" };
+  } catch (error) {
+    logger.warn({ contentType, error: error instanceof Error ? error.message : String(error) }, 'Image re-encode failed - serving original');
+    return { body, contentType };
+  }
+}
+
+/**
+ * Fetch a remote image for the proxy: cache, then a capped, type-checked download
+ */
+export async function fetchProxiedImage(url: string): Promise<ImageFetchResult> {
+  const cached = await readCachedImage(url);
+  if (cached) {
+    return { ...cached, cached: true };
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    const response = await outboundFetch("image", url, {
+      headers: {
+        "User-Agent": BROWSER_USER_AGENTS[0],
+        "Accept": "image/avif,image/webp,image/apng,image/svg+xml,image/*;q=0.8",
+        // Hotlink protection wants a same-site referrer - the image's own origin gives nothing away
+        "Referer": `${new URL(url).origin}/`,
+      },
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      await response.body?.cancel().catch(() => { });
+      logger.debug({ url: scrubUrl(url), status: response.status }, 'Image request failed');
+      return { error: `Image request failed with HTTP ${response.status}`, status: response.status === 404 ? 404 : 502 };
+    }
+
+    const declaredType = response.headers.get("content-type")?.split(";")[0].trim().toLowerCase();
+    if (declaredType && !declaredType.startsWith("image/") && declaredType !== "application/octet-stream") {
+      await response.body?.cancel().catch(() => { });
+      return { error: `Not an image (${declaredType})`, status: 415 };
+    }
+
+    const maxBytes = getMaxImageBytes();
+    const declaredLength = Number(response.headers.get("content-length"));
+    if (declaredLength > maxBytes) {
+      await response.body?.cancel().catch(() => { });
+      return { error: `Image is larger than ${maxBytes} bytes`, status: 413 };
+    }
+
+    const bytes = await readBodyWithLimit(response, maxBytes);
+    if (!bytes) {
+      return { error: `Image is larger than ${maxBytes} bytes`, status: 413 };
+    }
+
+    const sniffedType = sniffImageType(bytes);
+    if (!sniffedType) {
+      return { error: "Response is not a supported image format", status: 415 };
+    }
+
+    const image = isReencodeEnabled()
+      ? await reencodeImage(bytes, sniffedType)
+      : { body: bytes, contentType: sniffedType };
+
+    await saveCachedImage(url, image.body, image.contentType);
+
+    return { ...image, cached: false };
+  } catch (error) {
+    if (isUnsafeUrlError(error)) {
+      return { error: error instanceof Error ? error.message : "Access to private or local networks is restricted.", status: 400 };
+    }
+    if (error instanceof Error && error.name === "AbortError") {
+      return { error: "Image request timed out", status: 504 };
+    }
+    logger.warn({ url: scrubUrl(url), error: error instanceof Error ? error.message : String(error) }, 'Image fetch error');
+    return { error: "Failed to fetch image", status: 502 };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "bun:test";
+import { isProxiableImageUrl, proxyContentImages, proxyImageUrl, proxySrcset } from "./image-proxy";
+
+const proxied = (url: string) => `/api/image?url=${encodeURIComponent(url)}`;
+
+describe("image-proxy", () => {
+  describe("proxyImageUrl", () => {
+    it("routes absolute http(s) URLs through the proxy", () => {
+      expect(proxyImageUrl("https://cdn.example.com/a.jpg?w=800&q=75")).toBe(proxied("https://cdn.example.com/a.jpg?w=800&q=75"));
+    });
+
+    it("leaves data URIs, relative and already-proxied URLs alone", () => {
+      expect(proxyImageUrl("data:image/png;base64,AAAA")).toBe("data:image/png;base64,AAAA");
+      expect(proxyImageUrl("/local.png")).toBe("/local.png");
+      const once = proxyImageUrl("https://cdn.example.com/a.jpg");
+      expect(proxyImageUrl(`https://smry.ai${once}`)).toBe(`https://smry.ai${once}`);
+      expect(proxyImageUrl(null)).toBeNull();
+      expect(isProxiableImageUrl(undefined)).toBe(false);
+    });
+  });
+
+  describe("proxySrcset", () => {
+    it("proxies each candidate and keeps descriptors", () => {
+      expect(proxySrcset("https://cdn.example.com/a.jpg 1x, https://cdn.example.com/b.jpg 2x"))
+        .toBe(`${proxied("https://cdn.example.com/a.jpg")} 1x, ${proxied("https://cdn.example.com/b.jpg")} 2x`);
+    });
+  });
+
+  describe("proxyContentImages", () => {
+    it("rewrites img and source tags, decoding entities first", () => {
+      const html = '<p>Text <a href="https://example.com/a.jpg">link</a></p>'
+        + '<img alt="x" src="https://cdn.example.com/a.jpg?w=1&amp;h=2">'
+        + '<picture><source srcset="https://cdn.example.com/b.webp 1x"></picture>';
+      const result = proxyContentImages(html);
+
+      expect(result).toContain(`src="${proxied("https://cdn.example.com/a.jpg?w=1&h=2")}"`);
+      expect(result).toContain(`srcset="${proxied("https://cdn.example.com/b.webp")} 1x"`);
+      expect(result).toContain('<a href="https://example.com/a.jpg">');
+    });
+
+    it("leaves content without remote images unchanged", () => {
+      const html = '<figure><img src="data:image/gif;base64,R0lG" alt=""><figcaption>Caption</figcaption></figure>';
+      expect(proxyContentImages(html)).toBe(html);
+      expect(proxyContentImages("")).toBe("");
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Image proxy URLs
+ *
+ * Article HTML points at publisher CDNs, so rendering it as-is tells those servers (and the
+ * trackers behind them) the reader's IP and referrer. These helpers rewrite image URLs to
+ * `/api/image?url=...`, which fetches the image server-side (lib/image-fetch.ts).
+ *
+ * Rewriting happens at render time - cached articles and copy/export keep the original URLs.
+ * Plain string handling only - imported by client components.
+ */
+
+export const IMAGE_PROXY_PATH = "/api/image";
+
+// Matches <img ...> and <source ...> tags (attributes may span lines)
+const MEDIA_TAG_PATTERN = /<(img|source)\b[^>]*>/gi;
+
+// src="..." / srcset='...' inside a tag (Readability/JSDOM output uses double quotes)
+const IMAGE_ATTRIBUTE_PATTERN = /(\s)(src|srcset)=("([^"]*)"|'([^']*)')/gi;
+
+function decodeAttribute(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+function encodeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+}
+
+/**
+ * Only absolute http(s) URLs go through the proxy - data: URIs, relative paths and
+ * already-proxied URLs are left alone
+ */
+export function isProxiableImageUrl(src: string | null | undefined): src is string {
+  if (!src) return false;
+  const trimmed = src.trim();
+  return /^https?:\/\//i.test(trimmed) && !trimmed.includes(`${IMAGE_PROXY_PATH}?`);
+}
+
+/**
+ * Proxy URL for one image
+ *
+ * @example
+ * proxyImageUrl('https://cdn.example.com/a.jpg') // '/api/image?url=https%3A%2F%2Fcdn.example.com%2Fa.jpg'
+ * proxyImageUrl('data:image/png;base64,...') // unchanged
+ */
+export function proxyImageUrl(src: string): string;
+export function proxyImageUrl(src: string | null | undefined): string | null | undefined;
+export function proxyImageUrl(src: string | null | undefined): string | null | undefined {
+  if (!isProxiableImageUrl(src)) return src;
+  return `${IMAGE_PROXY_PATH}?url=${encodeURIComponent(src.trim())}`;
+}
+
+/**
+ * Proxy every candidate in a srcset ("a.jpg 1x, b.jpg 2x"), keeping the descriptors
+ */
+export function proxySrcset(srcset: string): string {
+  return srcset
+    .split(/,\s+|,(?=\S+\s+\d)/)
+    .map((candidate) => {
+      const [url, ...descriptors] = candidate.trim().split(/\s+/);
+      return url ? [proxyImageUrl(url), ...descriptors].join(" ") : "";
+    })
+    .filter(Boolean)
+    .join(", ");
+}
+
+/**
+ * Rewrite `src`/`srcset` on every <img> and <source> in article HTML to go through the proxy
+ *
+ * @example
+ * proxyContentImages('<img src="https://cdn.example.com/a.jpg">')
+ * // '<img src="/api/image?url=https%3A%2F%2Fcdn.example.com%2Fa.jpg">'
+ */
+export function proxyContentImages(html: string): string {
+  if (!html) return html;
+
+  return html.replace(MEDIA_TAG_PATTERN, (tag) =>
+    tag.replace(IMAGE_ATTRIBUTE_PATTERN, (match, space: string, name: string, _quoted: string, double?: string, single?: string) => {
+      const value = decodeAttribute(double ?? single ?? "");
+      const rewritten = name.toLowerCase() === "srcset" ? proxySrcset(value) : proxyImageUrl(value);
+      return rewritten === value ? match : `${space}${name}="${encodeAttribute(rewritten)}"`;
+    })
+  );
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "bun:test";
+import { isSameSite, readerLinkFor, rewriteArticleLinks } from "./link-rewrite";
+
+const ARTICLE_URL = "https://www.example.com/2024/03/story";
+const reader = (url: string) => `/proxy?url=${encodeURIComponent(url)}`;
+
+describe("link-rewrite", () => {
+  describe("isSameSite", () => {
+    it("treats www and subdomains as the same site", () => {
+      expect(isSameSite("https://example.com/a", ARTICLE_URL)).toBe(true);
+      expect(isSameSite("https://news.example.com/a", ARTICLE_URL)).toBe(true);
+      expect(isSameSite("https://example.org/a", ARTICLE_URL)).toBe(false);
+      expect(isSameSite("https://notexample.com/a", ARTICLE_URL)).toBe(false);
+    });
+  });
+
+  describe("readerLinkFor", () => {
+    it("resolves relative links and strips app params", () => {
+      expect(readerLinkFor("/2024/other/", ARTICLE_URL)).toBe(reader("https://www.example.com/2024/other"));
+      expect(readerLinkFor("https://other.org/a?source=x&id=2", ARTICLE_URL)).toBe(reader("https://other.org/a?id=2"));
+    });
+
+    it("skips fragments, mailto, non-http and links to the same article", () => {
+      expect(readerLinkFor("#notes", ARTICLE_URL)).toBeNull();
+      expect(readerLinkFor("mailto:desk@example.com", ARTICLE_URL)).toBeNull();
+      expect(readerLinkFor("ftp://example.com/file", ARTICLE_URL)).toBeNull();
+      expect(readerLinkFor(`${ARTICLE_URL}#comments`, ARTICLE_URL)).toBeNull();
+      expect(readerLinkFor("http://localhost:3000/admin", ARTICLE_URL)).toBeNull();
+    });
+  });
+
+  describe("rewriteArticleLinks", () => {
+    const html = [
+      '<p><a href="https://www.example.com/2024/related" target="_blank" rel="noopener">Related</a></p>',
+      '<p><a href="https://other.org/report?a=1&amp;b=2">Report</a></p>',
+      '<p><a href="#footnote-1">1</a> <a href="mailto:desk@example.com">Email</a></p>',
+    ].join("");
+
+    it("rewrites only same-site links in same-site mode", () => {
+      const result = rewriteArticleLinks(html, ARTICLE_URL, "same-site");
+      expect(result).toContain(`<a href="${reader("https://www.example.com/2024/related")}" data-original-href="https://www.example.com/2024/related">Related</a>`);
+      expect(result).toContain('<a class="article-original-link" href="https://www.example.com/2024/related" target="_blank"');
+      expect(result).toContain('<a href="https://other.org/report?a=1&amp;b=2">Report</a>');
+    });
+
+    it("rewrites every web link in all mode, decoding entities", () => {
+      const result = rewriteArticleLinks(html, ARTICLE_URL, "all");
+      expect(result).toContain(`href="${reader("https://other.org/report?a=1&b=2")}"`);
+      expect(result).toContain('data-original-href="https://other.org/report?a=1&amp;b=2"');
+    });
+
+    it("leaves fragment and mailto links alone, and everything in off mode", () => {
+      const result = rewriteArticleLinks(html, ARTICLE_URL, "all");
+      expect(result).toContain('<a href="#footnote-1">1</a> <a href="mailto:desk@example.com">Email</a>');
+      expect(rewriteArticleLinks(html, ARTICLE_URL, "off")).toBe(html);
+    });
+
+    it("leaves embed card links alone", () => {
+      const card = '<figure data-embed="twitter"><figcaption><a href="https://twitter.com/a/status/1" data-embed-link="">View on X</a></figcaption></figure>';
+      expect(rewriteArticleLinks(card, ARTICLE_URL, "all")).toBe(card);
+    });
+  });
+});
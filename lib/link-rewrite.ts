@@ -0,0 +1,127 @@
+import { extractArticleUrl, normalizeUrl } from "@/lib/validation/url";
+
+/**
+ * In-article link rewriting
+ *
+ * Links in extracted content point at the original site, so following a related article
+ * leaves the reader. This pass points them at `/proxy?url=...` instead and keeps the original
+ * as a small secondary link next to each one. Which links are rewritten is a per-user
+ * preference (`article-link-mode` in localStorage):
+ * - "off": leave every link alone
+ * - "same-site": only links to the article's own site (and its subdomains)
+ * - "all": every http(s) link
+ *
+ * Fragment-only, mailto:/tel: and other non-http links are never touched.
+ * Applied at render time, like the image proxy - cached content keeps the original links.
+ */
+
+export type LinkRewriteMode = "off" | "same-site" | "all";
+
+export const LINK_REWRITE_MODES: readonly LinkRewriteMode[] = ["off", "same-site", "all"];
+
+export const DEFAULT_LINK_REWRITE_MODE: LinkRewriteMode = "same-site";
+
+const READER_PATH = "/proxy";
+
+// <a ...>...</a> - anchors can't nest, so the lazy body match is safe
+const ANCHOR_PATTERN = /<a\b([^>]*)>([\s\S]*?)<\/a>/gi;
+
+const HREF_ATTRIBUTE_PATTERN = /\shref=("([^"]*)"|'([^']*)')/i;
+
+// Left alone: in-page anchors and non-web schemes
+const SKIPPED_HREF = /^(#|mailto:|tel:|sms:|javascript:|data:)/i;
+
+// Links on embed cards (lib/sources/embeds.ts) point at social posts and videos, not articles
+const EMBED_LINK_ATTRIBUTE = /\sdata-embed-link\b/i;
+
+function decodeAttribute(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+function encodeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+}
+
+function siteOf(hostname: string): string {
+  return hostname.toLowerCase().replace(/^www\./, "");
+}
+
+/**
+ * Same site = same hostname (ignoring www.) or one is a subdomain of the other
+ *
+ * @example
+ * isSameSite('https://www.example.com/a', 'https://news.example.com/b') // true
+ * isSameSite('https://example.com/a', 'https://example.org/b') // false
+ */
+export function isSameSite(url: string, otherUrl: string): boolean {
+  try {
+    const a = siteOf(new URL(url).hostname);
+    const b = siteOf(new URL(otherUrl).hostname);
+    return a === b || a.endsWith(`.${b}`) || b.endsWith(`.${a}`);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reader URL for a link in an article, or null when it shouldn't be rewritten
+ * Relative links resolve against the article URL; the target goes through
+ * normalizeUrl/extractArticleUrl like any URL typed into the app.
+ *
+ * @example
+ * readerLinkFor('/2024/other-story', 'https://example.com/2024/story')
+ * // '/proxy?url=https%3A%2F%2Fexample.com%2F2024%2Fother-story'
+ */
+export function readerLinkFor(href: string, articleUrl: string): string | null {
+  const trimmed = href.trim();
+  if (!trimmed || SKIPPED_HREF.test(trimmed)) return null;
+
+  try {
+    const resolved = new URL(trimmed, articleUrl);
+    if (resolved.protocol !== "http:" && resolved.protocol !== "https:") return null;
+
+    const target = extractArticleUrl(normalizeUrl(resolved.toString()));
+
+    // A link back to this same article (e.g. "#comments" written as an absolute URL) stays in-page
+    const withoutHash = (url: string) => url.split("#")[0];
+    if (withoutHash(target) === withoutHash(extractArticleUrl(articleUrl))) return null;
+
+    return `${READER_PATH}?url=${encodeURIComponent(target)}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rewrite article links to open in the reader, per the user's mode
+ * Each rewritten link keeps the original in `data-original-href` and gets a trailing
+ * `a.article-original-link` that opens the original site in a new tab.
+ */
+export function rewriteArticleLinks(html: string, articleUrl: string, mode: LinkRewriteMode): string {
+  if (!html || mode === "off") return html;
+
+  return html.replace(ANCHOR_PATTERN, (anchor, attributes: string, body: string) => {
+    const hrefMatch = attributes.match(HREF_ATTRIBUTE_PATTERN);
+    if (!hrefMatch || EMBED_LINK_ATTRIBUTE.test(attributes)) return anchor;
+
+    const href = decodeAttribute(hrefMatch[2] ?? hrefMatch[3] ?? "");
+    const readerLink = readerLinkFor(href, articleUrl);
+    if (!readerLink) return anchor;
+
+    const original = new URL(href.trim(), articleUrl).toString();
+    if (mode === "same-site" && !isSameSite(original, articleUrl)) return anchor;
+
+    // Reader links open in place - drop the site's target/rel so they don't spawn tabs
+    const rewrittenAttributes = attributes
+      .replace(HREF_ATTRIBUTE_PATTERN, ` href="${encodeAttribute(readerLink)}" data-original-href="${encodeAttribute(original)}"`)
+      .replace(/\s(target|rel)=("[^"]*"|'[^']*')/gi, "");
+
+    return `<a${rewrittenAttributes}>${body}</a>`
+      + `<a class="article-original-link" href="${encodeAttribute(original)}" target="_blank" rel="noopener noreferrer" title="Open on original site" aria-label="Open on original site">↗</a>`;
+  });
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'bun:test';
+import { detectTruncation, endsAbruptly, hasTeaserMarker, lastParagraphOf, readJsonLdPaywall, TEASER_MARKERS } from './paywall';
+
+const paragraph = 'The council approved the budget after a long debate over school funding and road repairs. ';
+const fullText = `${paragraph.repeat(40).trim()}\n\nThe next session is scheduled for March.`;
+
+function jsonLd(data: unknown): string {
+    return `<html><head><script type="application/ld+json">${JSON.stringify(data)}</script></head><body></body></html>`;
+}
+
+describe('paywall', () => {
+    describe('TEASER_MARKERS', () => {
+        it('should include common teaser phrases', () => {
+            expect(TEASER_MARKERS).toContain('continue reading');
+            expect(TEASER_MARKERS).toContain('already a subscriber');
+            expect(TEASER_MARKERS).toContain('assine para continuar');
+        });
+    });
+
+    describe('hasTeaserMarker', () => {
+        it('should detect teaser phrases at the end of the text', () => {
+            expect(hasTeaserMarker(`${paragraph}\n\nSubscribe to continue reading.`)).toBe(true);
+            expect(hasTeaserMarker(`${paragraph}\n\nAlready a subscriber? Log in`)).toBe(true);
+            expect(hasTeaserMarker(`${paragraph}\n\nJá é assinante? Faça login`)).toBe(true);
+        });
+
+        it('should NOT flag teaser phrases far from the end', () => {
+            expect(hasTeaserMarker(`Continue reading below for the timeline.\n\n${fullText}`)).toBe(false);
+        });
+
+        it('should handle empty text', () => {
+            expect(hasTeaserMarker('')).toBe(false);
+        });
+    });
+
+    describe('endsAbruptly', () => {
+        it('should flag a trailing ellipsis', () => {
+            expect(endsAbruptly(`${paragraph}\n\nThe mayor said the plan would...`)).toBe(true);
+            expect(endsAbruptly(`${paragraph}\n\nThe mayor said the plan would…`)).toBe(true);
+        });
+
+        it('should flag a long last paragraph cut mid-sentence', () => {
+            expect(endsAbruptly(`${paragraph}${paragraph}and the committee will meet again to review the remaining proposals with`)).toBe(true);
+        });
+
+        it('should NOT flag complete sentences or short sign-offs', () => {
+            expect(endsAbruptly(fullText)).toBe(false);
+            expect(endsAbruptly(`${paragraph}\n\nReporting by Jane Doe; Editing by John Smith`)).toBe(false);
+            expect(endsAbruptly(`${paragraph}\n\n"We will see," she said.”`)).toBe(false);
+        });
+
+        it('should skip a trailing photo credit', () => {
+            expect(endsAbruptly(`${paragraph}${paragraph}(Photo: Jane Doe / Reuters)`)).toBe(false);
+            expect(endsAbruptly(`${paragraph}${paragraph}Image credit: Jane Doe / AP`)).toBe(false);
+            expect(endsAbruptly(`${paragraph}${paragraph}and the committee told a source: the plan would`)).toBe(true);
+        });
+    });
+
+    describe('lastParagraphOf', () => {
+        it('should return the last block of text, without figures and captions', () => {
+            const html = '<div><p>First.</p><p>Second &amp; last&hellip;</p>'
+                + '<figure><img src="a.jpg"><figcaption>(Photo: Jane Doe / Reuters)</figcaption></figure></div>';
+            expect(lastParagraphOf(html)).toBe('Second & last…');
+            expect(lastParagraphOf('<div>No blocks</div>')).toBe('');
+        });
+    });
+
+    describe('readJsonLdPaywall', () => {
+        it('should read isAccessibleForFree and wordCount', () => {
+            expect(readJsonLdPaywall(jsonLd({ '@type': 'NewsArticle', isAccessibleForFree: 'False', wordCount: 1200 })))
+                .toEqual({ paywalled: true, wordCount: 1200 });
+        });
+
+        it('should find flags nested in @graph and hasPart', () => {
+            const html = jsonLd({
+                '@graph': [
+                    { '@type': 'WebPage' },
+                    { '@type': 'Article', hasPart: { '@type': 'WebPageElement', isAccessibleForFree: false, cssSelector: '.paywall' } },
+                ],
+            });
+            expect(readJsonLdPaywall(html).paywalled).toBe(true);
+        });
+
+        it('should ignore free articles and broken JSON', () => {
+            expect(readJsonLdPaywall(jsonLd({ '@type': 'Article', isAccessibleForFree: true })).paywalled).toBe(false);
+            expect(readJsonLdPaywall('<script type="application/ld+json">{not json</script>').paywalled).toBe(false);
+        });
+    });
+
+    describe('detectTruncation', () => {
+        it('should pass a complete article', () => {
+            expect(detectTruncation({ textContent: fullText })).toEqual({ truncated: false, reasons: [] });
+        });
+
+        it('should judge the last paragraph of minified HTML, not the whole text', () => {
+            // Readability's textContent has no newlines when the page HTML had none
+            const body = paragraph.repeat(20).trim();
+            const content = `<div><p>${body}</p><figure><img src="a.jpg"><figcaption>Crowds outside the council building (Photo: Jane Doe / Reuters)</figcaption></figure></div>`;
+            const textContent = `${body}Crowds outside the council building (Photo: Jane Doe / Reuters)`;
+            expect(detectTruncation({ textContent, content })).toEqual({ truncated: false, reasons: [] });
+            expect(detectTruncation({ textContent: `${body}and the committee will meet again to review the`, content: `<p>${body}and the committee will meet again to review the</p>` }).reasons)
+                .toEqual(['abrupt-ending']);
+        });
+
+        it('should flag a teaser', () => {
+            const result = detectTruncation({ textContent: `${paragraph}\n\nContinue reading with a subscription` });
+            expect(result.truncated).toBe(true);
+            expect(result.reasons).toContain('teaser');
+        });
+
+        it('should flag paywalled pages shorter than their declared word count', () => {
+            const html = jsonLd({ '@type': 'NewsArticle', isAccessibleForFree: false, wordCount: 2000 });
+            expect(detectTruncation({ textContent: `${paragraph}${paragraph}End.`, htmlContent: html }).reasons).toEqual(['json-ld']);
+        });
+
+        it('should NOT flag paywalled pages when the full text came through', () => {
+            const words = fullText.split(/\s+/).length;
+            const html = jsonLd({ '@type': 'NewsArticle', isAccessibleForFree: false, wordCount: words });
+            expect(detectTruncation({ textContent: fullText, htmlContent: html }).truncated).toBe(false);
+        });
+    });
+});
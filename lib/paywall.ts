@@ -0,0 +1,253 @@
+/**
+ * Paywall / Truncation Detector
+ *
+ * Flags articles that are only the free teaser of a paywalled page.
+ * Readability happily extracts the first few paragraphs plus "Subscribe to continue reading",
+ * so a source can report success with a 300-word preview. Three signals:
+ * - teaser markers ("continue reading", "already a subscriber?") near the end of the text
+ * - `isAccessibleForFree: false` in the page's JSON-LD, when the text is shorter than the
+ *   declared `wordCount` (or short, if there is none) - crawler fetches often get the full text
+ * - an abrupt ending: the last paragraph stops mid-sentence or on an ellipsis - taken from
+ *   the article HTML's block elements when given (minified pages have no newlines in the
+ *   text), with captions and photo credits left out
+ *
+ * Plain string checks only - also imported by client code (lib/sources/quality.ts).
+ */
+
+// Expandable list of teaser phrases (case-insensitive, matched near the end of the text)
+// Add new phrases here to extend the detector
+export const TEASER_MARKERS = [
+    // English
+    'continue reading',
+    'keep reading',
+    'read the full article',
+    'read the full story',
+    'read the rest of',
+    'to read the full',
+    'subscribe to continue',
+    'subscribe to read',
+    'subscribe now to',
+    'subscribers only',
+    'for subscribers only',
+    'exclusive to subscribers',
+    'available to subscribers',
+    'already a subscriber',
+    'already have an account',
+    'sign in to continue',
+    'log in to continue',
+    'sign in to read',
+    'log in to read',
+    'create a free account',
+    'register to continue',
+    'this article is for subscribers',
+    'this content is for subscribers',
+    'unlock this article',
+    'start your free trial',
+    // Portuguese
+    'continue lendo',
+    'assine para continuar',
+    'exclusivo para assinantes',
+    'já é assinante',
+    // Spanish
+    'sigue leyendo',
+    'suscríbete para continuar',
+    'exclusivo para suscriptores',
+    'ya eres suscriptor',
+    // German
+    'weiterlesen mit',
+    'jetzt abonnieren',
+    'bereits abonnent',
+    'nur für abonnenten',
+    // French
+    'la suite est réservée',
+    'réservé aux abonnés',
+    'déjà abonné',
+    // Italian
+    'riservato agli abbonati',
+    'sei già abbonato',
+];
+
+export type TruncationReason = 'teaser' | 'json-ld' | 'abrupt-ending';
+
+export interface TruncationCheck {
+    truncated: boolean;
+    reasons: TruncationReason[];
+}
+
+// Teaser phrases only count near the end - mid-article "continue reading below" is harmless
+const TEASER_TAIL_CHARS = 600;
+
+// Share of the declared JSON-LD wordCount we need before calling a paywalled page complete
+const MIN_WORD_COUNT_RATIO = 0.8;
+
+// Without a wordCount, paywalled pages shorter than this are treated as teasers
+const PAYWALLED_MIN_LENGTH = 2500;
+
+// Last paragraphs shorter than this are credits, captions or sign-offs, not cut-off prose
+const ABRUPT_MIN_LINE_LENGTH = 100;
+
+// Closing punctuation (Latin and CJK), optionally followed by quotes/brackets, or a trailing number
+const SENTENCE_END = /([.!?。！？]["'”’»)\]」』]*|\d)$/;
+
+// A trailing photo/image credit: "(Photo: Jane Doe / Reuters)", or a bare "Image credit: AP"
+// after a sentence end (a bare "source:" mid-sentence is prose)
+const CREDIT_LABEL = '(?:photo|photograph|image|picture|illustration|video|credit|source|foto)s?(?:\\s+credits?)?\\s*:';
+const PARENTHESIZED_CREDIT_TAIL = new RegExp(`\\(\\s*${CREDIT_LABEL}[^()\\n]*\\)$`, 'i');
+const BARE_CREDIT_TAIL = new RegExp(`(^|[.!?。！？]["'”’»)\\]」』]*\\s+)${CREDIT_LABEL}[^.!?\\n]*$`, 'i');
+
+// Paragraph-level elements whose text is prose; figures and their captions are skipped
+const BLOCK_ELEMENT = /<(p|li|blockquote|h[1-6]|pre|dd|td)\b[^>]*>([\s\S]*?)<\/\1\s*>/gi;
+const FIGURE_ELEMENT = /<(figure|figcaption|caption)\b[^>]*>[\s\S]*?<\/\1\s*>/gi;
+
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', hellip: '…' };
+
+// How deep to walk JSON-LD objects (@graph / hasPart nesting is shallow in practice)
+const MAX_JSON_LD_DEPTH = 6;
+
+/**
+ * Does the tail of the text contain a teaser marker?
+ *
+ * @example
+ * hasTeaserMarker('...the minister said. Subscribe to continue reading.') // true
+ */
+export function hasTeaserMarker(text: string): boolean {
+    if (!text) return false;
+    const tail = text.trimEnd().slice(-TEASER_TAIL_CHARS).toLowerCase();
+    return TEASER_MARKERS.some((marker) => tail.includes(marker));
+}
+
+function stripCreditTail(line: string): string {
+    return line.replace(PARENTHESIZED_CREDIT_TAIL, '').replace(BARE_CREDIT_TAIL, '$1').trim();
+}
+
+/**
+ * Does the text stop mid-sentence?
+ * True for a trailing ellipsis, or a long last paragraph without closing punctuation.
+ *
+ * @example
+ * endsAbruptly('He said the plan would…') // true
+ * endsAbruptly('The vote is expected on Friday.') // false
+ */
+export function endsAbruptly(text: string): boolean {
+    const lines = text.trim().split(/\n+/).map((line) => line.trim()).filter(Boolean);
+    const lastLine = lines[lines.length - 1] && stripCreditTail(lines[lines.length - 1]);
+    if (!lastLine) return false;
+
+    if (/(\.\.\.|…)$/.test(lastLine)) return true;
+
+    return lastLine.length >= ABRUPT_MIN_LINE_LENGTH && !SENTENCE_END.test(lastLine);
+}
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+        if (code[0] === '#') {
+            const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+            return Number.isFinite(point) && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+        }
+        return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    });
+}
+
+/**
+ * Text of the last non-empty paragraph in article HTML, one line per block element
+ *
+ * @example
+ * lastParagraphOf('<p>First.</p><p>Second</p><figure><figcaption>Photo</figcaption></figure>') // 'Second'
+ */
+export function lastParagraphOf(html: string): string {
+    const withoutFigures = html.replace(FIGURE_ELEMENT, '');
+    const paragraphs = Array.from(withoutFigures.matchAll(BLOCK_ELEMENT))
+        .map(([, , inner]) => decodeEntities(inner.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim())
+        .filter(Boolean);
+    return paragraphs[paragraphs.length - 1] ?? '';
+}
+
+function isFalseFlag(value: unknown): boolean {
+    return value === false || (typeof value === 'string' && value.trim().toLowerCase() === 'false');
+}
+
+/**
+ * Read the paywall markup from the page's JSON-LD blocks
+ * Google's structured data for paywalled content sets `isAccessibleForFree: false`
+ * on the article (or on a `hasPart` element).
+ */
+export function readJsonLdPaywall(html: string): { paywalled: boolean; wordCount?: number } {
+    const result: { paywalled: boolean; wordCount?: number } = { paywalled: false };
+    if (!html) return result;
+
+    const visit = (node: unknown, depth: number) => {
+        if (!node || typeof node !== 'object' || depth > MAX_JSON_LD_DEPTH) return;
+        if (Array.isArray(node)) {
+            node.forEach((item) => visit(item, depth + 1));
+            return;
+        }
+
+        const record = node as Record<string, unknown>;
+        if (isFalseFlag(record.isAccessibleForFree)) {
+            result.paywalled = true;
+        }
+        const wordCount = Number(record.wordCount);
+        if (result.wordCount === undefined && Number.isFinite(wordCount) && wordCount > 0) {
+            result.wordCount = wordCount;
+        }
+        Object.values(record).forEach((value) => visit(value, depth + 1));
+    };
+
+    const scripts = Array.from(html.matchAll(/<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi));
+    scripts.forEach(([, json]) => {
+        try {
+            visit(JSON.parse(json), 0);
+        } catch {
+            // Broken JSON-LD is common - skip the block
+        }
+    });
+
+    return result;
+}
+
+function countWords(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Check an extracted article for signs it was cut short by a paywall.
+ *
+ * @param article.textContent - The extracted article text
+ * @param article.content - The extracted article HTML, if available (for the last paragraph)
+ * @param article.htmlContent - The page HTML it came from (for JSON-LD), if available
+ *
+ * @example
+ * detectTruncation({ textContent: 'Intro paragraph. Already a subscriber? Log in' })
+ * // { truncated: true, reasons: ['teaser'] }
+ */
+export function detectTruncation(article: {
+    textContent: string;
+    content?: string | null;
+    htmlContent?: string | null;
+}): TruncationCheck {
+    const { textContent, content, htmlContent } = article;
+    const reasons: TruncationReason[] = [];
+
+    if (hasTeaserMarker(textContent)) {
+        reasons.push('teaser');
+    }
+
+    if (htmlContent) {
+        const { paywalled, wordCount } = readJsonLdPaywall(htmlContent);
+        const incomplete = wordCount
+            ? countWords(textContent) < wordCount * MIN_WORD_COUNT_RATIO
+            : textContent.length < PAYWALLED_MIN_LENGTH;
+        if (paywalled && incomplete) {
+            reasons.push('json-ld');
+        }
+    }
+
+    // Block elements mark the paragraphs even when the text has no newlines;
+    // content without any falls back to the text
+    const lastParagraph = content ? lastParagraphOf(content) : '';
+    if (endsAbruptly(lastParagraph || textContent)) {
+        reasons.push('abrupt-ending');
+    }
+
+    return { truncated: reasons.length > 0, reasons };
+}
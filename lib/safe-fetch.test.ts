@@ -0,0 +1,124 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import http from "http";
+import net, { AddressInfo } from "net";
+import zlib from "zlib";
+import { assertPublicUrl, isUnsafeUrlError, resolvePublicAddress, safeFetch } from "./safe-fetch";
+
+// Pretend every hostname resolves to the given addresses
+const resolvesTo = (...addresses: string[]) => async () =>
+  addresses.map((address) => ({ address, family: address.includes(":") ? 6 : 4 }));
+
+describe("resolvePublicAddress", () => {
+  it("returns the first address for public hosts", async () => {
+    expect(await resolvePublicAddress("example.com", resolvesTo("93.184.215.14", "2606:2800::1"))).toEqual({
+      address: "93.184.215.14",
+      family: 4,
+    });
+  });
+
+  it("rejects hosts where any record is non-public", async () => {
+    const error = await resolvePublicAddress("rebind.example", resolvesTo("93.184.215.14", "10.0.0.5")).catch((e) => e);
+    expect(isUnsafeUrlError(error)).toBe(true);
+  });
+
+  it("rejects private literals and localhost without resolving", async () => {
+    const lookup = async () => {
+      throw new Error("should not resolve");
+    };
+    for (const host of ["169.254.169.254", "[::1]", "localhost"]) {
+      expect(isUnsafeUrlError(await resolvePublicAddress(host, lookup).catch((e) => e))).toBe(true);
+    }
+  });
+});
+
+describe("assertPublicUrl", () => {
+  it("rejects non-http protocols", async () => {
+    expect(isUnsafeUrlError(await assertPublicUrl("file:///etc/passwd").catch((e) => e))).toBe(true);
+  });
+
+  it("lets DNS failures through only when allowed", async () => {
+    const lookup = async () => {
+      throw Object.assign(new Error("getaddrinfo ENOTFOUND"), { code: "ENOTFOUND" });
+    };
+    await expect(assertPublicUrl("https://expired.example", { allowUnresolved: true, dnsLookup: lookup })).resolves.toBeUndefined();
+    await expect(assertPublicUrl("https://expired.example", { dnsLookup: lookup })).rejects.toThrow("ENOTFOUND");
+  });
+
+  it("still blocks private addresses when DNS failures are allowed", async () => {
+    const error = await assertPublicUrl("https://internal.example", { allowUnresolved: true, dnsLookup: resolvesTo("192.168.1.1") }).catch((e) => e);
+    expect(isUnsafeUrlError(error)).toBe(true);
+  });
+});
+
+describe("safeFetch", () => {
+  let server: http.Server;
+  let agent: http.Agent;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === "/metadata") {
+        res.writeHead(302, { Location: "http://169.254.169.254/latest/meta-data" });
+      } else if (req.url === "/loop") {
+        res.writeHead(302, { Location: "/loop" });
+      } else if (req.url === "/stalled-gzip") {
+        // Half of a gzip body, then nothing - the response never ends
+        const gzipped = zlib.gzipSync("ok ".repeat(10000));
+        res.writeHead(200, { "Content-Type": "text/plain", "Content-Encoding": "gzip" });
+        res.write(gzipped.subarray(0, gzipped.length / 2));
+        return;
+      } else {
+        res.writeHead(200, { "Content-Type": "text/plain" });
+        res.write("ok");
+      }
+      res.end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    // Stands in for a proxy agent: dials the local server whatever the target,
+    // so "public" hostnames from the fake DNS reach it
+    agent = new http.Agent();
+    agent.createConnection = () => net.connect(port, "127.0.0.1");
+  });
+
+  afterAll(() => {
+    agent.destroy();
+    server.close();
+  });
+
+  const publicDns = resolvesTo("93.184.215.14");
+
+  it("fetches public hosts", async () => {
+    const response = await safeFetch("http://news.example/story", { agent, dnsLookup: publicDns });
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe("ok");
+  });
+
+  it("refuses to connect to a private address", async () => {
+    const error = await safeFetch("http://127.0.0.1/", { agent }).catch((e) => e);
+    expect(isUnsafeUrlError(error)).toBe(true);
+  });
+
+  it("validates every redirect hop", async () => {
+    const error = await safeFetch("http://news.example/metadata", { agent, dnsLookup: publicDns }).catch((e) => e);
+    expect(isUnsafeUrlError(error)).toBe(true);
+  });
+
+  it("returns the redirect itself in manual mode", async () => {
+    const response = await safeFetch("http://news.example/metadata", { agent, dnsLookup: publicDns, redirect: "manual" });
+    expect(response.status).toBe(302);
+    expect(response.headers.get("location")).toBe("http://169.254.169.254/latest/meta-data");
+  });
+
+  it("aborts a stalled compressed body", async () => {
+    const controller = new AbortController();
+    const response = await safeFetch("http://news.example/stalled-gzip", { agent, dnsLookup: publicDns, signal: controller.signal });
+    setTimeout(() => controller.abort(), 50);
+    const error = await response.text().catch((e) => e);
+    expect(error.name).toBe("AbortError");
+  });
+
+  it("stops at the hop limit", async () => {
+    await expect(safeFetch("http://news.example/loop", { agent, dnsLookup: publicDns, maxRedirects: 2 })).rejects.toThrow("Too many redirects");
+  });
+});
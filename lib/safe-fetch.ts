@@ -0,0 +1,271 @@
+import dns from "dns";
+import http from "http";
+import https from "https";
+import zlib from "zlib";
+import type { LookupFunction } from "net";
+import { pipeline, Readable, Transform } from "stream";
+import { isPrivateAddress, isPrivateIP } from "@/lib/validation/url";
+import { createLogger } from "@/lib/logger";
+import { scrubUrl } from "@/lib/privacy";
+
+const logger = createLogger('lib:safe-fetch');
+
+/**
+ * SSRF-safe fetch for server-side requests to user-supplied URLs
+ *
+ * `isPrivateIP` only sees the hostname, so a public name resolving to 10.x or a
+ * redirect to http://169.254.169.254 would get through a plain fetch(). This:
+ * - resolves the hostname and rejects private/link-local/metadata addresses
+ * - connects to the address it validated (pinned), so a second DNS answer can't
+ *   swap in an internal IP (DNS rebinding)
+ * - follows redirects itself, re-validating every hop, up to a hop limit
+ *
+ * When a proxy agent is passed, the proxy connects to the target and does its own
+ * DNS - the hostname is still validated here, but the address can't be pinned.
+ */
+
+export const DEFAULT_MAX_REDIRECTS = 5;
+
+const UNSAFE_URL_MESSAGE = "Access to private or local networks is restricted.";
+
+type DnsLookup = (hostname: string) => Promise<dns.LookupAddress[]>;
+
+const defaultDnsLookup: DnsLookup = (hostname) => dns.promises.lookup(hostname, { all: true, verbatim: true });
+
+export interface SafeFetchInit {
+  method?: "GET" | "POST";
+  headers?: HeadersInit;
+  body?: string;
+  redirect?: "follow" | "manual";
+  signal?: AbortSignal;
+  /** Redirect hop limit (default 5) */
+  maxRedirects?: number;
+  /** Proxy agent (see lib/sources/proxy-pool.ts) */
+  agent?: http.Agent;
+  /** Injected for tests */
+  dnsLookup?: DnsLookup;
+}
+
+function createNamedError(name: string, message: string): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+/**
+ * True for errors thrown because a URL (or a redirect hop) points at a non-public address
+ */
+export function isUnsafeUrlError(error: unknown): boolean {
+  return error instanceof Error && error.name === "UnsafeUrlError";
+}
+
+/**
+ * Resolve a hostname and return the address to connect to
+ * Rejects if ANY resolved address is non-public - an attacker-controlled zone can mix
+ * public and private records and we don't control which one a client would pick.
+ */
+export async function resolvePublicAddress(
+  hostname: string,
+  dnsLookup: DnsLookup = defaultDnsLookup
+): Promise<dns.LookupAddress> {
+  const host = hostname.replace(/^\[|\]$/g, "");
+
+  if (isPrivateIP(hostname)) {
+    throw createNamedError("UnsafeUrlError", UNSAFE_URL_MESSAGE);
+  }
+
+  const addresses = await dnsLookup(host);
+  if (addresses.length === 0) {
+    throw createNamedError("DnsLookupError", `No addresses found for ${host}`);
+  }
+
+  const privateAddress = addresses.find((entry) => isPrivateAddress(entry.address));
+  if (privateAddress) {
+    logger.warn({ hostname: host, address: privateAddress.address }, 'Blocked hostname resolving to a non-public address');
+    throw createNamedError("UnsafeUrlError", UNSAFE_URL_MESSAGE);
+  }
+
+  return addresses[0];
+}
+
+/**
+ * Validate a URL's protocol and resolved addresses without fetching it
+ * DNS failures pass (`allowUnresolved`) for callers that only hand the URL to a
+ * third party - e.g. Wayback can serve a site whose domain has since expired.
+ */
+export async function assertPublicUrl(
+  url: string,
+  { allowUnresolved = false, dnsLookup }: { allowUnresolved?: boolean; dnsLookup?: DnsLookup } = {}
+): Promise<void> {
+  const target = new URL(url);
+  if (target.protocol !== "http:" && target.protocol !== "https:") {
+    throw createNamedError("UnsafeUrlError", `Unsupported protocol: ${target.protocol}`);
+  }
+
+  try {
+    await resolvePublicAddress(target.hostname, dnsLookup);
+  } catch (error) {
+    if (allowUnresolved && !isUnsafeUrlError(error)) return;
+    throw error;
+  }
+}
+
+/**
+ * Lookup that always answers with the validated address
+ * Keeps the original hostname in the URL so Host and TLS SNI/certificate checks still use it.
+ */
+function createPinnedLookup(pinned: dns.LookupAddress): LookupFunction {
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [pinned]);
+    } else {
+      callback(null, pinned.address, pinned.family);
+    }
+  };
+}
+
+function createDecoder(contentEncoding: string | undefined): Transform | null {
+  switch (contentEncoding) {
+    case "gzip":
+    case "x-gzip":
+      return zlib.createGunzip();
+    case "deflate":
+      return zlib.createInflate();
+    case "br":
+      return zlib.createBrotliDecompress();
+    default:
+      return null;
+  }
+}
+
+function decodeBody(response: http.IncomingMessage): Readable {
+  const decoder = createDecoder(response.headers["content-encoding"]);
+  if (!decoder) return response;
+  // pipeline (unlike pipe) destroys the decoder when the response errors, so an abort
+  // mid-body rejects the read instead of leaving it pending; the error surfaces there
+  return pipeline(response, decoder, () => { });
+}
+
+function toFetchHeaders(response: http.IncomingMessage): Headers {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(response.headers)) {
+    if (value === undefined) continue;
+    // Body is decoded below, so these no longer describe it
+    if (name === "content-encoding" || name === "content-length") continue;
+    (Array.isArray(value) ? value : [value]).forEach((entry) => headers.append(name, entry));
+  }
+  return headers;
+}
+
+function toRequestHeaders(init: SafeFetchInit): Record<string, string> {
+  const headers: Record<string, string> = {};
+  new Headers(init.headers).forEach((value, name) => {
+    headers[name] = value;
+  });
+  // node:http doesn't negotiate compression on its own like fetch() does
+  headers["accept-encoding"] ??= "gzip, deflate, br";
+  if (init.body !== undefined) {
+    headers["content-length"] = String(Buffer.byteLength(init.body));
+  }
+  return headers;
+}
+
+/**
+ * One request/response exchange - no redirect handling
+ */
+function requestOnce(target: URL, init: SafeFetchInit, pinned: dns.LookupAddress): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const transport = target.protocol === "https:" ? https : http;
+
+    let body: Readable | undefined;
+    const request = transport.request(target, {
+      method: init.method ?? "GET",
+      headers: toRequestHeaders(init),
+      // A proxy agent dials the proxy, not the target - pinning only applies to direct connections
+      ...(init.agent ? { agent: init.agent } : { lookup: createPinnedLookup(pinned) }),
+    }, (response) => {
+      const status = response.statusCode ?? 0;
+      const hasBody = status !== 204 && status !== 304;
+      body = decodeBody(response);
+      const fetchResponse = new Response(
+        hasBody ? (Readable.toWeb(body) as unknown as ReadableStream<Uint8Array>) : null,
+        { status, statusText: response.statusMessage, headers: toFetchHeaders(response) }
+      );
+      Object.defineProperty(fetchResponse, "url", { value: target.toString() });
+      if (!hasBody) response.resume();
+      resolve(fetchResponse);
+    });
+
+    // Abort covers the body too: callers' timeouts keep working while the body streams,
+    // and a read in progress rejects with the AbortError rather than a bare "aborted"
+    const onAbort = () => {
+      const error = createNamedError("AbortError", "The operation was aborted");
+      body?.destroy(error);
+      request.destroy(error);
+    };
+    init.signal?.addEventListener("abort", onAbort, { once: true });
+
+    request.on("error", (error) => {
+      init.signal?.removeEventListener("abort", onAbort);
+      reject(error);
+    });
+    request.on("close", () => init.signal?.removeEventListener("abort", onAbort));
+
+    if (init.body !== undefined) request.write(init.body);
+    request.end();
+  });
+}
+
+/**
+ * fetch() with SSRF protection - see the module comment
+ * Throws an `UnsafeUrlError` for non-public targets (including redirect hops),
+ * `AbortError` when the signal fires, and a plain Error past the redirect limit.
+ */
+export async function safeFetch(url: string, init: SafeFetchInit = {}): Promise<Response> {
+  const maxRedirects = init.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  let target = new URL(url);
+  let hopInit = init;
+
+  for (let hop = 0; ; hop++) {
+    if (init.signal?.aborted) {
+      throw createNamedError("AbortError", "The operation was aborted");
+    }
+    if (target.protocol !== "http:" && target.protocol !== "https:") {
+      throw createNamedError("UnsafeUrlError", `Unsupported protocol: ${target.protocol}`);
+    }
+
+    const pinned = await resolvePublicAddress(target.hostname, init.dnsLookup);
+    const response = await requestOnce(target, hopInit, pinned);
+    const location = response.headers.get("location");
+
+    if (init.redirect === "manual" || response.status < 300 || response.status >= 400 || !location) {
+      if (hop > 0) {
+        Object.defineProperty(response, "redirected", { value: true });
+      }
+      return response;
+    }
+
+    await response.body?.cancel().catch(() => { });
+
+    if (hop >= maxRedirects) {
+      throw new Error(`Too many redirects fetching ${scrubUrl(url)} (limit ${maxRedirects})`);
+    }
+
+    const next = new URL(location, target);
+    logger.debug({ from: scrubUrl(target.toString()), to: scrubUrl(next.toString()), status: response.status, hop: hop + 1 }, 'Following redirect');
+
+    // Same rules as fetch(): 303 (and 301/302 after a POST) become a body-less GET
+    const keepMethod = response.status === 307 || response.status === 308;
+    const headers = new Headers(hopInit.headers);
+    // Don't leak credentials to another origin
+    if (next.origin !== target.origin) {
+      headers.delete("authorization");
+      headers.delete("cookie");
+    }
+    if (!keepMethod) headers.delete("content-type");
+    hopInit = keepMethod
+      ? { ...hopInit, headers }
+      : { ...hopInit, method: "GET", body: undefined, headers };
+    target = next;
+  }
+}
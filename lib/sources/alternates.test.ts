@@ -0,0 +1,59 @@
+import { describe, expect, it } from "bun:test";
+import { findAlternateVersions } from "./alternates";
+
+const PAGE_URL = "https://news.example.com/2024/story";
+
+function page(head: string, body = ""): string {
+  return `<!doctype html><html><head>${head}</head><body>${body}</body></html>`;
+}
+
+describe("findAlternateVersions", () => {
+  it("finds AMP, print and mobile variants in try order", () => {
+    const html = page(
+      `<link rel="alternate" media="only screen and (max-width: 640px)" href="https://m.example.com/2024/story">
+       <link rel="amphtml" href="/amp/2024/story">`,
+      `<a href="/2024/story?print=1">Print</a>`
+    );
+
+    expect(findAlternateVersions(html, PAGE_URL)).toEqual([
+      { variant: "amp", url: "https://news.example.com/amp/2024/story" },
+      { variant: "print", url: "https://news.example.com/2024/story?print=1" },
+      { variant: "mobile", url: "https://m.example.com/2024/story" },
+    ]);
+  });
+
+  it("prefers a print alternate link over in-page anchors", () => {
+    const html = page(
+      `<link rel="alternate" media="print" href="https://news.example.com/print/2024/story">`,
+      `<a href="/2024/story?view=print">Print</a>`
+    );
+
+    expect(findAlternateVersions(html, PAGE_URL)).toEqual([
+      { variant: "print", url: "https://news.example.com/print/2024/story" },
+    ]);
+  });
+
+  it("ignores print links on other sites and unrelated links", () => {
+    const html = page(
+      "",
+      `<a href="https://shop.example.org/print">Prints for sale</a>
+       <a href="/blueprints">Blueprints</a>
+       <a href="/fingerprint-scanners">Fingerprints</a>`
+    );
+
+    expect(findAlternateVersions(html, PAGE_URL)).toEqual([]);
+  });
+
+  it("skips variants that point back at the page itself", () => {
+    const html = page(`<link rel="amphtml" href="${PAGE_URL}#amp">`);
+
+    expect(findAlternateVersions(html, PAGE_URL)).toEqual([]);
+  });
+
+  it("ignores non-http alternates and empty input", () => {
+    const html = page(`<link rel="amphtml" href="javascript:void(0)">`);
+
+    expect(findAlternateVersions(html, PAGE_URL)).toEqual([]);
+    expect(findAlternateVersions("", PAGE_URL)).toEqual([]);
+  });
+});
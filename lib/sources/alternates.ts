@@ -0,0 +1,101 @@
+import { JSDOM } from "jsdom";
+
+/**
+ * Alternate renderings of an article page
+ * - amp: <link rel="amphtml">
+ * - print: printer-friendly page (<link rel="alternate" media="print"> or a "print" link)
+ * - mobile: separate mobile site (<link rel="alternate" media="...max-width...">)
+ *
+ * AMP and print pages frequently ship the full text without the paywall script,
+ * so fetch-fast tries them when the canonical page comes back weak.
+ */
+export type AlternateVariant = "amp" | "print" | "mobile";
+
+export interface AlternateVersion {
+  variant: AlternateVariant;
+  url: string;
+}
+
+// Print links: /print, /print/..., ?print=1, ?view=print, ?output=print, etc.
+const PRINT_HREF_PATTERN = /(?:\/print(?:able)?(?:\/|$|\.)|[?&](?:print|printable)(?:=(?:1|true|yes))?(?:&|$)|[?&](?:view|output|format|mode)=print(?:&|$))/i;
+
+function resolveHttpUrl(href: string | null, baseUrl: string): string | null {
+  if (!href) return null;
+
+  try {
+    const resolved = new URL(href.trim(), baseUrl);
+    if (resolved.protocol !== "http:" && resolved.protocol !== "https:") {
+      return null;
+    }
+    resolved.hash = "";
+    return resolved.toString();
+  } catch {
+    return null;
+  }
+}
+
+function findPrintUrl(doc: Document, pageUrl: string): string | null {
+  const printLink = doc.querySelector('link[rel~="alternate"][media="print"][href]');
+  const fromLink = resolveHttpUrl(printLink?.getAttribute("href") ?? null, pageUrl);
+  if (fromLink) return fromLink;
+
+  // Fall back to in-page "Print" links, restricted to the same site
+  const pageHost = new URL(pageUrl).hostname;
+  const anchors = Array.from(doc.querySelectorAll("a[href]"));
+  for (const anchor of anchors) {
+    const resolved = resolveHttpUrl(anchor.getAttribute("href"), pageUrl);
+    if (!resolved) continue;
+
+    const candidate = new URL(resolved);
+    if (candidate.hostname !== pageHost) continue;
+    if (PRINT_HREF_PATTERN.test(candidate.pathname + candidate.search)) {
+      return resolved;
+    }
+  }
+
+  return null;
+}
+
+function findMobileUrl(doc: Document, pageUrl: string): string | null {
+  const alternates = Array.from(doc.querySelectorAll('link[rel~="alternate"][media][href]'));
+  const mobileLink = alternates.find((link) => {
+    const media = link.getAttribute("media")?.toLowerCase() ?? "";
+    return media.includes("max-width") || media === "handheld";
+  });
+
+  return resolveHttpUrl(mobileLink?.getAttribute("href") ?? null, pageUrl);
+}
+
+/**
+ * Discover alternate versions linked from an article page
+ * Returns at most one URL per variant, in the order they should be tried (AMP, print, mobile),
+ * skipping any that point back at the page itself
+ */
+export function findAlternateVersions(html: string, pageUrl: string): AlternateVersion[] {
+  if (!html) return [];
+
+  let doc: Document;
+  try {
+    doc = new JSDOM(html, { url: pageUrl }).window.document;
+  } catch {
+    return [];
+  }
+
+  const ampLink = doc.querySelector('link[rel~="amphtml"][href]');
+  const candidates: Array<[AlternateVariant, string | null]> = [
+    ["amp", resolveHttpUrl(ampLink?.getAttribute("href") ?? null, pageUrl)],
+    ["print", findPrintUrl(doc, pageUrl)],
+    ["mobile", findMobileUrl(doc, pageUrl)],
+  ];
+
+  const seen = new Set<string>([resolveHttpUrl(pageUrl, pageUrl) ?? pageUrl]);
+  const versions: AlternateVersion[] = [];
+
+  for (const [variant, url] of candidates) {
+    if (!url || seen.has(url)) continue;
+    seen.add(url);
+    versions.push({ variant, url });
+  }
+
+  return versions;
+}
@@ -0,0 +1,164 @@
+import { createNetworkError } from "@/lib/errors";
+import { createLogger } from "@/lib/logger";
+import { BROWSER_USER_AGENTS, SourceFetchResult } from "./shared";
+import { outboundFetch } from "./outbound-fetch";
+import { readHtmlResponse } from "./response-body";
+import { parseArchivedPage } from "./archived-page";
+
+const logger = createLogger('lib:sources:archive-today');
+
+const ARCHIVE_TODAY_TIMEOUT_MS = 20000; // archive.today can be slow, same budget as Wayback
+
+function buildArchiveTodayHeaders(): HeadersInit {
+  // Pick a random User-Agent to avoid fingerprinting
+  const userAgent = BROWSER_USER_AGENTS[Math.floor(Math.random() * BROWSER_USER_AGENTS.length)];
+
+  return {
+    "User-Agent": userAgent,
+    "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8",
+    "Accept-Language": "en-US,en;q=0.9",
+    "Accept-Encoding": "gzip, deflate, br",
+    "Sec-Fetch-Dest": "document",
+    "Sec-Fetch-Mode": "navigate",
+    "Sec-Fetch-Site": "none",
+    "Sec-Fetch-User": "?1",
+    "Upgrade-Insecure-Requests": "1",
+  };
+}
+
+/**
+ * Look up the newest snapshot URL for a page
+ * archive.today answers /newest/<url> with a redirect to the snapshot (e.g. https://archive.ph/AbCdE)
+ */
+async function findNewestSnapshot(
+  lookupUrl: string,
+  signal: AbortSignal
+): Promise<{ snapshotUrl: string } | { status: number }> {
+  const response = await outboundFetch("archive-today", lookupUrl, {
+    headers: buildArchiveTodayHeaders(),
+    redirect: "manual",
+    signal,
+  });
+
+  const location = response.headers.get('Location');
+  if (response.status >= 300 && response.status < 400 && location) {
+    const snapshotUrl = new URL(location, lookupUrl).toString();
+
+    // A redirect back to a lookup/search page means there is no snapshot
+    if (snapshotUrl.includes('/newest/') || snapshotUrl.includes('/search/')) {
+      return { status: 404 };
+    }
+
+    return { snapshotUrl };
+  }
+
+  // No redirect: 404 when nothing is archived, 429 when rate limited
+  return { status: response.ok ? 404 : response.status };
+}
+
+/**
+ * Fetch the newest archive.today snapshot and parse it with Readability
+ * @param lookupUrl - archive.today /newest/ URL for the page (see the source registry)
+ * @param originalUrl - The article URL, used as the base for parsing
+ */
+export async function fetchArticleWithArchiveToday(
+  lookupUrl: string,
+  originalUrl: string
+): Promise<SourceFetchResult> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), ARCHIVE_TODAY_TIMEOUT_MS);
+
+  try {
+    logger.info({ source: "archive-today", originalHostname: new URL(originalUrl).hostname }, 'Looking up newest archive.today snapshot');
+
+    const lookup = await findNewestSnapshot(lookupUrl, controller.signal);
+
+    if ('status' in lookup) {
+      clearTimeout(timeoutId);
+
+      if (lookup.status === 429) {
+        logger.error({ source: "archive-today", status: 429, lookupUrl }, 'archive.today rate limit exceeded (429)');
+        return {
+          error: createNetworkError(
+            `archive.today rate limit exceeded. Please try again later or use a different source tab.`,
+            lookupUrl,
+            429
+          ),
+        };
+      }
+
+      logger.warn({ source: "archive-today", status: lookup.status, lookupUrl }, 'No archive.today snapshot found');
+      return {
+        error: createNetworkError(
+          lookup.status === 404
+            ? 'No archive.today snapshot found for this page'
+            : `HTTP ${lookup.status} error when looking up archive.today snapshot`,
+          lookupUrl,
+          lookup.status
+        ),
+      };
+    }
+
+    const { snapshotUrl } = lookup;
+    logger.debug({ source: "archive-today", snapshotUrl }, 'Found archive.today snapshot');
+
+    const response = await outboundFetch("archive-today", snapshotUrl, {
+      headers: buildArchiveTodayHeaders(),
+      redirect: "follow",
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      clearTimeout(timeoutId);
+      logger.error({ source: "archive-today", status: response.status, snapshotUrl }, 'archive.today snapshot fetch HTTP error');
+      return {
+        error: createNetworkError(
+          `HTTP ${response.status} error when fetching from archive.today`,
+          snapshotUrl,
+          response.status
+        ),
+      };
+    }
+
+    const body = await readHtmlResponse(response);
+    clearTimeout(timeoutId);
+
+    if ('error' in body) {
+      logger.warn({ source: "archive-today", snapshotUrl, reason: body.error }, 'Snapshot response rejected');
+      return {
+        error: createNetworkError(`${body.error} from archive.today`, snapshotUrl, body.status),
+      };
+    }
+
+    const parsed = parseArchivedPage(body.html, {
+      source: "archive-today",
+      originalUrl,
+      mediaBaseUrl: originalUrl,
+      snapshotUrl,
+      // Drop the archive.today toolbar so Readability doesn't pick it up
+      prepare: (doc) => doc.getElementById('HEADER')?.remove(),
+    });
+
+    if ('error' in parsed) {
+      return parsed;
+    }
+
+    return {
+      article: parsed.article,
+      cacheURL: snapshotUrl,
+    };
+  } catch (error) {
+    clearTimeout(timeoutId);
+
+    if (error instanceof Error && error.name === 'AbortError') {
+      logger.error({ source: "archive-today", lookupUrl, timeoutMs: ARCHIVE_TODAY_TIMEOUT_MS }, 'archive.today fetch timed out');
+      return {
+        error: createNetworkError('Connection timed out when fetching from archive.today', lookupUrl, 408),
+      };
+    }
+    logger.error({ source: "archive-today", error, lookupUrl }, 'archive.today fetch exception');
+    return {
+      error: createNetworkError('Failed to fetch article from archive.today', lookupUrl, undefined, error),
+    };
+  }
+}
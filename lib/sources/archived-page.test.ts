@@ -0,0 +1,55 @@
+import { describe, expect, it } from "bun:test";
+import { parseArchivedPage } from "./archived-page";
+
+const ORIGINAL_URL = "https://news.example.com/2024/story";
+
+const paragraphs = Array.from({ length: 8 }, (_, i) =>
+  `<p>Paragraph ${i + 1} of the archived story, long enough for Readability to treat it as article text rather than boilerplate.</p>`
+).join("");
+
+const ARCHIVED_HTML = `<!doctype html><html lang="en"><head><title>Archived story</title></head><body>
+  <div id="HEADER">archive.today toolbar - saved from news.example.com</div>
+  <article><h1>Archived story</h1>${paragraphs}<img src="/web/20240101000000im_/https://news.example.com/photo.jpg"></article>
+</body></html>`;
+
+describe("parseArchivedPage", () => {
+  it("parses with the original URL as base and the archive as media base", () => {
+    const result = parseArchivedPage(ARCHIVED_HTML, {
+      source: "wayback",
+      originalUrl: ORIGINAL_URL,
+      mediaBaseUrl: `https://web.archive.org/web/20240101000000/${ORIGINAL_URL}`,
+      snapshotUrl: `https://web.archive.org/web/20240101000000/${ORIGINAL_URL}`,
+    });
+
+    if (!("article" in result)) throw new Error("expected an article");
+    expect(result.article.siteName).toBe("news.example.com");
+    expect(result.article.lang).toBe("en");
+    expect(result.article.textContent).toContain("Paragraph 8");
+    expect(result.article.content).toContain("https://web.archive.org/web/20240101000000im_/https://news.example.com/photo.jpg");
+    expect(result.article.htmlContent).toBe(ARCHIVED_HTML);
+  });
+
+  it("runs the archive's prepare step before Readability", () => {
+    const result = parseArchivedPage(ARCHIVED_HTML, {
+      source: "archive-today",
+      originalUrl: ORIGINAL_URL,
+      mediaBaseUrl: ORIGINAL_URL,
+      snapshotUrl: "https://archive.ph/AbCdE",
+      prepare: (doc) => doc.getElementById("HEADER")?.remove(),
+    });
+
+    if (!("article" in result)) throw new Error("expected an article");
+    expect(result.article.textContent).not.toContain("toolbar");
+  });
+
+  it("reports empty pages as parse errors", () => {
+    const result = parseArchivedPage("", {
+      source: "archive-today",
+      originalUrl: ORIGINAL_URL,
+      mediaBaseUrl: ORIGINAL_URL,
+      snapshotUrl: "https://archive.ph/AbCdE",
+    });
+
+    expect("error" in result && result.error.message).toBe("Received empty HTML content from archive.today");
+  });
+});
@@ -0,0 +1,123 @@
+import { AppError, createParseError } from "@/lib/errors";
+import { createLogger } from "@/lib/logger";
+import { extractDateFromDom, extractImageFromDom } from "@/lib/api/diffbot";
+import { Readability } from "@mozilla/readability";
+import { JSDOM } from "jsdom";
+import { fromError } from "zod-validation-error";
+import { getTextDirection } from "@/lib/rtl";
+import { sanitizeHtml, sanitizeText } from "@/lib/sanitize-ads";
+import { detectTruncation } from "@/lib/paywall";
+import { CachedArticle, CachedArticleSchema } from "./shared";
+import { normalizeMedia } from "./media";
+import { normalizeEmbeds } from "./embeds";
+
+const logger = createLogger('lib:sources:archived-page');
+
+/**
+ * Archived page HTML -> CachedArticle, shared by the Wayback and archive.today sources
+ * JSDOM (based at the original URL) -> media/embed normalization -> Readability -> validation
+ */
+
+type ArchiveSource = "wayback" | "archive-today";
+
+// How each archive is named in messages and as the fallback site name
+const ARCHIVES: Record<ArchiveSource, { host: string; label: string; page: string }> = {
+  wayback: { host: "archive.org", label: "Wayback", page: "archived page" },
+  "archive-today": { host: "archive.today", label: "archive.today", page: "archive.today snapshot" },
+};
+
+export interface ArchivedPageOptions {
+  source: ArchiveSource;
+  /** The article URL - the base for parsing and the site name */
+  originalUrl: string;
+  /** Base for resolving media URLs (Wayback rewrites them to /web/<timestamp>/ copies) */
+  mediaBaseUrl: string;
+  /** The snapshot URL, for logs */
+  snapshotUrl: string;
+  /** Remove archive chrome (toolbars) before Readability */
+  prepare?: (doc: Document) => void;
+}
+
+/**
+ * Parse an archived page with Readability into a validated article
+ */
+export function parseArchivedPage(
+  html: string,
+  { source, originalUrl, mediaBaseUrl, snapshotUrl, prepare }: ArchivedPageOptions
+): { article: CachedArticle } | { error: AppError } {
+  const archive = ARCHIVES[source];
+
+  if (!html) {
+    logger.warn({ source, htmlLength: 0 }, `Received empty HTML content from ${archive.host}`);
+    return {
+      error: createParseError(`Received empty HTML content from ${archive.host}`, source),
+    };
+  }
+
+  // Use the original URL as the base for parsing (not the snapshot URL)
+  // This helps Readability correctly resolve relative URLs
+  const dom = new JSDOM(html, { url: originalUrl });
+  const doc = dom.window.document;
+
+  prepare?.(doc);
+  normalizeMedia(doc, mediaBaseUrl);
+  normalizeEmbeds(doc);
+
+  const parsed = new Readability(doc).parse();
+
+  if (!parsed || !parsed.content || !parsed.textContent) {
+    logger.warn({ source, snapshotUrl }, `Readability extraction failed for ${archive.page}`);
+    return {
+      error: createParseError(`Failed to extract article content from ${archive.page} with Readability`, source),
+    };
+  }
+
+  // Extract language from HTML
+  const htmlLang = doc.documentElement.getAttribute('lang') ||
+    doc.documentElement.getAttribute('xml:lang') ||
+    parsed.lang ||
+    null;
+
+  // Detect text direction based on language or content analysis
+  const textDir = getTextDirection(htmlLang, parsed.textContent);
+
+  const articleCandidate: CachedArticle = {
+    title: parsed.title || doc.title || 'Untitled',
+    content: sanitizeHtml(parsed.content),
+    textContent: sanitizeText(parsed.textContent),
+    length: parsed.textContent.length,
+    siteName: (() => {
+      try {
+        return new URL(originalUrl).hostname;
+      } catch {
+        return parsed.siteName || archive.host;
+      }
+    })(),
+    byline: parsed.byline,
+    publishedTime: extractDateFromDom(doc) || null,
+    image: extractImageFromDom(doc) || null,
+    htmlContent: html, // Original archived page HTML
+    lang: htmlLang,
+    dir: textDir,
+    truncated: detectTruncation({ textContent: parsed.textContent, content: parsed.content, htmlContent: html }).truncated,
+  };
+
+  const validationResult = CachedArticleSchema.safeParse(articleCandidate);
+
+  if (!validationResult.success) {
+    const validationError = fromError(validationResult.error);
+    logger.error({ source, validationError: validationError.toString() }, `${archive.label} article validation failed`);
+    return {
+      error: createParseError(
+        `Invalid ${archive.label} article: ${validationError.toString()}`,
+        source,
+        validationError
+      ),
+    };
+  }
+
+  const article = validationResult.data;
+  logger.info({ source, title: article.title, length: article.length }, `${archive.label} article parsed and validated`);
+
+  return { article };
+}
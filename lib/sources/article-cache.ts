@@ -0,0 +1,172 @@
+import { fromError } from "zod-validation-error";
+import { cache } from "@/lib/cache";
+import { compress, decompress } from "@/lib/redis-compression";
+import { createLogger } from "@/lib/logger";
+import { CachedArticle, CachedArticleSchema } from "./shared";
+
+const logger = createLogger('lib:sources:article-cache');
+
+/**
+ * Redis cache for extracted articles (shared by /api/article and /api/article/best)
+ *
+ * Keys come from `buildCacheKey` in the registry. Each article is stored compressed,
+ * with a small uncompressed `meta:<key>` entry for page metadata lookups. Both expire
+ * together, after the source's fresh + stale windows (lib/sources/cache-policy.ts).
+ */
+
+// Cached articles shorter than this (or without HTML) are refetched rather than served
+export const MIN_CACHED_ARTICLE_LENGTH = 900;
+
+export type ArticleMetadata = {
+  title: string;
+  siteName: string;
+  length: number;
+  byline?: string | null;
+  publishedTime?: string | null;
+  image?: string | null;
+  /** Provenance of the cached copy (see CachedArticleSchema) */
+  fetchedAt?: string;
+  source?: string;
+  strategy?: string;
+};
+
+export interface SaveArticleOptions {
+  /**
+   * The reader asked for a fresh copy (`refresh=true`): keep the new article even if it is
+   * shorter - unless it is only a paywall teaser and the cached copy isn't
+   */
+  refresh?: boolean;
+  /** Expiry for the article and its `meta:` key (see cache-policy.ts); none when omitted */
+  ttlSeconds?: number;
+}
+
+/**
+ * Read a cached article that is complete enough to serve
+ * Returns null on a miss, an invalid entry, a short article or missing HTML.
+ */
+export async function readCachedArticle(key: string): Promise<CachedArticle | null> {
+  try {
+    const cachedData = decompress(await cache.get(key));
+    if (!cachedData) return null;
+
+    const validation = CachedArticleSchema.safeParse(cachedData);
+    if (!validation.success) {
+      logger.warn({ key, validationError: fromError(validation.error).toString() }, 'Cache validation failed - will fetch fresh');
+      return null;
+    }
+
+    const article = validation.data;
+    return article.length > MIN_CACHED_ARTICLE_LENGTH && article.htmlContent ? article : null;
+  } catch (error) {
+    logger.warn({ key, error: error instanceof Error ? error.message : String(error) }, 'Cache read error');
+    return null;
+  }
+}
+
+/**
+ * Save or return longer article
+ * With `refresh`, the new copy replaces the cached one (see SaveArticleOptions).
+ */
+export async function saveOrReturnLongerArticle(
+  key: string,
+  newArticle: CachedArticle,
+  options: SaveArticleOptions = {}
+): Promise<CachedArticle> {
+  try {
+    // Validate incoming article first
+    const incomingValidation = CachedArticleSchema.safeParse(newArticle);
+
+    if (!incomingValidation.success) {
+      const validationError = fromError(incomingValidation.error);
+      logger.error({
+        key,
+        validationError: validationError.toString(),
+        articleData: {
+          hasTitle: !!newArticle.title,
+          hasContent: !!newArticle.content,
+          hasTextContent: !!newArticle.textContent,
+          length: newArticle.length,
+        }
+      }, 'Incoming article validation failed');
+      throw new Error(`Invalid article data: ${validationError.toString()}`);
+    }
+
+    const validatedNewArticle = incomingValidation.data;
+
+    // Helper to save both compressed article and metadata
+    const saveToCache = async (article: CachedArticle) => {
+      const metaKey = `meta:${key}`;
+      const metadata: ArticleMetadata = {
+        title: article.title,
+        siteName: article.siteName,
+        length: article.length,
+        byline: article.byline,
+        publishedTime: article.publishedTime,
+        image: article.image,
+        fetchedAt: article.fetchedAt,
+        source: article.source,
+        strategy: article.strategy,
+      };
+
+      const setOptions = options.ttlSeconds ? { ex: options.ttlSeconds } : undefined;
+      await Promise.all([
+        cache.set(key, compress(article), setOptions),
+        cache.set(metaKey, metadata, setOptions)
+      ]);
+    };
+
+    const rawCachedData = await cache.get(key);
+    const cachedData = decompress(rawCachedData);
+
+    if (cachedData) {
+      const existingValidation = CachedArticleSchema.safeParse(cachedData);
+
+      if (!existingValidation.success) {
+        const validationError = fromError(existingValidation.error);
+        logger.warn({
+          key,
+          validationError: validationError.toString()
+        }, 'Existing cache validation failed - replacing with new article');
+
+        // Save new article since existing is invalid
+        await saveToCache(validatedNewArticle);
+        logger.debug({ key, length: validatedNewArticle.length }, 'Cached article (replaced invalid)');
+        return validatedNewArticle;
+      }
+
+      const existingArticle = existingValidation.data;
+
+      // Prioritize HTML content: if existing is missing HTML but new one has it, update cache
+      if (!existingArticle.htmlContent && validatedNewArticle.htmlContent) {
+        await saveToCache(validatedNewArticle);
+        logger.debug({ key, length: validatedNewArticle.length }, 'Cached article (replaced missing HTML)');
+        return validatedNewArticle;
+      }
+
+      if (options.refresh && !(validatedNewArticle.truncated && !existingArticle.truncated)) {
+        await saveToCache(validatedNewArticle);
+        logger.debug({ key, newLength: validatedNewArticle.length, oldLength: existingArticle.length }, 'Cached refreshed article');
+        return validatedNewArticle;
+      }
+
+      if (validatedNewArticle.length > existingArticle.length) {
+        await saveToCache(validatedNewArticle);
+        logger.debug({ key, newLength: validatedNewArticle.length, oldLength: existingArticle.length }, 'Cached longer article');
+        return validatedNewArticle;
+      } else {
+        logger.debug({ key, length: existingArticle.length }, 'Using existing cached article');
+        return existingArticle;
+      }
+    } else {
+      // No existing article, save the new one
+      await saveToCache(validatedNewArticle);
+      logger.debug({ key, length: validatedNewArticle.length }, 'Cached article (new)');
+      return validatedNewArticle;
+    }
+  } catch (error) {
+    const validationError = fromError(error);
+    logger.warn({ error: validationError.toString() }, 'Cache operation error');
+    // Return the new article even if caching fails
+    return newArticle;
+  }
+}
@@ -0,0 +1,238 @@
+import puppeteer, { Browser, BrowserContext, HTTPResponse, Page } from "puppeteer-core";
+import { createNetworkError, createParseError } from "@/lib/errors";
+import { createLogger } from "@/lib/logger";
+import { scrubUrl } from "@/lib/privacy";
+import { assertPublicUrl } from "@/lib/safe-fetch";
+import { getProxyPool, isProxiedSource, ProxyLease } from "./proxy-pool";
+import { BROWSER_USER_AGENTS, SourceFetchResult } from "./shared";
+import { parseHtmlToArticle } from "./fetch-fast";
+import { getSiteConfig } from "./site-config";
+
+const logger = createLogger('lib:sources:browser');
+
+const DEFAULT_BROWSER_TIMEOUT_MS = 30000;
+
+// Rendering doesn't need these - the <img> tags stay in the DOM for Readability
+const BLOCKED_RESOURCE_TYPES = new Set(["image", "media", "font"]);
+
+const UNSAFE_URL_MESSAGE = "Access to private or local networks is restricted.";
+
+interface PageGuard {
+  /** Set when the page's own navigation (or one of its redirects) was blocked */
+  blockedNavigation: string | null;
+}
+
+function getBrowserTimeoutMs(): number {
+  const parsed = parseInt(process.env.BROWSER_TIMEOUT_MS || "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_BROWSER_TIMEOUT_MS;
+}
+
+/**
+ * Connect to the configured Chrome DevTools Protocol endpoint
+ * - ws(s)://... : Browserless or a DevTools browser WebSocket URL
+ * - http(s)://... : Chrome remote debugging address (e.g. http://chromium:9222)
+ */
+async function connectBrowser(endpoint: string): Promise<Browser> {
+  if (/^https?:\/\//i.test(endpoint)) {
+    return puppeteer.connect({ browserURL: endpoint });
+  }
+  return puppeteer.connect({ browserWSEndpoint: endpoint });
+}
+
+/**
+ * Chromium resolves and connects on its own, so safeFetch can't guard it. Instead every request
+ * it makes - the navigation, each redirect hop and every subresource - is checked here and
+ * aborted unless its hostname resolves to public addresses only (unresolvable names included).
+ * Like safeFetch behind a proxy, the address is validated but can't be pinned.
+ */
+async function preparePage(page: Page): Promise<PageGuard> {
+  const userAgent = BROWSER_USER_AGENTS[Math.floor(Math.random() * BROWSER_USER_AGENTS.length)];
+  await page.setUserAgent({ userAgent });
+  await page.setExtraHTTPHeaders({ "Accept-Language": "en-US,en;q=0.9" });
+
+  // WebSockets and WebRTC bypass request interception - articles don't need them
+  await page.evaluateOnNewDocument(() => {
+    const scope = window as unknown as Record<string, unknown>;
+    ["WebSocket", "RTCPeerConnection", "webkitRTCPeerConnection"].forEach((name) => {
+      delete scope[name];
+    });
+  });
+
+  const guard: PageGuard = { blockedNavigation: null };
+  // One lookup per host per page - a rendered page makes many requests to the same few hosts
+  const verdicts = new Map<string, Promise<boolean>>();
+  const isAllowed = (requestUrl: string): Promise<boolean> => {
+    let target: URL;
+    try {
+      target = new URL(requestUrl);
+    } catch {
+      return Promise.resolve(false);
+    }
+    if (target.protocol === "data:" || target.protocol === "blob:") return Promise.resolve(true);
+
+    const key = `${target.protocol}//${target.hostname}`;
+    let verdict = verdicts.get(key);
+    if (!verdict) {
+      verdict = assertPublicUrl(target.toString()).then(() => true, () => false);
+      verdicts.set(key, verdict);
+    }
+    return verdict;
+  };
+
+  await page.setRequestInterception(true);
+  page.on("request", (request) => {
+    if (BLOCKED_RESOURCE_TYPES.has(request.resourceType())) {
+      request.abort().catch(() => { });
+      return;
+    }
+
+    void isAllowed(request.url()).then((allowed) => {
+      if (allowed) {
+        request.continue().catch(() => { });
+        return;
+      }
+
+      const isNavigation = request.isNavigationRequest() && request.frame() === page.mainFrame();
+      if (isNavigation) guard.blockedNavigation = request.url();
+      logger.warn({ source: "browser", url: scrubUrl(request.url()), resourceType: request.resourceType(), isNavigation }, 'Blocked browser request to a non-public address');
+      request.abort("accessdenied").catch(() => { });
+    });
+  });
+
+  return guard;
+}
+
+/**
+ * Open the page in its own browser context routed through the outbound proxy pool
+ * Chrome authenticates HTTP proxies via page.authenticate; it can't send SOCKS credentials.
+ */
+async function openProxiedPage(browser: Browser, lease: ProxyLease): Promise<{ context: BrowserContext; page: Page }> {
+  const proxy = new URL(lease.url);
+  const context = await browser.createBrowserContext({ proxyServer: `${proxy.protocol}//${proxy.host}` });
+  const page = await context.newPage();
+  if (proxy.username) {
+    await page.authenticate({
+      username: decodeURIComponent(proxy.username),
+      password: decodeURIComponent(proxy.password),
+    });
+  }
+  return { context, page };
+}
+
+/**
+ * Render the page in a remote headless Chrome and parse the resulting DOM with Readability
+ * For JS-rendered sites (SPAs) where fetch-fast only sees an empty shell.
+ * Waits for the site config's `waitForSelector`, BROWSER_WAIT_FOR_SELECTOR, or network idle.
+ */
+export async function fetchArticleWithBrowser(url: string): Promise<SourceFetchResult> {
+  const endpoint = process.env.BROWSER_WS_ENDPOINT;
+  const hostname = new URL(url).hostname;
+
+  if (!endpoint) {
+    logger.warn({ source: "browser", hostname }, 'No browser endpoint configured');
+    return {
+      error: createNetworkError('Browser source is not configured (set BROWSER_WS_ENDPOINT)', url, 503),
+    };
+  }
+
+  const timeoutMs = getBrowserTimeoutMs();
+  const waitForSelector = getSiteConfig(url)?.waitForSelector || process.env.BROWSER_WAIT_FOR_SELECTOR;
+  const pool = getProxyPool();
+  const lease = pool.size > 0 && isProxiedSource("browser") ? pool.acquire(hostname) : null;
+  let browser: Browser | null = null;
+  let context: BrowserContext | null = null;
+  let page: Page | null = null;
+  let guard: PageGuard | null = null;
+
+  try {
+    logger.info({ source: "browser", hostname, waitForSelector, timeoutMs, proxy: lease?.id }, 'Rendering page in headless browser');
+
+    browser = await connectBrowser(endpoint);
+    if (lease) {
+      ({ context, page } = await openProxiedPage(browser, lease));
+    } else {
+      page = await browser.newPage();
+    }
+    guard = await preparePage(page);
+
+    let response: HTTPResponse | null = null;
+    try {
+      response = await page.goto(url, {
+        waitUntil: waitForSelector ? "domcontentloaded" : "networkidle2",
+        timeout: timeoutMs,
+      });
+    } catch (error) {
+      if (!guard.blockedNavigation) throw error;
+    }
+
+    if (guard.blockedNavigation) {
+      logger.warn({ source: "browser", hostname, blockedUrl: scrubUrl(guard.blockedNavigation) }, 'Browser navigation blocked - target is not public');
+      return {
+        error: createNetworkError(UNSAFE_URL_MESSAGE, url, 403),
+      };
+    }
+
+    const status = response?.status() ?? 0;
+    if (lease) {
+      if (status === 401 || status === 403) {
+        pool.reportFailure(lease, hostname, "blocked");
+      } else if (status === 429) {
+        pool.reportFailure(lease, hostname, "rate_limited");
+      } else {
+        pool.reportSuccess(lease);
+      }
+    }
+
+    if (status >= 400) {
+      logger.warn({ source: "browser", hostname, status }, 'Browser navigation returned HTTP error');
+      return {
+        error: createNetworkError(`HTTP ${status} error when rendering page in browser`, url, status),
+      };
+    }
+
+    if (waitForSelector) {
+      try {
+        await page.waitForSelector(waitForSelector, { timeout: timeoutMs });
+      } catch {
+        // Selector never showed up - parse whatever has rendered so far
+        logger.warn({ source: "browser", hostname, waitForSelector }, 'Wait selector not found, using current DOM');
+      }
+    }
+
+    const html = await page.content();
+    const article = parseHtmlToArticle(html, url, "browser");
+
+    if (!article) {
+      logger.warn({ source: "browser", hostname, htmlLength: html.length }, 'Readability extraction failed on rendered page');
+      return {
+        error: createParseError('Failed to extract article content from rendered page with Readability', 'browser'),
+      };
+    }
+
+    logger.info({ source: "browser", hostname, title: article.title, length: article.length }, 'Browser article parsed and validated');
+
+    return {
+      article,
+      cacheURL: url,
+    };
+  } catch (error: any) {
+    if (lease && !guard?.blockedNavigation) {
+      pool.reportFailure(lease, hostname, error?.name === 'TimeoutError' ? "timeout" : "error");
+    }
+    if (error?.name === 'TimeoutError') {
+      logger.error({ source: "browser", url: scrubUrl(url), timeoutMs }, 'Browser rendering timed out');
+      return {
+        error: createNetworkError('Timed out while rendering page in browser', url, 408),
+      };
+    }
+    logger.error({ source: "browser", url: scrubUrl(url), error }, 'Browser rendering exception');
+    return {
+      error: createNetworkError('Failed to render page in browser', url, undefined, error),
+    };
+  } finally {
+    // Disconnect rather than close: the browser process belongs to the remote endpoint
+    await page?.close().catch(() => { });
+    await context?.close().catch(() => { });
+    await browser?.disconnect().catch(() => { });
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "bun:test";
+import {
+  cacheControlHeader,
+  cacheExpirySeconds,
+  freshSecondsLeft,
+  getCachePolicy,
+  isStale,
+  parseDuration,
+  parseTtlOverrides,
+} from "./cache-policy";
+
+const DAY = 24 * 60 * 60;
+const now = Date.parse("2025-06-01T12:00:00Z");
+const hoursAgo = (hours: number) => new Date(now - hours * 60 * 60 * 1000).toISOString();
+
+describe("parseDuration", () => {
+  it("accepts unit suffixes and plain seconds", () => {
+    expect(parseDuration("45s")).toBe(45);
+    expect(parseDuration("30m")).toBe(30 * 60);
+    expect(parseDuration("12h")).toBe(12 * 60 * 60);
+    expect(parseDuration("90d")).toBe(90 * DAY);
+    expect(parseDuration("3600")).toBe(3600);
+  });
+
+  it("rejects anything else", () => {
+    expect(parseDuration("")).toBeNull();
+    expect(parseDuration("1w")).toBeNull();
+    expect(parseDuration("-5m")).toBeNull();
+  });
+});
+
+describe("getCachePolicy", () => {
+  it("uses the registry TTL per source with the default stale window", () => {
+    expect(getCachePolicy("fetch-fast", undefined, {})).toEqual({ freshSeconds: DAY, staleSeconds: 7 * DAY });
+    expect(getCachePolicy("wayback", undefined, {}).freshSeconds).toBe(90 * DAY);
+  });
+
+  it("applies ARTICLE_CACHE_TTL and ARTICLE_CACHE_STALE", () => {
+    const env = { ARTICLE_CACHE_TTL: "fetch-fast=6h, wayback=30d, unknown=1d, jina.ai=soon", ARTICLE_CACHE_STALE: "2d" };
+    expect(parseTtlOverrides(env.ARTICLE_CACHE_TTL)).toEqual({ "fetch-fast": 6 * 60 * 60, wayback: 30 * DAY });
+    expect(getCachePolicy("fetch-fast", undefined, env)).toEqual({ freshSeconds: 6 * 60 * 60, staleSeconds: 2 * DAY });
+    expect(getCachePolicy("jina.ai", undefined, env).freshSeconds).toBe(3 * DAY);
+  });
+
+  it("keeps pinned snapshots fresh for a year", () => {
+    const policy = getCachePolicy("wayback", "20240101120000", { ARTICLE_CACHE_TTL: "wayback=1d" });
+    expect(policy).toEqual({ freshSeconds: 365 * DAY, staleSeconds: 0 });
+    // Only sources that support timestamps pin
+    expect(getCachePolicy("fetch-fast", "20240101120000", {}).freshSeconds).toBe(DAY);
+  });
+
+  it("expires keys after the fresh and stale windows", () => {
+    expect(cacheExpirySeconds({ freshSeconds: DAY, staleSeconds: 7 * DAY })).toBe(8 * DAY);
+  });
+});
+
+describe("freshness", () => {
+  const policy = { freshSeconds: DAY, staleSeconds: 7 * DAY };
+
+  it("counts down from fetchedAt", () => {
+    expect(freshSecondsLeft(hoursAgo(6), policy, now)).toBe(18 * 60 * 60);
+    expect(isStale(hoursAgo(6), policy, now)).toBe(false);
+    expect(isStale(hoursAgo(25), policy, now)).toBe(true);
+  });
+
+  it("treats entries without provenance as stale", () => {
+    expect(isStale(undefined, policy, now)).toBe(true);
+    expect(isStale("not a date", policy, now)).toBe(true);
+  });
+
+  it("builds Cache-Control from the time left", () => {
+    expect(cacheControlHeader(hoursAgo(23), policy, now)).toBe(
+      `public, max-age=300, s-maxage=3600, stale-while-revalidate=${7 * DAY}`
+    );
+    expect(cacheControlHeader(hoursAgo(48), policy, now)).toBe(
+      `public, max-age=0, s-maxage=0, stale-while-revalidate=${7 * DAY}`
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import { getSourceDefinition, SOURCES, SourceId } from "./registry";
+
+/**
+ * Article cache TTL policy
+ *
+ * A cached article is fresh for its source's `cacheTtlSeconds` (ARTICLE_CACHE_TTL overrides
+ * them, e.g. "fetch-fast=12h,wayback=30d"). After that it is stale: still served instantly
+ * while a background refresh runs, for ARTICLE_CACHE_STALE more (default 7d). The key
+ * expires at the end of that window, so nothing older is ever served.
+ * A pinned Wayback snapshot never changes - it stays fresh for a year.
+ */
+
+const DAY = 24 * 60 * 60;
+const DEFAULT_STALE_SECONDS = 7 * DAY;
+const PINNED_SNAPSHOT_SECONDS = 365 * DAY;
+// Browsers revalidate sooner than the CDN, so a refresh elsewhere shows up within minutes
+const BROWSER_MAX_AGE_SECONDS = 5 * 60;
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 60 * 60, d: DAY };
+
+export interface CachePolicy {
+  /** How long after fetchedAt the article is served as-is */
+  freshSeconds: number;
+  /** How long after that it is still served while refreshing in the background */
+  staleSeconds: number;
+}
+
+/**
+ * Parse "45s", "30m", "12h", "90d" or plain seconds; null when invalid
+ */
+export function parseDuration(value: string): number | null {
+  const match = /^(\d+)\s*([smhd]?)$/i.exec(value.trim());
+  if (!match) return null;
+  return parseInt(match[1], 10) * DURATION_UNITS[(match[2] || "s").toLowerCase()];
+}
+
+/**
+ * Parse ARTICLE_CACHE_TTL ("fetch-fast=1d,wayback=90d"); unknown sources and bad durations are skipped
+ */
+export function parseTtlOverrides(value: string | undefined): Partial<Record<SourceId, number>> {
+  const overrides: Partial<Record<SourceId, number>> = {};
+  (value || "").split(",").forEach((entry) => {
+    const [source, duration] = entry.split("=").map((part) => part.trim());
+    const seconds = duration ? parseDuration(duration) : null;
+    if (seconds !== null && (SOURCES as readonly string[]).includes(source)) {
+      overrides[source as SourceId] = seconds;
+    }
+  });
+  return overrides;
+}
+
+/**
+ * Fresh and stale windows for a source's cached articles
+ */
+export function getCachePolicy(
+  source: SourceId,
+  timestamp?: string,
+  env: Partial<NodeJS.ProcessEnv> = process.env
+): CachePolicy {
+  if (timestamp && getSourceDefinition(source).supportsTimestamp) {
+    return { freshSeconds: PINNED_SNAPSHOT_SECONDS, staleSeconds: 0 };
+  }
+  const staleSeconds = env.ARTICLE_CACHE_STALE ? parseDuration(env.ARTICLE_CACHE_STALE) : null;
+  return {
+    freshSeconds: parseTtlOverrides(env.ARTICLE_CACHE_TTL)[source] ?? getSourceDefinition(source).cacheTtlSeconds,
+    staleSeconds: staleSeconds ?? DEFAULT_STALE_SECONDS,
+  };
+}
+
+/**
+ * Key expiry for a cached article: the fresh window plus the stale window
+ */
+export function cacheExpirySeconds(policy: CachePolicy): number {
+  return policy.freshSeconds + policy.staleSeconds;
+}
+
+/**
+ * Seconds the article has left to be fresh (0 once stale)
+ * Entries cached before provenance was recorded have no fetchedAt and count as stale.
+ */
+export function freshSecondsLeft(fetchedAt: string | null | undefined, policy: CachePolicy, now = Date.now()): number {
+  const fetchedTime = fetchedAt ? Date.parse(fetchedAt) : NaN;
+  if (Number.isNaN(fetchedTime)) return 0;
+  return Math.max(Math.floor(policy.freshSeconds - (now - fetchedTime) / 1000), 0);
+}
+
+export function isStale(fetchedAt: string | null | undefined, policy: CachePolicy, now = Date.now()): boolean {
+  return freshSecondsLeft(fetchedAt, policy, now) === 0;
+}
+
+/**
+ * Cache-Control for an article response: shared caches keep it until it goes stale and may
+ * serve it stale while revalidating, same as the server cache
+ */
+export function cacheControlHeader(fetchedAt: string | null | undefined, policy: CachePolicy, now = Date.now()): string {
+  const freshFor = freshSecondsLeft(fetchedAt, policy, now);
+  return [
+    "public",
+    `max-age=${Math.min(freshFor, BROWSER_MAX_AGE_SECONDS)}`,
+    `s-maxage=${freshFor}`,
+    `stale-while-revalidate=${policy.staleSeconds}`,
+  ].join(", ");
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "bun:test";
+import { diffArticles, diffParagraphs, diffWords, extractParagraphs, paragraphSimilarity } from "./compare";
+
+describe("extractParagraphs", () => {
+  it("splits on block elements, strips inline tags and decodes entities", () => {
+    const html = '<h2>Ferry &amp; harbour</h2><p>One <b>two</b><br>three</p><p>&nbsp;</p><ul><li>Item&#8217;s</li></ul><script>var x = "<p>no</p>";</script>';
+    expect(extractParagraphs(html)).toEqual(["Ferry & harbour", "One two", "three", "Item’s"]);
+  });
+});
+
+describe("paragraphSimilarity", () => {
+  it("scores shared words from 0 to 1", () => {
+    expect(paragraphSimilarity("The ferry opens in April.", "the ferry opens in april")).toBe(1);
+    expect(paragraphSimilarity("The ferry opens in April", "The ferry opens in May")).toBe(0.8);
+    expect(paragraphSimilarity("Completely different", "Nothing shared here")).toBe(0);
+  });
+});
+
+describe("diffWords", () => {
+  it("marks removed words on the left and added words on the right", () => {
+    const result = diffWords("The ferry opens in April", "The new ferry opens in May");
+    expect(result?.left).toEqual([
+      { text: "The ferry opens in", kind: "same" },
+      { text: "April", kind: "removed" },
+    ]);
+    expect(result?.right).toEqual([
+      { text: "The", kind: "same" },
+      { text: "new", kind: "added" },
+      { text: "ferry opens in", kind: "same" },
+      { text: "May", kind: "added" },
+    ]);
+  });
+});
+
+describe("diffParagraphs", () => {
+  const intro = "The harbour authority confirmed the new ferry route will open in the spring.";
+  const middle = "Tickets go on sale on Monday at the terminal and online.";
+  const paywalled = "Residents had campaigned for the route for more than a decade.";
+  const ending = "The first crossing is scheduled for April 2.";
+
+  it("reports identical articles as all same", () => {
+    const diff = diffParagraphs([intro, middle], [intro, middle]);
+    expect(diff.rows.map((row) => row.kind)).toEqual(["same", "same"]);
+    expect(diff.summary).toMatchObject({ same: 2, changed: 0, added: 0, missing: 0 });
+  });
+
+  it("finds paragraphs missing from a truncated copy", () => {
+    const diff = diffParagraphs([intro, middle, paywalled, ending], [intro, middle]);
+    expect(diff.rows.map((row) => row.kind)).toEqual(["same", "same", "missing", "missing"]);
+    expect(diff.rows[2]).toEqual({ kind: "missing", left: paywalled, right: null });
+    expect(diff.summary.leftWords).toBeGreaterThan(diff.summary.rightWords);
+  });
+
+  it("pairs edited paragraphs as changed and keeps extra ones as added", () => {
+    const edited = "Tickets go on sale on Tuesday at the terminal and online.";
+    const note = "Update: this story has been corrected.";
+    const diff = diffParagraphs([intro, middle, ending], [intro, note, edited, ending]);
+
+    expect(diff.rows.map((row) => row.kind)).toEqual(["same", "added", "changed", "same"]);
+    expect(diff.rows[2].rightSegments).toContainEqual({ text: "Tuesday", kind: "added" });
+    expect(diff.summary).toMatchObject({ same: 2, changed: 1, added: 1, missing: 0 });
+  });
+
+  it("matches paragraphs regardless of case, punctuation and spacing", () => {
+    const diff = diffParagraphs([intro], [`  ${intro.toUpperCase().replace(".", "")} `]);
+    expect(diff.rows.map((row) => row.kind)).toEqual(["same"]);
+  });
+});
+
+describe("diffArticles", () => {
+  it("diffs HTML content", () => {
+    const diff = diffArticles("<p>One</p><p>Two</p>", "<p>One</p>");
+    expect(diff.summary).toMatchObject({ same: 1, missing: 1 });
+  });
+});
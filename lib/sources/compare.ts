@@ -0,0 +1,302 @@
+/**
+ * Paragraph-level diff between two sources' versions of an article
+ *
+ * Backs the compare view on the proxy page: the left side is the open tab, the right side
+ * another source. Paragraphs are matched exactly (ignoring case, punctuation and spacing)
+ * with an LCS; in the gaps between matches, paragraphs with enough words in common are
+ * paired up as "changed" and get a word-level diff. Client-safe - plain strings, no DOM.
+ */
+
+export type ParagraphDiffKind = "same" | "changed" | "added" | "missing";
+
+export interface WordSegment {
+  text: string;
+  kind: "same" | "added" | "removed";
+}
+
+export interface ParagraphDiffRow {
+  /** "missing": only on the left; "added": only on the right */
+  kind: ParagraphDiffKind;
+  left: string | null;
+  right: string | null;
+  /** Word-level diff for "changed" rows (absent when the paragraphs are too long to diff) */
+  leftSegments?: WordSegment[];
+  rightSegments?: WordSegment[];
+}
+
+export interface ArticleDiffSummary {
+  same: number;
+  changed: number;
+  added: number;
+  missing: number;
+  leftWords: number;
+  rightWords: number;
+}
+
+export interface ArticleDiff {
+  rows: ParagraphDiffRow[];
+  summary: ArticleDiffSummary;
+}
+
+// Word overlap (Dice coefficient) at which two unmatched paragraphs count as one edited passage
+const CHANGED_THRESHOLD = 0.5;
+
+// How far ahead to look for an edited counterpart inside a gap
+const PAIRING_WINDOW = 25;
+
+// LCS tables are (n+1)*(m+1) - past this, the middle section is reported as missing/added wholesale
+const MAX_LCS_CELLS = 4_000_000;
+
+const MAX_WORD_DIFF_TOKENS = 600;
+
+// Tags that start or end a paragraph when flattening HTML to text
+const BLOCK_BOUNDARY = /<\/?(p|div|h[1-6]|li|ul|ol|blockquote|pre|figure|figcaption|table|tr|section|article|header|footer|aside|dd|dt)\b[^>]*>|<br\s*\/?>/gi;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  mdash: "—",
+  ndash: "–",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0xffff ? String.fromCharCode(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Split article HTML into paragraph texts (one per block element, whitespace collapsed)
+ *
+ * @example
+ * extractParagraphs('<h2>Title</h2><p>One <b>two</b></p><p>&nbsp;</p>') // ['Title', 'One two']
+ */
+export function extractParagraphs(html: string): string[] {
+  if (!html) return [];
+
+  return decodeEntities(
+    html
+      .replace(/<(script|style|noscript|template)\b[\s\S]*?<\/\1>/gi, "")
+      .replace(BLOCK_BOUNDARY, "\n")
+      .replace(/<[^>]*>/g, "")
+  )
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+}
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[.,;:!?"'“”‘’«»()[\]{}…—–-]+/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+function comparisonKey(text: string): string {
+  return words(text).join(" ");
+}
+
+/**
+ * Word overlap between two paragraphs, 0 (nothing shared) to 1 (same words)
+ */
+export function paragraphSimilarity(a: string, b: string): number {
+  const left = words(a);
+  const right = words(b);
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  left.forEach((word) => counts.set(word, (counts.get(word) ?? 0) + 1));
+
+  let shared = 0;
+  right.forEach((word) => {
+    const count = counts.get(word) ?? 0;
+    if (count > 0) {
+      shared++;
+      counts.set(word, count - 1);
+    }
+  });
+
+  return (2 * shared) / (left.length + right.length);
+}
+
+/**
+ * Longest common subsequence of two key lists, as matched index pairs in order
+ */
+function lcsPairs(left: string[], right: string[]): Array<[number, number]> {
+  const n = left.length;
+  const m = right.length;
+  if (n === 0 || m === 0 || (n + 1) * (m + 1) > MAX_LCS_CELLS) return [];
+
+  // table[i][j] = LCS length of left[i..] and right[j..]
+  const width = m + 1;
+  const table = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * width + j] = left[i] === right[j]
+        ? table[(i + 1) * width + j + 1] + 1
+        : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (left[i] === right[j]) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+function mergeSegments(segments: WordSegment[]): WordSegment[] {
+  return segments.reduce<WordSegment[]>((merged, segment) => {
+    const last = merged[merged.length - 1];
+    if (last && last.kind === segment.kind) {
+      last.text += ` ${segment.text}`;
+    } else {
+      merged.push({ ...segment });
+    }
+    return merged;
+  }, []);
+}
+
+/**
+ * Word-level diff of two edited paragraphs, or null when they are too long to diff
+ *
+ * @example
+ * diffWords('The ferry opens in April', 'The ferry opens in May').right
+ * // [{ text: 'The ferry opens in', kind: 'same' }, { text: 'May', kind: 'added' }]
+ */
+export function diffWords(left: string, right: string): { left: WordSegment[]; right: WordSegment[] } | null {
+  const leftTokens = left.split(/\s+/).filter(Boolean);
+  const rightTokens = right.split(/\s+/).filter(Boolean);
+  if (leftTokens.length > MAX_WORD_DIFF_TOKENS || rightTokens.length > MAX_WORD_DIFF_TOKENS) return null;
+
+  const pairs = lcsPairs(leftTokens.map(comparisonKey), rightTokens.map(comparisonKey));
+  const leftSame = new Set(pairs.map(([i]) => i));
+  const rightSame = new Set(pairs.map(([, j]) => j));
+
+  return {
+    left: mergeSegments(leftTokens.map((text, i) => ({ text, kind: leftSame.has(i) ? "same" : "removed" }))),
+    right: mergeSegments(rightTokens.map((text, j) => ({ text, kind: rightSame.has(j) ? "same" : "added" }))),
+  };
+}
+
+function changedRow(left: string, right: string): ParagraphDiffRow {
+  const segments = diffWords(left, right);
+  return segments
+    ? { kind: "changed", left, right, leftSegments: segments.left, rightSegments: segments.right }
+    : { kind: "changed", left, right };
+}
+
+/**
+ * Rows for a stretch with no exact matches: pair up edited paragraphs in order,
+ * everything else is missing (left only) or added (right only)
+ */
+function alignGap(left: string[], right: string[], rows: ParagraphDiffRow[]): void {
+  let next = 0;
+
+  left.forEach((paragraph) => {
+    let match = -1;
+    for (let k = next; k < right.length && k < next + PAIRING_WINDOW; k++) {
+      if (paragraphSimilarity(paragraph, right[k]) >= CHANGED_THRESHOLD) {
+        match = k;
+        break;
+      }
+    }
+
+    if (match === -1) {
+      rows.push({ kind: "missing", left: paragraph, right: null });
+      return;
+    }
+
+    for (; next < match; next++) rows.push({ kind: "added", left: null, right: right[next] });
+    rows.push(changedRow(paragraph, right[match]));
+    next = match + 1;
+  });
+
+  for (; next < right.length; next++) rows.push({ kind: "added", left: null, right: right[next] });
+}
+
+/**
+ * Diff two paragraph lists into side-by-side rows
+ *
+ * @example
+ * const diff = diffParagraphs(extractParagraphs(live.content), extractParagraphs(archived.content));
+ * diff.summary // { same: 14, changed: 2, added: 0, missing: 6, leftWords: 1840, rightWords: 1210 }
+ */
+export function diffParagraphs(left: string[], right: string[]): ArticleDiff {
+  const leftKeys = left.map(comparisonKey);
+  const rightKeys = right.map(comparisonKey);
+
+  // Common prefix/suffix first - usually most of the article, and it keeps the LCS table small
+  let start = 0;
+  while (start < left.length && start < right.length && leftKeys[start] === rightKeys[start]) start++;
+  let endLeft = left.length;
+  let endRight = right.length;
+  while (endLeft > start && endRight > start && leftKeys[endLeft - 1] === rightKeys[endRight - 1]) {
+    endLeft--;
+    endRight--;
+  }
+
+  const rows: ParagraphDiffRow[] = [];
+  for (let i = 0; i < start; i++) rows.push({ kind: "same", left: left[i], right: right[i] });
+
+  const pairs = lcsPairs(leftKeys.slice(start, endLeft), rightKeys.slice(start, endRight));
+  let i = start;
+  let j = start;
+  pairs.concat([[endLeft - start, endRight - start]]).forEach(([pairLeft, pairRight], index, all) => {
+    alignGap(left.slice(i, start + pairLeft), right.slice(j, start + pairRight), rows);
+    // The last entry is the end sentinel, not a match
+    if (index < all.length - 1) rows.push({ kind: "same", left: left[start + pairLeft], right: right[start + pairRight] });
+    i = start + pairLeft + 1;
+    j = start + pairRight + 1;
+  });
+
+  for (let k = 0; k < left.length - endLeft; k++) {
+    rows.push({ kind: "same", left: left[endLeft + k], right: right[endRight + k] });
+  }
+
+  const count = (kind: ParagraphDiffKind) => rows.filter((row) => row.kind === kind).length;
+  const wordCount = (paragraphs: string[]) => paragraphs.reduce((sum, text) => sum + text.split(/\s+/).length, 0);
+
+  return {
+    rows,
+    summary: {
+      same: count("same"),
+      changed: count("changed"),
+      added: count("added"),
+      missing: count("missing"),
+      leftWords: wordCount(left),
+      rightWords: wordCount(right),
+    },
+  };
+}
+
+/**
+ * Diff two articles' HTML content
+ */
+export function diffArticles(leftHtml: string, rightHtml: string): ArticleDiff {
+  return diffParagraphs(extractParagraphs(leftHtml), extractParagraphs(rightHtml));
+}
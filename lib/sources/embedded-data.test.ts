@@ -0,0 +1,133 @@
+import { describe, expect, it } from "bun:test";
+import { extractEmbeddedArticle, readAssignedJson } from "./embedded-data";
+
+const PAGE_URL = "https://news.example.com/2024/story";
+
+const sentence = "The harbour authority confirmed the new ferry route will open in the spring after years of delays. ";
+const paragraphs = [sentence.repeat(3), sentence.repeat(3), sentence.repeat(3)].map((text) => text.trim());
+
+function page(head: string, body = "<p>Subscribe to continue reading.</p>"): string {
+  return `<!doctype html><html lang="en"><head><title>Page title</title>${head}</head><body>${body}</body></html>`;
+}
+
+function script(content: string, attributes = ""): string {
+  return `<script${attributes}>${content}</script>`;
+}
+
+describe("extractEmbeddedArticle", () => {
+  it("reads articleBody and metadata from JSON-LD", () => {
+    const html = page(script(JSON.stringify({
+      "@context": "https://schema.org",
+      "@graph": [
+        { "@type": "WebPage", name: "Site" },
+        {
+          "@type": "NewsArticle",
+          headline: "Ferry route approved",
+          author: [{ "@type": "Person", name: "Ana Silva" }, { "@type": "Person", name: "Ben Ode" }],
+          datePublished: "2024-03-01T10:00:00Z",
+          image: { "@type": "ImageObject", url: "/images/ferry.jpg" },
+          articleBody: paragraphs.join("\n"),
+        },
+      ],
+    }), ' type="application/ld+json"'));
+
+    const result = extractEmbeddedArticle(html, PAGE_URL);
+    expect(result?.source).toBe("json-ld");
+    expect(result?.article).toMatchObject({
+      title: "Ferry route approved",
+      byline: "Ana Silva, Ben Ode",
+      publishedTime: "2024-03-01T10:00:00Z",
+      image: "https://news.example.com/images/ferry.jpg",
+      lang: "en",
+      truncated: false,
+    });
+    expect(result?.article.content.match(/<p>/g)).toHaveLength(3);
+    expect(result?.article.textContent).toContain(paragraphs[2]);
+  });
+
+  it("finds the longest body in __NEXT_DATA__", () => {
+    const nextData = {
+      props: {
+        pageProps: {
+          nav: { text: "Home" },
+          story: {
+            title: "Ferry route approved",
+            byline: "Ana Silva",
+            publishedAt: "2024-03-01",
+            body: paragraphs.map((text) => ({ type: "paragraph", text })),
+          },
+        },
+      },
+    };
+    const html = page(script(JSON.stringify(nextData), ' id="__NEXT_DATA__" type="application/json"'));
+
+    const result = extractEmbeddedArticle(html, PAGE_URL);
+    expect(result?.source).toBe("next-data");
+    expect(result?.article.title).toBe("Ferry route approved");
+    expect(result?.article.byline).toBe("Ana Silva");
+    expect(result?.article.length).toBeGreaterThan(paragraphs.join("").length);
+  });
+
+  it("resolves Apollo cache references", () => {
+    const state = {
+      "Article:1": { __typename: "Article", headline: "Ferry route approved", authors: [{ __ref: "Person:7" }], body: [{ __ref: "Block:1" }, { __ref: "Block:2" }, { __ref: "Block:3" }] },
+      "Person:7": { __typename: "Person", name: "Ana Silva" },
+      "Block:1": { __typename: "Paragraph", text: paragraphs[0] },
+      "Block:2": { __typename: "Heading", text: "What happens next" },
+      "Block:3": { __typename: "Paragraph", text: `${paragraphs[1]} ${paragraphs[2]}` },
+    };
+    const html = page(script(`window.__APOLLO_STATE__ = ${JSON.stringify(state)};`));
+
+    const result = extractEmbeddedArticle(html, PAGE_URL);
+    expect(result?.source).toBe("apollo");
+    expect(result?.article.byline).toBe("Ana Silva");
+    expect(result?.article.content).toContain("<h2>What happens next</h2>");
+  });
+
+  it("reads Arc Fusion content elements", () => {
+    const globalContent = {
+      headlines: { basic: "Ferry route approved" },
+      credits: { by: [{ name: "Ana Silva" }] },
+      first_publish_date: "2024-03-01T10:00:00Z",
+      promo_items: { basic: { url: "https://cdn.example.com/ferry.jpg" } },
+      content_elements: [
+        { type: "text", content: paragraphs[0] },
+        { type: "header", level: 3, content: "Timeline" },
+        { type: "list", list_type: "unordered", items: [{ content: "Spring: first sailings" }] },
+        { type: "text", content: `${paragraphs[1]} <a href="javascript:alert(1)" onclick="x()">link</a>` },
+        { type: "video", embed: "..." },
+      ],
+    };
+    const html = page(script(`var Fusion=Fusion||{};Fusion.globalContent=${JSON.stringify(globalContent)};Fusion.globalContentConfig={};`));
+
+    const result = extractEmbeddedArticle(html, PAGE_URL);
+    expect(result?.source).toBe("fusion");
+    expect(result?.article).toMatchObject({
+      title: "Ferry route approved",
+      byline: "Ana Silva",
+      image: "https://cdn.example.com/ferry.jpg",
+    });
+    expect(result?.article.content).toContain("<h3>Timeline</h3>");
+    expect(result?.article.content).toContain("<li>Spring: first sailings</li>");
+    expect(result?.article.content).not.toContain("javascript:");
+    expect(result?.article.content).not.toContain("onclick");
+  });
+
+  it("ignores pages without embedded data or with short bodies", () => {
+    expect(extractEmbeddedArticle(page(""), PAGE_URL)).toBeNull();
+    const teaser = page(script(JSON.stringify({ "@type": "Article", articleBody: "Short summary." }), ' type="application/ld+json"'));
+    expect(extractEmbeddedArticle(teaser, PAGE_URL)).toBeNull();
+  });
+});
+
+describe("readAssignedJson", () => {
+  it("parses the object after the marker, ignoring braces in strings", () => {
+    const script = 'window.__STATE__ = {"a":"}{","b":{"c":1}}; window.other = {};';
+    expect(readAssignedJson(script, /__STATE__\s*=/)).toEqual({ a: "}{", b: { c: 1 } });
+  });
+
+  it("returns undefined for missing markers or invalid JSON", () => {
+    expect(readAssignedJson("var x = 1;", /__STATE__\s*=/)).toBeUndefined();
+    expect(readAssignedJson("__STATE__ = {a: 1}", /__STATE__\s*=/)).toBeUndefined();
+  });
+});
@@ -0,0 +1,425 @@
+import { JSDOM } from "jsdom";
+import { getTextDirection } from "@/lib/rtl";
+import { sanitizeHtml, sanitizeText } from "@/lib/sanitize-ads";
+import { detectTruncation } from "@/lib/paywall";
+import { CachedArticle, CachedArticleSchema } from "./shared";
+
+/**
+ * Article text from embedded data payloads
+ *
+ * Paywalled pages often truncate the visible DOM but still ship the full story in
+ * structured data the page's own JavaScript (or search engines) read:
+ * - json-ld: `articleBody` in <script type="application/ld+json">
+ * - next-data: the Next.js `__NEXT_DATA__` props blob
+ * - apollo: `window.__APOLLO_STATE__` (normalized GraphQL cache, refs resolved)
+ * - fusion: Arc Publishing's `Fusion.globalContent` (`content_elements`)
+ *
+ * fetch-fast scores the result against Readability's and keeps the better one.
+ */
+export type EmbeddedDataSource = "json-ld" | "next-data" | "apollo" | "fusion";
+
+interface EmbeddedCandidate {
+  source: EmbeddedDataSource;
+  /** Body as HTML (plain-text bodies are wrapped in <p>) */
+  body: string;
+  title?: string;
+  byline?: string;
+  publishedTime?: string;
+  image?: string;
+}
+
+// Bodies shorter than this (plain text) are summaries or teasers, not the article
+const MIN_BODY_TEXT_LENGTH = 500;
+
+// Bounds for walking arbitrary state blobs
+const MAX_WALK_DEPTH = 14;
+const MAX_WALK_NODES = 50000;
+
+// Cheap check before parsing the page - most pages have none of these
+const EMBEDDED_DATA_HINT = /articleBody|__NEXT_DATA__|__APOLLO_STATE__|Fusion\.globalContent/;
+
+const ARTICLE_TYPE_PATTERN = /Article|BlogPosting|Report|Posting/i;
+
+// Keys that hold the story body in CMS / GraphQL payloads
+const BODY_KEYS = ["articleBody", "body", "bodyHtml", "bodyHTML", "content", "contentHtml", "articleContent", "story", "text", "html"];
+const TITLE_KEYS = ["headline", "title", "name"];
+const BYLINE_KEYS = ["author", "authors", "byline", "creator"];
+const DATE_KEYS = ["datePublished", "publishedAt", "publishDate", "published_at", "firstPublished", "first_publish_date", "display_date", "dateCreated"];
+const IMAGE_KEYS = ["image", "leadImage", "promoImage", "thumbnailUrl", "thumbnail"];
+
+// Block-level tags that mark a body string as HTML rather than plain text
+const HTML_BODY_PATTERN = /<\/?(p|br|div|h[1-6]|ul|ol|li|blockquote|figure)\b/i;
+
+const UNSAFE_ELEMENTS = "script, style, iframe, object, embed, form, input, button, noscript, link, meta";
+
+type JsonRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is JsonRecord {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function firstString(value: unknown): string | undefined {
+  if (typeof value === "string" && value.trim()) return value.trim();
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const found = firstString(item);
+      if (found) return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Author fields come as "Name", { name }, [{ name }, ...] or Arc's { by: [{ name }] }
+ */
+function readByline(value: unknown): string | undefined {
+  const names = (Array.isArray(value) ? value : [value])
+    .map((entry) => (isRecord(entry) ? firstString(entry.name) ?? readByline(entry.by) : firstString(entry)))
+    .filter((name): name is string => !!name);
+  return names.length > 0 ? Array.from(new Set(names)).join(", ") : undefined;
+}
+
+/**
+ * Image fields come as a URL, { url | contentUrl | src }, or an array of either
+ */
+function readImage(value: unknown): string | undefined {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const found = readImage(item);
+      if (found) return found;
+    }
+    return undefined;
+  }
+  if (isRecord(value)) {
+    return firstString(value.url) ?? firstString(value.contentUrl) ?? firstString(value.src) ?? readImage(value.basic);
+  }
+  return firstString(value);
+}
+
+function readKey(record: JsonRecord, keys: string[], read: (value: unknown) => string | undefined): string | undefined {
+  for (const key of keys) {
+    const value = read(record[key]);
+    if (value) return value;
+  }
+  return undefined;
+}
+
+function textToHtml(text: string): string {
+  return text
+    .split(/\n+/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => `<p>${escapeHtml(line)}</p>`)
+    .join("\n");
+}
+
+/**
+ * Body value -> HTML: a string (HTML or plain text) or an array of blocks
+ */
+function bodyToHtml(value: unknown, resolve: (node: unknown) => unknown): string | undefined {
+  if (typeof value === "string") {
+    return HTML_BODY_PATTERN.test(value) ? value : textToHtml(value);
+  }
+  if (!Array.isArray(value)) return undefined;
+
+  const blocks = value.map((item) => {
+    const block = resolve(item);
+    if (typeof block === "string") {
+      return HTML_BODY_PATTERN.test(block) ? block : `<p>${escapeHtml(block)}</p>`;
+    }
+    if (!isRecord(block)) return "";
+
+    const text = firstString(block.html) ?? firstString(block.content) ?? firstString(block.text) ?? firstString(block.value);
+    if (!text) return "";
+    const type = String(block.type ?? block.__typename ?? "").toLowerCase();
+    if (type.includes("head")) {
+      return `<h2>${text}</h2>`;
+    }
+    return HTML_BODY_PATTERN.test(text) ? text : `<p>${text}</p>`;
+  });
+
+  const html = blocks.filter(Boolean).join("\n");
+  return html || undefined;
+}
+
+function htmlTextLength(html: string): number {
+  return html.replace(/<[^>]*>/g, "").replace(/\s+/g, " ").trim().length;
+}
+
+/**
+ * Walk a JSON payload and return the article-like object with the longest body
+ */
+function findBestBody(root: unknown, source: EmbeddedDataSource, resolve: (node: unknown) => unknown = (node) => node): EmbeddedCandidate | null {
+  let best: EmbeddedCandidate | null = null;
+  let bestLength = 0;
+  let visited = 0;
+  const seen = new Set<unknown>();
+
+  const visit = (raw: unknown, depth: number) => {
+    const node = resolve(raw);
+    if (!node || typeof node !== "object" || depth > MAX_WALK_DEPTH || seen.has(node) || ++visited > MAX_WALK_NODES) return;
+    seen.add(node);
+
+    if (Array.isArray(node)) {
+      node.forEach((item) => visit(item, depth + 1));
+      return;
+    }
+
+    const record = node as JsonRecord;
+    // Author/image lists can be arrays of references too
+    const deref = (value: unknown) => (Array.isArray(value) ? value.map(resolve) : resolve(value));
+    for (const key of BODY_KEYS) {
+      const body = bodyToHtml(resolve(record[key]), resolve);
+      const length = body ? htmlTextLength(body) : 0;
+      if (body && length > bestLength) {
+        best = {
+          source,
+          body,
+          title: readKey(record, TITLE_KEYS, firstString),
+          byline: readKey(record, BYLINE_KEYS, (value) => readByline(deref(value))),
+          publishedTime: readKey(record, DATE_KEYS, firstString),
+          image: readKey(record, IMAGE_KEYS, (value) => readImage(deref(value))),
+        };
+        bestLength = length;
+      }
+    }
+
+    Object.values(record).forEach((value) => visit(value, depth + 1));
+  };
+
+  visit(root, 0);
+  return best;
+}
+
+function fromJsonLd(doc: Document): EmbeddedCandidate | null {
+  const items: JsonRecord[] = [];
+  const collect = (value: unknown) => {
+    if (Array.isArray(value)) value.forEach(collect);
+    else if (isRecord(value)) {
+      items.push(value);
+      collect(value["@graph"]);
+    }
+  };
+
+  doc.querySelectorAll('script[type="application/ld+json"]').forEach((script) => {
+    try {
+      collect(JSON.parse(script.textContent || ""));
+    } catch {
+      // Ignore JSON parse errors
+    }
+  });
+
+  const article = items
+    .filter((item) => typeof item.articleBody === "string" && ARTICLE_TYPE_PATTERN.test(String(item["@type"] ?? "")))
+    .sort((a, b) => String(b.articleBody).length - String(a.articleBody).length)[0];
+  if (!article) return null;
+
+  return {
+    source: "json-ld",
+    body: bodyToHtml(article.articleBody, (node) => node)!,
+    title: firstString(article.headline) ?? firstString(article.name),
+    byline: readByline(article.author),
+    publishedTime: firstString(article.datePublished) ?? firstString(article.dateCreated),
+    image: readImage(article.image),
+  };
+}
+
+/**
+ * JSON object assigned in an inline script, e.g. `window.__APOLLO_STATE__ = {...};`
+ * Scans for the matching brace (string-aware) rather than trusting the statement to end the line.
+ */
+export function readAssignedJson(script: string, marker: RegExp): unknown {
+  const match = marker.exec(script);
+  if (!match) return undefined;
+
+  const start = script.indexOf("{", match.index + match[0].length);
+  if (start === -1) return undefined;
+
+  let depth = 0;
+  let inString: string | null = null;
+  for (let i = start; i < script.length; i++) {
+    const char = script[i];
+    if (inString) {
+      if (char === "\\") i++;
+      else if (char === inString) inString = null;
+      continue;
+    }
+    if (char === '"' || char === "'") inString = char;
+    else if (char === "{") depth++;
+    else if (char === "}" && --depth === 0) {
+      try {
+        return JSON.parse(script.slice(start, i + 1));
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+function inlineScripts(doc: Document): string[] {
+  return Array.from(doc.querySelectorAll("script:not([src])")).map((script) => script.textContent || "");
+}
+
+function fromNextData(doc: Document): EmbeddedCandidate | null {
+  const script = doc.querySelector("script#__NEXT_DATA__");
+  if (!script?.textContent) return null;
+  try {
+    return findBestBody(JSON.parse(script.textContent), "next-data");
+  } catch {
+    return null;
+  }
+}
+
+function fromApolloState(doc: Document): EmbeddedCandidate | null {
+  for (const script of inlineScripts(doc)) {
+    const state = readAssignedJson(script, /__APOLLO_STATE__\s*=/);
+    if (!isRecord(state)) continue;
+
+    // Normalized cache: objects point at each other by { __ref } (Apollo 3) or { type: "id", id } (Apollo 2)
+    const resolve = (node: unknown): unknown => {
+      if (!isRecord(node)) return node;
+      const ref = typeof node.__ref === "string" ? node.__ref : node.type === "id" && typeof node.id === "string" ? node.id : null;
+      return ref && ref in state ? state[ref] : node;
+    };
+    return findBestBody(state, "apollo", resolve);
+  }
+  return null;
+}
+
+/**
+ * Arc Publishing: body is `content_elements` (text/header/list blocks), metadata has fixed names
+ */
+function fromFusion(doc: Document): EmbeddedCandidate | null {
+  for (const script of inlineScripts(doc)) {
+    const content = readAssignedJson(script, /Fusion\.globalContent\s*=/);
+    if (!isRecord(content) || !Array.isArray(content.content_elements)) continue;
+
+    const blocks = content.content_elements.filter(isRecord).map((element) => {
+      const text = firstString(element.content);
+      switch (element.type) {
+        case "text":
+          return text ? `<p>${text}</p>` : "";
+        case "header": {
+          const level = Math.min(Math.max(Number(element.level) || 2, 2), 6);
+          return text ? `<h${level}>${text}</h${level}>` : "";
+        }
+        case "list": {
+          const items = Array.isArray(element.items)
+            ? element.items.filter(isRecord).map((item) => `<li>${firstString(item.content) ?? ""}</li>`).join("")
+            : "";
+          const tag = element.list_type === "ordered" ? "ol" : "ul";
+          return items ? `<${tag}>${items}</${tag}>` : "";
+        }
+        case "quote":
+          return text ? `<blockquote>${text}</blockquote>` : "";
+        default:
+          return "";
+      }
+    });
+
+    const headlines = isRecord(content.headlines) ? content.headlines : {};
+    const credits = isRecord(content.credits) ? content.credits : {};
+    return {
+      source: "fusion",
+      body: blocks.filter(Boolean).join("\n"),
+      title: firstString(headlines.basic),
+      byline: readByline(credits.by),
+      publishedTime: firstString(content.first_publish_date) ?? firstString(content.display_date),
+      image: readImage(isRecord(content.promo_items) ? content.promo_items.basic : undefined),
+    };
+  }
+  return null;
+}
+
+/**
+ * Parse body HTML from the payload, drop anything executable, and derive its text
+ */
+function cleanBody(doc: Document, html: string): { content: string; textContent: string } {
+  const container = doc.createElement("div");
+  container.innerHTML = html;
+
+  container.querySelectorAll(UNSAFE_ELEMENTS).forEach((element) => element.remove());
+  container.querySelectorAll("*").forEach((element) => {
+    Array.from(element.attributes).forEach((attribute) => {
+      const isHandler = attribute.name.startsWith("on");
+      const isScriptUrl = /^\s*javascript:/i.test(attribute.value);
+      if (isHandler || isScriptUrl) element.removeAttribute(attribute.name);
+    });
+  });
+
+  const content = container.innerHTML;
+
+  // Separate blocks so paragraphs don't run together in the text
+  container.querySelectorAll("p, h1, h2, h3, h4, h5, h6, li, blockquote, br").forEach((element) => {
+    element.after(doc.createTextNode("\n\n"));
+  });
+  const textContent = (container.textContent || "")
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  return { content, textContent };
+}
+
+function resolveUrl(value: string | undefined, baseUrl: string): string | null {
+  if (!value) return null;
+  try {
+    return new URL(value, baseUrl).toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Best article found in the page's embedded data, or null if there is none worth using
+ */
+export function extractEmbeddedArticle(html: string, url: string): { article: CachedArticle; source: EmbeddedDataSource } | null {
+  if (!html || !EMBEDDED_DATA_HINT.test(html)) return null;
+
+  try {
+    const { document: doc } = new JSDOM(html, { url }).window;
+
+    const candidates = [fromJsonLd(doc), fromNextData(doc), fromApolloState(doc), fromFusion(doc)]
+      .filter((candidate): candidate is EmbeddedCandidate => !!candidate?.body)
+      .map((candidate) => ({ candidate, ...cleanBody(doc, candidate.body) }))
+      .filter(({ textContent }) => textContent.length >= MIN_BODY_TEXT_LENGTH)
+      .sort((a, b) => b.textContent.length - a.textContent.length);
+
+    const best = candidates[0];
+    if (!best) return null;
+
+    const { candidate, content, textContent } = best;
+    const lang = doc.documentElement.getAttribute("lang") || null;
+
+    const articleCandidate: CachedArticle = {
+      title: candidate.title || doc.title || "Untitled",
+      content: sanitizeHtml(content),
+      textContent: sanitizeText(textContent),
+      length: textContent.length,
+      siteName: new URL(url).hostname,
+      byline: candidate.byline ?? null,
+      publishedTime: candidate.publishedTime ?? null,
+      image: resolveUrl(candidate.image, url),
+      htmlContent: html,
+      lang,
+      dir: getTextDirection(lang, textContent),
+      truncated: detectTruncation({ textContent, content, htmlContent: html }).truncated,
+    };
+
+    const validation = CachedArticleSchema.safeParse(articleCandidate);
+    return validation.success ? { article: validation.data, source: candidate.source } : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "bun:test";
+import { JSDOM } from "jsdom";
+import { Readability } from "@mozilla/readability";
+import { normalizeEmbeds } from "./embeds";
+
+const PAGE_URL = "https://news.example.com/2024/03/story";
+
+const paragraph = "<p>The harbour authority confirmed the new ferry route will open in the spring after years of delays and several rounds of public consultation.</p>";
+
+const TWEET = '<blockquote class="twitter-tweet"><p lang="en" dir="ltr">The new ferry route opens in April. Tickets go on sale Monday. <a href="https://t.co/abc">pic.twitter.com/abc</a></p>'
+  + '&mdash; Harbour Authority (@harbour) <a href="https://twitter.com/harbour/status/1234567890?ref_src=twsrc%5Etfw">March 1, 2024</a></blockquote>'
+  + '<script async src="https://platform.twitter.com/widgets.js"></script>';
+
+function normalize(body: string) {
+  const dom = new JSDOM(`<!doctype html><html><head><title>Story</title></head><body>${body}</body></html>`, { url: PAGE_URL });
+  const stats = normalizeEmbeds(dom.window.document);
+  return { document: dom.window.document, stats };
+}
+
+describe("normalizeEmbeds", () => {
+  it("turns tweet blockquotes into cards with author, text and a clean link", () => {
+    const { document, stats } = normalize(TWEET);
+    const card = document.querySelector('figure[data-embed="twitter"]')!;
+
+    expect(stats.twitter).toBe(1);
+    expect(card.querySelector("blockquote")!.textContent).toBe("The new ferry route opens in April. Tickets go on sale Monday. pic.twitter.com/abc");
+    expect(card.querySelector("figcaption strong")!.textContent).toBe("Harbour Authority");
+    expect(card.querySelector("figcaption")!.textContent).toContain("@harbour");
+    expect(card.querySelector("a[data-embed-link]")!.getAttribute("href")).toBe("https://twitter.com/harbour/status/1234567890");
+    expect(document.querySelector("blockquote.twitter-tweet")).toBeNull();
+  });
+
+  it("turns YouTube iframes and facades into thumbnail cards", () => {
+    const { document, stats } = normalize(
+      '<iframe src="https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ?rel=0" title="Ferry trial run"></iframe>'
+      + '<lite-youtube videoid="aBcDeFgHiJk"></lite-youtube>'
+      + '<iframe src="https://www.youtube.com/embed/zYxWvUtSrQp" title="YouTube video player"></iframe>'
+    );
+    const cards = Array.from(document.querySelectorAll('figure[data-embed="youtube"]'));
+
+    expect(stats.youtube).toBe(3);
+    expect(cards[0].querySelector("img")!.getAttribute("src")).toBe("https://i.ytimg.com/vi/dQw4w9WgXcQ/hqdefault.jpg");
+    expect(cards[0].querySelector("blockquote")!.textContent).toBe("Ferry trial run");
+    expect(cards[0].querySelector("a")!.getAttribute("href")).toBe("https://www.youtube.com/watch?v=dQw4w9WgXcQ");
+    expect(cards[1].querySelector("a")!.getAttribute("href")).toBe("https://www.youtube.com/watch?v=aBcDeFgHiJk");
+    // Generic player titles aren't worth quoting
+    expect(cards[2].querySelector("blockquote")).toBeNull();
+    expect(document.querySelector("iframe")).toBeNull();
+  });
+
+  it("handles Instagram and TikTok blockquotes", () => {
+    const { document, stats } = normalize(
+      '<blockquote class="instagram-media" data-instgrm-permalink="https://www.instagram.com/p/C4xyz/?utm_source=ig_embed&amp;igsh=abc">'
+      + '<div><a href="https://www.instagram.com/p/C4xyz/?utm_source=ig_embed">View this post on Instagram</a>'
+      + '<p>First crossing at dawn</p>'
+      + '<p><a href="https://www.instagram.com/p/C4xyz/">A post shared by Harbour Authority (@harbour.authority)</a></p></div></blockquote>'
+      + '<blockquote class="tiktok-embed" cite="https://www.tiktok.com/@ferryfan/video/7300000000000000000" data-video-id="7300000000000000000">'
+      + '<section><a title="@ferryfan" href="https://www.tiktok.com/@ferryfan?refer=embed">@ferryfan</a> Riding the new ferry #harbour '
+      + '<a title="♬ original sound" href="https://www.tiktok.com/music/x">♬ original sound - ferryfan</a></section></blockquote>'
+    );
+
+    expect(stats).toEqual({ twitter: 0, instagram: 1, youtube: 0, tiktok: 1 });
+
+    const instagram = document.querySelector('figure[data-embed="instagram"]')!;
+    expect(instagram.querySelector("a")!.getAttribute("href")).toBe("https://www.instagram.com/p/C4xyz/");
+    expect(instagram.querySelector("blockquote")!.textContent).toBe("First crossing at dawn");
+    expect(instagram.querySelector("figcaption")!.textContent).toBe("Harbour Authority @harbour.authority · View on Instagram");
+
+    const tiktok = document.querySelector('figure[data-embed="tiktok"]')!;
+    expect(tiktok.querySelector("blockquote")!.textContent).toBe("Riding the new ferry #harbour");
+    expect(tiktok.querySelector("figcaption")!.textContent).toBe("@ferryfan · View on TikTok");
+  });
+
+  it("leaves unrelated blockquotes and iframes alone", () => {
+    const { document, stats } = normalize('<blockquote><p>A quote</p></blockquote><iframe src="https://maps.example.com/embed"></iframe>');
+    expect(Object.values(stats).every((count) => count === 0)).toBe(true);
+    expect(document.querySelector("blockquote")!.textContent).toBe("A quote");
+    expect(document.querySelector("iframe")).not.toBeNull();
+  });
+
+  it("keeps the cards through Readability", () => {
+    const dom = new JSDOM(
+      `<!doctype html><html><head><title>Story</title></head><body><article><h1>Ferry</h1>${paragraph}${TWEET}${paragraph}</article></body></html>`,
+      { url: PAGE_URL }
+    );
+    normalizeEmbeds(dom.window.document);
+    const article = new Readability(dom.window.document).parse();
+
+    expect(article?.content).toContain('data-embed="twitter"');
+    expect(article?.content).toContain("Tickets go on sale Monday.");
+    expect(article?.content).toContain('href="https://twitter.com/harbour/status/1234567890" data-embed-link=""');
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Social and video embed normalization before Readability
+ *
+ * Publishers embed tweets, Instagram posts and TikToks as blockquotes that only turn into
+ * posts once the platform's script runs, and YouTube as iframes. Readability either drops
+ * them or keeps the blockquote as bare text. This pass replaces each embed with a static card
+ * that needs no third-party script:
+ *
+ *   <figure data-embed="twitter">
+ *     <img src="thumbnail">               (when the platform has one we can derive, e.g. YouTube)
+ *     <blockquote><p>snippet</p></blockquote>
+ *     <figcaption><strong>Author</strong> @handle · <a href="post" data-embed-link>View on X</a></figcaption>
+ *   </figure>
+ *
+ * Cards use data attributes rather than classes (Readability strips classes). Post links have
+ * their tracking parameters removed, and thumbnails go through the image proxy at render time.
+ */
+
+export type EmbedPlatform = "twitter" | "instagram" | "youtube" | "tiktok";
+
+export type EmbedNormalizationStats = Record<EmbedPlatform, number>;
+
+interface EmbedCard {
+  platform: EmbedPlatform;
+  url: string;
+  author?: string;
+  handle?: string;
+  text?: string;
+  thumbnail?: string;
+}
+
+const LINK_LABELS: Record<EmbedPlatform, string> = {
+  twitter: "View on X",
+  instagram: "View on Instagram",
+  youtube: "Watch on YouTube",
+  tiktok: "View on TikTok",
+};
+
+const MAX_SNIPPET_LENGTH = 400;
+
+const YOUTUBE_EMBED = /(?:youtube\.com|youtube-nocookie\.com)\/embed\/([\w-]{11})/i;
+
+const TWITTER_EMBED = /platform\.twitter\.com\/embed\//i;
+
+const INSTAGRAM_EMBED = /instagram\.com\/(p|reel|tv)\/([\w-]+)/i;
+
+const TIKTOK_EMBED = /tiktok\.com\/(?:embed(?:\/v2)?|player\/v1)\/(\d+)/i;
+
+// Generic iframe titles that say nothing about the video
+const GENERIC_VIDEO_TITLE = /^(youtube( video)?( player)?|video|embedded content)$/i;
+
+function collapseWhitespace(value: string | null | undefined): string {
+  return (value ?? "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Shorten to a word boundary with an ellipsis
+ */
+function snippet(value: string | null | undefined): string | undefined {
+  const text = collapseWhitespace(value);
+  if (!text) return undefined;
+  if (text.length <= MAX_SNIPPET_LENGTH) return text;
+  const cut = text.slice(0, MAX_SNIPPET_LENGTH);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > MAX_SNIPPET_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s.,;:]+$/, "")}…`;
+}
+
+/**
+ * Absolute http(s) URL without query string and fragment (ref_src, utm_*, igsh...)
+ */
+function cleanPostUrl(value: string | null | undefined, baseUrl?: string): string | null {
+  if (!value) return null;
+  try {
+    const url = new URL(value.trim(), baseUrl);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    url.search = "";
+    url.hash = "";
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+function twitterCard(blockquote: Element): EmbedCard | null {
+  const statusLink = Array.from(blockquote.querySelectorAll("a[href]"))
+    .reverse()
+    .find((a) => /\/status(es)?\/\d+/.test(a.getAttribute("href") ?? ""));
+  const url = cleanPostUrl(statusLink?.getAttribute("href"), blockquote.ownerDocument.URL);
+  if (!url) return null;
+
+  const text = blockquote.querySelector("p")?.textContent;
+
+  // "— Jane Doe (@jane) March 1, 2024" follows the tweet text
+  const byline = collapseWhitespace(blockquote.textContent).match(/[—–-]\s*([^()]+?)\s*\((@\w+)\)/);
+  const handleFromUrl = url.match(/(?:twitter|x)\.com\/(\w+)\/status/i)?.[1];
+  const handle = byline?.[2] ?? (handleFromUrl && handleFromUrl !== "i" ? `@${handleFromUrl}` : undefined);
+
+  return { platform: "twitter", url, author: byline?.[1], handle, text: snippet(text) };
+}
+
+function instagramCard(blockquote: Element): EmbedCard | null {
+  const permalink = blockquote.getAttribute("data-instgrm-permalink")
+    ?? blockquote.querySelector('a[href*="instagram.com/"]')?.getAttribute("href");
+  const url = cleanPostUrl(permalink, blockquote.ownerDocument.URL);
+  if (!url) return null;
+
+  // "A post shared by Jane Doe (@jane)" - the rest of the paragraphs are the caption, if captioned
+  const paragraphs = Array.from(blockquote.querySelectorAll("p")).map((p) => collapseWhitespace(p.textContent));
+  const sharedBy = paragraphs.join(" ").match(/shared by\s+(?:([^()@]+?)\s*)?\(?(@[\w.]+)\)?/i);
+  const caption = paragraphs
+    .filter((text) => text && !/shared by|view this post on instagram/i.test(text))
+    .join(" ");
+
+  return { platform: "instagram", url, author: sharedBy?.[1], handle: sharedBy?.[2], text: snippet(caption) };
+}
+
+function tiktokCard(blockquote: Element): EmbedCard | null {
+  const url = cleanPostUrl(blockquote.getAttribute("cite"), blockquote.ownerDocument.URL);
+  if (!url) return null;
+
+  const handle = url.match(/tiktok\.com\/(@[\w.]+)/i)?.[1];
+
+  // The caption is the section text minus the author and "♬ original sound" links
+  const section = (blockquote.querySelector("section") ?? blockquote).cloneNode(true) as Element;
+  Array.from(section.querySelectorAll("a")).forEach((a) => {
+    const text = collapseWhitespace(a.textContent);
+    if (text.startsWith("@") || text.startsWith("♬")) a.remove();
+  });
+
+  return { platform: "tiktok", url, handle, text: snippet(section.textContent) };
+}
+
+function youtubeCard(videoId: string, title: string | null | undefined): EmbedCard {
+  const cleanTitle = collapseWhitespace(title);
+  return {
+    platform: "youtube",
+    url: `https://www.youtube.com/watch?v=${videoId}`,
+    text: cleanTitle && !GENERIC_VIDEO_TITLE.test(cleanTitle) ? snippet(cleanTitle) : undefined,
+    thumbnail: `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
+  };
+}
+
+/**
+ * Card for an embed iframe, or null when it isn't one we recognize
+ */
+function iframeCard(iframe: Element): EmbedCard | null {
+  const src = iframe.getAttribute("src") ?? "";
+
+  const youtube = src.match(YOUTUBE_EMBED);
+  if (youtube) return youtubeCard(youtube[1], iframe.getAttribute("title"));
+
+  if (TWITTER_EMBED.test(src)) {
+    try {
+      const id = new URL(src, iframe.ownerDocument.URL).searchParams.get("id");
+      if (id && /^\d+$/.test(id)) return { platform: "twitter", url: `https://x.com/i/status/${id}` };
+    } catch {
+      return null;
+    }
+    return null;
+  }
+
+  const instagram = src.match(INSTAGRAM_EMBED);
+  if (instagram) return { platform: "instagram", url: `https://www.instagram.com/${instagram[1]}/${instagram[2]}/` };
+
+  const tiktok = src.match(TIKTOK_EMBED);
+  if (tiktok) return { platform: "tiktok", url: `https://www.tiktok.com/embed/v2/${tiktok[1]}` };
+
+  return null;
+}
+
+/**
+ * Build the static card element for an embed
+ */
+function createEmbedCard(document: Document, card: EmbedCard): Element {
+  const figure = document.createElement("figure");
+  figure.setAttribute("data-embed", card.platform);
+
+  if (card.thumbnail) {
+    const img = document.createElement("img");
+    img.setAttribute("src", card.thumbnail);
+    img.setAttribute("alt", card.text ?? "");
+    img.setAttribute("loading", "lazy");
+    figure.appendChild(img);
+  }
+
+  if (card.text) {
+    const blockquote = document.createElement("blockquote");
+    const p = document.createElement("p");
+    p.textContent = card.text;
+    blockquote.appendChild(p);
+    figure.appendChild(blockquote);
+  }
+
+  const caption = document.createElement("figcaption");
+  if (card.author) {
+    const strong = document.createElement("strong");
+    strong.textContent = card.author;
+    caption.appendChild(strong);
+    caption.appendChild(document.createTextNode(" "));
+  }
+  if (card.handle) {
+    caption.appendChild(document.createTextNode(`${card.handle} `));
+  }
+  if (card.author || card.handle) {
+    caption.appendChild(document.createTextNode("· "));
+  }
+  const link = document.createElement("a");
+  link.setAttribute("href", card.url);
+  link.setAttribute("data-embed-link", "");
+  link.setAttribute("rel", "noopener noreferrer nofollow");
+  link.textContent = LINK_LABELS[card.platform];
+  caption.appendChild(link);
+  figure.appendChild(caption);
+
+  return figure;
+}
+
+/**
+ * Replace embeds with static cards in place. Run after `normalizeMedia` (so lazy iframe
+ * `src`s are promoted and resolved) and before `new Readability(...)`.
+ *
+ * @param document - The page document (modified in place)
+ * @returns How many embeds of each platform were replaced
+ *
+ * @example
+ * normalizeMedia(dom.window.document, url);
+ * normalizeEmbeds(dom.window.document);
+ * const article = new Readability(dom.window.document).parse();
+ */
+export function normalizeEmbeds(document: Document): EmbedNormalizationStats {
+  const stats: EmbedNormalizationStats = { twitter: 0, instagram: 0, youtube: 0, tiktok: 0 };
+
+  const replace = (element: Element, card: EmbedCard | null) => {
+    if (!card || !element.parentNode) return;
+    element.parentNode.replaceChild(createEmbedCard(document, card), element);
+    stats[card.platform]++;
+  };
+
+  Array.from(document.querySelectorAll("blockquote.twitter-tweet, blockquote.twitter-video")).forEach((el) => replace(el, twitterCard(el)));
+  Array.from(document.querySelectorAll("blockquote.instagram-media")).forEach((el) => replace(el, instagramCard(el)));
+  Array.from(document.querySelectorAll("blockquote.tiktok-embed")).forEach((el) => replace(el, tiktokCard(el)));
+
+  // <lite-youtube videoid="..."> and similar click-to-load facades
+  Array.from(document.querySelectorAll("lite-youtube[videoid], [data-youtube-id]")).forEach((el) => {
+    const videoId = el.getAttribute("videoid") ?? el.getAttribute("data-youtube-id") ?? "";
+    if (/^[\w-]{11}$/.test(videoId)) replace(el, youtubeCard(videoId, el.getAttribute("title") ?? el.getAttribute("playlabel")));
+  });
+
+  Array.from(document.querySelectorAll("iframe[src]")).forEach((el) => replace(el, iframeCard(el)));
+
+  return stats;
+}
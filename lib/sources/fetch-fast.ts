@@ -0,0 +1,844 @@
+import { addDebugStep, createDebugContext, createNetworkError, DebugContext } from "@/lib/errors";
+import { createLogger } from "@/lib/logger";
+import { extractDateFromDom, extractImageFromDom } from "@/lib/api/diffbot";
+import { Readability } from "@mozilla/readability";
+import { JSDOM } from "jsdom";
+import { getTextDirection } from "@/lib/rtl";
+import { sanitizeHtml, sanitizeText } from "@/lib/sanitize-ads";
+import { detectTruncation } from "@/lib/paywall";
+import { scrubUrl } from "@/lib/privacy";
+import { BROWSER_USER_AGENTS, CachedArticle, CachedArticleSchema, SourceFetchResult } from "./shared";
+import { AlternateVariant, findAlternateVersions } from "./alternates";
+import { findNextPageUrl, getMaxArticlePages, mergeArticlePages } from "./pagination";
+import { applySiteConfigRules, extractSiteConfigFields, getSiteConfig, mergeSiteConfigFields } from "./site-config";
+import { outboundFetch } from "./outbound-fetch";
+import { readDocumentResponse } from "./response-body";
+import { parsePdfToArticle } from "./pdf";
+import { calculateQuality, fillMissingFields } from "./quality";
+import { extractEmbeddedArticle } from "./embedded-data";
+import { normalizeMedia } from "./media";
+import { normalizeEmbeds } from "./embeds";
+import { getDomainStats, planAttempts, recordOutcome } from "./strategy-memory";
+
+const logger = createLogger('lib:sources:fetch-fast');
+
+// Googlebot User-Agents (many sites whitelist these for SEO indexing)
+const GOOGLEBOT_USER_AGENTS = [
+  // Googlebot Desktop
+  "Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)",
+  // Googlebot Smartphone
+  "Mozilla/5.0 (Linux; Android 6.0.1; Nexus 5X Build/MMB29P) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Mobile Safari/537.36 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)",
+];
+
+type FetchStrategy = "browser" | "googlebot";
+
+// Default try order - reordered per domain by strategy-memory.ts
+const FETCH_STRATEGIES: readonly FetchStrategy[] = ["browser", "googlebot"];
+
+// Quality above which a result is good enough to stop trying other strategies/variants
+const GOOD_QUALITY_THRESHOLD = 3000;
+
+/**
+ * Result from a fetch attempt with parsed article for quality comparison
+ */
+interface FetchResult {
+  success: boolean;
+  /** URL that was fetched (the article URL or an alternate version) */
+  url: string;
+  strategy: FetchStrategy;
+  /** Alternate version this result came from (undefined = the article URL itself) */
+  variant?: AlternateVariant;
+  html?: string;
+  /** Came from a PDF - other strategies would fetch the same document */
+  pdf?: boolean;
+  article?: CachedArticle;
+  quality: number;  // Higher = better quality content
+  error?: string;
+}
+
+/**
+ * Good enough to stop trying other strategies/variants
+ * A paywall teaser never is, however long - another strategy may get the full text
+ */
+function isGoodResult(result: FetchResult): boolean {
+  return result.success && !result.article?.truncated && result.quality > GOOD_QUALITY_THRESHOLD;
+}
+
+/**
+ * Cookie jar for persisting cookies (especially DataDome) across retry attempts
+ */
+interface CookieJar {
+  cookies: Map<string, string>;
+}
+
+/**
+ * Extract cookies from Set-Cookie response header
+ */
+function extractSetCookies(headers: Record<string, string>): Map<string, string> {
+  const cookies = new Map<string, string>();
+  const setCookie = headers['set-cookie'];
+  if (setCookie) {
+    // Parse set-cookie header - handle comma-separated cookies carefully
+    // Cookie values can contain commas, so we split on comma followed by a cookie name pattern
+    const cookieStrings = setCookie.split(/,(?=\s*[a-zA-Z_][a-zA-Z0-9_-]*=)/);
+    for (const cookie of cookieStrings) {
+      // Extract just the name=value part (before any attributes like ; Path=/)
+      const match = cookie.match(/^\s*([^=]+)=([^;]*)/);
+      if (match) {
+        const name = match[1].trim();
+        const value = match[2].trim();
+        // Only store cookies we care about (datadome, cf_clearance, etc.)
+        if (name === 'datadome' || name === 'cf_clearance' || name === '__cf_bm') {
+          cookies.set(name, value);
+        }
+      }
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Build Cookie header string from jar
+ */
+function buildCookieHeader(jar: CookieJar): string | undefined {
+  if (jar.cookies.size === 0) return undefined;
+  return Array.from(jar.cookies.entries())
+    .map(([name, value]) => `${name}=${value}`)
+    .join('; ');
+}
+
+/**
+ * Build headers for a specific fetch strategy
+ */
+function buildFetchHeaders(url: string, strategy: FetchStrategy, cookieJar?: CookieJar): HeadersInit {
+  const cookieHeader = cookieJar ? buildCookieHeader(cookieJar) : undefined;
+
+  if (strategy === "googlebot") {
+    // Googlebot headers - simpler, but whitelisted by many sites
+    const userAgent = GOOGLEBOT_USER_AGENTS[Math.floor(Math.random() * GOOGLEBOT_USER_AGENTS.length)];
+    const headers: Record<string, string> = {
+      "User-Agent": userAgent,
+      "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+      "Accept-Language": "en-US,en;q=0.5",
+      "Accept-Encoding": "gzip, deflate",
+      "Connection": "keep-alive",
+    };
+    if (cookieHeader) headers["Cookie"] = cookieHeader;
+    return headers;
+  }
+
+  // Browser strategy - full Chrome emulation
+  const userAgent = BROWSER_USER_AGENTS[Math.floor(Math.random() * BROWSER_USER_AGENTS.length)];
+  const headers: Record<string, string> = {
+    "User-Agent": userAgent,
+    "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.7",
+    "Accept-Language": "en-US,en;q=0.9",
+    "Accept-Encoding": "gzip, deflate",
+    "Connection": "keep-alive",
+    "DNT": "1",
+    "Sec-Fetch-Dest": "document",
+    "Sec-Fetch-Mode": "navigate",
+    "Sec-Fetch-Site": "none",
+    "Sec-Fetch-User": "?1",
+    "Upgrade-Insecure-Requests": "1",
+    "Cache-Control": "max-age=0",
+  };
+  // Include accumulated cookies (critical for DataDome bypass on retries)
+  if (cookieHeader) headers["Cookie"] = cookieHeader;
+  return headers;
+}
+
+
+
+
+/**
+ * Attempt to fetch with a specific strategy
+ * Includes tarpit detection: if body read takes too long, abort early
+ */
+async function tryFetchWithStrategy(
+  url: string,
+  strategy: FetchStrategy,
+  cookieJar?: CookieJar,
+  debugContext?: DebugContext
+): Promise<{ html: string; strategy: FetchStrategy } | { pdf: Uint8Array; strategy: FetchStrategy } | { status: number; blocked: boolean; headers?: Record<string, string>; reason?: string }> {
+  const headers = buildFetchHeaders(url, strategy, cookieJar);
+  const controller = new AbortController();
+  // Reduced from 35s to 15s - sites that tarpit from the start should fail faster
+  // so we can try other strategies sooner
+  const timeoutMs = 15000; // Overall request timeout (headers + body)
+  const bodyTimeoutMs = 10000; // Tarpit detection: abort if body doesn't arrive within 10s of headers
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  const startTime = Date.now();
+
+  try {
+    // Goes through the outbound proxy pool when one is configured
+    const response = await outboundFetch("fetch-fast", url, {
+      headers,
+      redirect: "follow",
+      signal: controller.signal,
+      debugContext,
+    });
+
+    clearTimeout(timeoutId);
+    const headersReceivedTime = Date.now();
+    const headersLatency = headersReceivedTime - startTime;
+
+    // Collect headers for debugging
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((val, key) => {
+      responseHeaders[key] = val;
+    });
+
+    // Check if blocked (401 Unauthorized, 403 Forbidden, 429 Rate Limited)
+    if (response.status === 401 || response.status === 403 || response.status === 429) {
+      logger.warn({
+        source: "fetch-fast",
+        strategy,
+        status: response.status,
+        headers: responseHeaders,
+        url: scrubUrl(url)
+      }, 'Request blocked by target site');
+
+      return { status: response.status, blocked: true, headers: responseHeaders };
+    }
+
+    if (!response.ok) {
+      logger.warn({
+        source: "fetch-fast",
+        strategy,
+        status: response.status,
+        headers: responseHeaders,
+        url: scrubUrl(url)
+      }, 'Request failed (non-blocked)');
+      return { status: response.status, blocked: false, headers: responseHeaders };
+    }
+
+    // Tarpit detection: set a timeout for reading the body
+    // Some sites (like WaPo) send headers quickly but slow-drip the body
+    const bodyController = new AbortController();
+    const bodyTimeoutId = setTimeout(() => bodyController.abort(), bodyTimeoutMs);
+
+    try {
+      // Race between body read and timeout
+      // Streams with a byte cap and decodes with the page's charset (see response-body.ts)
+      const body = await Promise.race([
+        readDocumentResponse(response),
+        new Promise<never>((_, reject) => {
+          bodyController.signal.addEventListener('abort', () => {
+            const bodyDuration = Date.now() - headersReceivedTime;
+            reject(new Error(`TARPIT_DETECTED: Body read timed out after ${bodyDuration}ms`));
+          });
+        })
+      ]);
+
+      clearTimeout(bodyTimeoutId);
+
+      if ('error' in body) {
+        logger.warn({
+          source: "fetch-fast",
+          strategy,
+          url: scrubUrl(url),
+          contentType: responseHeaders["content-type"],
+          reason: body.error,
+        }, 'Response rejected');
+        return { status: body.status, blocked: false, headers: responseHeaders, reason: body.error };
+      }
+
+      if ('pdf' in body) {
+        logger.debug({ source: "fetch-fast", strategy, bytes: body.bytes }, 'Fetched PDF document');
+        return { pdf: body.pdf, strategy };
+      }
+
+      const { html, charset } = body;
+
+      logger.debug({
+        source: "fetch-fast",
+        strategy,
+        headersLatency,
+        totalDuration: Date.now() - startTime,
+        htmlLength: html.length,
+        bytes: body.bytes,
+        charset,
+      }, 'Fetch completed successfully');
+
+      return { html, strategy };
+    } catch (bodyError: any) {
+      clearTimeout(bodyTimeoutId);
+
+      if (bodyError.message?.startsWith('TARPIT_DETECTED')) {
+        logger.warn({
+          source: "fetch-fast",
+          strategy,
+          url: scrubUrl(url),
+          headersLatency,
+          bodyTimeout: bodyTimeoutMs,
+        }, 'Tarpit detected: body read timed out, aborting early');
+
+        return { status: 408, blocked: true, headers: responseHeaders };
+      }
+      throw bodyError;
+    }
+  } catch (error: any) {
+    clearTimeout(timeoutId);
+
+    if (error.name === 'AbortError') {
+      const duration = Date.now() - startTime;
+      logger.error({ source: "fetch-fast", strategy, url: scrubUrl(url), duration }, 'Fetch request timed out');
+      return { status: 408, blocked: false };
+    }
+
+    throw error;
+  }
+}
+
+
+
+/**
+ * Parse HTML into a validated CachedArticle
+ * Shared with the browser source, which hands over the rendered DOM
+ */
+export function parseHtmlToArticle(
+  html: string,
+  url: string,
+  strategy: FetchStrategy
+): CachedArticle | null {
+  if (!html || html.length < 100) {
+    return null;
+  }
+
+  try {
+    const dom = new JSDOM(html, { url });
+
+    // Per-domain rules: strip/rewrite the DOM before Readability, overlay their fields after
+    const siteConfig = getSiteConfig(url);
+    if (siteConfig) applySiteConfigRules(dom.window.document, siteConfig);
+
+    // Lazy images, <picture>/<noscript> fallbacks and relative URLs - Readability would drop them
+    normalizeMedia(dom.window.document, url);
+    // Tweets, YouTube and other embeds become static cards instead of bare text or nothing
+    normalizeEmbeds(dom.window.document);
+
+    // After normalization, so a site-config body gets the same images and embed cards
+    const siteConfigFields = siteConfig ? extractSiteConfigFields(dom.window.document, siteConfig) : {};
+
+    const reader = new Readability(dom.window.document);
+    const readabilityResult = reader.parse();
+    const parsed = readabilityResult && mergeSiteConfigFields({
+      ...readabilityResult,
+      title: readabilityResult.title ?? '',
+      content: readabilityResult.content ?? '',
+      textContent: readabilityResult.textContent ?? '',
+    }, siteConfigFields);
+
+    if (!parsed || !parsed.content || !parsed.textContent) {
+      return null;
+    }
+
+    // Extract language from HTML
+    const htmlLang = dom.window.document.documentElement.getAttribute('lang') ||
+      dom.window.document.documentElement.getAttribute('xml:lang') ||
+      parsed.lang ||
+      null;
+
+    // Detect text direction based on language or content analysis
+    const textDir = getTextDirection(htmlLang, parsed.textContent);
+
+    const truncation = detectTruncation({ textContent: parsed.textContent, content: parsed.content, htmlContent: html });
+    if (truncation.truncated) {
+      logger.debug({ strategy, reasons: truncation.reasons, length: parsed.textContent.length }, 'Article looks truncated');
+    }
+
+    const articleCandidate: CachedArticle = {
+      title: parsed.title || dom.window.document.title || 'Untitled',
+      content: sanitizeHtml(parsed.content),
+      textContent: sanitizeText(parsed.textContent),
+      length: parsed.textContent.length,
+      siteName: (() => {
+        try {
+          return new URL(url).hostname;
+        } catch {
+          return parsed.siteName || 'unknown';
+        }
+      })(),
+      byline: parsed.byline,
+      publishedTime: siteConfigFields.publishedTime || extractDateFromDom(dom.window.document) || null,
+      image: extractImageFromDom(dom.window.document) || null,
+      htmlContent: html,
+      lang: htmlLang,
+      dir: textDir,
+      truncated: truncation.truncated,
+    };
+
+    const validationResult = CachedArticleSchema.safeParse(articleCandidate);
+    if (!validationResult.success) {
+      return null;
+    }
+
+    return validationResult.data;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Readability vs. the page's embedded data (JSON-LD articleBody, __NEXT_DATA__, Apollo, Fusion)
+ * Paywalls often cut the DOM but leave the full text in the payloads, so both are scored and
+ * the winner borrows any byline/image/date it lacks from the other.
+ */
+function pickBestExtraction(
+  html: string,
+  url: string,
+  strategy: FetchStrategy,
+  debugContext?: DebugContext
+): CachedArticle | null {
+  const readabilityArticle = parseHtmlToArticle(html, url, strategy);
+  const embedded = extractEmbeddedArticle(html, url);
+
+  if (!embedded) return readabilityArticle;
+  if (!readabilityArticle) return embedded.article;
+
+  const readabilityQuality = calculateQuality(readabilityArticle);
+  const embeddedQuality = calculateQuality(embedded.article);
+  const useEmbedded = embeddedQuality > readabilityQuality;
+
+  logger.debug({
+    strategy,
+    embeddedSource: embedded.source,
+    readabilityQuality,
+    embeddedQuality,
+    winner: useEmbedded ? embedded.source : "readability",
+  }, 'Compared embedded data with Readability');
+
+  if (debugContext) {
+    addDebugStep(debugContext, 'embedded_data', 'info', `${embedded.source}: quality ${embeddedQuality} vs Readability ${readabilityQuality}`, {
+      strategy,
+      embeddedSource: embedded.source,
+      used: useEmbedded,
+    });
+  }
+
+  const [winner, runnerUp] = useEmbedded
+    ? [embedded.article, { source: "readability", article: readabilityArticle }]
+    : [readabilityArticle, { source: embedded.source, article: embedded.article }];
+  return fillMissingFields(winner, [runnerUp]).article;
+}
+
+/**
+ * Attempt a single fetch strategy and return a FetchResult with quality scoring
+ */
+async function tryFetchAndParse(
+  url: string,
+  strategy: FetchStrategy,
+  cookieJar: CookieJar,
+  hostname: string,
+  debugContext?: DebugContext
+): Promise<FetchResult> {
+  const result = await tryFetchWithStrategy(url, strategy, cookieJar, debugContext);
+
+  // Accumulate cookies from response (even on failure)
+  if ('headers' in result && result.headers) {
+    const newCookies = extractSetCookies(result.headers);
+    if (newCookies.size > 0) {
+      newCookies.forEach((value, key) => cookieJar.cookies.set(key, value));
+      logger.debug({
+        source: "fetch-fast",
+        hostname,
+        strategy,
+        newCookies: Array.from(newCookies.keys()),
+        totalCookies: cookieJar.cookies.size,
+      }, 'Accumulated cookies from response');
+    }
+  }
+
+  // Check if blocked or failed
+  if ('status' in result) {
+    return {
+      success: false,
+      url,
+      strategy,
+      quality: 0,
+      error: result.reason ?? `HTTP ${result.status}`,
+    };
+  }
+
+  // PDFs skip Readability - and alternates/pagination, which need page HTML
+  if ('pdf' in result) {
+    const article = await parsePdfToArticle(result.pdf, url);
+    return article
+      ? { success: true, url, strategy, pdf: true, article, quality: calculateQuality(article) }
+      : { success: false, url, strategy, quality: 0, error: 'PDF text extraction failed' };
+  }
+
+  // Got HTML - try to parse it
+  const { html } = result;
+  const article = pickBestExtraction(html, url, strategy, debugContext);
+
+  if (!article) {
+    return {
+      success: false,
+      url,
+      strategy,
+      html,
+      quality: 0,
+      error: 'Readability extraction failed',
+    };
+  }
+
+  const quality = calculateQuality(article);
+
+  return {
+    success: true,
+    url,
+    strategy,
+    html,
+    article,
+    quality,
+  };
+}
+
+/**
+ * Try AMP / print / mobile versions linked from the fetched page
+ * Uses the strategy (and cookies, for same-host variants) that got us the page HTML
+ */
+async function tryAlternateVersions(
+  url: string,
+  results: FetchResult[],
+  cookieJar: CookieJar,
+  hostname: string,
+  debugContext: DebugContext
+): Promise<FetchResult[]> {
+  // Discover from the best page we managed to download (even if Readability failed on it)
+  const source = [...results]
+    .filter(r => r.html)
+    .sort((a, b) => b.quality - a.quality)[0];
+
+  if (!source?.html) {
+    addDebugStep(debugContext, 'alternate_discovery', 'info', 'No page HTML to discover alternate versions from');
+    return [];
+  }
+
+  const alternates = findAlternateVersions(source.html, url);
+
+  addDebugStep(debugContext, 'alternate_discovery', 'info', alternates.length > 0
+    ? `Found ${alternates.map(a => a.variant).join(', ')} version(s)`
+    : 'No alternate versions linked from page', {
+    alternates: alternates.map(a => ({ variant: a.variant, url: scrubUrl(a.url) })),
+  });
+
+  const variantResults: FetchResult[] = [];
+
+  for (const alternate of alternates) {
+    await new Promise(resolve => setTimeout(resolve, 200 + Math.random() * 100));
+
+    const sameHost = new URL(alternate.url).hostname === hostname;
+    logger.info({
+      source: "fetch-fast",
+      hostname,
+      strategy: source.strategy,
+      variant: alternate.variant,
+      url: scrubUrl(alternate.url),
+    }, 'Fetching alternate version');
+
+    // Don't leak the site's anti-bot cookies to other hosts (e.g. AMP caches)
+    const variantJar: CookieJar = sameHost ? cookieJar : { cookies: new Map() };
+    let result: FetchResult;
+    try {
+      result = await tryFetchAndParse(alternate.url, source.strategy, variantJar, new URL(alternate.url).hostname, debugContext);
+    } catch (error) {
+      // DNS/connection errors and non-public targets (the link comes from the page) only rule out this variant
+      logger.debug({ source: "fetch-fast", hostname, variant: alternate.variant, error: error instanceof Error ? error.message : String(error) }, 'Alternate version fetch threw');
+      result = {
+        success: false,
+        url: alternate.url,
+        strategy: source.strategy,
+        quality: 0,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+    result.variant = alternate.variant;
+    // Parsing used the variant URL as base - keep the canonical site name
+    if (result.article) {
+      result.article.siteName = hostname;
+    }
+    variantResults.push(result);
+
+    addDebugStep(debugContext, 'alternate_fetch', result.success ? 'success' : 'warning', `${alternate.variant}: ${result.success ? `quality ${result.quality}` : result.error}`, {
+      variant: alternate.variant,
+      strategy: source.strategy,
+      quality: result.quality,
+    });
+
+    if (isGoodResult(result)) {
+      break;
+    }
+  }
+
+  return variantResults;
+}
+
+/**
+ * Follow next-page links from the winning result and merge the pages into one article
+ * Stops at the configured page limit, on a failed (or throwing) or duplicate page, or when pagination loops
+ */
+async function stitchFollowingPages(
+  first: FetchResult,
+  cookieJar: CookieJar,
+  hostname: string,
+  debugContext: DebugContext
+): Promise<CachedArticle> {
+  const maxPages = getMaxArticlePages();
+  // Alternate versions may live on another host - same cookie rule as tryAlternateVersions
+  const pageJar: CookieJar = new URL(first.url).hostname === hostname ? cookieJar : { cookies: new Map() };
+  const pages: CachedArticle[] = [first.article!];
+  const visited = new Set<string>([first.url]);
+  let html = first.html;
+  let pageUrl = first.url;
+
+  while (pages.length < maxPages && html) {
+    const nextUrl = findNextPageUrl(html, pageUrl);
+    if (!nextUrl || visited.has(nextUrl)) break;
+    visited.add(nextUrl);
+
+    await new Promise(resolve => setTimeout(resolve, 200 + Math.random() * 100));
+
+    logger.info({
+      source: "fetch-fast",
+      hostname,
+      strategy: first.strategy,
+      page: pages.length + 1,
+      url: scrubUrl(nextUrl),
+    }, 'Fetching next article page');
+
+    let result: FetchResult;
+    try {
+      result = await tryFetchAndParse(nextUrl, first.strategy, pageJar, hostname, debugContext);
+    } catch (error) {
+      // A DNS/connection error or a non-public next link - keep the pages we already have
+      addDebugStep(debugContext, 'pagination', 'warning', `Page ${pages.length + 1} failed: ${error instanceof Error ? error.message : String(error)}`, {
+        page: pages.length + 1,
+      });
+      break;
+    }
+
+    if (!result.success || !result.article) {
+      addDebugStep(debugContext, 'pagination', 'warning', `Page ${pages.length + 1} failed: ${result.error}`, {
+        page: pages.length + 1,
+      });
+      break;
+    }
+
+    // Some sites answer any ?page=N with the first page - stop instead of duplicating it
+    if (pages.some(page => page.textContent === result.article!.textContent)) {
+      addDebugStep(debugContext, 'pagination', 'info', `Page ${pages.length + 1} repeats earlier content, stopping`);
+      break;
+    }
+
+    pages.push(result.article);
+    html = result.html;
+    pageUrl = nextUrl;
+  }
+
+  if (pages.length === 1) {
+    return first.article!;
+  }
+
+  const merged = mergeArticlePages(pages);
+  addDebugStep(debugContext, 'pagination', 'success', `Stitched ${pages.length} pages`, {
+    pages: pages.length,
+    extractedTextLength: merged.length,
+  });
+  logger.info({ source: "fetch-fast", hostname, pages: pages.length, length: merged.length }, 'Stitched multi-page article');
+
+  return merged;
+}
+
+export async function fetchArticleWithFast(
+  url: string
+): Promise<SourceFetchResult> {
+  const hostname = new URL(url).hostname;
+
+  // Cookie jar to persist cookies (especially DataDome) across retry attempts
+  const cookieJar: CookieJar = { cookies: new Map() };
+
+  // Collect all successful results for quality comparison
+  const results: FetchResult[] = [];
+
+  const debugContext = createDebugContext(url, "fetch-fast");
+
+  try {
+    // Strategies that worked on this domain before go first; ones that keep failing are skipped
+    const { order, skipped } = planAttempts(FETCH_STRATEGIES, (await getDomainStats(hostname)).strategies);
+    if (skipped.length > 0 || order[0] !== FETCH_STRATEGIES[0]) {
+      logger.info({ source: "fetch-fast", hostname, order, skipped }, 'Using learned strategy order');
+      addDebugStep(debugContext, 'strategy_plan', 'info', `Trying ${order.join(' → ')}${skipped.length > 0 ? ` (skipping ${skipped.join(', ')})` : ''}`, {
+        order,
+        skipped,
+      });
+    }
+
+    for (let index = 0; index < order.length; index++) {
+      const strategy = order[index];
+
+      // Space out follow-up attempts
+      if (index > 0) {
+        await new Promise(resolve => setTimeout(resolve, 200 + Math.random() * 100));
+      }
+
+      logger.info({
+        source: "fetch-fast",
+        hostname,
+        strategy,
+        attempt: index + 1,
+        cookieCount: cookieJar.cookies.size,
+      }, `Fetching with ${strategy}`);
+
+      const result = await tryFetchAndParse(url, strategy, cookieJar, hostname, debugContext);
+      results.push(result);
+      void recordOutcome(hostname, "strategy", strategy, result.success && !result.article?.truncated);
+
+      // High quality (or a PDF) - return immediately (optimization)
+      if (isGoodResult(result) || (result.success && result.pdf)) {
+        logger.info({
+          source: "fetch-fast",
+          hostname,
+          strategy,
+          quality: result.quality,
+          earlyReturn: true,
+        }, 'High quality result, returning early');
+
+        addDebugStep(debugContext, 'variant_selected', 'success', index === 0
+          ? 'Using original page (high quality on first attempt)'
+          : `Using original page (high quality with ${strategy})`, {
+          variant: "original",
+          strategy,
+          quality: result.quality,
+        });
+
+        return {
+          article: { ...(await stitchFollowingPages(result, cookieJar, hostname, debugContext)), strategy },
+          cacheURL: url,
+          debugContext,
+        };
+      }
+    }
+
+    // Browser retry with accumulated cookies (if we have cookies)
+    if (cookieJar.cookies.size > 0 && order.includes("browser")) {
+      await new Promise(resolve => setTimeout(resolve, 500 + Math.random() * 200));
+
+      logger.info({
+        source: "fetch-fast",
+        hostname,
+        strategy: "browser",
+        attempt: order.length + 1,
+        cookieCount: cookieJar.cookies.size,
+        isRetryWithCookies: true,
+      }, 'Fetching with browser (with cookies)');
+
+      const cookieRetryResult = await tryFetchAndParse(url, "browser", cookieJar, hostname, debugContext);
+      results.push(cookieRetryResult);
+      void recordOutcome(hostname, "strategy", "browser", cookieRetryResult.success && !cookieRetryResult.article?.truncated);
+    }
+
+    results.forEach((result) => {
+      addDebugStep(debugContext, 'fetch_attempt', result.success ? 'success' : 'warning', `${result.strategy}: ${result.success ? `quality ${result.quality}${result.article?.truncated ? ' (truncated)' : ''}` : result.error}`, {
+        strategy: result.strategy,
+        quality: result.quality,
+        truncated: result.article?.truncated,
+      });
+    });
+
+    // AMP / print / mobile versions when the page itself came back weak or truncated
+    if (!results.some(isGoodResult)) {
+      const variantResults = await tryAlternateVersions(url, results, cookieJar, hostname, debugContext);
+      results.push(...variantResults);
+    }
+
+    // Pick the best result by quality
+    const successfulResults = results.filter(r => r.success && r.article);
+
+    if (successfulResults.length === 0) {
+      // All strategies failed
+      const lastError = results[results.length - 1]?.error || 'Unknown error';
+      logger.error({
+        source: "fetch-fast",
+        hostname,
+        totalAttempts: results.length,
+        cookiesAccumulated: cookieJar.cookies.size,
+        errors: results.map(r => ({ strategy: r.strategy, variant: r.variant, error: r.error })),
+      }, 'All fetch strategies failed');
+
+      addDebugStep(debugContext, 'final_error', 'error', 'All fetch strategies failed', {
+        errorDetails: results.map(r => ({ strategy: r.strategy, variant: r.variant ?? "original", error: r.error })),
+      });
+
+      return {
+        error: createNetworkError(
+          `All fetch strategies failed: ${lastError}`,
+          url,
+          500,
+          undefined,
+          debugContext
+        ),
+      };
+    }
+
+    // Sort by quality (descending) and pick the best
+    successfulResults.sort((a, b) => b.quality - a.quality);
+    const bestResult = successfulResults[0];
+
+    // Log quality comparison if we have multiple successful results
+    if (successfulResults.length > 1) {
+      logger.info({
+        source: "fetch-fast",
+        hostname,
+        winner: bestResult.strategy,
+        winnerVariant: bestResult.variant ?? "original",
+        winnerQuality: bestResult.quality,
+        alternatives: successfulResults.slice(1).map(r => ({
+          strategy: r.strategy,
+          variant: r.variant ?? "original",
+          quality: r.quality,
+        })),
+      }, 'Selected best quality result');
+    }
+
+    addDebugStep(debugContext, 'variant_selected', 'success', bestResult.variant
+      ? `Using ${bestResult.variant} version (quality ${bestResult.quality})`
+      : `Using original page (quality ${bestResult.quality})`, {
+      variant: bestResult.variant ?? "original",
+      strategy: bestResult.strategy,
+      quality: bestResult.quality,
+      alternatives: successfulResults.slice(1).map(r => ({
+        variant: r.variant ?? "original",
+        strategy: r.strategy,
+        quality: r.quality,
+      })),
+    });
+
+    logger.info({
+      source: "fetch-fast",
+      hostname,
+      title: bestResult.article!.title,
+      length: bestResult.article!.length,
+      strategy: bestResult.strategy,
+      variant: bestResult.variant ?? "original",
+      quality: bestResult.quality,
+      cookiesUsed: cookieJar.cookies.size,
+    }, 'Article fetched and parsed successfully');
+
+    return {
+      article: { ...(await stitchFollowingPages(bestResult, cookieJar, hostname, debugContext)), strategy: bestResult.strategy },
+      cacheURL: url,
+      debugContext,
+    };
+  } catch (error) {
+    logger.error({ source: "fetch-fast", hostname, error }, 'Fetch exception');
+    addDebugStep(debugContext, 'fetch_exception', 'error', 'Exception during direct fetch', {
+      errorDetails: error instanceof Error ? error.message : String(error),
+    });
+    return {
+      error: createNetworkError('Failed to fetch article directly', url, undefined, error, debugContext),
+    };
+  }
+}
@@ -0,0 +1,105 @@
+import { z } from "zod";
+import { fromError } from "zod-validation-error";
+import { createParseError } from "@/lib/errors";
+import { createLogger } from "@/lib/logger";
+import { fetchArticleWithDiffbot } from "@/lib/api/diffbot";
+import { getTextDirection } from "@/lib/rtl";
+import { sanitizeHtml, sanitizeText } from "@/lib/sanitize-ads";
+import { detectTruncation } from "@/lib/paywall";
+import { CachedArticle, SourceFetchResult } from "./shared";
+
+const logger = createLogger('lib:sources:fetch-slow');
+
+// Diffbot Article schema - validates the response from fetchArticleWithDiffbot
+const DiffbotArticleSchema = z.object({
+  title: z.string().min(1, "Article title cannot be empty"),
+  html: z.string().min(1, "Article HTML content cannot be empty"),
+  text: z.string().min(1, "Article text content cannot be empty"),
+  siteName: z.string().min(1, "Site name cannot be empty"),
+  byline: z.string().optional().nullable(),
+  publishedTime: z.string().optional().nullable(),
+  image: z.string().nullable().optional(),
+  htmlContent: z.string().optional(),
+  lang: z.string().optional().nullable(),
+});
+
+/**
+ * Fetch and parse article using Diffbot (fetch-slow source)
+ */
+export async function fetchArticleWithDiffbotWrapper(
+  urlWithSource: string,
+  source: string
+): Promise<SourceFetchResult> {
+  try {
+    logger.info({ source, hostname: new URL(urlWithSource).hostname }, 'Fetching article with Diffbot');
+
+    // Pass source parameter to enable debug tracking
+    const diffbotResult = await fetchArticleWithDiffbot(urlWithSource, source);
+
+    if (diffbotResult.isErr()) {
+      const error = diffbotResult.error;
+      logger.error({ source, errorType: error.type, message: error.message, hasDebugContext: !!error.debugContext }, 'Diffbot fetch failed');
+      return { error };
+    }
+
+    const diffbotArticle = diffbotResult.value;
+
+    // Validate Diffbot response with Zod
+    const validationResult = DiffbotArticleSchema.safeParse(diffbotArticle);
+
+    if (!validationResult.success) {
+      const validationError = fromError(validationResult.error);
+      logger.error({
+        source,
+        validationError: validationError.toString(),
+        receivedData: {
+          hasTitle: !!diffbotArticle.title,
+          hasHtml: !!diffbotArticle.html,
+          hasText: !!diffbotArticle.text,
+          hasSiteName: !!diffbotArticle.siteName,
+          titleLength: diffbotArticle.title?.length || 0,
+          htmlLength: diffbotArticle.html?.length || 0,
+          textLength: diffbotArticle.text?.length || 0,
+        }
+      }, 'Diffbot response validation failed');
+
+      return {
+        error: createParseError(
+          `Invalid Diffbot response: ${validationError.toString()}`,
+          source,
+          validationError
+        )
+      };
+    }
+
+    const validatedArticle = validationResult.data;
+
+    // Detect text direction based on language or content analysis
+    const textDir = getTextDirection(validatedArticle.lang, validatedArticle.text);
+
+    const article: CachedArticle = {
+      title: validatedArticle.title,
+      content: sanitizeHtml(validatedArticle.html),
+      textContent: sanitizeText(validatedArticle.text),
+      length: validatedArticle.text.length,
+      siteName: validatedArticle.siteName,
+      byline: validatedArticle.byline,
+      publishedTime: validatedArticle.publishedTime,
+      image: validatedArticle.image,
+      htmlContent: validatedArticle.htmlContent,
+      lang: validatedArticle.lang,
+      dir: textDir,
+      truncated: detectTruncation({
+        textContent: validatedArticle.text,
+        content: validatedArticle.html,
+        htmlContent: validatedArticle.htmlContent,
+      }).truncated,
+    };
+
+    logger.debug({ source, title: article.title, length: article.length, lang: article.lang, dir: article.dir }, 'Diffbot article parsed and validated');
+    return { article, cacheURL: urlWithSource };
+  } catch (error) {
+    logger.error({ source, error }, 'Article parsing exception');
+    return { error: createParseError("Failed to parse article", source, error) };
+  }
+}
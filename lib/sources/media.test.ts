@@ -0,0 +1,91 @@
+import { describe, expect, it } from "bun:test";
+import { JSDOM } from "jsdom";
+import { Readability } from "@mozilla/readability";
+import { isPlaceholderSrc, normalizeMedia, resolveSrcset } from "./media";
+
+const PAGE_URL = "https://news.example.com/2024/03/story";
+const PLACEHOLDER = "data:image/gif;base64,R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7";
+
+const paragraph = "<p>The harbour authority confirmed the new ferry route will open in the spring after years of delays and several rounds of public consultation.</p>";
+
+function normalize(body: string) {
+  const dom = new JSDOM(`<!doctype html><html><head><title>Story</title></head><body>${body}</body></html>`, { url: PAGE_URL });
+  const stats = normalizeMedia(dom.window.document, PAGE_URL);
+  return { document: dom.window.document, stats };
+}
+
+describe("isPlaceholderSrc", () => {
+  it("flags missing, data: and placeholder file names", () => {
+    expect(isPlaceholderSrc(null)).toBe(true);
+    expect(isPlaceholderSrc(PLACEHOLDER)).toBe(true);
+    expect(isPlaceholderSrc("/static/lazy-placeholder.png")).toBe(true);
+    expect(isPlaceholderSrc("https://cdn.example.com/blank.gif")).toBe(true);
+    expect(isPlaceholderSrc("https://cdn.example.com/photos/ferry.jpg")).toBe(false);
+  });
+});
+
+describe("resolveSrcset", () => {
+  it("resolves each candidate and keeps descriptors", () => {
+    expect(resolveSrcset("/a.jpg 1x, b.jpg 2x", PAGE_URL))
+      .toBe("https://news.example.com/a.jpg 1x, https://news.example.com/2024/03/b.jpg 2x");
+  });
+});
+
+describe("normalizeMedia", () => {
+  it("promotes lazy-load attributes over placeholders", () => {
+    const { document, stats } = normalize(`<img src="${PLACEHOLDER}" data-src="/img/ferry?w=800" data-srcset="/img/ferry?w=400 400w, /img/ferry?w=800 800w">`);
+    const img = document.querySelector("img")!;
+    expect(img.getAttribute("src")).toBe("https://news.example.com/img/ferry?w=800");
+    expect(img.getAttribute("srcset")).toBe("https://news.example.com/img/ferry?w=400 400w, https://news.example.com/img/ferry?w=800 800w");
+    expect(stats.lazyPromoted).toBe(1);
+  });
+
+  it("keeps real src values", () => {
+    const { document } = normalize('<img src="https://cdn.example.com/ferry.jpg" data-src="https://cdn.example.com/ferry-small.jpg">');
+    expect(document.querySelector("img")!.getAttribute("src")).toBe("https://cdn.example.com/ferry.jpg");
+  });
+
+  it("replaces placeholders with their noscript fallback", () => {
+    const { document, stats } = normalize(`<img class="lazy" alt="Ferry" src="${PLACEHOLDER}"><noscript><img src="/img/ferry.jpg"></noscript>`);
+    const images = document.querySelectorAll("img");
+    expect(images).toHaveLength(1);
+    expect(images[0].getAttribute("src")).toBe("https://news.example.com/img/ferry.jpg");
+    expect(images[0].getAttribute("alt")).toBe("Ferry");
+    expect(document.querySelector("noscript")).toBeNull();
+    expect(stats.noscriptUnwrapped).toBe(1);
+  });
+
+  it("flattens picture elements using their sources", () => {
+    const { document, stats } = normalize(`<picture><source type="image/avif" data-srcset="/img/ferry.avif"><source data-srcset="/img/ferry.jpg 1x, /img/ferry@2x.jpg 2x"><img src="${PLACEHOLDER}" alt="Ferry"></picture>`);
+    expect(document.querySelector("picture")).toBeNull();
+    const img = document.querySelector("img")!;
+    expect(img.getAttribute("src")).toBe("https://news.example.com/img/ferry.jpg");
+    expect(img.getAttribute("srcset")).toContain("https://news.example.com/img/ferry@2x.jpg 2x");
+    expect(stats.picturesFlattened).toBe(1);
+  });
+
+  it("resolves links but leaves fragments and mailto alone", () => {
+    const { document } = normalize('<a href="../other">x</a><a href="#notes">y</a><a href="mailto:desk@example.com">z</a>');
+    const hrefs = Array.from(document.querySelectorAll("a")).map((a) => a.getAttribute("href"));
+    expect(hrefs).toEqual(["https://news.example.com/2024/other", "#notes", "mailto:desk@example.com"]);
+  });
+
+  it("keeps figures and captions through Readability", () => {
+    const { document, stats } = normalize(`
+      <article>
+        <h1>Ferry route approved</h1>
+        ${paragraph.repeat(4)}
+        <figure>
+          <img src="${PLACEHOLDER}" data-lazy-src="https://cdn.example.com/ferry">
+          <div class="image-caption">The new ferry at the harbour. Photo: Ana Silva</div>
+        </figure>
+        ${paragraph.repeat(4)}
+      </article>`);
+    expect(stats.captionsPromoted).toBe(1);
+
+    const content = new Readability(document).parse()?.content ?? "";
+    expect(content).toContain("<figure");
+    expect(content).toContain("<figcaption>The new ferry at the harbour. Photo: Ana Silva</figcaption>");
+    expect(content).toContain('src="https://cdn.example.com/ferry"');
+  });
+});
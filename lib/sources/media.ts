@@ -0,0 +1,291 @@
+/**
+ * Media normalization before Readability
+ *
+ * Lazy-loading pages ship gray placeholders in `src` and keep the real image in `data-src`,
+ * `data-srcset`, a `<noscript>` fallback or `<picture>` sources - all of which Readability
+ * drops or only partly recovers (it needs a file extension in the URL). This pass rewrites
+ * the DOM so every image carries its real `src`/`srcset`, resolves relative URLs against the
+ * article URL, and turns caption-classed elements inside figures into `<figcaption>`.
+ */
+
+export interface MediaNormalizationStats {
+  lazyPromoted: number;
+  noscriptUnwrapped: number;
+  picturesFlattened: number;
+  captionsPromoted: number;
+  urlsResolved: number;
+}
+
+// Where lazy loaders keep the real URL, most specific first
+const LAZY_SRC_ATTRIBUTES = [
+  "data-src",
+  "data-lazy-src",
+  "data-original",
+  "data-lazy",
+  "data-url",
+  "data-hi-res-src",
+  "data-full-src",
+];
+
+const LAZY_SRCSET_ATTRIBUTES = ["data-srcset", "data-lazy-srcset", "data-original-srcset"];
+
+// Placeholder file names lazy loaders put in `src` until the image scrolls into view
+const PLACEHOLDER_SRC = /(^data:)|(\b(blank|spacer|placeholder|pixel|transparent|lazy|loading|grey|gray)[\w-]*\.(gif|png|svg|jpe?g|webp)\b)|(\b1x1\b)/i;
+
+const URL_ATTRIBUTES = ["src", "href", "poster"];
+
+// Left alone when resolving: in-page anchors and non-HTTP schemes
+const UNRESOLVABLE_URL = /^(#|data:|mailto:|tel:|javascript:|about:|blob:)/i;
+
+const CAPTION_SELECTOR = '[class*="caption" i], [class*="credit" i], [itemprop="caption"]';
+
+/**
+ * Is this `src` missing or a stand-in for the real image?
+ *
+ * @example
+ * isPlaceholderSrc('data:image/gif;base64,R0lGOD...') // true
+ * isPlaceholderSrc('/img/lazy-placeholder.png') // true
+ * isPlaceholderSrc('https://cdn.example.com/photo.jpg') // false
+ */
+export function isPlaceholderSrc(src: string | null | undefined): boolean {
+  return !src || !src.trim() || PLACEHOLDER_SRC.test(src.trim());
+}
+
+function resolveUrl(value: string, baseUrl: string): string {
+  const trimmed = value.trim();
+  if (!trimmed || UNRESOLVABLE_URL.test(trimmed)) return value;
+  try {
+    return new URL(trimmed, baseUrl).href;
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Resolve every URL in a srcset ("a.jpg 1x, b.jpg 2x") against the base URL
+ */
+export function resolveSrcset(srcset: string, baseUrl: string): string {
+  return srcset
+    .split(/,\s+|,(?=\S+\s+\d)/)
+    .map((candidate) => {
+      const [url, ...descriptors] = candidate.trim().split(/\s+/);
+      return url ? [resolveUrl(url, baseUrl), ...descriptors].join(" ") : "";
+    })
+    .filter(Boolean)
+    .join(", ");
+}
+
+function firstSrcsetUrl(srcset: string): string | null {
+  const url = srcset.trim().split(/[\s,]+/)[0];
+  return url || null;
+}
+
+function firstAttribute(element: Element, names: string[]): string | null {
+  for (const name of names) {
+    const value = element.getAttribute(name);
+    if (value && value.trim()) return value.trim();
+  }
+  return null;
+}
+
+/**
+ * Copy lazy-load attributes into src/srcset when the current ones are placeholders
+ */
+function promoteLazyAttributes(element: Element): boolean {
+  let promoted = false;
+
+  const lazySrc = firstAttribute(element, LAZY_SRC_ATTRIBUTES);
+  if (lazySrc && !isPlaceholderSrc(lazySrc) && isPlaceholderSrc(element.getAttribute("src"))) {
+    element.setAttribute("src", lazySrc);
+    promoted = true;
+  }
+
+  const lazySrcset = firstAttribute(element, LAZY_SRCSET_ATTRIBUTES);
+  if (lazySrcset && !element.getAttribute("srcset")) {
+    element.setAttribute("srcset", lazySrcset);
+    promoted = true;
+  }
+
+  const lazyPoster = element.getAttribute("data-poster");
+  if (lazyPoster && !element.getAttribute("poster")) {
+    element.setAttribute("poster", lazyPoster);
+    promoted = true;
+  }
+
+  // Still a placeholder but the srcset has the real image - use its first candidate
+  const srcset = element.getAttribute("srcset");
+  if (element.tagName === "IMG" && srcset && isPlaceholderSrc(element.getAttribute("src"))) {
+    const fallback = firstSrcsetUrl(srcset);
+    if (fallback) {
+      element.setAttribute("src", fallback);
+      promoted = true;
+    }
+  }
+
+  return promoted;
+}
+
+/**
+ * Images inside a <noscript>, whether the parser built elements or left raw markup
+ */
+function noscriptImages(noscript: Element): Element[] {
+  const document = noscript.ownerDocument;
+  const container = document.createElement("div");
+  container.innerHTML = noscript.children.length > 0 ? noscript.innerHTML : noscript.textContent ?? "";
+  return Array.from(container.querySelectorAll("img")).filter((img) => !isPlaceholderSrc(img.getAttribute("src")));
+}
+
+/**
+ * Replace placeholder images with their <noscript> fallbacks (or unwrap standalone fallbacks)
+ */
+function unwrapNoscriptImages(document: Document): number {
+  let unwrapped = 0;
+
+  Array.from(document.querySelectorAll("noscript")).forEach((noscript) => {
+    const images = noscriptImages(noscript);
+    if (images.length === 0) return;
+
+    const [image] = images;
+    const previous = noscript.previousElementSibling;
+    const placeholder = previous?.tagName === "IMG"
+      ? previous
+      : previous?.querySelector("img") && !previous.textContent?.trim() ? previous.querySelector("img") : null;
+
+    if (placeholder && isPlaceholderSrc(placeholder.getAttribute("src"))) {
+      // Keep the placeholder's alt/class when the fallback has none
+      Array.from(placeholder.attributes).forEach((attribute) => {
+        if (!image.hasAttribute(attribute.name) && !attribute.name.startsWith("data-") && attribute.name !== "src") {
+          image.setAttribute(attribute.name, attribute.value);
+        }
+      });
+      placeholder.replaceWith(image);
+      noscript.remove();
+    } else if (!placeholder) {
+      noscript.replaceWith(...images);
+    } else {
+      // The visible image already loaded - the fallback would be a duplicate
+      noscript.remove();
+    }
+    unwrapped++;
+  });
+
+  return unwrapped;
+}
+
+/**
+ * Replace <picture> with its <img>, carrying over the best <source> when the img is a placeholder
+ */
+function flattenPictures(document: Document): number {
+  let flattened = 0;
+
+  Array.from(document.querySelectorAll("picture")).forEach((picture) => {
+    const image = picture.querySelector("img");
+    const sources = Array.from(picture.querySelectorAll("source"));
+    sources.forEach(promoteLazyAttributes);
+
+    // Untyped or common-format sources first - AVIF/WebP-only candidates can't be shared as widely
+    const source = sources.find((candidate) => candidate.getAttribute("srcset") && !/avif|webp/i.test(candidate.getAttribute("type") ?? ""))
+      ?? sources.find((candidate) => candidate.getAttribute("srcset"));
+
+    if (!image) {
+      const srcset = source?.getAttribute("srcset");
+      const src = srcset ? firstSrcsetUrl(srcset) : null;
+      if (!src) return;
+      const replacement = document.createElement("img");
+      replacement.setAttribute("src", src);
+      replacement.setAttribute("srcset", srcset!);
+      picture.replaceWith(replacement);
+      flattened++;
+      return;
+    }
+
+    promoteLazyAttributes(image);
+    const sourceSrcset = source?.getAttribute("srcset");
+    // A real <img> src stays - <source> media queries may target other layouts
+    if (sourceSrcset && isPlaceholderSrc(image.getAttribute("src"))) {
+      image.setAttribute("srcset", sourceSrcset);
+      image.setAttribute("src", firstSrcsetUrl(sourceSrcset) ?? "");
+    }
+
+    picture.replaceWith(image);
+    flattened++;
+  });
+
+  return flattened;
+}
+
+/**
+ * Turn caption-classed elements inside a figure into <figcaption>, which Readability keeps
+ */
+function promoteFigureCaptions(document: Document): number {
+  let promoted = 0;
+
+  Array.from(document.querySelectorAll("figure")).forEach((figure) => {
+    if (figure.querySelector("figcaption")) return;
+
+    const caption = Array.from(figure.querySelectorAll(CAPTION_SELECTOR))
+      .find((element) => element.textContent?.trim() && !element.querySelector("img, video, iframe"));
+    if (!caption) return;
+
+    const figcaption = document.createElement("figcaption");
+    figcaption.innerHTML = caption.innerHTML;
+    caption.replaceWith(figcaption);
+    promoted++;
+  });
+
+  return promoted;
+}
+
+function resolveDocumentUrls(document: Document, baseUrl: string): number {
+  let resolved = 0;
+
+  URL_ATTRIBUTES.forEach((name) => {
+    Array.from(document.querySelectorAll(`[${name}]`)).forEach((element) => {
+      // <base>/<link> in the head are left as the page declared them
+      if (element.closest("head")) return;
+      const value = element.getAttribute(name)!;
+      const absolute = resolveUrl(value, baseUrl);
+      if (absolute !== value) {
+        element.setAttribute(name, absolute);
+        resolved++;
+      }
+    });
+  });
+
+  Array.from(document.querySelectorAll("[srcset]")).forEach((element) => {
+    const value = element.getAttribute("srcset")!;
+    const absolute = resolveSrcset(value, baseUrl);
+    if (absolute !== value) {
+      element.setAttribute("srcset", absolute);
+      resolved++;
+    }
+  });
+
+  return resolved;
+}
+
+/**
+ * Normalize images and media in place. Run on the parsed page before `new Readability(...)`.
+ *
+ * @param document - The page document (modified in place)
+ * @param baseUrl - The article URL, used to resolve relative src/href/srcset
+ *
+ * @example
+ * const dom = new JSDOM(html, { url });
+ * normalizeMedia(dom.window.document, url);
+ * const article = new Readability(dom.window.document).parse();
+ */
+export function normalizeMedia(document: Document, baseUrl: string): MediaNormalizationStats {
+  const noscriptUnwrapped = unwrapNoscriptImages(document);
+  const picturesFlattened = flattenPictures(document);
+
+  let lazyPromoted = 0;
+  Array.from(document.querySelectorAll("img, video, iframe, source")).forEach((element) => {
+    if (promoteLazyAttributes(element)) lazyPromoted++;
+  });
+
+  const captionsPromoted = promoteFigureCaptions(document);
+  const urlsResolved = resolveDocumentUrls(document, baseUrl);
+
+  return { lazyPromoted, noscriptUnwrapped, picturesFlattened, captionsPromoted, urlsResolved };
+}
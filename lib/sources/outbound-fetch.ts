@@ -0,0 +1,75 @@
+import { addDebugStep, DebugContext } from "@/lib/errors";
+import { createLogger } from "@/lib/logger";
+import { isUnsafeUrlError, safeFetch } from "@/lib/safe-fetch";
+import { getProxyPool, isProxiedSource, ProxyLease } from "./proxy-pool";
+
+const logger = createLogger('lib:sources:outbound-fetch');
+
+export interface OutboundFetchInit {
+  headers?: HeadersInit;
+  redirect?: "follow" | "manual";
+  signal?: AbortSignal;
+  /** Records which proxy served the request and the pool's health */
+  debugContext?: DebugContext;
+}
+
+function recordProxyStep(init: OutboundFetchInit, status: "success" | "warning" | "info", message: string, lease?: ProxyLease): void {
+  if (!init.debugContext) return;
+  addDebugStep(init.debugContext, 'proxy', status, message, {
+    proxy: lease?.id,
+    proxyHealth: getProxyPool().getHealth(),
+  });
+}
+
+/**
+ * fetch() for source requests - routes through the outbound proxy pool when the source is
+ * configured for it (see proxy-pool.ts), otherwise straight from the server's own IP
+ * Either way the request goes through safeFetch, so every redirect hop is SSRF-checked.
+ * 401/403/429 responses and timeouts bench the proxy that served them.
+ */
+export async function outboundFetch(source: string, url: string, init: OutboundFetchInit = {}): Promise<Response> {
+  const pool = getProxyPool();
+  const hostname = new URL(url).hostname;
+  const useProxy = pool.size > 0 && isProxiedSource(source);
+  const lease = useProxy ? pool.acquire(hostname) : null;
+
+  if (!lease) {
+    if (useProxy) {
+      recordProxyStep(init, "warning", "All proxies benched for this host - fetching directly");
+    }
+    return safeFetch(url, {
+      headers: init.headers,
+      redirect: init.redirect ?? "follow",
+      signal: init.signal,
+    });
+  }
+
+  try {
+    const response = await safeFetch(url, {
+      headers: init.headers,
+      redirect: init.redirect ?? "follow",
+      signal: init.signal,
+      agent: lease.agent,
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      pool.reportFailure(lease, hostname, "blocked");
+    } else if (response.status === 429) {
+      pool.reportFailure(lease, hostname, "rate_limited");
+    } else {
+      pool.reportSuccess(lease);
+    }
+
+    logger.debug({ source, proxy: lease.id, hostname, status: response.status }, 'Fetched via outbound proxy');
+    recordProxyStep(init, response.ok ? "success" : "warning", `Fetched via ${lease.id} (HTTP ${response.status})`, lease);
+
+    return response;
+  } catch (error: any) {
+    // Blocked targets say nothing about the proxy
+    if (isUnsafeUrlError(error)) throw error;
+    const reason = error?.name === "AbortError" ? "timeout" : "error";
+    pool.reportFailure(lease, hostname, reason);
+    recordProxyStep(init, "warning", `Proxy ${lease.id} failed (${reason})`, lease);
+    throw error;
+  }
+}
@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { findNextPageUrl, getMaxArticlePages, mergeArticlePages } from "./pagination";
+import { CachedArticle } from "./shared";
+
+const PAGE_URL = "https://news.example.com/features/long-read";
+
+function page(head: string, body = ""): string {
+  return `<!doctype html><html><head>${head}</head><body>${body}</body></html>`;
+}
+
+function article(overrides: Partial<CachedArticle>): CachedArticle {
+  return {
+    title: "Long read",
+    content: "<p>Page one</p>",
+    textContent: "Page one",
+    length: 8,
+    siteName: "news.example.com",
+    ...overrides,
+  };
+}
+
+describe("findNextPageUrl", () => {
+  it("follows rel=next links", () => {
+    const html = page(`<link rel="next" href="/features/long-read?page=2">`);
+    expect(findNextPageUrl(html, PAGE_URL)).toBe(`${PAGE_URL}?page=2`);
+  });
+
+  it("finds ?page=N+1 anchors on the same path", () => {
+    const html = page("", `
+      <a href="/features/other?page=2">Other story</a>
+      <a href="/features/long-read?page=3">3</a>
+      <a href="/features/long-read?page=2">2</a>`);
+    expect(findNextPageUrl(html, PAGE_URL)).toBe(`${PAGE_URL}?page=2`);
+    expect(findNextPageUrl(html, `${PAGE_URL}?page=2`)).toBe(`${PAGE_URL}?page=3`);
+  });
+
+  it("finds /page/N+1 anchors under the same base path", () => {
+    const html = page("", `<a href="/features/long-read/page/2/">Next</a>`);
+    expect(findNextPageUrl(html, PAGE_URL)).toBe(`${PAGE_URL}/page/2/`);
+  });
+
+  it("ignores rel=next links to a different article", () => {
+    const html = page(
+      `<link rel="next" href="/features/another-story">`,
+      `<a rel="next" href="/features/next-post">Next post</a>`
+    );
+    expect(findNextPageUrl(html, PAGE_URL)).toBeNull();
+  });
+
+  it("follows rel=next links that skip ahead on the same path", () => {
+    const html = page(`<link rel="next" href="/features/long-read?page=4">`);
+    expect(findNextPageUrl(html, `${PAGE_URL}?page=2`)).toBe(`${PAGE_URL}?page=4`);
+    expect(findNextPageUrl(page(`<link rel="next" href="/features/long-read?page=1">`), `${PAGE_URL}?page=2`)).toBeNull();
+  });
+
+  it("does not treat WordPress ?p= post ids as page numbers", () => {
+    const postUrl = "https://blog.example.com/?p=1234";
+    expect(findNextPageUrl(page(`<link rel="next" href="/?p=1240">`), postUrl)).toBeNull();
+    expect(findNextPageUrl(page("", `<a href="/?p=1235">Next post</a>`), postUrl)).toBeNull();
+  });
+
+  it("ignores other sites and links back to the same page", () => {
+    const html = page(
+      `<link rel="next" href="https://other.example.org/features/long-read?page=2">`,
+      `<a rel="next" href="${PAGE_URL}#comments">Comments</a>`
+    );
+    expect(findNextPageUrl(html, PAGE_URL)).toBeNull();
+  });
+});
+
+describe("mergeArticlePages", () => {
+  it("returns a single page unchanged", () => {
+    const first = article({});
+    expect(mergeArticlePages([first])).toBe(first);
+  });
+
+  it("concatenates pages with boundary markers and recomputes length", () => {
+    const merged = mergeArticlePages([
+      article({ byline: null }),
+      article({ content: "<p>Page two</p>", textContent: "Page two", byline: "Jane Doe" }),
+    ]);
+
+    expect(merged.content).toBe(`<p>Page one</p>\n<hr data-page-break="2" aria-label="Page 2" /><p>Page two</p>`);
+    expect(merged.textContent).toBe("Page one\n\nPage two");
+    expect(merged.length).toBe(merged.textContent.length);
+    expect(merged.byline).toBe("Jane Doe");
+    expect(merged.title).toBe("Long read");
+  });
+});
+
+describe("getMaxArticlePages", () => {
+  const original = process.env.ARTICLE_MAX_PAGES;
+
+  afterEach(() => {
+    if (original === undefined) delete process.env.ARTICLE_MAX_PAGES;
+    else process.env.ARTICLE_MAX_PAGES = original;
+  });
+
+  it("reads the limit from the environment with a default", () => {
+    delete process.env.ARTICLE_MAX_PAGES;
+    expect(getMaxArticlePages()).toBe(5);
+
+    process.env.ARTICLE_MAX_PAGES = "2";
+    expect(getMaxArticlePages()).toBe(2);
+
+    process.env.ARTICLE_MAX_PAGES = "0";
+    expect(getMaxArticlePages()).toBe(5);
+  });
+});
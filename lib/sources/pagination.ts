@@ -0,0 +1,151 @@
+import { JSDOM } from "jsdom";
+import { CachedArticle } from "./shared";
+
+/**
+ * Multi-page article support
+ * Long-form features and older news archives split articles across
+ * `?page=2` / `rel="next"` pages; these helpers find the next page and
+ * merge the parsed pages back into one article.
+ */
+
+const DEFAULT_MAX_ARTICLE_PAGES = 5;
+
+// Query params commonly used for article pagination - not "p", which is the post id in
+// WordPress permalinks (?p=1234), so the next post would look like a later page
+const PAGE_PARAMS = ["page", "pg"];
+
+/**
+ * Maximum number of pages to stitch (including the first)
+ * Configurable via ARTICLE_MAX_PAGES; 1 disables pagination
+ */
+export function getMaxArticlePages(): number {
+  const parsed = parseInt(process.env.ARTICLE_MAX_PAGES || "", 10);
+  return Number.isFinite(parsed) && parsed >= 1 ? parsed : DEFAULT_MAX_ARTICLE_PAGES;
+}
+
+/**
+ * Current page number from the URL (?page=N or /page/N), 1 if not paginated
+ */
+function getPageNumber(url: URL): number {
+  for (const param of PAGE_PARAMS) {
+    const value = url.searchParams.get(param);
+    if (value && /^\d+$/.test(value)) return parseInt(value, 10);
+  }
+
+  const pathMatch = url.pathname.match(/\/page\/(\d+)\/?$/i);
+  return pathMatch ? parseInt(pathMatch[1], 10) : 1;
+}
+
+/**
+ * Path without a trailing /page/N, shared by every page of one article
+ */
+function getBasePath(url: URL): string {
+  return url.pathname.replace(/\/page\/\d+\/?$/i, "").replace(/\/$/, "");
+}
+
+/**
+ * Is `candidate` the page after `current` of the same article?
+ * Matches ?page=N+1 on the same path, or /page/N+1 under the same base path
+ */
+function isFollowingPage(current: URL, candidate: URL): boolean {
+  const nextNumber = getPageNumber(current) + 1;
+
+  for (const param of PAGE_PARAMS) {
+    if (candidate.searchParams.get(param) === String(nextNumber)) {
+      return candidate.pathname === current.pathname;
+    }
+  }
+
+  const candidateMatch = candidate.pathname.match(/^(.*)\/page\/(\d+)\/?$/i);
+  return !!candidateMatch && candidateMatch[1] === getBasePath(current) && candidateMatch[2] === String(nextNumber);
+}
+
+/**
+ * Is `candidate` a later page of the same article (same base path, higher page number)?
+ * Looser than isFollowingPage, for sites whose rel="next" skips or renumbers pages.
+ */
+function isLaterPage(current: URL, candidate: URL): boolean {
+  return getBasePath(candidate) === getBasePath(current) && getPageNumber(candidate) > getPageNumber(current);
+}
+
+/**
+ * Find the next page of an article
+ * Prefers explicit rel="next" links, then falls back to ?page=N+1 / /page/N+1 anchors.
+ * Only same-site links to a later page of the same path are followed - many blog themes
+ * put rel="next" on the "next post" link, which is a different article.
+ */
+export function findNextPageUrl(html: string, pageUrl: string): string | null {
+  if (!html) return null;
+
+  let doc: Document;
+  let current: URL;
+  try {
+    doc = new JSDOM(html, { url: pageUrl }).window.document;
+    current = new URL(pageUrl);
+  } catch {
+    return null;
+  }
+
+  const resolve = (href: string | null): URL | null => {
+    if (!href) return null;
+    try {
+      const resolved = new URL(href.trim(), pageUrl);
+      if (resolved.protocol !== "http:" && resolved.protocol !== "https:") return null;
+      if (resolved.hostname !== current.hostname) return null;
+      resolved.hash = "";
+      return resolved;
+    } catch {
+      return null;
+    }
+  };
+
+  const relNextLinks = Array.from(doc.querySelectorAll('link[rel~="next"][href], a[rel~="next"][href]'));
+  for (const link of relNextLinks) {
+    const candidate = resolve(link.getAttribute("href"));
+    if (candidate && (isFollowingPage(current, candidate) || isLaterPage(current, candidate))) {
+      return candidate.toString();
+    }
+  }
+
+  const anchors = Array.from(doc.querySelectorAll("a[href]"));
+  for (const anchor of anchors) {
+    const candidate = resolve(anchor.getAttribute("href"));
+    if (candidate && isFollowingPage(current, candidate)) {
+      return candidate.toString();
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Merge parsed pages into one article
+ * Metadata comes from the first page; page boundaries are marked with
+ * `<hr data-page-break="N">` so the reader can tell where each page starts.
+ */
+export function mergeArticlePages(pages: CachedArticle[]): CachedArticle {
+  const [first, ...rest] = pages;
+  if (rest.length === 0) return first;
+
+  const content = [
+    first.content,
+    ...rest.map((page, index) => {
+      const pageNumber = index + 2;
+      return `<hr data-page-break="${pageNumber}" aria-label="Page ${pageNumber}" />${page.content}`;
+    }),
+  ].join("\n");
+
+  const textContent = pages.map((page) => page.textContent).join("\n\n");
+
+  return {
+    ...first,
+    content,
+    textContent,
+    length: textContent.length,
+    byline: first.byline || rest.find((page) => page.byline)?.byline,
+    publishedTime: first.publishedTime || rest.find((page) => page.publishedTime)?.publishedTime,
+    image: first.image || rest.find((page) => page.image)?.image,
+    // Only the last page can end in a paywall teaser
+    truncated: pages[pages.length - 1].truncated,
+  };
+}
@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { isPdfContentType, looksLikePdf, parsePdfToArticle } from "./pdf";
+
+/**
+ * Minimal single-font PDF with one content stream per page
+ */
+function buildPdf(pages: string[], info?: string): Uint8Array {
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${4 + i * 2} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+  ];
+  pages.forEach((stream, i) => {
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + i * 2} 0 R >>`);
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+  if (info) objects.push(info);
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((body, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R${info ? ` /Info ${objects.length} 0 R` : ""} >>\nstartxref\n${xref}\n%%EOF`;
+  return new TextEncoder().encode(pdf);
+}
+
+const text = (size: number, x: number, y: number, line: string) => `BT /F1 ${size} Tf ${x} ${y} Td (${line}) Tj ET`;
+
+const REPORT_PAGES = [
+  [
+    text(24, 72, 720, "Annual Report"),
+    text(11, 72, 690, "The committee reviewed the budget and found the spend-"),
+    text(11, 72, 676, "ing within limits for the year."),
+    text(11, 72, 640, "A second paragraph starts after a gap."),
+    text(11, 300, 40, "1"),
+  ].join("\n"),
+  [
+    text(14, 72, 720, "Findings"),
+    text(11, 72, 700, "Revenue grew & costs fell <slightly>."),
+    text(11, 300, 40, "2"),
+  ].join("\n"),
+];
+
+describe("PDF detection", () => {
+  it("recognises PDF content types and magic bytes", () => {
+    expect(isPdfContentType("application/pdf; qs=0.9")).toBe(true);
+    expect(isPdfContentType("text/html")).toBe(false);
+    expect(looksLikePdf(new TextEncoder().encode("%PDF-1.7"))).toBe(true);
+    expect(looksLikePdf(new TextEncoder().encode("<html>"))).toBe(false);
+  });
+});
+
+describe("parsePdfToArticle", () => {
+  it("rebuilds headings, paragraphs and page breaks", async () => {
+    const article = await parsePdfToArticle(buildPdf(REPORT_PAGES), "https://example.gov/reports/annual-report.pdf");
+
+    expect(article).not.toBeNull();
+    expect(article!.title).toBe("Annual Report");
+    expect(article!.siteName).toBe("example.gov");
+    expect(article!.content).toBe([
+      "<p>The committee reviewed the budget and found the spending within limits for the year.</p>",
+      "<p>A second paragraph starts after a gap.</p>",
+      '<hr data-page-break="2" aria-label="Page 2" />',
+      "<h3>Findings</h3>",
+      "<p>Revenue grew &amp; costs fell &lt;slightly&gt;.</p>",
+    ].join("\n"));
+    expect(article!.textContent).not.toContain("Annual Report");
+    expect(article!.length).toBe(article!.textContent.length);
+    expect(article!.htmlContent).toBe(article!.content);
+  });
+
+  it("prefers document metadata for title, author and date", async () => {
+    const info = "<< /Title (Budget Review 2024) /Author (Finance Office) /CreationDate (D:20240301103000Z) >>";
+    const article = await parsePdfToArticle(buildPdf(REPORT_PAGES, info), "https://example.gov/a.pdf");
+
+    expect(article!.title).toBe("Budget Review 2024");
+    expect(article!.byline).toBe("Finance Office");
+    expect(article!.publishedTime).toBe("2024-03-01T10:30:00.000Z");
+    expect(article!.content).toStartWith("<h2>Annual Report</h2>");
+  });
+
+  describe("page limit", () => {
+    const originalMaxPages = process.env.PDF_MAX_PAGES;
+    afterEach(() => {
+      if (originalMaxPages === undefined) delete process.env.PDF_MAX_PAGES;
+      else process.env.PDF_MAX_PAGES = originalMaxPages;
+    });
+
+    it("only reads pages up to PDF_MAX_PAGES and notes the rest", async () => {
+      process.env.PDF_MAX_PAGES = "1";
+      const article = await parsePdfToArticle(buildPdf(REPORT_PAGES), "https://example.gov/reports/annual-report.pdf");
+
+      expect(article!.textContent).not.toContain("Revenue grew");
+      expect(article!.content).toEndWith("<em>Showing the first 1 of 2 pages.</em></p>");
+      expect(article!.truncated).toBeUndefined();
+    });
+  });
+
+  it("returns null for PDFs without a text layer and for invalid data", async () => {
+    expect(await parsePdfToArticle(buildPdf([""]), "https://example.gov/scan.pdf")).toBeNull();
+    expect(await parsePdfToArticle(new TextEncoder().encode("not a pdf"), "https://example.gov/x.pdf")).toBeNull();
+  });
+});
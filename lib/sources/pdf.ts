@@ -0,0 +1,307 @@
+import { getDocumentProxy, getMeta } from "unpdf";
+import { createLogger } from "@/lib/logger";
+import { getTextDirection } from "@/lib/rtl";
+import { sanitizeText } from "@/lib/sanitize-ads";
+import { CachedArticle, CachedArticleSchema } from "./shared";
+
+const logger = createLogger('lib:sources:pdf');
+
+/**
+ * PDF documents as articles
+ *
+ * Reports, filings and papers served as application/pdf are turned into the same
+ * CachedArticle shape Readability produces, so they cache, summarize and read aloud
+ * like any page. Text is extracted in-process with pdf.js (via unpdf) - no external service.
+ *
+ * Structure is rebuilt from the text layer: lines are grouped by baseline, lines set
+ * noticeably larger than the body text become headings, and vertical gaps split paragraphs.
+ */
+
+const DEFAULT_PDF_MAX_BYTES = 25 * 1024 * 1024;
+const DEFAULT_PDF_MAX_PAGES = 200;
+
+// Lines this much larger than the body text are headings
+const HEADING_SCALE = 1.15;
+const MAJOR_HEADING_SCALE = 1.5;
+const MAX_HEADING_LENGTH = 200;
+
+const PDF_CONTENT_TYPES = ["application/pdf", "application/x-pdf"];
+
+// "12", "Page 3", "3 of 10", "- 4 -"
+const PAGE_NUMBER_LINE = /^[\s\-–]*(page\s+)?\d+(\s*(of|\/)\s*\d+)?[\s\-–]*$/i;
+
+/** A text run with its position, like unpdf's StructuredTextItem */
+interface PdfTextItem {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+}
+
+type PdfDocument = Awaited<ReturnType<typeof getDocumentProxy>>;
+
+interface PdfLine {
+  text: string;
+  fontSize: number;
+  y: number;
+}
+
+type PdfBlock =
+  | { type: "heading"; level: 2 | 3; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "page-break"; page: number };
+
+export function getMaxPdfBytes(): number {
+  const parsed = parseInt(process.env.PDF_MAX_BYTES || "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_PDF_MAX_BYTES;
+}
+
+function getMaxPdfPages(): number {
+  const parsed = parseInt(process.env.PDF_MAX_PAGES || "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_PDF_MAX_PAGES;
+}
+
+export function isPdfContentType(contentType: string | null): boolean {
+  if (!contentType) return false;
+  return PDF_CONTENT_TYPES.includes(contentType.split(";")[0].trim().toLowerCase());
+}
+
+/**
+ * "%PDF-" magic - for servers that send PDFs as application/octet-stream
+ */
+export function looksLikePdf(bytes: Uint8Array): boolean {
+  return bytes.length > 4 && bytes[0] === 0x25 && bytes[1] === 0x50 && bytes[2] === 0x44 && bytes[3] === 0x46 && bytes[4] === 0x2d;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Text runs of one page (pdf.js getTextContent, positioned the way unpdf's extractTextItems does)
+ * Pages are read one at a time so PDF_MAX_PAGES bounds the work, not just the output.
+ */
+async function readPageItems(doc: PdfDocument, pageNumber: number): Promise<PdfTextItem[]> {
+  const page = await doc.getPage(pageNumber);
+  try {
+    const content = await page.getTextContent();
+    return content.items.flatMap((item) => {
+      if (!("str" in item) || item.str == null) return [];
+      const [, , c, d, x, y] = item.transform;
+      return [{ str: item.str, x, y, width: item.width, fontSize: Math.hypot(c, d) }];
+    });
+  } finally {
+    page.cleanup();
+  }
+}
+
+/**
+ * Group a page's text items into lines by baseline
+ */
+function groupLines(items: PdfTextItem[]): PdfLine[] {
+  const lines: PdfLine[] = [];
+  let current: (PdfLine & { end: number }) | null = null;
+
+  for (const item of items) {
+    if (!item.str.trim()) continue;
+
+    const sameLine = current && Math.abs(current.y - item.y) <= Math.max(current.fontSize, item.fontSize) * 0.5;
+    if (current && sameLine) {
+      // pdf.js splits runs wherever the font changes; add the space the layout implies
+      const gap = item.x - current.end;
+      const needsSpace = gap > item.fontSize * 0.15 && !current.text.endsWith(" ") && !item.str.startsWith(" ");
+      current.text += (needsSpace ? " " : "") + item.str;
+      current.fontSize = Math.max(current.fontSize, item.fontSize);
+      current.end = item.x + item.width;
+      continue;
+    }
+
+    if (current) lines.push(current);
+    current = { text: item.str, fontSize: item.fontSize, y: item.y, end: item.x + item.width };
+  }
+  if (current) lines.push(current);
+
+  return lines
+    .map(({ text, fontSize, y }) => ({ text: text.replace(/\s+/g, " ").trim(), fontSize, y }))
+    .filter((line) => line.text && !PAGE_NUMBER_LINE.test(line.text));
+}
+
+/**
+ * Most common font size, weighted by characters - the body text size
+ */
+function findBodyFontSize(pages: PdfLine[][]): number {
+  const weights = new Map<number, number>();
+  pages.flat().forEach((line) => {
+    const size = Math.round(line.fontSize * 2) / 2;
+    weights.set(size, (weights.get(size) ?? 0) + line.text.length);
+  });
+
+  let bodySize = 0;
+  let bestWeight = -1;
+  weights.forEach((weight, size) => {
+    if (weight > bestWeight) {
+      bodySize = size;
+      bestWeight = weight;
+    }
+  });
+  return bodySize;
+}
+
+/**
+ * Join wrapped lines, undoing end-of-line hyphenation ("exam-" + "ple" -> "example")
+ */
+function joinLines(previous: string, next: string): string {
+  if (/[a-z]-$/.test(previous) && /^[a-z]/.test(next)) {
+    return previous.slice(0, -1) + next;
+  }
+  return `${previous} ${next}`;
+}
+
+function buildBlocks(pages: PdfLine[][], bodySize: number): PdfBlock[] {
+  const blocks: PdfBlock[] = [];
+
+  pages.forEach((lines, pageIndex) => {
+    if (pageIndex > 0) blocks.push({ type: "page-break", page: pageIndex + 1 });
+
+    let previous: PdfLine | null = null;
+    for (const line of lines) {
+      const isHeading = line.fontSize >= bodySize * HEADING_SCALE && line.text.length <= MAX_HEADING_LENGTH;
+      const last = blocks[blocks.length - 1];
+      const gap = previous ? previous.y - line.y : Infinity;
+      const sameSize = previous && Math.abs(previous.fontSize - line.fontSize) < 0.5;
+
+      if (isHeading) {
+        const level = line.fontSize >= bodySize * MAJOR_HEADING_SCALE ? 2 : 3;
+        // Headings that wrap onto a second line
+        if (last?.type === "heading" && sameSize && gap <= line.fontSize * 1.6) {
+          last.text = joinLines(last.text, line.text);
+        } else {
+          blocks.push({ type: "heading", level, text: line.text });
+        }
+      } else if (last?.type === "paragraph" && sameSize && gap > 0 && gap <= line.fontSize * 1.8) {
+        last.text = joinLines(last.text, line.text);
+      } else {
+        blocks.push({ type: "paragraph", text: line.text });
+      }
+
+      previous = line;
+    }
+  });
+
+  return blocks;
+}
+
+function renderBlocks(blocks: PdfBlock[]): string {
+  return blocks.map((block) => {
+    switch (block.type) {
+      case "heading":
+        return `<h${block.level}>${escapeHtml(block.text)}</h${block.level}>`;
+      case "paragraph":
+        return `<p>${escapeHtml(block.text)}</p>`;
+      case "page-break":
+        return `<hr data-page-break="${block.page}" aria-label="Page ${block.page}" />`;
+    }
+  }).join("\n");
+}
+
+/**
+ * PDF date strings look like "D:20240301103000+01'00'"
+ */
+function parsePdfDate(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const match = value.match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?/);
+  if (!match) return null;
+
+  const [, year, month = "01", day = "01", hour = "00", minute = "00", second = "00"] = match;
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}Z`);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function titleFromUrl(url: string): string | null {
+  try {
+    const fileName = decodeURIComponent(new URL(url).pathname.split("/").pop() || "");
+    return fileName.replace(/\.pdf$/i, "").replace(/[-_]+/g, " ").trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+function metaString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Extract a PDF into a CachedArticle, or null if it has no text layer (scanned images)
+ */
+export async function parsePdfToArticle(bytes: Uint8Array, url: string): Promise<CachedArticle | null> {
+  try {
+    const doc = await getDocumentProxy(bytes);
+
+    try {
+      const { info, metadata } = await getMeta(doc);
+      const totalPages = doc.numPages;
+      const maxPages = getMaxPdfPages();
+      const pageCount = Math.min(totalPages, maxPages);
+
+      const pages: PdfLine[][] = [];
+      for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+        pages.push(groupLines(await readPageItems(doc, pageNumber)));
+      }
+      const bodySize = findBodyFontSize(pages);
+      const blocks = buildBlocks(pages, bodySize);
+
+      if (!blocks.some((block) => block.type !== "page-break")) {
+        logger.warn({ source: "pdf", totalPages }, 'PDF has no extractable text');
+        return null;
+      }
+
+      // Prefer document metadata; otherwise promote the first heading to the title
+      let title = metaString(info?.Title) || metaString(metadata?.get?.("dc:title"));
+      const [firstBlock] = blocks;
+      if (!title && firstBlock?.type === "heading") {
+        title = firstBlock.text;
+        blocks.shift();
+      }
+      title ||= titleFromUrl(url) || "Untitled";
+
+      const textBlocks = blocks.filter((block) => block.type !== "page-break");
+      let content = renderBlocks(blocks);
+      const textContent = textBlocks.map((block) => block.text).join("\n\n");
+      const lang = metaString(info?.Language);
+
+      // Not `truncated` - that means a paywall teaser, and every source would stop at the same page
+      if (totalPages > maxPages) {
+        logger.info({ source: "pdf", totalPages, maxPages }, 'PDF truncated to page limit');
+        content += `\n<p data-pdf-page-limit=""><em>Showing the first ${maxPages} of ${totalPages} pages.</em></p>`;
+      }
+
+      const articleCandidate: CachedArticle = {
+        title,
+        content,
+        textContent: sanitizeText(textContent),
+        length: textContent.length,
+        siteName: new URL(url).hostname,
+        byline: metaString(info?.Author),
+        publishedTime: parsePdfDate(info?.CreationDate),
+        image: null,
+        // No original HTML exists - the generated markup doubles as htmlContent so cache hits work
+        htmlContent: content,
+        lang,
+        dir: getTextDirection(lang, textContent),
+      };
+
+      const validation = CachedArticleSchema.safeParse(articleCandidate);
+      return validation.success ? validation.data : null;
+    } finally {
+      await doc.loadingTask.destroy().catch(() => { });
+    }
+  } catch (error) {
+    logger.warn({ source: "pdf", error: error instanceof Error ? error.message : String(error) }, 'PDF parsing failed');
+    return null;
+  }
+}
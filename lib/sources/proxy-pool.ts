@@ -0,0 +1,260 @@
+import type { Agent } from "http";
+import { HttpsProxyAgent } from "https-proxy-agent";
+import { SocksProxyAgent } from "socks-proxy-agent";
+import { createLogger } from "@/lib/logger";
+
+const logger = createLogger('lib:sources:proxy-pool');
+
+/**
+ * Outbound proxy pool
+ *
+ * Routes direct-fetch sources through HTTP(S)/SOCKS proxies so a single server IP
+ * doesn't get banned. Configured with:
+ * - OUTBOUND_PROXIES: comma/space separated proxy URLs (http://, https://, socks4://, socks5://)
+ * - OUTBOUND_PROXY_MODE: "round-robin" (default) or "sticky" (same proxy per domain)
+ * - OUTBOUND_PROXY_SOURCES: sources that use the pool (default: fetch-fast,wayback,archive-today,browser)
+ * - OUTBOUND_PROXY_BENCH_SECONDS: base bench time after a failure (default: 600)
+ *
+ * A 403/429 benches the proxy for that domain only (the site banned that IP);
+ * timeouts and connection errors bench it for every domain. Bench time doubles with
+ * each consecutive strike (up to 8x) and strikes reset on the next success.
+ */
+
+export type ProxySelectionMode = "round-robin" | "sticky";
+
+export type ProxyFailureReason = "blocked" | "rate_limited" | "timeout" | "error";
+
+const DEFAULT_PROXY_SOURCES = ["fetch-fast", "wayback", "archive-today", "browser"];
+const DEFAULT_BENCH_SECONDS = 600;
+const MAX_BENCH_MULTIPLIER = 8;
+
+export interface ProxyLease {
+  /** Proxy URL without credentials - safe to log */
+  id: string;
+  /** Position in the pool - what outcomes are recorded against */
+  index: number;
+  agent: Agent;
+  /** Full proxy URL, credentials included - for clients that can't take an agent (browser); never log */
+  url: string;
+}
+
+export interface ProxyHealth {
+  id: string;
+  healthy: boolean;
+  successes: number;
+  failures: number;
+  /** ISO time the global bench ends, if benched for all domains */
+  benchedUntil?: string;
+  /** Domains this proxy is currently benched for */
+  benchedHosts: string[];
+}
+
+interface ProxyState {
+  id: string;
+  url: string;
+  agent: Agent | null;
+  successes: number;
+  failures: number;
+  strikes: number;
+  benchedUntil: number;
+  benchedHosts: Map<string, number>;
+}
+
+export interface ProxyPoolOptions {
+  mode?: ProxySelectionMode;
+  benchMs?: number;
+  /** Injected for tests */
+  now?: () => number;
+}
+
+/**
+ * Strip credentials so proxy URLs can go to logs and debug context
+ */
+export function redactProxyUrl(proxyUrl: string): string {
+  try {
+    const parsed = new URL(proxyUrl);
+    return `${parsed.protocol}//${parsed.host}`;
+  } catch {
+    return "invalid-proxy-url";
+  }
+}
+
+function createProxyAgent(proxyUrl: string): Agent {
+  if (/^socks[45]?h?:\/\//i.test(proxyUrl)) {
+    return new SocksProxyAgent(proxyUrl);
+  }
+  return new HttpsProxyAgent(proxyUrl, { keepAlive: true });
+}
+
+function hashHostname(hostname: string): number {
+  let hash = 0;
+  for (let i = 0; i < hostname.length; i++) {
+    hash = (hash * 31 + hostname.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+export function createProxyPool(proxyUrls: string[], options: ProxyPoolOptions = {}) {
+  const mode = options.mode ?? "round-robin";
+  const benchMs = options.benchMs ?? DEFAULT_BENCH_SECONDS * 1000;
+  const now = options.now ?? Date.now;
+
+  // Proxies that differ only in credentials redact to the same URL - number the repeats
+  const seenIds = new Map<string, number>();
+  const proxies: ProxyState[] = proxyUrls.map((url) => {
+    const redacted = redactProxyUrl(url);
+    const seen = (seenIds.get(redacted) ?? 0) + 1;
+    seenIds.set(redacted, seen);
+    return {
+      id: seen > 1 ? `${redacted}#${seen}` : redacted,
+      url,
+      agent: null,
+      successes: 0,
+      failures: 0,
+      strikes: 0,
+      benchedUntil: 0,
+      benchedHosts: new Map(),
+    };
+  });
+  let cursor = 0;
+
+  const isAvailable = (proxy: ProxyState, hostname: string) => {
+    const time = now();
+    return proxy.benchedUntil <= time && (proxy.benchedHosts.get(hostname) ?? 0) <= time;
+  };
+
+  const benchDurationMs = (proxy: ProxyState) =>
+    benchMs * Math.min(2 ** (proxy.strikes - 1), MAX_BENCH_MULTIPLIER);
+
+  const getHealth = (): ProxyHealth[] => {
+    const time = now();
+    return proxies.map((proxy) => {
+      const benchedHosts = Array.from(proxy.benchedHosts.entries())
+        .filter(([, until]) => until > time)
+        .map(([host]) => host);
+      return {
+        id: proxy.id,
+        healthy: proxy.benchedUntil <= time,
+        successes: proxy.successes,
+        failures: proxy.failures,
+        benchedUntil: proxy.benchedUntil > time ? new Date(proxy.benchedUntil).toISOString() : undefined,
+        benchedHosts,
+      };
+    });
+  };
+
+  // By position, not id: the id is only a log label
+  const findState = (lease: ProxyLease): ProxyState | undefined => {
+    const proxy = proxies[lease.index];
+    return proxy?.url === lease.url ? proxy : undefined;
+  };
+
+  return {
+    mode,
+    size: proxies.length,
+
+    /**
+     * Pick a proxy for a request to `hostname`, or null when every proxy is benched for it
+     */
+    acquire(hostname: string): ProxyLease | null {
+      if (proxies.length === 0) return null;
+
+      const start = mode === "sticky" ? hashHostname(hostname) % proxies.length : cursor;
+      for (let offset = 0; offset < proxies.length; offset++) {
+        const index = (start + offset) % proxies.length;
+        const proxy = proxies[index];
+        if (!isAvailable(proxy, hostname)) continue;
+
+        if (mode === "round-robin") {
+          cursor = (index + 1) % proxies.length;
+        }
+        proxy.agent ??= createProxyAgent(proxy.url);
+        return { id: proxy.id, index, agent: proxy.agent, url: proxy.url };
+      }
+
+      logger.warn({ hostname, mode, health: getHealth() }, 'All outbound proxies benched for host');
+      return null;
+    },
+
+    reportSuccess(lease: ProxyLease): void {
+      const proxy = findState(lease);
+      if (!proxy) return;
+
+      proxy.successes++;
+      if (proxy.strikes > 0) {
+        logger.info({ proxy: proxy.id }, 'Outbound proxy recovered');
+      }
+      proxy.strikes = 0;
+    },
+
+    reportFailure(lease: ProxyLease, hostname: string, reason: ProxyFailureReason): void {
+      const proxy = findState(lease);
+      if (!proxy) return;
+
+      proxy.failures++;
+      proxy.strikes++;
+      const until = now() + benchDurationMs(proxy);
+
+      // The site banned this IP - other sites may still accept it
+      if (reason === "blocked" || reason === "rate_limited") {
+        proxy.benchedHosts.set(hostname, until);
+      } else {
+        proxy.benchedUntil = until;
+      }
+
+      const health = getHealth();
+      logger.warn({
+        proxy: proxy.id,
+        hostname,
+        reason,
+        strikes: proxy.strikes,
+        benchedFor: reason === "blocked" || reason === "rate_limited" ? hostname : "all hosts",
+        benchedUntil: new Date(until).toISOString(),
+        healthyProxies: health.filter((entry) => entry.healthy).length,
+        totalProxies: health.length,
+      }, 'Outbound proxy benched');
+    },
+
+    getHealth,
+  };
+}
+
+export type ProxyPool = ReturnType<typeof createProxyPool>;
+
+let pool: ProxyPool | null = null;
+
+/**
+ * Process-wide pool built from OUTBOUND_PROXIES (empty pool when unset)
+ */
+export function getProxyPool(): ProxyPool {
+  if (!pool) {
+    const proxyUrls = (process.env.OUTBOUND_PROXIES || "")
+      .split(/[\s,]+/)
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+    const mode: ProxySelectionMode = process.env.OUTBOUND_PROXY_MODE === "sticky" ? "sticky" : "round-robin";
+    const benchSeconds = parseInt(process.env.OUTBOUND_PROXY_BENCH_SECONDS || "", 10);
+
+    pool = createProxyPool(proxyUrls, {
+      mode,
+      benchMs: (Number.isFinite(benchSeconds) && benchSeconds > 0 ? benchSeconds : DEFAULT_BENCH_SECONDS) * 1000,
+    });
+
+    if (pool.size > 0) {
+      logger.info({ proxies: pool.getHealth().map((entry) => entry.id), mode }, 'Outbound proxy pool configured');
+    }
+  }
+
+  return pool;
+}
+
+/**
+ * Whether a source should route its requests through the pool
+ */
+export function isProxiedSource(source: string): boolean {
+  const configured = process.env.OUTBOUND_PROXY_SOURCES;
+  const sources = configured
+    ? configured.split(",").map((entry) => entry.trim()).filter(Boolean)
+    : DEFAULT_PROXY_SOURCES;
+  return sources.includes(source);
+}
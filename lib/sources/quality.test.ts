@@ -0,0 +1,82 @@
+import { describe, expect, it } from "bun:test";
+import { assessQuality, calculateQuality, fillMissingFields, QualityInput, rankArticles } from "./quality";
+
+const paragraph = "The committee met on Tuesday to review the proposal in detail. ";
+const body = paragraph.repeat(40).trim();
+
+describe("assessQuality", () => {
+  it("scores text length plus metadata bonuses", () => {
+    const plain = calculateQuality({ textContent: body });
+    const withMeta = calculateQuality({ textContent: body, byline: "A. Writer", publishedTime: "2024-01-01", image: "https://example.com/a.jpg" });
+    expect(plain).toBe(body.length);
+    expect(withMeta).toBe(body.length + 250);
+  });
+
+  it("halves the score of paywall teasers", () => {
+    const teaser = `${body}\n\nSubscribe to continue reading this story.`;
+    const quality = assessQuality({ textContent: teaser });
+    expect(quality.truncated).toBe(true);
+    expect(quality.score).toBe(Math.round(teaser.length / 2));
+  });
+
+  it("treats a trailing ellipsis as truncation", () => {
+    expect(assessQuality({ textContent: `${body} And then the chair said…` }).truncated).toBe(true);
+  });
+
+  it("ignores teaser phrases outside the tail", () => {
+    const text = `Continue reading below for the full timeline.\n\n${body}`;
+    expect(assessQuality({ textContent: text }).truncated).toBe(false);
+  });
+
+  it("discounts boilerplate lines", () => {
+    const text = `${body}\nAdvertisement\nSign up for our newsletter today\nAll rights reserved 2024`;
+    const quality = assessQuality({ textContent: text });
+    expect(quality.boilerplateRatio).toBeGreaterThan(0);
+    expect(quality.score).toBeLessThan(text.length);
+  });
+
+  it("discounts link-heavy content", () => {
+    const links = Array.from({ length: 30 }, (_, i) => `<a href="/story-${i}">Another headline number ${i}</a>`).join(" ");
+    const linky = assessQuality({ textContent: body, content: `<p>${body}</p><ul>${links}</ul>` });
+    const clean = assessQuality({ textContent: body, content: `<p>${body}</p>` });
+    expect(linky.boilerplateRatio).toBeGreaterThan(0.2);
+    expect(linky.score).toBeLessThan(clean.score);
+  });
+});
+
+describe("rankArticles", () => {
+  it("puts a complete article ahead of a longer truncated one", () => {
+    const ranked = rankArticles([
+      { source: "fetch-fast", article: { textContent: `${body} ${paragraph.repeat(10)}\n\nAlready a subscriber? Sign in` } },
+      { source: "wayback", article: { textContent: body } },
+    ]);
+    expect(ranked.map((candidate) => candidate.source)).toEqual(["wayback", "fetch-fast"]);
+    expect(ranked[1].quality.truncated).toBe(true);
+  });
+
+  it("keeps input order on ties", () => {
+    const ranked = rankArticles([
+      { source: "fetch-fast", article: { textContent: body } },
+      { source: "fetch-slow", article: { textContent: body } },
+    ]);
+    expect(ranked[0].source).toBe("fetch-fast");
+  });
+});
+
+describe("fillMissingFields", () => {
+  it("copies missing metadata from the best runner-up that has it", () => {
+    const winner: QualityInput = { textContent: body, byline: "Winner Byline", image: null, publishedTime: null };
+    const { article, filledFrom } = fillMissingFields(
+      winner,
+      [
+        { source: "fetch-slow", article: { textContent: "", image: "https://example.com/a.jpg" } },
+        { source: "wayback", article: { textContent: "", image: "https://example.com/b.jpg", publishedTime: "2024-03-01" } },
+      ]
+    );
+
+    expect(article.byline).toBe("Winner Byline");
+    expect(article.image).toBe("https://example.com/a.jpg");
+    expect(article.publishedTime).toBe("2024-03-01");
+    expect(filledFrom).toEqual({ image: "fetch-slow", publishedTime: "wayback" });
+  });
+});
@@ -0,0 +1,141 @@
+import { detectTruncation } from "@/lib/paywall";
+
+/**
+ * Article quality scoring and cross-source ranking
+ *
+ * Used by fetch-fast to pick between strategies/variants, by /api/article/best to
+ * rank sources server-side, and by the proxy page to open on the best tab - so it
+ * stays free of server-only dependencies (plain string heuristics, no DOM).
+ */
+
+/** Fields the score looks at - satisfied by both CachedArticle and the API Article */
+export interface QualityInput {
+  textContent: string;
+  content?: string;
+  byline?: string | null;
+  publishedTime?: string | null;
+  image?: string | null;
+  /** Set by the source when it checked the page (see lib/paywall.ts) */
+  truncated?: boolean;
+}
+
+export interface QualityBreakdown {
+  /** Higher = better */
+  score: number;
+  /** Looks cut off (paywall teaser, abrupt ending - see lib/paywall.ts) */
+  truncated: boolean;
+  /** Share of the text that is navigation, links or promo boilerplate (0-1) */
+  boilerplateRatio: number;
+}
+
+// Lines that are page chrome rather than article text
+const BOILERPLATE_LINE_PATTERNS = [
+  /^advertisement$/i,
+  /^(share|tweet|email|print)( this( article| story)?)?$/i,
+  /^(related|recommended|more from|most (read|popular)|read more|see also)\b/i,
+  /\b(sign up|subscribe) (for|to) (our|the) newsletter\b/i,
+  /\bwe use cookies\b|\bcookie (policy|settings|preferences)\b/i,
+  /\ball rights reserved\b/i,
+  /^follow us\b/i,
+];
+
+const TRUNCATION_PENALTY = 0.5;
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, "");
+}
+
+function measureBoilerplate(article: QualityInput): number {
+  const text = article.textContent;
+  if (!text.trim()) return 1;
+
+  const boilerplateChars = text
+    .split(/\n+/)
+    .map((line) => line.trim())
+    .filter((line) => line && BOILERPLATE_LINE_PATTERNS.some((pattern) => pattern.test(line)))
+    .reduce((sum, line) => sum + line.length, 0);
+
+  // Link density: text inside <a> vs all text - link lists and nav menus score high
+  let linkDensity = 0;
+  if (article.content) {
+    const linkText = Array.from(article.content.matchAll(/<a\b[^>]*>([\s\S]*?)<\/a>/gi))
+      .reduce((sum, match) => sum + stripTags(match[1]).trim().length, 0);
+    const allText = stripTags(article.content).replace(/\s+/g, " ").trim().length;
+    linkDensity = allText > 0 ? linkText / allText : 0;
+  }
+
+  return Math.min(1, boilerplateChars / text.length + linkDensity);
+}
+
+/**
+ * Score an article: text length minus boilerplate, a bonus per metadata field,
+ * halved when it looks truncated
+ */
+export function assessQuality(article: QualityInput): QualityBreakdown {
+  const boilerplateRatio = measureBoilerplate(article);
+  // Sources that saw the page HTML (JSON-LD) already decided; otherwise check the text
+  const truncated = article.truncated ?? detectTruncation({ textContent: article.textContent, content: article.content }).truncated;
+
+  // Primary: textContent length that isn't boilerplate
+  let score = article.textContent.length * (1 - boilerplateRatio);
+
+  // Bonus: has byline (+100)
+  if (article.byline) score += 100;
+
+  // Bonus: has publishedTime (+100)
+  if (article.publishedTime) score += 100;
+
+  // Bonus: has image (+50)
+  if (article.image) score += 50;
+
+  if (truncated) score *= TRUNCATION_PENALTY;
+
+  return {
+    score: Math.round(score),
+    truncated,
+    boilerplateRatio: Math.round(boilerplateRatio * 100) / 100,
+  };
+}
+
+/**
+ * Quality score only - higher is better
+ */
+export function calculateQuality(article: QualityInput): number {
+  return assessQuality(article).score;
+}
+
+/**
+ * Sort candidates best-first, attaching each one's quality breakdown
+ * Ties keep input order (callers pass sources in registry order).
+ */
+export function rankArticles<T extends { article: QualityInput }>(candidates: T[]): Array<T & { quality: QualityBreakdown }> {
+  return candidates
+    .map((candidate) => ({ ...candidate, quality: assessQuality(candidate.article) }))
+    .sort((a, b) => b.quality.score - a.quality.score);
+}
+
+const MERGEABLE_FIELDS = ["byline", "image", "publishedTime"] as const;
+export type MergeableField = (typeof MERGEABLE_FIELDS)[number];
+
+/**
+ * Fill the winner's missing byline/image/publishedTime from the runners-up (best first)
+ * Returns the merged article and which source each filled field came from.
+ */
+export function fillMissingFields<S, A extends QualityInput>(
+  winner: A,
+  runnersUp: Array<{ source: S; article: QualityInput }>
+): { article: A; filledFrom: Partial<Record<MergeableField, S>> } {
+  const article = { ...winner };
+  const filledFrom: Partial<Record<MergeableField, S>> = {};
+
+  for (const field of MERGEABLE_FIELDS) {
+    if (article[field]) continue;
+    const donor = runnersUp.find((candidate) => candidate.article[field]);
+    if (donor) {
+      article[field] = donor.article[field] as A[MergeableField];
+      filledFrom[field] = donor.source;
+    }
+  }
+
+  return { article, filledFrom };
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "bun:test";
+import {
+  SOURCE_REGISTRY,
+  SOURCES,
+  buildCacheKey,
+  getSourceDefinition,
+  isServerSource,
+} from "./registry";
+
+describe("source registry", () => {
+  it("exposes source ids in registry order", () => {
+    expect([...SOURCES]).toEqual(SOURCE_REGISTRY.map((definition) => definition.id));
+    expect(SOURCES[0]).toBe("fetch-fast");
+  });
+
+  it("has unique ids and cache key prefixes", () => {
+    const ids = SOURCE_REGISTRY.map((definition) => definition.id);
+    const prefixes = SOURCE_REGISTRY.map((definition) => definition.cacheKeyPrefix);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(new Set(prefixes).size).toBe(prefixes.length);
+  });
+
+  it("builds cache keys compatible with existing entries", () => {
+    const url = "https://example.com/article";
+    expect(buildCacheKey("fetch-fast", url)).toBe(`fetch-fast:${url}`);
+    expect(buildCacheKey("wayback", url)).toBe(`wayback:${url}`);
+    expect(buildCacheKey("jina.ai", url)).toBe(`jina.ai:${url}`);
+  });
+
+  it("builds source-specific cache URLs", () => {
+    const url = "https://example.com/article";
+    expect(getSourceDefinition("fetch-fast").getCacheURL(url)).toBe(url);
+    expect(getSourceDefinition("wayback").getCacheURL(url)).toBe(`https://web.archive.org/web/2/${url}`);
+    expect(getSourceDefinition("archive-today").getCacheURL(url)).toBe(`https://archive.ph/newest/${url}`);
+    expect(getSourceDefinition("jina.ai").getCacheURL(url)).toBe(`https://r.jina.ai/${url}`);
+  });
+
+  it("pins snapshots only for sources that support timestamps", () => {
+    const url = "https://example.com/article";
+    expect(getSourceDefinition("wayback").getCacheURL(url, "20240101120000")).toBe(`https://web.archive.org/web/20240101120000/${url}`);
+    expect(buildCacheKey("wayback", url, "20240101120000")).toBe(`wayback:20240101120000:${url}`);
+    expect(buildCacheKey("fetch-fast", url, "20240101120000")).toBe(`fetch-fast:${url}`);
+    expect(getSourceDefinition("fetch-fast").supportsTimestamp).toBeFalsy();
+  });
+
+  it("distinguishes server sources from client-triggered ones", () => {
+    expect(isServerSource("fetch-fast")).toBe(true);
+    expect(isServerSource("wayback")).toBe(true);
+    expect(isServerSource("archive-today")).toBe(true);
+    expect(isServerSource("browser")).toBe(true);
+    expect(getSourceDefinition("browser").autoFetch).toBe(false);
+    expect(isServerSource("jina.ai")).toBe(false);
+    expect(getSourceDefinition("jina.ai").autoFetch).toBe(false);
+  });
+});
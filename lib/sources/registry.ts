@@ -0,0 +1,144 @@
+/**
+ * Source registry
+ *
+ * Single place where extraction sources are declared. The API routes, the
+ * React Query hooks and the tab UI are all driven from this list, so adding a
+ * source means adding an entry here plus (for server sources) a fetcher in
+ * `lib/sources/server.ts`.
+ *
+ * This module is imported by client components - keep it free of server-only
+ * dependencies (JSDOM, Redis, etc.).
+ */
+
+/**
+ * Which API endpoint serves a source
+ * - "article": /api/article (server-side extraction, see lib/sources/server.ts)
+ * - "jina": /api/jina/fetch (keeps the Jina API key on the server)
+ */
+export type SourceEndpoint = "article" | "jina";
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+export interface SourceDefinition {
+  id: string;
+  /** Tab / share label */
+  label: string;
+  /** Compact label for mobile tabs */
+  shortLabel: string;
+  /** Redis key prefix - keys are `${cacheKeyPrefix}:${url}` */
+  cacheKeyPrefix: string;
+  /** How long a cached article counts as fresh (see lib/sources/cache-policy.ts; ARTICLE_CACHE_TTL overrides) */
+  cacheTtlSeconds: number;
+  /** Fetched in parallel on page load; otherwise only when its tab is opened */
+  autoFetch: boolean;
+  endpoint: SourceEndpoint;
+  /** URL shown in the iframe view and used for external links */
+  getCacheURL: (url: string, timestamp?: string) => string;
+  /** Accepts a snapshot `timestamp` (YYYYMMDDhhmmss prefix) to pin an archived capture */
+  supportsTimestamp?: boolean;
+  /** Label for the "open elsewhere" link in error states (omit to hide the link) */
+  fallbackLinkLabel?: string;
+}
+
+export const SOURCE_REGISTRY = [
+  {
+    id: "fetch-fast",
+    label: "Quick",
+    shortLabel: "Quick",
+    cacheKeyPrefix: "fetch-fast",
+    // Live page - picks up corrections and updates
+    cacheTtlSeconds: 1 * DAY,
+    autoFetch: true,
+    endpoint: "article",
+    getCacheURL: (url: string) => url,
+  },
+  {
+    id: "fetch-slow",
+    label: "Precise",
+    shortLabel: "Precise",
+    cacheKeyPrefix: "fetch-slow",
+    // Paid Diffbot calls
+    cacheTtlSeconds: 7 * DAY,
+    autoFetch: true,
+    endpoint: "article",
+    getCacheURL: (url: string) => url,
+  },
+  {
+    id: "wayback",
+    label: "Wayback",
+    shortLabel: "Wayback",
+    cacheKeyPrefix: "wayback",
+    cacheTtlSeconds: 90 * DAY,
+    autoFetch: true,
+    endpoint: "article",
+    // "2" resolves to the latest capture; a full or partial timestamp picks the closest one
+    getCacheURL: (url: string, timestamp?: string) => `https://web.archive.org/web/${timestamp || "2"}/${url}`,
+    supportsTimestamp: true,
+    fallbackLinkLabel: "Try archived version (archive.org)",
+  },
+  {
+    // Newest snapshot lookup is rate limited by archive.today, so only fetch on demand
+    id: "archive-today",
+    label: "Archive.today",
+    shortLabel: "Archive",
+    cacheKeyPrefix: "archive-today",
+    cacheTtlSeconds: 30 * DAY,
+    autoFetch: false,
+    endpoint: "article",
+    getCacheURL: (url: string) => `https://archive.ph/newest/${url}`,
+    fallbackLinkLabel: "Try archived version (archive.today)",
+  },
+  {
+    // Renders the page in a remote headless Chrome - slow and needs BROWSER_WS_ENDPOINT, so on demand only
+    id: "browser",
+    label: "Browser",
+    shortLabel: "Browser",
+    cacheKeyPrefix: "browser",
+    cacheTtlSeconds: 1 * DAY,
+    autoFetch: false,
+    endpoint: "article",
+    getCacheURL: (url: string) => url,
+  },
+  {
+    id: "jina.ai",
+    label: "Jina.ai",
+    shortLabel: "Jina",
+    cacheKeyPrefix: "jina.ai",
+    cacheTtlSeconds: 3 * DAY,
+    autoFetch: false,
+    endpoint: "jina",
+    getCacheURL: (url: string) => `https://r.jina.ai/${url}`,
+    fallbackLinkLabel: "Try reader view (jina.ai)",
+  },
+] as const satisfies readonly SourceDefinition[];
+
+type RegisteredSource = (typeof SOURCE_REGISTRY)[number];
+
+export type SourceId = RegisteredSource["id"];
+
+/** Sources extracted by /api/article */
+export type ServerSourceId = Extract<RegisteredSource, { endpoint: "article" }>["id"];
+
+/** All source ids, in tab order */
+export const SOURCES = SOURCE_REGISTRY.map((definition) => definition.id) as [SourceId, ...SourceId[]];
+
+export function getSourceDefinition(source: SourceId): SourceDefinition {
+  return SOURCE_REGISTRY.find((definition) => definition.id === source)!;
+}
+
+export function isServerSource(source: SourceId): source is ServerSourceId {
+  return getSourceDefinition(source).endpoint === "article";
+}
+
+/**
+ * Build the Redis cache key for a source + (normalized) article URL
+ * Pinned snapshots get their own key (`wayback:<timestamp>:<url>`) so they never overwrite the latest capture
+ */
+export function buildCacheKey(source: SourceId, url: string, timestamp?: string): string {
+  const definition = getSourceDefinition(source);
+  if (timestamp && definition.supportsTimestamp) {
+    return `${definition.cacheKeyPrefix}:${timestamp}:${url}`;
+  }
+  return `${definition.cacheKeyPrefix}:${url}`;
+}
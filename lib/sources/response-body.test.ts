@@ -0,0 +1,89 @@
+import { describe, expect, it } from "bun:test";
+import { decodeHtml, detectCharset, isHtmlContentType, readHtmlResponse } from "./response-body";
+
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.byteLength, 0));
+  let offset = 0;
+  parts.forEach((part) => {
+    bytes.set(part, offset);
+    offset += part.byteLength;
+  });
+  return bytes;
+}
+
+// "Привет" in windows-1251 and "日本" in Shift_JIS
+const CP1251_PRIVET = new Uint8Array([0xcf, 0xf0, 0xe8, 0xe2, 0xe5, 0xf2]);
+const SJIS_NIHON = new Uint8Array([0x93, 0xfa, 0x96, 0x7b]);
+
+function htmlResponse(body: Uint8Array, contentType: string | null = "text/html"): Response {
+  return new Response(body as Uint8Array<ArrayBuffer>, { headers: contentType ? { "Content-Type": contentType } : {} });
+}
+
+describe("isHtmlContentType", () => {
+  it("accepts HTML, XHTML and a missing header", () => {
+    expect(isHtmlContentType("text/html; charset=utf-8")).toBe(true);
+    expect(isHtmlContentType("application/xhtml+xml")).toBe(true);
+    expect(isHtmlContentType(null)).toBe(true);
+  });
+
+  it("rejects other types", () => {
+    expect(isHtmlContentType("application/pdf")).toBe(false);
+    expect(isHtmlContentType("image/png")).toBe(false);
+  });
+});
+
+describe("detectCharset", () => {
+  it("prefers the BOM over the header and meta", () => {
+    const bytes = concat(new Uint8Array([0xef, 0xbb, 0xbf]), ascii('<meta charset="windows-1251">'));
+    expect(detectCharset(bytes, "text/html; charset=shift_jis")).toBe("utf-8");
+  });
+
+  it("uses the Content-Type charset before meta", () => {
+    expect(detectCharset(ascii('<meta charset="windows-1251">'), 'text/html; charset="Shift_JIS"')).toBe("shift_jis");
+  });
+
+  it("reads <meta charset> and http-equiv declarations", () => {
+    expect(detectCharset(ascii('<head><meta charset="gb2312">'), "text/html")).toBe("gbk");
+    expect(detectCharset(ascii('<meta http-equiv="Content-Type" content="text/html; charset=windows-1251">'), null)).toBe("windows-1251");
+  });
+
+  it("ignores unknown labels and defaults to UTF-8", () => {
+    expect(detectCharset(ascii('<meta charset="not-a-charset">'), "text/html; charset=bogus")).toBe("utf-8");
+  });
+
+  it("treats a UTF-16 meta declaration as UTF-8", () => {
+    expect(detectCharset(ascii('<meta charset="utf-16">'), null)).toBe("utf-8");
+  });
+});
+
+describe("decodeHtml", () => {
+  it("decodes legacy encodings declared in meta", () => {
+    const bytes = concat(ascii('<meta charset="windows-1251"><p>'), CP1251_PRIVET, ascii("</p>"));
+    expect(decodeHtml(bytes, "text/html").html).toContain("<p>Привет</p>");
+  });
+
+  it("decodes encodings declared in the header", () => {
+    expect(decodeHtml(SJIS_NIHON, "text/html; charset=shift_jis").html).toBe("日本");
+  });
+});
+
+describe("readHtmlResponse", () => {
+  it("returns decoded HTML with its charset", async () => {
+    const result = await readHtmlResponse(htmlResponse(concat(ascii("<p>"), SJIS_NIHON), "text/html; charset=Shift_JIS"));
+    expect(result).toEqual({ html: "<p>日本", charset: "shift_jis", bytes: 7 });
+  });
+
+  it("refuses non-HTML content types", async () => {
+    expect(await readHtmlResponse(htmlResponse(ascii("%PDF-1.7"), "application/pdf"))).toEqual({
+      error: "Unsupported content type: application/pdf",
+      status: 415,
+    });
+  });
+
+  it("stops reading past the byte cap", async () => {
+    const result = await readHtmlResponse(htmlResponse(ascii("x".repeat(2048))), 1024);
+    expect(result).toEqual({ error: "Response larger than 1 KB", status: 413 });
+  });
+});
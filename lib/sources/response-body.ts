@@ -0,0 +1,177 @@
+import { getMaxPdfBytes, isPdfContentType, looksLikePdf } from "./pdf";
+
+/**
+ * Reading HTML responses for the direct-fetch sources
+ *
+ * - Streams the body with a byte cap instead of buffering whatever comes back
+ * - Refuses non-HTML content types with a readable reason
+ * - Decodes with the page's real charset (BOM, then Content-Type, then <meta>),
+ *   so Shift_JIS / windows-1251 / GB2312 pages don't reach Readability as mojibake
+ * - Hands PDFs back as bytes for pdf.ts (readDocumentResponse)
+ */
+
+const DEFAULT_MAX_RESPONSE_BYTES = 10 * 1024 * 1024;
+
+// How far into the document to look for <meta charset> (the HTML spec prescans 1024 bytes;
+// real pages often put a few KB of scripts/comments first)
+const META_PRESCAN_BYTES = 4096;
+
+const HTML_CONTENT_TYPES = ["text/html", "application/xhtml+xml"];
+
+export type HtmlBodyResult =
+  | { html: string; charset: string; bytes: number }
+  | { error: string; status: 413 | 415 };
+
+export type DocumentBodyResult = HtmlBodyResult | { pdf: Uint8Array; bytes: number };
+
+export function getMaxResponseBytes(): number {
+  const parsed = parseInt(process.env.FETCH_MAX_RESPONSE_BYTES || "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_MAX_RESPONSE_BYTES;
+}
+
+/**
+ * Missing Content-Type is allowed - plenty of servers omit it and Readability will
+ * reject anything that isn't a page
+ */
+export function isHtmlContentType(contentType: string | null): boolean {
+  if (!contentType) return true;
+  const mimeType = contentType.split(";")[0].trim().toLowerCase();
+  return HTML_CONTENT_TYPES.includes(mimeType);
+}
+
+/**
+ * Canonical encoding name for a charset label, or null if TextDecoder doesn't know it
+ */
+function normalizeCharset(label: string | null | undefined): string | null {
+  if (!label) return null;
+  try {
+    return new TextDecoder(label.trim().replace(/^["']|["']$/g, "")).encoding;
+  } catch {
+    return null;
+  }
+}
+
+function charsetFromBom(bytes: Uint8Array): string | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return "utf-8";
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be";
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le";
+  return null;
+}
+
+function charsetFromContentType(contentType: string | null): string | null {
+  const match = contentType?.match(/charset\s*=\s*("[^"]*"|'[^']*'|[^;\s]+)/i);
+  return normalizeCharset(match?.[1]);
+}
+
+function charsetFromMeta(bytes: Uint8Array): string | null {
+  // latin1 maps bytes 1:1, so ASCII markup reads correctly whatever the real encoding
+  const head = new TextDecoder("latin1").decode(bytes.subarray(0, META_PRESCAN_BYTES));
+  const metaTags = head.match(/<meta\b[^>]*>/gi) ?? [];
+
+  for (const tag of metaTags) {
+    // Covers <meta charset="x"> and <meta http-equiv="Content-Type" content="text/html; charset=x">
+    const match = tag.match(/charset\s*=\s*["']?\s*([\w.:-]+)/i);
+    const charset = normalizeCharset(match?.[1]);
+    if (charset) {
+      // A document that can declare its charset in ASCII isn't UTF-16 (HTML spec)
+      return charset.startsWith("utf-16") ? "utf-8" : charset;
+    }
+  }
+  return null;
+}
+
+/**
+ * Pick the encoding for an HTML document: BOM, then the Content-Type header, then <meta>, then UTF-8
+ */
+export function detectCharset(bytes: Uint8Array, contentType: string | null): string {
+  return charsetFromBom(bytes)
+    ?? charsetFromContentType(contentType)
+    ?? charsetFromMeta(bytes)
+    ?? "utf-8";
+}
+
+export function decodeHtml(bytes: Uint8Array, contentType: string | null): { html: string; charset: string } {
+  const charset = detectCharset(bytes, contentType);
+  return { html: new TextDecoder(charset).decode(bytes), charset };
+}
+
+/**
+ * Read a response body as bytes, giving up once it passes `maxBytes`
+ * Returns null when the cap was hit (the rest of the body is cancelled, not downloaded).
+ */
+export async function readBodyWithLimit(response: Response, maxBytes: number): Promise<Uint8Array | null> {
+  if (!response.body) return new Uint8Array(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel().catch(() => { });
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${Math.round(bytes / 1024 / 1024 * 10) / 10} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} bytes`;
+}
+
+/**
+ * Content-type check, capped streaming read and charset-aware decode in one step
+ */
+export async function readHtmlResponse(response: Response, maxBytes: number = getMaxResponseBytes()): Promise<HtmlBodyResult> {
+  const contentType = response.headers.get("content-type");
+
+  if (!isHtmlContentType(contentType)) {
+    await response.body?.cancel().catch(() => { });
+    return { error: `Unsupported content type: ${contentType!.split(";")[0].trim()}`, status: 415 };
+  }
+
+  const bytes = await readBodyWithLimit(response, maxBytes);
+  if (!bytes) {
+    return { error: `Response larger than ${formatBytes(maxBytes)}`, status: 413 };
+  }
+
+  return { ...decodeHtml(bytes, contentType), bytes: bytes.byteLength };
+}
+
+/**
+ * Like readHtmlResponse, but PDFs (by content type, or by magic bytes when served as
+ * application/octet-stream) come back as raw bytes under the larger PDF size cap
+ */
+export async function readDocumentResponse(response: Response): Promise<DocumentBodyResult> {
+  const contentType = response.headers.get("content-type");
+  const mimeType = contentType?.split(";")[0].trim().toLowerCase();
+
+  if (!isPdfContentType(contentType) && mimeType !== "application/octet-stream") {
+    return readHtmlResponse(response);
+  }
+
+  const maxBytes = getMaxPdfBytes();
+  const bytes = await readBodyWithLimit(response, maxBytes);
+  if (!bytes) {
+    return { error: `Document larger than ${formatBytes(maxBytes)}`, status: 413 };
+  }
+  if (!looksLikePdf(bytes)) {
+    return { error: `Unsupported content type: ${mimeType}`, status: 415 };
+  }
+
+  return { pdf: bytes, bytes: bytes.byteLength };
+}
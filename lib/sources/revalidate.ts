@@ -0,0 +1,52 @@
+import { cache } from "@/lib/cache";
+import { createLogger } from "@/lib/logger";
+import { extractArticleUrl } from "@/lib/validation/url";
+import { buildCacheKey, ServerSourceId } from "./registry";
+import { fetchArticle } from "./server";
+import { saveOrReturnLongerArticle } from "./article-cache";
+import { cacheExpirySeconds, getCachePolicy } from "./cache-policy";
+
+const logger = createLogger('lib:sources:revalidate');
+
+/**
+ * Background refresh of a stale cached article (stale-while-revalidate)
+ *
+ * Scheduled with `after()` once the stale copy has been sent. A short cooldown key keeps
+ * a popular stale article from being refetched by every reader - and a failing source from
+ * being retried on every request - while concurrent refreshes share one fetch (server.ts).
+ */
+
+const REVALIDATE_COOLDOWN_SECONDS = 10 * 60;
+
+/**
+ * Take the revalidation slot for a cache key - false while a recent one holds it
+ */
+export async function claimRevalidation(cacheKey: string): Promise<boolean> {
+  return cache.set(`revalidate:${cacheKey}`, Date.now(), { ex: REVALIDATE_COOLDOWN_SECONDS, nx: true });
+}
+
+/**
+ * Refetch and re-cache an article; never throws (the response has already been sent)
+ */
+export async function revalidateArticle(source: ServerSourceId, url: string, timestamp?: string): Promise<void> {
+  const cacheKey = buildCacheKey(source, extractArticleUrl(url), timestamp);
+
+  try {
+    if (!(await claimRevalidation(cacheKey))) {
+      logger.debug({ cacheKey }, 'Revalidation already ran recently - skipping');
+      return;
+    }
+
+    const result = await fetchArticle(source, url, { timestamp });
+    if ("error" in result) {
+      logger.warn({ source, cacheKey, errorType: result.error.type }, 'Revalidation fetch failed - keeping stale copy');
+      return;
+    }
+
+    const ttlSeconds = cacheExpirySeconds(getCachePolicy(source, timestamp));
+    const saved = await saveOrReturnLongerArticle(cacheKey, result.article, { refresh: true, ttlSeconds });
+    logger.info({ source, cacheKey, length: saved.length, replaced: saved.fetchedAt === result.article.fetchedAt }, 'Revalidated cached article');
+  } catch (error) {
+    logger.warn({ source, cacheKey, error: error instanceof Error ? error.message : String(error) }, 'Revalidation failed');
+  }
+}
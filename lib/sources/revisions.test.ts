@@ -0,0 +1,44 @@
+import { describe, expect, it } from "bun:test";
+import { materialText, REVISION_ID_PATTERN, revisionId } from "./revisions";
+
+const article = {
+  title: "Ferry route opens in April",
+  content: [
+    "<p>Updated 5 minutes ago</p>",
+    "<p>The harbour authority confirmed the new ferry route will open in the spring.</p>",
+    "<p>Advertisement</p>",
+    "<p>Tickets go on sale on Monday at the terminal and online.</p>",
+  ].join(""),
+};
+
+describe("materialText", () => {
+  it("keeps the title and substantive paragraphs, normalized", () => {
+    expect(materialText(article)).toBe([
+      "ferry route opens in april",
+      "the harbour authority confirmed the new ferry route will open in the spring",
+      "tickets go on sale on monday at the terminal and online",
+    ].join("\n"));
+  });
+});
+
+describe("revisionId", () => {
+  it("is a short hex hash", () => {
+    expect(revisionId(article)).toMatch(REVISION_ID_PATTERN);
+  });
+
+  it("ignores timestamps, short lines, markup and punctuation", () => {
+    const reformatted = {
+      title: "Ferry Route Opens in April",
+      content: article.content
+        .replace("Updated 5 minutes ago", "Updated 2 hours ago")
+        .replace("<p>Advertisement</p>", "<div><button>Share</button></div>")
+        .replace("on Monday", "on <b>Monday</b>,"),
+    };
+    expect(revisionId(reformatted)).toBe(revisionId(article));
+  });
+
+  it("changes when the headline or a paragraph is edited", () => {
+    expect(revisionId({ ...article, title: "Ferry route delayed until May" })).not.toBe(revisionId(article));
+    expect(revisionId({ ...article, content: article.content.replace("Monday", "Tuesday") })).not.toBe(revisionId(article));
+  });
+});
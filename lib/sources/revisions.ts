@@ -0,0 +1,160 @@
+import { createHash } from "crypto";
+import { cache } from "@/lib/cache";
+import { compress, decompress } from "@/lib/redis-compression";
+import { createLogger } from "@/lib/logger";
+import { extractArticleUrl } from "@/lib/validation/url";
+import { extractParagraphs } from "./compare";
+import { MIN_CACHED_ARTICLE_LENGTH } from "./article-cache";
+import { CachedArticle } from "./shared";
+import { RevisionContent, RevisionContentSchema, RevisionEntry, RevisionEntrySchema } from "@/types/api";
+
+const logger = createLogger('lib:sources:revisions');
+
+/**
+ * Article revision history (stealth-edit detection)
+ *
+ * The article cache keeps only the longest copy per source, so a quietly edited headline
+ * or paragraph is lost. Every fresh fetch is also fingerprinted here, and when the text
+ * differs materially from the last revision the same source returned, a new revision is
+ * stored:
+ *   revisions:<url>     -> list of RevisionEntry, newest first (capped at MAX_REVISIONS)
+ *   revision:<id>       -> compressed RevisionContent
+ *
+ * The id is a hash of the material text - title plus paragraphs of MIN_MATERIAL_WORDS or
+ * more, case/punctuation/spacing ignored - so timestamps, share buttons and "Advertisement"
+ * lines don't count as edits. Each source is compared with itself only; different
+ * extractors never agree byte for byte. Paywall teasers and pinned archive snapshots are
+ * not recorded, and Redis errors never fail a fetch.
+ */
+
+const LIST_PREFIX = "revisions";
+const CONTENT_PREFIX = "revision";
+
+const MAX_REVISIONS = 50;
+
+// Refreshed whenever a new revision is stored, so history lives as long as the article keeps changing
+const REVISION_TTL_SECONDS = 180 * 24 * 60 * 60;
+
+// Shorter paragraphs (datelines, captions, button labels) don't count as material text
+const MIN_MATERIAL_WORDS = 5;
+
+const REVISION_ID_LENGTH = 16;
+
+export const REVISION_ID_PATTERN = /^[a-f0-9]{16}$/;
+
+function listKey(url: string): string {
+  return `${LIST_PREFIX}:${extractArticleUrl(url)}`;
+}
+
+function contentKey(id: string): string {
+  return `${CONTENT_PREFIX}:${id}`;
+}
+
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[.,;:!?"'“”‘’«»()[\]{}…—–-]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * The text that defines a revision: normalized title and substantive paragraphs
+ *
+ * @example
+ * materialText({ title: 'Ferry Opens', content: '<p>Updated 5 min ago</p><p>The new ferry opens in April.</p>' })
+ * // 'ferry opens\nthe new ferry opens in april'
+ */
+export function materialText(article: Pick<CachedArticle, "title" | "content">): string {
+  const paragraphs = extractParagraphs(article.content)
+    .map(normalizeText)
+    .filter((paragraph) => paragraph.split(" ").length >= MIN_MATERIAL_WORDS);
+  return [normalizeText(article.title), ...paragraphs].join("\n");
+}
+
+/**
+ * Content hash identifying a revision (same material text = same id)
+ */
+export function revisionId(article: Pick<CachedArticle, "title" | "content">): string {
+  return createHash("sha256").update(materialText(article)).digest("hex").slice(0, REVISION_ID_LENGTH);
+}
+
+/**
+ * Revisions of an article, newest first. Empty on a miss or a Redis error.
+ */
+export async function listRevisions(url: string): Promise<RevisionEntry[]> {
+  try {
+    const entries = await cache.lrange<unknown>(listKey(url), 0, MAX_REVISIONS - 1);
+    return entries.flatMap((entry) => {
+      const parsed = RevisionEntrySchema.safeParse(typeof entry === "string" ? JSON.parse(entry) : entry);
+      return parsed.success ? [parsed.data] : [];
+    });
+  } catch (error) {
+    logger.warn({ error: error instanceof Error ? error.message : String(error) }, 'Revision list read error');
+    return [];
+  }
+}
+
+/**
+ * Stored copy of a revision, or null if it expired or can't be read
+ */
+export async function getRevisionContent(id: string): Promise<RevisionContent | null> {
+  if (!REVISION_ID_PATTERN.test(id)) return null;
+
+  try {
+    const parsed = RevisionContentSchema.safeParse(decompress(await cache.get(contentKey(id))));
+    return parsed.success ? parsed.data : null;
+  } catch (error) {
+    logger.warn({ id, error: error instanceof Error ? error.message : String(error) }, 'Revision read error');
+    return null;
+  }
+}
+
+/**
+ * Store a revision if the article differs materially from the source's previous one
+ * Never throws - callers don't await it on the request path.
+ *
+ * @returns The new revision, or null when nothing was stored
+ */
+export async function recordRevision(
+  url: string,
+  source: string,
+  article: CachedArticle
+): Promise<RevisionEntry | null> {
+  if (article.truncated || article.length <= MIN_CACHED_ARTICLE_LENGTH) return null;
+
+  try {
+    const id = revisionId(article);
+    const previous = (await listRevisions(url)).find((entry) => entry.source === source);
+    if (previous?.id === id) return null;
+
+    const entry: RevisionEntry = {
+      id,
+      source,
+      fetchedAt: new Date().toISOString(),
+      title: article.title,
+      length: article.length,
+    };
+    const content: RevisionContent = {
+      title: article.title,
+      byline: article.byline ?? null,
+      publishedTime: article.publishedTime ?? null,
+      content: article.content,
+      textContent: article.textContent,
+    };
+
+    const key = listKey(url);
+    const pipeline = cache.pipeline();
+    pipeline.set(contentKey(id), compress(content), { ex: REVISION_TTL_SECONDS });
+    pipeline.lpush(key, JSON.stringify(entry));
+    pipeline.ltrim(key, 0, MAX_REVISIONS - 1);
+    pipeline.expire(key, REVISION_TTL_SECONDS);
+    await pipeline.exec();
+
+    logger.info({ hostname: new URL(url).hostname, source, id, previousId: previous?.id ?? null }, previous ? 'Article changed - new revision stored' : 'First revision stored');
+    return entry;
+  } catch (error) {
+    logger.warn({ source, error: error instanceof Error ? error.message : String(error) }, 'Revision write error');
+    return null;
+  }
+}
@@ -0,0 +1,70 @@
+import { createParseError } from "@/lib/errors";
+import { cache, createSingleFlight } from "@/lib/cache";
+import { extractArticleUrl } from "@/lib/validation/url";
+import { buildCacheKey, getSourceDefinition, ServerSourceId, SourceId, isServerSource } from "./registry";
+import { SourceFetcher, SourceFetchOptions, SourceFetchResult } from "./shared";
+import { fetchArticleWithFast } from "./fetch-fast";
+import { fetchArticleWithDiffbotWrapper } from "./fetch-slow";
+import { fetchArticleWithWayback } from "./wayback";
+import { fetchArticleWithArchiveToday } from "./archive-today";
+import { fetchArticleWithBrowser } from "./browser";
+import { recordOutcome } from "./strategy-memory";
+import { recordRevision } from "./revisions";
+
+/**
+ * Server-side fetch functions for every source served by /api/article
+ * Typed against the registry, so a new "article" source without a fetcher fails to compile
+ */
+export const SERVER_SOURCE_FETCHERS: Record<ServerSourceId, SourceFetcher> = {
+  "fetch-fast": (url) => fetchArticleWithFast(url),
+  "fetch-slow": (url) => fetchArticleWithDiffbotWrapper(url, "fetch-slow"),
+  // Direct fetch from archive.org instead of Diffbot - bypasses Diffbot rate limits
+  wayback: (url, options) => fetchArticleWithWayback(getSourceDefinition("wayback").getCacheURL(url, options?.timestamp), url),
+  "archive-today": (url) => fetchArticleWithArchiveToday(getSourceDefinition("archive-today").getCacheURL(url), url),
+  browser: (url) => fetchArticleWithBrowser(url),
+};
+
+// Concurrent misses for the same source+URL (a link going viral) share one upstream fetch,
+// across instances too. The lock outlives the slowest fetcher (browser, Diffbot retries).
+const articleFetches = createSingleFlight(cache, { prefix: "article-fetch", lockSeconds: 60 });
+
+async function fetchFresh(source: ServerSourceId, url: string, timestamp?: string): Promise<SourceFetchResult> {
+  const fetched = await SERVER_SOURCE_FETCHERS[source](url, { timestamp });
+
+  // Provenance travels with the article into the cache and the API response
+  const result: SourceFetchResult = "error" in fetched
+    ? fetched
+    : { ...fetched, article: { ...fetched.article, fetchedAt: new Date().toISOString(), source } };
+
+  // Per-domain source stats - a paywall teaser counts as a failure
+  void recordOutcome(new URL(url).hostname, "source", source, !("error" in result) && !result.article.truncated);
+
+  // Revision history tracks the live article - a pinned snapshot is the past, not an edit
+  if (!("error" in result) && !timestamp) {
+    void recordRevision(url, source, result.article);
+  }
+
+  return result;
+}
+
+/**
+ * Fetch and parse article - routes to the fetcher registered for the source
+ * Callers asking for the same source+URL while a fetch is running get that fetch's result.
+ */
+export async function fetchArticle(
+  source: SourceId,
+  url: string,
+  options: SourceFetchOptions = {}
+): Promise<SourceFetchResult> {
+  if (!isServerSource(source)) {
+    return {
+      error: createParseError(`Unsupported source: ${source}`, source),
+    };
+  }
+
+  // Options a source doesn't understand are dropped here rather than in every fetcher
+  const timestamp = getSourceDefinition(source).supportsTimestamp ? options.timestamp : undefined;
+
+  const key = buildCacheKey(source, extractArticleUrl(url), timestamp);
+  return articleFetches.run(key, () => fetchFresh(source, url, timestamp));
+}
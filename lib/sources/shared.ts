@@ -0,0 +1,57 @@
+import { z } from "zod";
+import { AppError, DebugContext } from "@/lib/errors";
+
+// Article schema for caching
+export const CachedArticleSchema = z.object({
+  title: z.string(),
+  content: z.string(),
+  textContent: z.string(),
+  length: z.number().int().positive(),
+  siteName: z.string(),
+  byline: z.string().optional().nullable(),
+  publishedTime: z.string().optional().nullable(),
+  image: z.string().nullable().optional(),
+  htmlContent: z.string().optional(),
+  lang: z.string().optional().nullable(),
+  dir: z.enum(['rtl', 'ltr']).optional().nullable(),
+  // Only a paywall teaser was extracted (see lib/paywall.ts)
+  truncated: z.boolean().optional(),
+  // Provenance: when and by which source/strategy this copy was fetched (set by fetchArticle;
+  // missing on entries cached before it was tracked)
+  fetchedAt: z.string().optional(),
+  source: z.string().optional(),
+  strategy: z.string().optional(),
+});
+
+export type CachedArticle = z.infer<typeof CachedArticleSchema>;
+
+/**
+ * Result of a server-side source fetch
+ */
+export type SourceFetchResult =
+  | { article: CachedArticle; cacheURL: string; debugContext?: DebugContext }
+  | { error: AppError };
+
+/**
+ * Per-request options passed through from /api/article
+ */
+export interface SourceFetchOptions {
+  /** Snapshot timestamp - only set for sources with `supportsTimestamp` */
+  timestamp?: string;
+}
+
+/**
+ * Server-side fetch function for a source
+ * Receives the validated article URL (not the source-specific upstream URL)
+ */
+export type SourceFetcher = (url: string, options?: SourceFetchOptions) => Promise<SourceFetchResult>;
+
+// Browser User-Agents for rotation (real Chrome on different platforms)
+export const BROWSER_USER_AGENTS = [
+  // Chrome on Windows
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36",
+  // Chrome on macOS
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36",
+  // Chrome on Linux
+  "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36",
+];
@@ -0,0 +1,131 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { JSDOM } from "jsdom";
+import { normalizeMedia } from "./media";
+import { applySiteConfigRules, extractSiteConfigFields, getSiteConfig, loadSiteConfigDir, mergeSiteConfigFields, SiteConfig } from "./site-config";
+
+function documentFor(body: string): Document {
+  return new JSDOM(`<!doctype html><html><head><title>Page</title></head><body>${body}</body></html>`, {
+    url: "https://news.example.com/story",
+  }).window.document;
+}
+
+describe("loadSiteConfigDir", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "site-configs-"));
+  fs.writeFileSync(path.join(dir, "example.com.json"), JSON.stringify({ strip: [".related"] }));
+  fs.writeFileSync(path.join(dir, "multi.json"), JSON.stringify({ hosts: ["www.one.org", "two.org"], title: ["h1"] }));
+  fs.writeFileSync(path.join(dir, "_template.json"), JSON.stringify({ hosts: ["template.org"] }));
+  fs.writeFileSync(path.join(dir, "broken.org.json"), "{ not json");
+  fs.writeFileSync(path.join(dir, "invalid.org.json"), JSON.stringify({ strip: "not-an-array" }));
+
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("keys rules by file name or declared hosts and skips templates and invalid files", () => {
+    const configs = loadSiteConfigDir(dir);
+    expect(Array.from(configs.keys()).sort()).toEqual(["example.com", "one.org", "two.org"]);
+  });
+
+  it("returns an empty map for a missing directory", () => {
+    expect(loadSiteConfigDir(path.join(dir, "missing")).size).toBe(0);
+  });
+
+  it("loads the rules shipped in site-configs/", () => {
+    const configs = loadSiteConfigDir(path.join(process.cwd(), "site-configs"));
+    const substack = getSiteConfig("https://someone.substack.com/p/a-post", configs);
+
+    expect(substack?.body).toEqual([".available-content .body.markup"]);
+    expect(configs.has("example.com")).toBe(false);
+  });
+});
+
+describe("getSiteConfig", () => {
+  const config: SiteConfig = { strip: [".related"] };
+  const configs = new Map([["example.com", config]]);
+
+  it("matches the host, www and subdomains", () => {
+    expect(getSiteConfig("https://example.com/a", configs)).toBe(config);
+    expect(getSiteConfig("https://www.example.com/a", configs)).toBe(config);
+    expect(getSiteConfig("https://news.example.com/a", configs)).toBe(config);
+  });
+
+  it("does not match other hosts", () => {
+    expect(getSiteConfig("https://notexample.com/a", configs)).toBeNull();
+    expect(getSiteConfig("not a url", configs)).toBeNull();
+  });
+});
+
+describe("applySiteConfigRules", () => {
+  it("strips elements and rewrites lazy image attributes", () => {
+    const doc = documentFor(`
+      <article><p>Body</p><img data-src="/a.jpg"><img data-srcset="/b.jpg 2x"></article>
+      <div class="related">Related stories</div>`);
+
+    applySiteConfigRules(doc, { strip: [".related"], lazyImageAttributes: ["data-src", "data-srcset"] });
+
+    expect(doc.querySelector(".related")).toBeNull();
+    expect(doc.querySelectorAll("img")[0].getAttribute("src")).toBe("/a.jpg");
+    expect(doc.querySelectorAll("img")[1].getAttribute("srcset")).toBe("/b.jpg 2x");
+  });
+});
+
+describe("extractSiteConfigFields", () => {
+  it("extracts fields with CSS and XPath selectors, in selector order", () => {
+    const doc = documentFor(`
+      <h1 class="headline">Real headline</h1>
+      <span class="author">Jane Doe</span><span class="author">John Roe</span>
+      <time datetime="2024-03-01T10:00:00Z">March 1</time>
+      <div itemprop="articleBody"><p>Story text</p><script>track()</script></div>
+      <section id="comments"><p>First!</p></section>`);
+
+    const fields = extractSiteConfigFields(doc, {
+      title: [".missing", "h1.headline"],
+      author: [".author"],
+      date: ["time"],
+      body: ["//div[@itemprop='articleBody']"],
+    });
+
+    expect(fields.title).toBe("Real headline");
+    expect(fields.byline).toBe("Jane Doe, John Roe");
+    expect(fields.publishedTime).toBe("2024-03-01T10:00:00.000Z");
+    expect(fields.content).toBe("<p>Story text</p>");
+    expect(fields.textContent).toBe("Story text");
+  });
+
+  it("reads dates from meta content attributes", () => {
+    const doc = documentFor(`<meta itemprop="datePublished" content="2023-12-24">`);
+    expect(extractSiteConfigFields(doc, { date: ["meta[itemprop='datePublished']"] }).publishedTime).toBe("2023-12-24T00:00:00.000Z");
+  });
+
+  it("ignores invalid selectors", () => {
+    const doc = documentFor("<p>Body</p>");
+    applySiteConfigRules(doc, { strip: ["//*[bad"] });
+    expect(extractSiteConfigFields(doc, { body: ["[[invalid"] })).toEqual({});
+    expect(doc.querySelector("p")).not.toBeNull();
+  });
+
+  it("picks up normalized media when run after normalizeMedia", () => {
+    const doc = documentFor(`<div class="story"><p>Story text</p><img data-lazy="/photos/a.jpg"></div>`);
+    const config: SiteConfig = { lazyImageAttributes: ["data-lazy"], body: [".story"] };
+
+    applySiteConfigRules(doc, config);
+    normalizeMedia(doc, "https://news.example.com/story");
+    const fields = extractSiteConfigFields(doc, config);
+
+    expect(fields.content).toContain('src="https://news.example.com/photos/a.jpg"');
+  });
+});
+
+describe("mergeSiteConfigFields", () => {
+  it("overlays only the fields the site config found", () => {
+    const article = { title: "Readability title", content: "<p>comments</p>", textContent: "comments", byline: "Someone", publishedTime: null };
+    expect(mergeSiteConfigFields(article, { content: "<p>Story</p>", textContent: "Story" })).toEqual({
+      title: "Readability title",
+      content: "<p>Story</p>",
+      textContent: "Story",
+      byline: "Someone",
+      publishedTime: null,
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { fromError } from "zod-validation-error";
+import { createLogger } from "@/lib/logger";
+
+const logger = createLogger('lib:sources:site-config');
+
+/**
+ * Per-domain extraction rules (similar to FiveFilters' site_config)
+ *
+ * Rules are JSON files in `site-configs/` at the repo root, one per site, named
+ * after the hostname (e.g. `example.com.json`). An instance can add or replace
+ * rules by pointing SITE_CONFIG_DIR at another directory - a file there wins
+ * over the repo file for the same host.
+ *
+ * Selectors are CSS, or XPath when they start with "/" or "(".
+ */
+export const SiteConfigSchema = z.object({
+  /** Hostnames the rule applies to (defaults to the file name); subdomains match too */
+  hosts: z.array(z.string()).optional(),
+  /** Article body - matched elements replace Readability's content */
+  body: z.array(z.string()).optional(),
+  title: z.array(z.string()).optional(),
+  author: z.array(z.string()).optional(),
+  date: z.array(z.string()).optional(),
+  /** Elements removed before extraction (related rails, comments, promos) */
+  strip: z.array(z.string()).optional(),
+  /** Lazy-load attributes copied to src/srcset (e.g. "data-src", "data-lazy-srcset") */
+  lazyImageAttributes: z.array(z.string()).optional(),
+  /** Browser source: CSS selector that signals the article has rendered */
+  waitForSelector: z.string().optional(),
+});
+export type SiteConfig = z.infer<typeof SiteConfigSchema>;
+
+/**
+ * Fields extracted with site config selectors, applied over the Readability result
+ */
+export interface SiteConfigFields {
+  title?: string;
+  byline?: string;
+  publishedTime?: string;
+  content?: string;
+  textContent?: string;
+}
+
+const REPO_SITE_CONFIG_DIR = path.join(process.cwd(), "site-configs");
+
+let siteConfigs: Map<string, SiteConfig> | null = null;
+
+function normalizeHost(host: string): string {
+  return host.trim().toLowerCase().replace(/^www\./, "");
+}
+
+/**
+ * Read every `*.json` rule in a directory, keyed by hostname
+ * Files starting with "_" (templates) are skipped; invalid files are logged and ignored
+ */
+export function loadSiteConfigDir(dir: string): Map<string, SiteConfig> {
+  const configs = new Map<string, SiteConfig>();
+
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir).filter((file) => file.endsWith(".json") && !file.startsWith("_"));
+  } catch {
+    return configs;
+  }
+
+  for (const file of files) {
+    try {
+      const raw = JSON.parse(fs.readFileSync(path.join(dir, file), "utf8"));
+      const validation = SiteConfigSchema.safeParse(raw);
+
+      if (!validation.success) {
+        logger.warn({ file, validationError: fromError(validation.error).toString() }, 'Invalid site config - skipping');
+        continue;
+      }
+
+      const config = validation.data;
+      const hosts = config.hosts?.length ? config.hosts : [file.replace(/\.json$/, "")];
+      hosts.forEach((host) => configs.set(normalizeHost(host), config));
+    } catch (error) {
+      logger.warn({ file, error: error instanceof Error ? error.message : String(error) }, 'Failed to read site config - skipping');
+    }
+  }
+
+  return configs;
+}
+
+function getSiteConfigs(): Map<string, SiteConfig> {
+  if (!siteConfigs) {
+    siteConfigs = loadSiteConfigDir(REPO_SITE_CONFIG_DIR);
+
+    const overrideDir = process.env.SITE_CONFIG_DIR;
+    if (overrideDir) {
+      loadSiteConfigDir(overrideDir).forEach((config, host) => siteConfigs!.set(host, config));
+    }
+
+    logger.debug({ count: siteConfigs.size, overrideDir }, 'Loaded site configs');
+  }
+
+  return siteConfigs;
+}
+
+/**
+ * Find the rule for a URL - exact host first, then parent domains (news.example.com -> example.com)
+ */
+export function getSiteConfig(url: string, configs: Map<string, SiteConfig> = getSiteConfigs()): SiteConfig | null {
+  let host: string;
+  try {
+    host = normalizeHost(new URL(url).hostname);
+  } catch {
+    return null;
+  }
+
+  const parts = host.split(".");
+  for (let i = 0; i < parts.length - 1; i++) {
+    const config = configs.get(parts.slice(i).join("."));
+    if (config) return config;
+  }
+
+  return null;
+}
+
+function querySelectorAllSafe(doc: Document, selector: string): Element[] {
+  try {
+    if (selector.startsWith("/") || selector.startsWith("(")) {
+      const XPathResult = doc.defaultView!.XPathResult;
+      const snapshot = doc.evaluate(selector, doc, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null);
+      const elements: Element[] = [];
+      for (let i = 0; i < snapshot.snapshotLength; i++) {
+        const node = snapshot.snapshotItem(i);
+        if (node && node.nodeType === 1) elements.push(node as Element);
+      }
+      return elements;
+    }
+
+    return Array.from(doc.querySelectorAll(selector));
+  } catch (error) {
+    logger.warn({ selector, error: error instanceof Error ? error.message : String(error) }, 'Invalid site config selector');
+    return [];
+  }
+}
+
+/**
+ * First non-empty match across selectors (in order)
+ * <meta content> / <time datetime> count as non-empty for date selectors
+ */
+function firstMatch(doc: Document, selectors: string[] | undefined): Element[] {
+  for (const selector of selectors ?? []) {
+    const elements = querySelectorAllSafe(doc, selector).filter((element) =>
+      element.textContent?.trim() || element.getAttribute("content") || element.getAttribute("datetime")
+    );
+    if (elements.length > 0) return elements;
+  }
+  return [];
+}
+
+function extractDate(element: Element): string | undefined {
+  const raw = element.getAttribute("datetime") || element.getAttribute("content") || element.textContent?.trim();
+  if (!raw) return undefined;
+
+  const date = new Date(raw);
+  return isNaN(date.getTime()) ? raw : date.toISOString();
+}
+
+/**
+ * Apply a site config's DOM rules: strip elements and rewrite lazy image attributes
+ * Runs first, before media/embed normalization, so those see the site's real image URLs.
+ */
+export function applySiteConfigRules(doc: Document, config: SiteConfig): void {
+  for (const selector of config.strip ?? []) {
+    querySelectorAllSafe(doc, selector).forEach((element) => element.remove());
+  }
+
+  for (const attribute of config.lazyImageAttributes ?? []) {
+    const target = attribute.toLowerCase().endsWith("srcset") ? "srcset" : "src";
+    querySelectorAllSafe(doc, `[${attribute}]`).forEach((element) => {
+      const value = element.getAttribute(attribute);
+      if (value) element.setAttribute(target, value);
+    });
+  }
+}
+
+/**
+ * Pick out the fields matched by a site config's selectors
+ * Run after normalizeMedia/normalizeEmbeds: the body bypasses Readability, so it must already
+ * have resolved image URLs and embed cards. Must run BEFORE Readability - Readability.parse()
+ * rewrites the document.
+ */
+export function extractSiteConfigFields(doc: Document, config: SiteConfig): SiteConfigFields {
+  const fields: SiteConfigFields = {};
+
+  const [titleElement] = firstMatch(doc, config.title);
+  if (titleElement) fields.title = titleElement.textContent?.trim() || titleElement.getAttribute("content") || undefined;
+
+  const authorElements = firstMatch(doc, config.author);
+  if (authorElements.length > 0) {
+    fields.byline = authorElements
+      .map((element) => element.textContent?.trim() || element.getAttribute("content"))
+      .filter(Boolean)
+      .join(", ");
+  }
+
+  const [dateElement] = firstMatch(doc, config.date);
+  if (dateElement) fields.publishedTime = extractDate(dateElement);
+
+  // Work on copies: the body bypasses Readability's cleanup, so drop scripts/styles ourselves
+  const bodyElements = firstMatch(doc, config.body).map((element) => {
+    const copy = element.cloneNode(true) as Element;
+    copy.querySelectorAll("script, style").forEach((child) => child.remove());
+    return copy;
+  });
+  if (bodyElements.length > 0) {
+    fields.content = bodyElements.map((element) => element.innerHTML).join("\n");
+    fields.textContent = bodyElements.map((element) => element.textContent?.trim() ?? "").join("\n\n");
+  }
+
+  return fields;
+}
+
+/**
+ * Overlay site config fields on an extracted article
+ */
+export function mergeSiteConfigFields<T extends {
+  title: string;
+  content: string;
+  textContent: string;
+  byline?: string | null;
+  publishedTime?: string | null;
+}>(article: T, fields: SiteConfigFields): T {
+  return {
+    ...article,
+    title: fields.title || article.title,
+    byline: fields.byline || article.byline,
+    publishedTime: fields.publishedTime || article.publishedTime,
+    content: fields.content || article.content,
+    textContent: fields.textContent || article.textContent,
+  };
+}
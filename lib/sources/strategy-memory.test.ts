@@ -0,0 +1,67 @@
+import { describe, expect, it } from "bun:test";
+import { parseDomainStats, planAttempts, successRate } from "./strategy-memory";
+
+const STRATEGIES = ["browser", "googlebot"] as const;
+const noExplore = () => 0.99;
+
+describe("parseDomainStats", () => {
+  it("splits strategy and source counters", () => {
+    const stats = parseDomainStats({
+      "strategy:browser:ok": 2,
+      "strategy:browser:fail": "8",
+      "strategy:googlebot:ok": 9,
+      "source:archive-today:fail": 4,
+    });
+
+    expect(stats.strategies).toEqual({
+      browser: { successes: 2, failures: 8 },
+      googlebot: { successes: 9, failures: 0 },
+    });
+    expect(stats.sources).toEqual({ "archive-today": { successes: 0, failures: 4 } });
+  });
+
+  it("ignores unknown fields, bad values and missing hashes", () => {
+    expect(parseDomainStats({ other: 3, "strategy:browser:ok": "x" })).toEqual({ strategies: {}, sources: {} });
+    expect(parseDomainStats(null)).toEqual({ strategies: {}, sources: {} });
+  });
+});
+
+describe("successRate", () => {
+  it("needs enough attempts before returning a rate", () => {
+    expect(successRate({ successes: 2, failures: 1 })).toBeUndefined();
+    expect(successRate({ successes: 4, failures: 1 })).toBe(0.8);
+    expect(successRate(undefined)).toBeUndefined();
+  });
+});
+
+describe("planAttempts", () => {
+  it("keeps the default order without data", () => {
+    expect(planAttempts(STRATEGIES, {}, noExplore)).toEqual({ order: ["browser", "googlebot"], skipped: [] });
+  });
+
+  it("moves the strategy that usually works to the front", () => {
+    const plan = planAttempts(STRATEGIES, {
+      browser: { successes: 3, failures: 5 },
+      googlebot: { successes: 7, failures: 1 },
+    }, noExplore);
+    expect(plan).toEqual({ order: ["googlebot", "browser"], skipped: [] });
+  });
+
+  it("skips strategies that keep failing", () => {
+    const plan = planAttempts(STRATEGIES, {
+      browser: { successes: 0, failures: 20 },
+      googlebot: { successes: 18, failures: 2 },
+    }, noExplore);
+    expect(plan).toEqual({ order: ["googlebot"], skipped: ["browser"] });
+  });
+
+  it("still tries skipped strategies on exploration runs", () => {
+    const stats = { browser: { successes: 0, failures: 20 }, googlebot: { successes: 18, failures: 2 } };
+    expect(planAttempts(STRATEGIES, stats, () => 0).order).toEqual(["googlebot", "browser"]);
+  });
+
+  it("never skips everything", () => {
+    const stats = { browser: { successes: 0, failures: 20 }, googlebot: { successes: 1, failures: 30 } };
+    expect(planAttempts(STRATEGIES, stats, noExplore)).toEqual({ order: ["googlebot", "browser"], skipped: [] });
+  });
+});
@@ -0,0 +1,161 @@
+import { cache } from "@/lib/cache";
+import { createLogger } from "@/lib/logger";
+
+const logger = createLogger('lib:sources:strategy-memory');
+
+/**
+ * Per-domain memory of what worked
+ *
+ * Records which fetch-fast strategy (browser/googlebot) and which source got a usable
+ * article for each hostname, so the next request for that domain can try the likely
+ * winner first and skip what keeps failing. One Redis hash per hostname:
+ *   strategy-stats:<hostname> -> { "strategy:googlebot:ok": 12, "source:wayback:fail": 3, ... }
+ *
+ * The hash expires a week after it is created (not refreshed on writes), so a site that
+ * changes its paywall is relearned from scratch. Redis errors never fail a fetch - reads
+ * fall back to the default order and writes are dropped.
+ */
+
+export type OutcomeKind = "strategy" | "source";
+
+export interface OutcomeStats {
+  successes: number;
+  failures: number;
+}
+
+export interface DomainStats {
+  strategies: Record<string, OutcomeStats>;
+  sources: Record<string, OutcomeStats>;
+}
+
+export interface AttemptPlan<T extends string> {
+  /** Names to try, most promising first */
+  order: T[];
+  /** Names left out because they keep failing on this domain */
+  skipped: T[];
+}
+
+const KEY_PREFIX = "strategy-stats";
+const STATS_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Attempts needed before a success rate overrides the default order
+const MIN_ATTEMPTS_TO_REORDER = 5;
+
+// Skip a name after this many attempts with a success rate below SKIP_BELOW_RATE
+const MIN_ATTEMPTS_TO_SKIP = 10;
+const SKIP_BELOW_RATE = 0.1;
+
+// Share of requests that still try skipped names, so recoveries get noticed
+const EXPLORE_RATE = 0.1;
+
+// Assumed success rate for names without enough data
+const UNKNOWN_RATE = 0.5;
+
+function statsKey(hostname: string): string {
+  return `${KEY_PREFIX}:${hostname.toLowerCase()}`;
+}
+
+function emptyStats(): DomainStats {
+  return { strategies: {}, sources: {} };
+}
+
+/**
+ * Turn the raw Redis hash into per-strategy / per-source counters
+ * Unknown fields and non-numeric values are ignored.
+ */
+export function parseDomainStats(hash: Record<string, unknown> | null | undefined): DomainStats {
+  const stats = emptyStats();
+  if (!hash) return stats;
+
+  Object.keys(hash).forEach((field) => {
+    const match = field.match(/^(strategy|source):(.+):(ok|fail)$/);
+    const count = Number(hash[field]);
+    if (!match || !Number.isFinite(count) || count < 0) return;
+
+    const [, kind, name, result] = match;
+    const bucket = kind === "strategy" ? stats.strategies : stats.sources;
+    const entry = bucket[name] ?? (bucket[name] = { successes: 0, failures: 0 });
+    if (result === "ok") {
+      entry.successes += count;
+    } else {
+      entry.failures += count;
+    }
+  });
+
+  return stats;
+}
+
+/**
+ * Success rate for a name, or undefined without enough attempts to trust it
+ */
+export function successRate(stats: OutcomeStats | undefined, minAttempts = MIN_ATTEMPTS_TO_REORDER): number | undefined {
+  if (!stats) return undefined;
+  const attempts = stats.successes + stats.failures;
+  return attempts >= minAttempts ? stats.successes / attempts : undefined;
+}
+
+/**
+ * Order names by their success rate on this domain and drop the ones that keep failing
+ * Names without enough data count as UNKNOWN_RATE; ties keep the default order.
+ * Never skips everything, and EXPLORE_RATE of calls skip nothing.
+ *
+ * @example
+ * planAttempts(["browser", "googlebot"], { browser: { successes: 0, failures: 20 }, googlebot: { successes: 18, failures: 2 } })
+ * // { order: ["googlebot"], skipped: ["browser"] } (most of the time)
+ */
+export function planAttempts<T extends string>(
+  defaultOrder: readonly T[],
+  stats: Record<string, OutcomeStats>,
+  random: () => number = Math.random
+): AttemptPlan<T> {
+  const ranked = defaultOrder
+    .map((name, index) => ({ name, index, rate: successRate(stats[name]) ?? UNKNOWN_RATE }))
+    .sort((a, b) => b.rate - a.rate || a.index - b.index);
+
+  const failing = (name: T) => {
+    const rate = successRate(stats[name], MIN_ATTEMPTS_TO_SKIP);
+    return rate !== undefined && rate < SKIP_BELOW_RATE;
+  };
+
+  const order = ranked.map(({ name }) => name);
+  const kept = order.filter((name) => !failing(name));
+
+  if (kept.length === 0 || kept.length === order.length || random() < EXPLORE_RATE) {
+    return { order, skipped: [] };
+  }
+
+  return { order: kept, skipped: order.filter(failing) };
+}
+
+/**
+ * Read what we know about a hostname (empty stats if Redis is down or unconfigured)
+ */
+export async function getDomainStats(hostname: string): Promise<DomainStats> {
+  try {
+    return parseDomainStats(await cache.hgetall<Record<string, unknown>>(statsKey(hostname)));
+  } catch (error) {
+    logger.warn({ hostname, error: error instanceof Error ? error.message : String(error) }, 'Strategy stats read error');
+    return emptyStats();
+  }
+}
+
+/**
+ * Count one success or failure for a strategy/source on a hostname
+ * Never throws - callers don't await it on the request path.
+ */
+export async function recordOutcome(
+  hostname: string,
+  kind: OutcomeKind,
+  name: string,
+  success: boolean
+): Promise<void> {
+  try {
+    const key = statsKey(hostname);
+    const pipeline = cache.pipeline();
+    pipeline.hincrby(key, `${kind}:${name}:${success ? "ok" : "fail"}`, 1);
+    pipeline.expire(key, STATS_TTL_SECONDS, "NX");
+    await pipeline.exec();
+  } catch (error) {
+    logger.warn({ hostname, kind, name, error: error instanceof Error ? error.message : String(error) }, 'Strategy stats write error');
+  }
+}
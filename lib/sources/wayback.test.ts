@@ -0,0 +1,59 @@
+import { afterAll, beforeAll, describe, expect, it, spyOn } from "bun:test";
+import http from "http";
+import net, { AddressInfo } from "net";
+import zlib from "zlib";
+import { safeFetch } from "@/lib/safe-fetch";
+import * as outbound from "./outbound-fetch";
+import { fetchArticleWithWayback, fetchWaybackSnapshots } from "./wayback";
+
+// archive.org that sends headers and half a gzip body, then stalls
+describe("wayback timeouts", () => {
+  let server: http.Server;
+  let agent: http.Agent;
+  let fetchSpy: ReturnType<typeof spyOn>;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const gzipped = zlib.gzipSync(req.url?.startsWith("/cdx") ? "[]".padEnd(20000, " ") : "<p>archived</p>".repeat(2000));
+      res.writeHead(200, {
+        "Content-Type": req.url?.startsWith("/cdx") ? "application/json" : "text/html",
+        "Content-Encoding": "gzip",
+      });
+      res.write(gzipped.subarray(0, gzipped.length / 2));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    agent = new http.Agent();
+    agent.createConnection = () => net.connect(port, "127.0.0.1");
+
+    // The real safeFetch, dialling the stalled server whatever the archive.org URL
+    fetchSpy = spyOn(outbound, "outboundFetch").mockImplementation((_source, url, init = {}) =>
+      safeFetch(url.includes("/cdx/") ? "http://archive.example/cdx" : "http://archive.example/web", {
+        signal: init.signal,
+        agent,
+        dnsLookup: async () => [{ address: "93.184.215.14", family: 4 }],
+      })
+    );
+  });
+
+  afterAll(() => {
+    fetchSpy.mockRestore();
+    agent.destroy();
+    server.close();
+  });
+
+  it("times out a snapshot list whose body stalls", async () => {
+    const result = await fetchWaybackSnapshots("https://example.com/story", 200, 100);
+    expect("error" in result && result.error.message).toBe("Connection timed out when listing archive.org snapshots");
+  });
+
+  it("times out a snapshot whose body stalls", async () => {
+    const result = await fetchArticleWithWayback(
+      "https://web.archive.org/web/2024/https://example.com/story",
+      "https://example.com/story",
+      100
+    );
+    expect("error" in result && result.error.message).toBe("Connection timed out when fetching from archive.org");
+  });
+});
@@ -0,0 +1,243 @@
+import { AppError, createNetworkError, createParseError } from "@/lib/errors";
+import { createLogger } from "@/lib/logger";
+import { WaybackSnapshot } from "@/types/api";
+import { BROWSER_USER_AGENTS, SourceFetchResult } from "./shared";
+import { outboundFetch } from "./outbound-fetch";
+import { readBodyWithLimit, readDocumentResponse } from "./response-body";
+import { parsePdfToArticle } from "./pdf";
+import { parseArchivedPage } from "./archived-page";
+
+const logger = createLogger('lib:sources:wayback');
+
+const CDX_ENDPOINT = "https://web.archive.org/cdx/search/cdx";
+const CDX_TIMEOUT_MS = 15000;
+// archive.org can be slow to serve a snapshot
+const SNAPSHOT_TIMEOUT_MS = 20000;
+// A full page of rows is ~30 KB; anything far past that isn't a snapshot list
+const CDX_MAX_BYTES = 1024 * 1024;
+const CDX_MAX_ROWS = 500;
+const CDX_FIELDS = ["timestamp", "original", "statuscode", "mimetype"] as const;
+
+/**
+ * List Wayback Machine captures for a URL via the CDX API, newest first
+ * Only successful HTML captures are returned, collapsed to one per day so the picker stays short
+ */
+export async function fetchWaybackSnapshots(
+  url: string,
+  limit = 200,
+  /** Injected for tests */
+  timeoutMs = CDX_TIMEOUT_MS
+): Promise<{ snapshots: WaybackSnapshot[] } | { error: AppError }> {
+  const params = new URLSearchParams({
+    url,
+    output: "json",
+    fl: CDX_FIELDS.join(","),
+    collapse: "timestamp:8",
+    // Negative limit returns the last N rows, i.e. the most recent captures
+    limit: String(-Math.min(Math.max(limit, 1), CDX_MAX_ROWS)),
+  });
+  params.append("filter", "statuscode:200");
+  params.append("filter", "mimetype:text/html");
+  const cdxUrl = `${CDX_ENDPOINT}?${params.toString()}`;
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    logger.info({ source: "wayback", hostname: new URL(url).hostname }, 'Listing Wayback snapshots');
+
+    const response = await outboundFetch("wayback", cdxUrl, {
+      headers: { "Accept": "application/json" },
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      await response.body?.cancel().catch(() => { });
+      logger.error({ source: "wayback", status: response.status }, 'Wayback CDX HTTP error');
+      return {
+        error: createNetworkError(
+          response.status === 429
+            ? 'Archive.org rate limit exceeded while listing snapshots. Please try again later.'
+            : `HTTP ${response.status} error when listing archive.org snapshots`,
+          cdxUrl,
+          response.status
+        ),
+      };
+    }
+
+    // The timeout keeps running until the body is read - a stalled stream aborts too
+    const bytes = await readBodyWithLimit(response, CDX_MAX_BYTES);
+    if (!bytes) {
+      logger.error({ source: "wayback", maxBytes: CDX_MAX_BYTES }, 'Wayback CDX response too large');
+      return {
+        error: createParseError('Snapshot list returned by archive.org is too large', 'wayback'),
+      };
+    }
+
+    // CDX answers with an empty body when nothing matches
+    const body = new TextDecoder().decode(bytes);
+    const rows: string[][] = body.trim() ? JSON.parse(body) : [];
+
+    // First row is the field header
+    const snapshots = rows.slice(1).map(([timestamp, original, statusCode, mimeType]) => ({
+      timestamp,
+      original,
+      statusCode,
+      mimeType,
+    }));
+    snapshots.reverse();
+
+    logger.debug({ source: "wayback", count: snapshots.length }, 'Wayback snapshots listed');
+    return { snapshots };
+  } catch (error: unknown) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      logger.error({ source: "wayback", timeoutMs }, 'Wayback CDX request timed out');
+      return {
+        error: createNetworkError('Connection timed out when listing archive.org snapshots', cdxUrl, 408),
+      };
+    }
+    if (error instanceof SyntaxError) {
+      logger.error({ source: "wayback", error }, 'Wayback CDX returned invalid JSON');
+      return {
+        error: createParseError('Invalid snapshot list returned by archive.org', 'wayback', error),
+      };
+    }
+    logger.error({ source: "wayback", error }, 'Wayback CDX exception');
+    return {
+      error: createNetworkError('Failed to list archive.org snapshots', cdxUrl, undefined, error),
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Fetch article directly from Wayback Machine (archive.org) without using Diffbot
+ * This bypasses Diffbot's rate limits by fetching and parsing with Readability directly
+ */
+export async function fetchArticleWithWayback(
+  waybackUrl: string,
+  originalUrl: string,
+  /** Injected for tests */
+  timeoutMs = SNAPSHOT_TIMEOUT_MS
+): Promise<SourceFetchResult> {
+  // Runs until the body has been read, so a snapshot that drips in slowly times out too
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    logger.info({ source: "wayback", waybackUrl, originalHostname: new URL(originalUrl).hostname }, 'Fetching article from archive.org directly');
+
+    // Pick a random User-Agent to avoid fingerprinting
+    const userAgent = BROWSER_USER_AGENTS[Math.floor(Math.random() * BROWSER_USER_AGENTS.length)];
+
+    const response = await outboundFetch("wayback", waybackUrl, {
+      headers: {
+        // Core browser headers
+        "User-Agent": userAgent,
+        "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.7",
+        "Accept-Language": "en-US,en;q=0.9",
+        "Accept-Encoding": "gzip, deflate, br",
+
+        // Security headers that browsers send
+        "Sec-Fetch-Dest": "document",
+        "Sec-Fetch-Mode": "navigate",
+        "Sec-Fetch-Site": "none",
+        "Sec-Fetch-User": "?1",
+
+        // Client hints (Chrome-specific)
+        "Sec-CH-UA": '"Google Chrome";v="131", "Chromium";v="131", "Not_A Brand";v="24"',
+        "Sec-CH-UA-Mobile": "?0",
+        "Sec-CH-UA-Platform": '"Windows"',
+
+        // Additional headers
+        "Upgrade-Insecure-Requests": "1",
+        "Cache-Control": "max-age=0",
+      },
+      redirect: "follow",
+      signal: controller.signal,
+    });
+
+    // Specific logging for archive.org rate limits
+    if (response.status === 429) {
+      await response.body?.cancel().catch(() => { });
+      const retryAfter = response.headers.get('Retry-After');
+      logger.error({
+        source: "wayback",
+        status: 429,
+        retryAfter,
+        waybackUrl
+      }, 'Archive.org rate limit exceeded (429)');
+      return {
+        error: createNetworkError(
+          `Archive.org rate limit exceeded. The Wayback Machine is temporarily limiting requests. Please try again later or use a different source tab.`,
+          waybackUrl,
+          429
+        ),
+      };
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel().catch(() => { });
+      logger.error({ source: "wayback", status: response.status, waybackUrl }, 'Archive.org fetch HTTP error');
+      return {
+        error: createNetworkError(
+          `HTTP ${response.status} error when fetching from archive.org`,
+          waybackUrl,
+          response.status
+        ),
+      };
+    }
+
+    const body = await readDocumentResponse(response);
+
+    if ('error' in body) {
+      logger.warn({ source: "wayback", waybackUrl, reason: body.error }, 'Archived response rejected');
+      return {
+        error: createNetworkError(`${body.error} from archive.org`, waybackUrl, body.status),
+      };
+    }
+
+    // Archived PDFs are served as-is
+    if ('pdf' in body) {
+      const article = await parsePdfToArticle(body.pdf, originalUrl);
+      if (!article) {
+        return {
+          error: createParseError('Failed to extract text from archived PDF', 'wayback'),
+        };
+      }
+      logger.info({ source: "wayback", title: article.title, length: article.length }, 'Wayback PDF parsed');
+      return { article, cacheURL: waybackUrl };
+    }
+
+    const parsed = parseArchivedPage(body.html, {
+      source: "wayback",
+      originalUrl,
+      // Archived pages point at /web/<timestamp>/... copies - resolve those against archive.org
+      mediaBaseUrl: waybackUrl,
+      snapshotUrl: waybackUrl,
+    });
+
+    if ('error' in parsed) {
+      return parsed;
+    }
+
+    return {
+      article: parsed.article,
+      cacheURL: waybackUrl,
+    };
+  } catch (error: unknown) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      logger.error({ source: "wayback", waybackUrl, timeoutMs }, 'Wayback fetch timed out');
+      return {
+        error: createNetworkError('Connection timed out when fetching from archive.org', waybackUrl, 408),
+      };
+    }
+    logger.error({ source: "wayback", error, waybackUrl }, 'Wayback fetch exception');
+    return {
+      error: createNetworkError('Failed to fetch article from archive.org', waybackUrl, undefined, error),
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "bun:test";
-import { normalizeUrl, isValidUrl, extractArticleUrl, extractFirstUrl, NormalizedUrlSchema } from "./url";
+import { normalizeUrl, isValidUrl, extractArticleUrl, extractFirstUrl, isPrivateAddress, NormalizedUrlSchema } from "./url";
 
 describe("normalizeUrl", () => {
   it("normalizes full https URL", () => {
@@ -58,6 +58,12 @@ describe("normalizeUrl", () => {
     expect(() => normalizeUrl("http://0.0.0.0")).toThrow("Access to private or local networks is restricted");
   });
 
+  it("blocks link-local, metadata and IPv6 loopback addresses", () => {
+    expect(() => normalizeUrl("http://169.254.169.254/latest/meta-data")).toThrow("Access to private or local networks is restricted");
+    expect(() => normalizeUrl("http://[::1]:8080")).toThrow("Access to private or local networks is restricted");
+    expect(() => normalizeUrl("http://[::ffff:127.0.0.1]")).toThrow("Access to private or local networks is restricted");
+  });
+
   it("allows public IP addresses", () => {
     expect(normalizeUrl("http://8.8.8.8")).toBe("http://8.8.8.8");
     expect(normalizeUrl("https://1.1.1.1")).toBe("https://1.1.1.1");
@@ -68,6 +74,27 @@ describe("normalizeUrl", () => {
   });
 });
 
+describe("isPrivateAddress", () => {
+  it("flags private, loopback, link-local and reserved IPv4 ranges", () => {
+    ["10.1.2.3", "127.0.0.1", "172.31.255.255", "192.168.0.1", "169.254.169.254", "100.100.100.200", "0.0.0.0", "198.18.0.1", "224.0.0.1", "255.255.255.255"]
+      .forEach((address) => expect(isPrivateAddress(address)).toBe(true));
+  });
+
+  it("flags private IPv6 ranges and IPv4 embedded in IPv6", () => {
+    ["::1", "::", "fd00:ec2::254", "fe80::1", "ff02::1", "::ffff:10.0.0.1", "::ffff:a00:1", "64:ff9b::a9fe:a9fe", "[::1]"]
+      .forEach((address) => expect(isPrivateAddress(address)).toBe(true));
+  });
+
+  it("allows public addresses", () => {
+    ["8.8.8.8", "172.32.0.1", "100.128.0.1", "2606:4700:4700::1111", "::ffff:8.8.8.8"]
+      .forEach((address) => expect(isPrivateAddress(address)).toBe(false));
+  });
+
+  it("ignores non-IP input", () => {
+    expect(isPrivateAddress("example.com")).toBe(false);
+  });
+});
+
 describe("isValidUrl", () => {
   it("returns true for valid URLs", () => {
     expect(isValidUrl("https://example.com")).toBe(true);
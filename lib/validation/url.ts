@@ -22,29 +22,71 @@ const PRIVATE_IP_RANGES = [
   /^10\.\d{1,3}\.\d{1,3}\.\d{1,3}$/,  // 10.0.0.0/8 (Private Class A)
   /^192\.168\.\d{1,3}\.\d{1,3}$/,     // 192.168.0.0/16 (Private Class C)
   /^172\.(1[6-9]|2\d|3[0-1])\.\d{1,3}\.\d{1,3}$/, // 172.16.0.0/12 (Private Class B)
-  /^0\.0\.0\.0$/,                     // Any address
-  /^::1$/,                            // IPv6 Loopback
-  /^[fF][cCdD][0-9a-fA-F]{2}:.*/,     // IPv6 Unique Local Address (fc00::/7)
+  /^0\.\d{1,3}\.\d{1,3}\.\d{1,3}$/,   // 0.0.0.0/8 ("This" network, incl. any address)
+  /^169\.254\.\d{1,3}\.\d{1,3}$/,     // 169.254.0.0/16 (Link-local, cloud metadata 169.254.169.254)
+  /^100\.(6[4-9]|[7-9]\d|1[01]\d|12[0-7])\.\d{1,3}\.\d{1,3}$/, // 100.64.0.0/10 (CGNAT, Alibaba metadata)
+  /^192\.0\.[02]\.\d{1,3}$/,           // 192.0.0.0/24, 192.0.2.0/24 (IETF / TEST-NET-1)
+  /^198\.1[89]\.\d{1,3}\.\d{1,3}$/,   // 198.18.0.0/15 (Benchmarking)
+  /^(22[4-9]|2[3-5]\d)\.\d{1,3}\.\d{1,3}\.\d{1,3}$/, // 224.0.0.0/3 (Multicast, reserved, broadcast)
+  /^::1?$/,                           // IPv6 Loopback / unspecified
+  /^[fF][cCdD][0-9a-fA-F]{2}:.*/,     // IPv6 Unique Local Address (fc00::/7, incl. AWS metadata fd00:ec2::254)
   /^[fF][eE][89aAbB][0-9a-fA-F]:.*/,  // IPv6 Link-local Address (fe80::/10)
+  /^[fF][fF][0-9a-fA-F]{2}:.*/,       // IPv6 Multicast (ff00::/8)
 ];
 
+// IPv6 forms that embed an IPv4 address: IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d)
+const EMBEDDED_IPV4_PREFIX = /^(?:::ffff:|64:ff9b::)(?:0:)?/i;
+
+/**
+ * Expand the IPv4 address embedded in an IPv4-mapped/NAT64 IPv6 address
+ * Handles both dotted (::ffff:10.0.0.1) and hex (::ffff:a00:1, as URL parsing writes it) forms
+ */
+function extractEmbeddedIPv4(address: string): string | null {
+  const match = address.match(EMBEDDED_IPV4_PREFIX);
+  if (!match) return null;
+
+  const rest = address.slice(match[0].length);
+  if (isIP(rest, 4)) return rest;
+
+  const hex = rest.match(/^([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i);
+  if (!hex) return null;
+
+  const high = parseInt(hex[1], 16);
+  const low = parseInt(hex[2], 16);
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".");
+}
+
+/**
+ * Checks if an IP address (v4 or v6) is in a private, loopback, link-local,
+ * metadata or otherwise non-public range.
+ * Used on DNS results by the server-side safe fetch (lib/safe-fetch.ts).
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, "");
+  if (!isIP(ip)) return false;
+
+  const embedded = extractEmbeddedIPv4(ip);
+  if (embedded) return isPrivateAddress(embedded);
+
+  return PRIVATE_IP_RANGES.some((regex) => regex.test(ip));
+}
+
 /**
  * Checks if a hostname is a private IP address or localhost.
  */
 export function isPrivateIP(hostname: string): boolean {
   // Check for localhost
-  if (hostname === "localhost" || hostname.endsWith(".local")) {
+  if (hostname === "localhost" || hostname.endsWith(".localhost") || hostname.endsWith(".local")) {
     return true;
   }
 
-  // Check if it looks like an IP address
-  if (isIP(hostname)) {
-    // Check against private ranges
-    return PRIVATE_IP_RANGES.some((regex) => regex.test(hostname));
+  // Check if it looks like an IP address (URL hostnames wrap IPv6 in brackets)
+  if (isIP(hostname.replace(/^\[|\]$/g, ""))) {
+    return isPrivateAddress(hostname);
   }
 
-  // It's a domain name, not a private IP (resolving domains to IPs would require async DNS)
-  // We accept public domains here.
+  // It's a domain name - resolving it needs async DNS, which the server-side
+  // safe fetch (lib/safe-fetch.ts) does before every request and redirect hop.
   return false;
 }
 
@@ -22,7 +22,12 @@ const nextConfig = {
     ],
   },
 
-  serverExternalPackages: ['pino', 'pino-pretty', 'thread-stream'],
+  serverExternalPackages: ['pino', 'pino-pretty', 'thread-stream', 'unpdf'],
+
+  // Site configs are read from disk at runtime (lib/sources/site-config.ts)
+  outputFileTracingIncludes: {
+    '/**/*': ['./site-configs/**/*.json'],
+  },
 }
 
 module.exports = withNextIntl(nextConfig)
@@ -1,32 +1,32 @@
-import { redis } from "../lib/redis";
+import { cache } from "../lib/cache";
 
 async function main() {
-    console.log("Testing Redis connection...");
+    console.log(`Testing ${cache.backend} cache...`);
 
     const testKey = "test:summary-cache-check:" + Date.now();
     const testValue = "test-value-" + Date.now();
 
     try {
         console.log(`Setting key: ${testKey}`);
-        await redis.set(testKey, testValue);
+        await cache.set(testKey, testValue);
         console.log("Set command successful.");
 
         console.log(`Getting key: ${testKey}`);
-        const retrieved = await redis.get(testKey);
+        const retrieved = await cache.get(testKey);
         console.log(`Retrieved value: ${retrieved}`);
 
         if (retrieved === testValue) {
-            console.log("SUCCESS: Redis read/write works.");
+            console.log("SUCCESS: Cache read/write works.");
         } else {
             console.error("FAILURE: Retrieved value does not match set value.");
         }
 
         console.log("Cleaning up...");
-        await redis.del(testKey);
+        await cache.del(testKey);
         console.log("Cleanup complete.");
 
     } catch (error) {
-        console.error("Redis Error:", error);
+        console.error("Cache Error:", error);
     }
 }
 
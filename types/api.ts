@@ -1,8 +1,9 @@
 import { z } from "zod";
-import { NormalizedUrlSchema } from "@/lib/validation/url";
+import { isPrivateIP, NormalizedUrlSchema } from "@/lib/validation/url";
+import { SOURCES } from "@/lib/sources/registry";
 
-// Source type
-export const SOURCES = ["fetch-fast", "fetch-slow", "wayback", "jina.ai"] as const;
+// Source type (sources are declared in lib/sources/registry.ts)
+export { SOURCES };
 export const SourceSchema = z.enum(SOURCES);
 export type Source = z.infer<typeof SourceSchema>;
 
@@ -35,13 +36,24 @@ export const ArticleSchema = z.object({
   publishedTime: z.string().nullable().optional(),
   image: z.string().nullable().optional(), // Preview image URL
   htmlContent: z.string().optional(), // Original page HTML (full DOM)
+  truncated: z.boolean().optional(), // Only a paywall teaser was extracted
+  fetchedAt: z.string().nullable().optional(), // When this copy was fetched from the source (ISO 8601)
+  strategy: z.string().nullable().optional(), // How fetch-fast got the page (browser/googlebot)
 });
 export type Article = z.infer<typeof ArticleSchema>;
 
+// Wayback snapshot timestamp (YYYYMMDDhhmmss, any prefix from the year down)
+export const SnapshotTimestampSchema = z
+  .string()
+  .regex(/^\d{4,14}$/, "Timestamp must be 4-14 digits (YYYYMMDDhhmmss)");
+
 // API Request schema
 export const ArticleRequestSchema = z.object({
   url: NormalizedUrlSchema,
   source: SourceSchema,
+  timestamp: SnapshotTimestampSchema.optional(),
+  // Skip the cache and fetch again (rate limited)
+  refresh: z.boolean().optional(),
 });
 export type ArticleRequest = z.infer<typeof ArticleRequestSchema>;
 
@@ -56,6 +68,38 @@ export const ArticleResponseSchema = z.object({
 });
 export type ArticleResponse = z.infer<typeof ArticleResponseSchema>;
 
+// Best-source request schema - `sources` is an optional comma-separated list of server sources
+export const BestArticleRequestSchema = z.object({
+  url: NormalizedUrlSchema,
+  sources: z.array(SourceSchema).min(1).optional(),
+});
+export type BestArticleRequest = z.infer<typeof BestArticleRequestSchema>;
+
+// Per-source outcome in a best-source response (best first, failed sources last)
+export const SourceScoreSchema = z.object({
+  source: SourceSchema,
+  status: z.enum(["success", "error"]),
+  quality: z.number().optional(),
+  length: z.number().int().nonnegative().optional(),
+  truncated: z.boolean().optional(),
+  boilerplateRatio: z.number().optional(),
+  cached: z.boolean().optional(),
+  error: z.string().optional(),
+});
+export type SourceScore = z.infer<typeof SourceScoreSchema>;
+
+// Best-source response schema - the winning article plus every source's score
+export const BestArticleResponseSchema = ArticleResponseSchema.extend({
+  scores: z.array(SourceScoreSchema),
+  // Metadata fields copied from a runner-up because the winner lacked them
+  filledFrom: z.object({
+    byline: SourceSchema.optional(),
+    image: SourceSchema.optional(),
+    publishedTime: SourceSchema.optional(),
+  }),
+});
+export type BestArticleResponse = z.infer<typeof BestArticleResponseSchema>;
+
 // Error response schema
 export const ErrorResponseSchema = z.object({
   error: z.string(),
@@ -82,6 +126,87 @@ export const SummaryResponseSchema = z.object({
 });
 export type SummaryResponse = z.infer<typeof SummaryResponseSchema>;
 
+// Wayback snapshot list request schema
+export const WaybackSnapshotsRequestSchema = z.object({
+  url: NormalizedUrlSchema,
+});
+export type WaybackSnapshotsRequest = z.infer<typeof WaybackSnapshotsRequestSchema>;
+
+// Single Wayback capture (from the CDX API)
+export const WaybackSnapshotSchema = z.object({
+  timestamp: z.string(),
+  original: z.string(),
+  statusCode: z.string(),
+  mimeType: z.string(),
+});
+export type WaybackSnapshot = z.infer<typeof WaybackSnapshotSchema>;
+
+// Wayback snapshot list response schema (newest first)
+export const WaybackSnapshotsResponseSchema = z.object({
+  url: z.string(),
+  snapshots: z.array(WaybackSnapshotSchema),
+});
+export type WaybackSnapshotsResponse = z.infer<typeof WaybackSnapshotsResponseSchema>;
+
+// Article revision list/content request schema (id selects one revision)
+export const RevisionsRequestSchema = z.object({
+  url: NormalizedUrlSchema,
+  id: z.string().regex(/^[a-f0-9]{16}$/, "Invalid revision id").optional(),
+});
+export type RevisionsRequest = z.infer<typeof RevisionsRequestSchema>;
+
+// One stored revision of an article (see lib/sources/revisions.ts)
+export const RevisionEntrySchema = z.object({
+  id: z.string(),
+  source: z.string(),
+  fetchedAt: z.string(),
+  title: z.string(),
+  length: z.number(),
+});
+export type RevisionEntry = z.infer<typeof RevisionEntrySchema>;
+
+// Article revision list response schema (newest first)
+export const RevisionsResponseSchema = z.object({
+  url: z.string(),
+  revisions: z.array(RevisionEntrySchema),
+});
+export type RevisionsResponse = z.infer<typeof RevisionsResponseSchema>;
+
+// Stored copy of a revision
+export const RevisionContentSchema = z.object({
+  title: z.string(),
+  byline: z.string().nullable().optional(),
+  publishedTime: z.string().nullable().optional(),
+  content: z.string(),
+  textContent: z.string(),
+});
+export type RevisionContent = z.infer<typeof RevisionContentSchema>;
+
+// Single revision response schema
+export const RevisionResponseSchema = z.object({
+  revision: RevisionEntrySchema,
+  article: RevisionContentSchema,
+});
+export type RevisionResponse = z.infer<typeof RevisionResponseSchema>;
+
+// Image proxy request schema - the image URL is used verbatim (query strings select sizes/crops),
+// so it isn't run through NormalizedUrlSchema; DNS checks happen when it is fetched
+export const ImageProxyRequestSchema = z.object({
+  url: z
+    .string()
+    .trim()
+    .max(4096, "Image URL must be 4096 characters or less")
+    .refine((value) => {
+      try {
+        const parsed = new URL(value);
+        return (parsed.protocol === "http:" || parsed.protocol === "https:") && !isPrivateIP(parsed.hostname);
+      } catch {
+        return false;
+      }
+    }, "Must be a public http(s) image URL"),
+});
+export type ImageProxyRequest = z.infer<typeof ImageProxyRequestSchema>;
+
 // Jina cache GET request schema
 export const JinaCacheRequestSchema = z.object({
   url: NormalizedUrlSchema,